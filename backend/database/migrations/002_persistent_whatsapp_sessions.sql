@@ -0,0 +1,18 @@
+-- Migration: Persistent WhatsApp sessions
+-- Description: Lets whatsapp_sessions back the Postgres session store (SESSION_STORE=postgres)
+-- Date: 2026-10-18
+
+-- The conversation flow has many more states than the original ones; validation lives in the app
+ALTER TABLE whatsapp_sessions
+DROP CONSTRAINT IF EXISTS valid_state;
+
+-- Tenant and customer the session belongs to
+ALTER TABLE whatsapp_sessions
+ADD COLUMN IF NOT EXISTS business_id UUID REFERENCES businesses(id) ON DELETE CASCADE;
+
+ALTER TABLE whatsapp_sessions
+ADD COLUMN IF NOT EXISTS customer_id UUID REFERENCES customers(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN whatsapp_sessions.state IS 'Estado de la conversación (ver ConversationStateSchema)';
+COMMENT ON COLUMN whatsapp_sessions.business_id IS 'Negocio al que pertenece la conversación';
+COMMENT ON COLUMN whatsapp_sessions.customer_id IS 'Cliente identificado en la conversación';
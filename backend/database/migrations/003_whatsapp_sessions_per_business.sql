@@ -0,0 +1,26 @@
+-- Migration: WhatsApp sessions per business
+-- Description: The same customer can talk to several businesses, so sessions are keyed by (business, phone)
+-- Date: 2026-10-18
+
+-- Store key used by the Postgres session store ("<business_id>:<phone>")
+ALTER TABLE whatsapp_sessions
+ADD COLUMN IF NOT EXISTS session_key VARCHAR(100);
+
+UPDATE whatsapp_sessions
+SET session_key = CASE
+  WHEN business_id IS NOT NULL THEN business_id::text || ':' || phone
+  ELSE phone
+END
+WHERE session_key IS NULL;
+
+ALTER TABLE whatsapp_sessions
+ALTER COLUMN session_key SET NOT NULL;
+
+-- A phone can now have one session per business
+ALTER TABLE whatsapp_sessions
+DROP CONSTRAINT IF EXISTS whatsapp_sessions_phone_key;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_whatsapp_sessions_session_key
+ON whatsapp_sessions(session_key);
+
+COMMENT ON COLUMN whatsapp_sessions.session_key IS 'Clave de la sesión: negocio + teléfono';
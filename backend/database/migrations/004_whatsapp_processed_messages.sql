@@ -0,0 +1,20 @@
+-- Migration: Processed WhatsApp messages ledger
+-- Description: Records inbound MessageSids so webhook retries are processed exactly once
+-- Date: 2026-10-18
+
+CREATE TABLE IF NOT EXISTS whatsapp_processed_messages (
+  message_sid VARCHAR(64) PRIMARY KEY,
+  business_id UUID NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  phone VARCHAR(20) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'processing',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  processed_at TIMESTAMP WITH TIME ZONE,
+
+  CONSTRAINT valid_processed_status CHECK (status IN ('processing', 'processed'))
+);
+
+COMMENT ON TABLE whatsapp_processed_messages IS 'Mensajes entrantes de WhatsApp ya procesados (idempotencia de webhooks)';
+COMMENT ON COLUMN whatsapp_processed_messages.status IS 'processing: en curso, processed: respondido';
+
+CREATE INDEX IF NOT EXISTS idx_whatsapp_processed_messages_created
+ON whatsapp_processed_messages(created_at);
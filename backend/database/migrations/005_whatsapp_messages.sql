@@ -0,0 +1,72 @@
+-- Migration: WhatsApp conversation log
+-- Description: Persists every inbound and outbound WhatsApp message per business/customer
+--              and exposes one row per conversation thread for the Messages inbox
+-- Date: 2026-10-18
+
+CREATE TABLE IF NOT EXISTS whatsapp_messages (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  business_id UUID NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  customer_id UUID REFERENCES customers(id) ON DELETE SET NULL,
+  phone VARCHAR(32) NOT NULL,
+  direction VARCHAR(10) NOT NULL,
+  body TEXT NOT NULL DEFAULT '',
+  provider VARCHAR(10) NOT NULL,
+  provider_message_id VARCHAR(128),
+  status VARCHAR(20) NOT NULL,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT valid_message_direction CHECK (direction IN ('inbound', 'outbound')),
+  CONSTRAINT valid_message_status CHECK (status IN ('received', 'queued', 'sent', 'delivered', 'read', 'failed'))
+);
+
+COMMENT ON TABLE whatsapp_messages IS 'Historial de mensajes de WhatsApp por negocio y cliente';
+COMMENT ON COLUMN whatsapp_messages.phone IS 'Teléfono del cliente (whatsapp:+...), identifica la conversación';
+COMMENT ON COLUMN whatsapp_messages.direction IS 'inbound: del cliente, outbound: enviado por el negocio o el bot';
+COMMENT ON COLUMN whatsapp_messages.provider_message_id IS 'MessageSid de Twilio o wamid de Meta';
+COMMENT ON COLUMN whatsapp_messages.status IS 'Estado de entrega informado por el proveedor';
+COMMENT ON COLUMN whatsapp_messages.read_at IS 'Cuándo se leyó el mensaje entrante en el panel (NULL = sin leer)';
+
+CREATE INDEX IF NOT EXISTS idx_whatsapp_messages_thread
+ON whatsapp_messages(business_id, phone, created_at DESC);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_whatsapp_messages_provider_id
+ON whatsapp_messages(provider, provider_message_id)
+WHERE provider_message_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_whatsapp_messages_unread
+ON whatsapp_messages(business_id, phone)
+WHERE direction = 'inbound' AND read_at IS NULL;
+
+CREATE TRIGGER update_whatsapp_messages_updated_at
+  BEFORE UPDATE ON whatsapp_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- One row per conversation with its last message and unread count
+CREATE OR REPLACE VIEW whatsapp_threads AS
+SELECT
+  last.business_id,
+  last.phone,
+  last.customer_id,
+  c.name AS customer_name,
+  last.body AS last_message,
+  last.direction AS last_direction,
+  last.created_at AS last_message_at,
+  (
+    SELECT COUNT(*)
+    FROM whatsapp_messages unread
+    WHERE unread.business_id = last.business_id
+      AND unread.phone = last.phone
+      AND unread.direction = 'inbound'
+      AND unread.read_at IS NULL
+  ) AS unread_count
+FROM (
+  SELECT DISTINCT ON (business_id, phone) *
+  FROM whatsapp_messages
+  ORDER BY business_id, phone, created_at DESC
+) last
+LEFT JOIN customers c ON c.phone = last.phone;
+
+COMMENT ON VIEW whatsapp_threads IS 'Conversaciones de WhatsApp: último mensaje y cantidad sin leer';
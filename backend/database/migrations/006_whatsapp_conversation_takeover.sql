@@ -0,0 +1,56 @@
+-- Migration: Human takeover of WhatsApp conversations
+-- Description: Per-conversation flag that pauses the bot while staff answer from the dashboard
+-- Date: 2026-10-18
+
+CREATE TABLE IF NOT EXISTS whatsapp_conversations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  business_id UUID NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  phone VARCHAR(32) NOT NULL,
+  bot_paused BOOLEAN NOT NULL DEFAULT false,
+  paused_at TIMESTAMP WITH TIME ZONE,
+  paused_by UUID,
+  takeover_requested_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT unique_whatsapp_conversation UNIQUE (business_id, phone)
+);
+
+COMMENT ON TABLE whatsapp_conversations IS 'Estado de cada conversación de WhatsApp (bot pausado por atención humana)';
+COMMENT ON COLUMN whatsapp_conversations.bot_paused IS 'true: el bot guarda los mensajes sin responder, atiende el personal';
+COMMENT ON COLUMN whatsapp_conversations.paused_by IS 'Usuario del panel que tomó la conversación (NULL si la pidió el cliente)';
+COMMENT ON COLUMN whatsapp_conversations.takeover_requested_at IS 'Cuándo el cliente pidió hablar con una persona';
+
+CREATE TRIGGER update_whatsapp_conversations_updated_at
+  BEFORE UPDATE ON whatsapp_conversations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Expose the takeover state in the inbox
+CREATE OR REPLACE VIEW whatsapp_threads AS
+SELECT
+  last.business_id,
+  last.phone,
+  last.customer_id,
+  c.name AS customer_name,
+  last.body AS last_message,
+  last.direction AS last_direction,
+  last.created_at AS last_message_at,
+  (
+    SELECT COUNT(*)
+    FROM whatsapp_messages unread
+    WHERE unread.business_id = last.business_id
+      AND unread.phone = last.phone
+      AND unread.direction = 'inbound'
+      AND unread.read_at IS NULL
+  ) AS unread_count,
+  COALESCE(conv.bot_paused, false) AS bot_paused,
+  conv.takeover_requested_at
+FROM (
+  SELECT DISTINCT ON (business_id, phone) *
+  FROM whatsapp_messages
+  ORDER BY business_id, phone, created_at DESC
+) last
+LEFT JOIN customers c ON c.phone = last.phone
+LEFT JOIN whatsapp_conversations conv
+  ON conv.business_id = last.business_id AND conv.phone = last.phone;
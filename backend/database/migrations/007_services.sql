@@ -0,0 +1,50 @@
+-- Migration: Service catalog
+-- Description: Services offered by each business (duration, price, buffer), the employees
+--              who perform them, and the service booked in each appointment
+-- Date: 2026-10-18
+
+CREATE TABLE IF NOT EXISTS services (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  business_id UUID NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  description TEXT,
+  duration_minutes INTEGER NOT NULL,
+  price NUMERIC(10, 2),
+  buffer_minutes INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT valid_service_duration CHECK (duration_minutes > 0),
+  CONSTRAINT valid_service_buffer CHECK (buffer_minutes >= 0),
+  CONSTRAINT valid_service_price CHECK (price IS NULL OR price >= 0)
+);
+
+COMMENT ON TABLE services IS 'Catálogo de servicios que ofrece cada negocio';
+COMMENT ON COLUMN services.duration_minutes IS 'Duración del turno; define los horarios disponibles y el end_time';
+COMMENT ON COLUMN services.buffer_minutes IS 'Tiempo libre después de cada turno (limpieza, preparación)';
+COMMENT ON COLUMN services.price IS 'Precio informado al cliente (NULL = sin precio publicado)';
+
+CREATE INDEX IF NOT EXISTS idx_services_business ON services(business_id);
+
+CREATE TABLE IF NOT EXISTS employee_services (
+  employee_id UUID NOT NULL REFERENCES employees(id) ON DELETE CASCADE,
+  service_id UUID NOT NULL REFERENCES services(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  PRIMARY KEY (employee_id, service_id)
+);
+
+COMMENT ON TABLE employee_services IS 'Servicios que realiza cada empleado';
+
+CREATE INDEX IF NOT EXISTS idx_employee_services_service ON employee_services(service_id);
+
+ALTER TABLE appointments
+ADD COLUMN IF NOT EXISTS service_id UUID REFERENCES services(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN appointments.service_id IS 'Servicio reservado (NULL en turnos anteriores al catálogo)';
+
+CREATE TRIGGER update_services_updated_at
+  BEFORE UPDATE ON services
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,9 @@
+-- Migration: Employee priority for "any professional" bookings
+-- Description: Order used by the "priority" assignment strategy when a customer books with
+--              whoever is free (businesses.settings.assignment_strategy)
+-- Date: 2026-10-18
+
+ALTER TABLE employees
+ADD COLUMN IF NOT EXISTS priority INTEGER NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN employees.priority IS 'Orden para asignar turnos "con cualquiera" (menor = primero)';
@@ -0,0 +1,9 @@
+-- Migration: Business timezone
+-- Description: IANA timezone in which each business's hours, slots, natural-language dates
+--              and customer-facing times are computed; appointments are still stored in UTC
+-- Date: 2026-10-18
+
+ALTER TABLE businesses
+ADD COLUMN IF NOT EXISTS timezone VARCHAR(64) NOT NULL DEFAULT 'America/Argentina/Buenos_Aires';
+
+COMMENT ON COLUMN businesses.timezone IS 'Zona horaria IANA del negocio (ej: America/Argentina/Buenos_Aires)';
@@ -0,0 +1,45 @@
+-- Migration: Waitlist
+-- Description: Customers waiting for a slot on a fully booked day; when an appointment is
+--              cancelled the matching entries are offered the freed slot for a limited time
+-- Date: 2026-10-18
+
+CREATE TABLE IF NOT EXISTS waitlist_entries (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  business_id UUID NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+  employee_id UUID REFERENCES employees(id) ON DELETE CASCADE,
+  service_id UUID REFERENCES services(id) ON DELETE SET NULL,
+  date DATE NOT NULL,
+  time_window_start TIME,
+  time_window_end TIME,
+  duration_minutes INTEGER NOT NULL DEFAULT 60,
+  status VARCHAR(20) NOT NULL DEFAULT 'waiting',
+  offered_start_time TIMESTAMP WITH TIME ZONE,
+  offered_end_time TIMESTAMP WITH TIME ZONE,
+  offered_employee_id UUID REFERENCES employees(id) ON DELETE SET NULL,
+  offer_expires_at TIMESTAMP WITH TIME ZONE,
+  appointment_id UUID REFERENCES appointments(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT valid_waitlist_status CHECK (status IN ('waiting', 'offered', 'booked', 'expired', 'cancelled')),
+  CONSTRAINT valid_waitlist_duration CHECK (duration_minutes > 0),
+  CONSTRAINT valid_waitlist_window CHECK (
+    (time_window_start IS NULL AND time_window_end IS NULL) OR time_window_end > time_window_start
+  )
+);
+
+COMMENT ON TABLE waitlist_entries IS 'Lista de espera: clientes que quieren un turno en un día sin horarios libres';
+COMMENT ON COLUMN waitlist_entries.employee_id IS 'Profesional pedido (NULL = cualquiera)';
+COMMENT ON COLUMN waitlist_entries.date IS 'Día pedido, en la zona horaria del negocio';
+COMMENT ON COLUMN waitlist_entries.time_window_start IS 'Franja horaria aceptada (NULL = todo el día)';
+COMMENT ON COLUMN waitlist_entries.status IS 'Estados: waiting, offered, booked, expired, cancelled';
+COMMENT ON COLUMN waitlist_entries.offer_expires_at IS 'Hasta cuándo puede aceptar el lugar ofrecido';
+
+CREATE INDEX IF NOT EXISTS idx_waitlist_entries_lookup ON waitlist_entries(business_id, date, status);
+CREATE INDEX IF NOT EXISTS idx_waitlist_entries_customer ON waitlist_entries(customer_id);
+
+CREATE TRIGGER update_waitlist_entries_updated_at
+  BEFORE UPDATE ON waitlist_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,15 @@
+-- Migration: Group classes
+-- Description: Services with more than one seat per slot (yoga, spinning, funcional...).
+--              Each booking is still one appointment; the appointments of the same
+--              professional, service and start time make up a class and share its seats
+-- Date: 2026-10-18
+
+ALTER TABLE services
+ADD COLUMN IF NOT EXISTS capacity INTEGER NOT NULL DEFAULT 1 CHECK (capacity > 0);
+
+COMMENT ON COLUMN services.capacity IS 'Lugares por turno: 1 = turno individual, más de 1 = clase grupal';
+
+ALTER TABLE appointments
+ADD COLUMN IF NOT EXISTS checked_in_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN appointments.checked_in_at IS 'Momento en que se registró la asistencia del cliente';
@@ -0,0 +1,45 @@
+-- Migration: Recurring appointments
+-- Description: Series of appointments repeated weekly, every two weeks or monthly until a
+--              date or a number of occurrences. Each occurrence is a regular appointment
+--              linked to its series, so it can be edited or cancelled on its own
+-- Date: 2026-10-18
+
+CREATE TABLE IF NOT EXISTS appointment_series (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  business_id UUID NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+  employee_id UUID NOT NULL REFERENCES employees(id) ON DELETE CASCADE,
+  service_id UUID REFERENCES services(id) ON DELETE SET NULL,
+  frequency VARCHAR(20) NOT NULL,
+  start_time TIMESTAMP WITH TIME ZONE NOT NULL,
+  end_time TIMESTAMP WITH TIME ZONE NOT NULL,
+  until_date DATE,
+  occurrence_count INTEGER,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT valid_series_frequency CHECK (frequency IN ('weekly', 'biweekly', 'monthly')),
+  CONSTRAINT valid_series_time_range CHECK (end_time > start_time),
+  CONSTRAINT valid_series_limit CHECK (until_date IS NOT NULL OR occurrence_count IS NOT NULL)
+);
+
+COMMENT ON TABLE appointment_series IS 'Reglas de repetición de turnos (cada semana, cada dos semanas, cada mes)';
+COMMENT ON COLUMN appointment_series.start_time IS 'Primer turno de la serie; los siguientes mantienen su hora de pared';
+COMMENT ON COLUMN appointment_series.until_date IS 'Último día (inclusive) en el negocio; NULL si la serie se limita por cantidad';
+COMMENT ON COLUMN appointment_series.occurrence_count IS 'Cantidad de repeticiones pedidas; NULL si se limita por fecha';
+
+CREATE INDEX IF NOT EXISTS idx_appointment_series_business ON appointment_series(business_id);
+CREATE INDEX IF NOT EXISTS idx_appointment_series_customer ON appointment_series(customer_id);
+
+ALTER TABLE appointments
+ADD COLUMN IF NOT EXISTS series_id UUID REFERENCES appointment_series(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN appointments.series_id IS 'Serie de la que forma parte el turno (NULL = turno suelto)';
+
+CREATE INDEX IF NOT EXISTS idx_appointments_series ON appointments(series_id);
+
+CREATE TRIGGER update_appointment_series_updated_at
+  BEFORE UPDATE ON appointment_series
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,42 @@
+-- Migration: Availability exceptions
+-- Description: Date-specific changes on top of the weekly availability, per employee or for
+--              the whole business: closed all day, closed some hours, or extra hours
+--              (vacations, holidays, "open this Sunday")
+-- Date: 2026-10-18
+
+CREATE TABLE IF NOT EXISTS availability_exceptions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  business_id UUID NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  employee_id UUID REFERENCES employees(id) ON DELETE CASCADE,
+  type VARCHAR(20) NOT NULL,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  start_time TIME,
+  end_time TIME,
+  reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT valid_exception_type CHECK (type IN ('closed', 'extra_hours')),
+  CONSTRAINT valid_exception_date_range CHECK (end_date >= start_date),
+  CONSTRAINT valid_exception_hours CHECK (
+    (start_time IS NULL AND end_time IS NULL AND type = 'closed')
+    OR (start_time IS NOT NULL AND end_time IS NOT NULL AND end_time > start_time)
+  )
+);
+
+COMMENT ON TABLE availability_exceptions IS 'Excepciones por fecha a los horarios semanales (vacaciones, feriados, horas extra)';
+COMMENT ON COLUMN availability_exceptions.employee_id IS 'Profesional afectado; NULL = todo el negocio';
+COMMENT ON COLUMN availability_exceptions.type IS 'closed = no atiende, extra_hours = atiende además del horario semanal';
+COMMENT ON COLUMN availability_exceptions.start_date IS 'Primer día (inclusive) en la zona horaria del negocio';
+COMMENT ON COLUMN availability_exceptions.end_date IS 'Último día (inclusive) en la zona horaria del negocio';
+COMMENT ON COLUMN availability_exceptions.start_time IS 'Hora de pared en que empieza; NULL en closed = todo el día';
+
+CREATE INDEX IF NOT EXISTS idx_availability_exceptions_business_dates
+  ON availability_exceptions(business_id, start_date, end_date);
+CREATE INDEX IF NOT EXISTS idx_availability_exceptions_employee ON availability_exceptions(employee_id);
+
+CREATE TRIGGER update_availability_exceptions_updated_at
+  BEFORE UPDATE ON availability_exceptions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,15 @@
+-- Migration: Reminder responses
+-- Description: What the customer answered to the WhatsApp reminder of an appointment
+--              (confirmed they are coming, or said they can't make it), so staff can see
+--              it from the dashboard
+-- Date: 2026-10-18
+
+ALTER TABLE appointments
+ADD COLUMN IF NOT EXISTS reminder_response VARCHAR(20),
+ADD COLUMN IF NOT EXISTS reminder_responded_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE appointments
+ADD CONSTRAINT valid_reminder_response CHECK (reminder_response IN ('confirmed', 'declined'));
+
+COMMENT ON COLUMN appointments.reminder_response IS 'Respuesta al recordatorio: confirmed (asiste) o declined (no puede ir); NULL = sin respuesta';
+COMMENT ON COLUMN appointments.reminder_responded_at IS 'Momento de la última respuesta al recordatorio';
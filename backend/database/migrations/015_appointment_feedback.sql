@@ -0,0 +1,31 @@
+-- Migration: Appointment feedback
+-- Description: Rating (1 a 5) and optional comment the customer sends on WhatsApp after a
+--              completed appointment. One row per appointment; employee_id is copied so
+--              satisfaction can be aggregated per professional
+-- Date: 2026-10-18
+
+CREATE TABLE IF NOT EXISTS appointment_feedback (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  business_id UUID NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  appointment_id UUID NOT NULL UNIQUE REFERENCES appointments(id) ON DELETE CASCADE,
+  customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+  employee_id UUID REFERENCES employees(id) ON DELETE SET NULL,
+  rating INTEGER NOT NULL,
+  comment TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT valid_feedback_rating CHECK (rating BETWEEN 1 AND 5)
+);
+
+COMMENT ON TABLE appointment_feedback IS 'Calificaciones que dejan los clientes después de un turno completado';
+COMMENT ON COLUMN appointment_feedback.rating IS 'Calificación de 1 (muy mala) a 5 (excelente)';
+COMMENT ON COLUMN appointment_feedback.employee_id IS 'Profesional que atendió el turno, para los promedios por profesional';
+
+CREATE INDEX IF NOT EXISTS idx_appointment_feedback_business ON appointment_feedback(business_id);
+CREATE INDEX IF NOT EXISTS idx_appointment_feedback_employee ON appointment_feedback(employee_id);
+
+CREATE TRIGGER update_appointment_feedback_updated_at
+  BEFORE UPDATE ON appointment_feedback
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,32 @@
+-- Migration: Customer messaging consent
+-- Description: Whether each customer accepts messages that the business starts (reminders,
+--              follow-ups, waitlist offers), per business, with when and how it was given
+--              or withdrawn. Without a row the customer has not opted out
+-- Date: 2026-10-18
+
+CREATE TABLE IF NOT EXISTS customer_consents (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  business_id UUID NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+  status VARCHAR(20) NOT NULL,
+  source VARCHAR(30) NOT NULL,
+  changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT unique_customer_consent UNIQUE (business_id, customer_id),
+  CONSTRAINT valid_consent_status CHECK (status IN ('opted_in', 'opted_out')),
+  CONSTRAINT valid_consent_source CHECK (source IN ('whatsapp_signup', 'whatsapp_keyword'))
+);
+
+COMMENT ON TABLE customer_consents IS 'Consentimiento de cada cliente para recibir mensajes del negocio';
+COMMENT ON COLUMN customer_consents.status IS 'opted_in: acepta mensajes; opted_out: pidió la baja (BAJA/STOP)';
+COMMENT ON COLUMN customer_consents.source IS 'whatsapp_signup: se registró por WhatsApp; whatsapp_keyword: escribió BAJA/STOP o ALTA/START';
+COMMENT ON COLUMN customer_consents.changed_at IS 'Cuándo se dio o se retiró el consentimiento';
+
+CREATE INDEX IF NOT EXISTS idx_customer_consents_customer ON customer_consents(customer_id);
+
+CREATE TRIGGER update_customer_consents_updated_at
+  BEFORE UPDATE ON customer_consents
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,34 @@
+-- Migration: Customer data requests
+-- Description: Export and erasure of a customer's personal data (data-subject requests).
+--              Erasure anonymizes the customer row instead of deleting it, so appointments
+--              still count in the business statistics. Every request is logged
+-- Date: 2026-10-18
+
+ALTER TABLE customers
+ADD COLUMN IF NOT EXISTS erased_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN customers.erased_at IS 'Cuándo se anonimizaron los datos personales del cliente (NULL = no se borraron)';
+
+-- Erasure leaves the customer opted out everywhere, so queued reminders and follow-ups are skipped
+ALTER TABLE customer_consents DROP CONSTRAINT IF EXISTS valid_consent_source;
+ALTER TABLE customer_consents
+ADD CONSTRAINT valid_consent_source CHECK (source IN ('whatsapp_signup', 'whatsapp_keyword', 'erasure'));
+
+CREATE TABLE IF NOT EXISTS customer_data_requests (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  business_id UUID REFERENCES businesses(id) ON DELETE SET NULL,
+  customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+  type VARCHAR(10) NOT NULL,
+  source VARCHAR(10) NOT NULL,
+  requested_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT valid_data_request_type CHECK (type IN ('export', 'erasure')),
+  CONSTRAINT valid_data_request_source CHECK (source IN ('dashboard', 'whatsapp'))
+);
+
+COMMENT ON TABLE customer_data_requests IS 'Registro de exportaciones y borrados de datos personales de clientes';
+COMMENT ON COLUMN customer_data_requests.source IS 'dashboard: pedido desde el panel; whatsapp: lo pidió el cliente por el bot';
+COMMENT ON COLUMN customer_data_requests.requested_by IS 'Usuario del panel que hizo el pedido (NULL si lo pidió el cliente)';
+
+CREATE INDEX IF NOT EXISTS idx_customer_data_requests_customer ON customer_data_requests(customer_id);
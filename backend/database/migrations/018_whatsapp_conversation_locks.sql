@@ -0,0 +1,13 @@
+-- Migration: WhatsApp conversation locks
+-- Description: Lets several backend instances sharing the Postgres session store process
+--              one message of a conversation at a time. Locks expire on their own
+-- Date: 2026-10-18
+
+CREATE TABLE IF NOT EXISTS whatsapp_conversation_locks (
+  lock_key VARCHAR(128) PRIMARY KEY,
+  token VARCHAR(64) NOT NULL,
+  locked_until TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+COMMENT ON TABLE whatsapp_conversation_locks IS 'Conversación de WhatsApp en proceso en alguna instancia (negocio:teléfono)';
+COMMENT ON COLUMN whatsapp_conversation_locks.locked_until IS 'Vencido, otra instancia puede tomar la conversación';
@@ -15,6 +15,7 @@ CREATE TABLE IF NOT EXISTS businesses (
   industry VARCHAR(100),
   settings JSONB DEFAULT '{}',
   plan VARCHAR(50) DEFAULT 'basic',
+  timezone VARCHAR(64) NOT NULL DEFAULT 'America/Argentina/Buenos_Aires',
   -- WhatsApp configuration
   whatsapp_phone_number_id VARCHAR(50),
   whatsapp_phone_number VARCHAR(20),
@@ -24,8 +25,9 @@ CREATE TABLE IF NOT EXISTS businesses (
 );
 
 COMMENT ON TABLE businesses IS 'Negocios que utilizan el sistema';
-COMMENT ON COLUMN businesses.settings IS 'Configuraciones personalizadas del negocio en formato JSON';
+COMMENT ON COLUMN businesses.settings IS 'Configuraciones personalizadas del negocio en formato JSON (assignment_strategy: least_booked, round_robin, priority)';
 COMMENT ON COLUMN businesses.plan IS 'Plan de suscripción: basic, pro, enterprise';
+COMMENT ON COLUMN businesses.timezone IS 'Zona horaria IANA del negocio (ej: America/Argentina/Buenos_Aires)';
 COMMENT ON COLUMN businesses.whatsapp_phone_number_id IS 'Meta WhatsApp Business API Phone Number ID';
 COMMENT ON COLUMN businesses.whatsapp_phone_number IS 'WhatsApp phone number for display';
 COMMENT ON COLUMN businesses.whatsapp_enabled IS 'Whether WhatsApp messaging is enabled';
@@ -46,16 +48,63 @@ CREATE TABLE IF NOT EXISTS employees (
   email VARCHAR(255),
   role VARCHAR(100),
   is_active BOOLEAN DEFAULT true,
+  priority INTEGER NOT NULL DEFAULT 0,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
 COMMENT ON TABLE employees IS 'Empleados o profesionales que atienden turnos';
 COMMENT ON COLUMN employees.is_active IS 'Indica si el empleado está activo y puede recibir turnos';
+COMMENT ON COLUMN employees.priority IS 'Orden para asignar turnos "con cualquiera" (menor = primero)';
 
 CREATE INDEX idx_employees_business ON employees(business_id);
 CREATE INDEX idx_employees_active ON employees(is_active) WHERE is_active = true;
 
+-- ============================================
+-- TABLE: services
+-- ============================================
+CREATE TABLE IF NOT EXISTS services (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  business_id UUID NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  description TEXT,
+  duration_minutes INTEGER NOT NULL,
+  price NUMERIC(10, 2),
+  buffer_minutes INTEGER NOT NULL DEFAULT 0,
+  capacity INTEGER NOT NULL DEFAULT 1,
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT valid_service_duration CHECK (duration_minutes > 0),
+  CONSTRAINT valid_service_buffer CHECK (buffer_minutes >= 0),
+  CONSTRAINT valid_service_price CHECK (price IS NULL OR price >= 0),
+  CONSTRAINT valid_service_capacity CHECK (capacity > 0)
+);
+
+COMMENT ON TABLE services IS 'Catálogo de servicios que ofrece cada negocio';
+COMMENT ON COLUMN services.duration_minutes IS 'Duración del turno; define los horarios disponibles y el end_time';
+COMMENT ON COLUMN services.buffer_minutes IS 'Tiempo libre después de cada turno (limpieza, preparación)';
+COMMENT ON COLUMN services.price IS 'Precio informado al cliente (NULL = sin precio publicado)';
+COMMENT ON COLUMN services.capacity IS 'Lugares por turno: 1 = turno individual, más de 1 = clase grupal';
+
+CREATE INDEX idx_services_business ON services(business_id);
+
+-- ============================================
+-- TABLE: employee_services
+-- ============================================
+CREATE TABLE IF NOT EXISTS employee_services (
+  employee_id UUID NOT NULL REFERENCES employees(id) ON DELETE CASCADE,
+  service_id UUID NOT NULL REFERENCES services(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  PRIMARY KEY (employee_id, service_id)
+);
+
+COMMENT ON TABLE employee_services IS 'Servicios que realiza cada empleado';
+
+CREATE INDEX idx_employee_services_service ON employee_services(service_id);
+
 -- ============================================
 -- TABLE: customers
 -- ============================================
@@ -65,15 +114,95 @@ CREATE TABLE IF NOT EXISTS customers (
   name VARCHAR(255),
   email VARCHAR(255),
   notes TEXT,
+  erased_at TIMESTAMP WITH TIME ZONE,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
 COMMENT ON TABLE customers IS 'Clientes que solicitan turnos';
 COMMENT ON COLUMN customers.notes IS 'Notas internas sobre el cliente';
+COMMENT ON COLUMN customers.erased_at IS 'Cuándo se anonimizaron los datos personales del cliente (NULL = no se borraron)';
 
 CREATE INDEX idx_customers_phone ON customers(phone);
 
+-- ============================================
+-- TABLE: customer_consents
+-- ============================================
+CREATE TABLE IF NOT EXISTS customer_consents (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  business_id UUID NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+  status VARCHAR(20) NOT NULL,
+  source VARCHAR(30) NOT NULL,
+  changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT unique_customer_consent UNIQUE (business_id, customer_id),
+  CONSTRAINT valid_consent_status CHECK (status IN ('opted_in', 'opted_out')),
+  CONSTRAINT valid_consent_source CHECK (source IN ('whatsapp_signup', 'whatsapp_keyword', 'erasure'))
+);
+
+COMMENT ON TABLE customer_consents IS 'Consentimiento de cada cliente para recibir mensajes del negocio';
+COMMENT ON COLUMN customer_consents.status IS 'opted_in: acepta mensajes; opted_out: pidió la baja (BAJA/STOP)';
+COMMENT ON COLUMN customer_consents.source IS 'whatsapp_signup: se registró por WhatsApp; whatsapp_keyword: escribió BAJA/STOP o ALTA/START; erasure: se borraron sus datos';
+COMMENT ON COLUMN customer_consents.changed_at IS 'Cuándo se dio o se retiró el consentimiento';
+
+CREATE INDEX idx_customer_consents_customer ON customer_consents(customer_id);
+
+-- ============================================
+-- TABLE: customer_data_requests
+-- ============================================
+CREATE TABLE IF NOT EXISTS customer_data_requests (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  business_id UUID REFERENCES businesses(id) ON DELETE SET NULL,
+  customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+  type VARCHAR(10) NOT NULL,
+  source VARCHAR(10) NOT NULL,
+  requested_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT valid_data_request_type CHECK (type IN ('export', 'erasure')),
+  CONSTRAINT valid_data_request_source CHECK (source IN ('dashboard', 'whatsapp'))
+);
+
+COMMENT ON TABLE customer_data_requests IS 'Registro de exportaciones y borrados de datos personales de clientes';
+COMMENT ON COLUMN customer_data_requests.source IS 'dashboard: pedido desde el panel; whatsapp: lo pidió el cliente por el bot';
+COMMENT ON COLUMN customer_data_requests.requested_by IS 'Usuario del panel que hizo el pedido (NULL si lo pidió el cliente)';
+
+CREATE INDEX idx_customer_data_requests_customer ON customer_data_requests(customer_id);
+
+-- ============================================
+-- TABLE: appointment_series
+-- ============================================
+CREATE TABLE IF NOT EXISTS appointment_series (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  business_id UUID NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+  employee_id UUID NOT NULL REFERENCES employees(id) ON DELETE CASCADE,
+  service_id UUID REFERENCES services(id) ON DELETE SET NULL,
+  frequency VARCHAR(20) NOT NULL,
+  start_time TIMESTAMP WITH TIME ZONE NOT NULL,
+  end_time TIMESTAMP WITH TIME ZONE NOT NULL,
+  until_date DATE,
+  occurrence_count INTEGER,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT valid_series_frequency CHECK (frequency IN ('weekly', 'biweekly', 'monthly')),
+  CONSTRAINT valid_series_time_range CHECK (end_time > start_time),
+  CONSTRAINT valid_series_limit CHECK (until_date IS NOT NULL OR occurrence_count IS NOT NULL)
+);
+
+COMMENT ON TABLE appointment_series IS 'Reglas de repetición de turnos (cada semana, cada dos semanas, cada mes)';
+COMMENT ON COLUMN appointment_series.start_time IS 'Primer turno de la serie; los siguientes mantienen su hora de pared';
+COMMENT ON COLUMN appointment_series.until_date IS 'Último día (inclusive) en el negocio; NULL si la serie se limita por cantidad';
+COMMENT ON COLUMN appointment_series.occurrence_count IS 'Cantidad de repeticiones pedidas; NULL si se limita por fecha';
+
+CREATE INDEX idx_appointment_series_business ON appointment_series(business_id);
+CREATE INDEX idx_appointment_series_customer ON appointment_series(customer_id);
+
 -- ============================================
 -- TABLE: appointments
 -- ============================================
@@ -82,25 +211,60 @@ CREATE TABLE IF NOT EXISTS appointments (
   business_id UUID NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
   employee_id UUID NOT NULL REFERENCES employees(id) ON DELETE CASCADE,
   customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+  service_id UUID REFERENCES services(id) ON DELETE SET NULL,
   start_time TIMESTAMP WITH TIME ZONE NOT NULL,
   end_time TIMESTAMP WITH TIME ZONE NOT NULL,
   status VARCHAR(50) DEFAULT 'pending',
   notes TEXT,
+  checked_in_at TIMESTAMP WITH TIME ZONE,
+  series_id UUID REFERENCES appointment_series(id) ON DELETE SET NULL,
+  reminder_response VARCHAR(20),
+  reminder_responded_at TIMESTAMP WITH TIME ZONE,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
 
   CONSTRAINT valid_time_range CHECK (end_time > start_time),
-  CONSTRAINT valid_status CHECK (status IN ('pending', 'confirmed', 'cancelled', 'completed', 'no_show'))
+  CONSTRAINT valid_status CHECK (status IN ('pending', 'confirmed', 'cancelled', 'completed', 'no_show')),
+  CONSTRAINT valid_reminder_response CHECK (reminder_response IN ('confirmed', 'declined'))
 );
 
 COMMENT ON TABLE appointments IS 'Turnos o citas programadas';
 COMMENT ON COLUMN appointments.status IS 'Estados: pending, confirmed, cancelled, completed, no_show';
+COMMENT ON COLUMN appointments.checked_in_at IS 'Momento en que se registró la asistencia del cliente';
+COMMENT ON COLUMN appointments.series_id IS 'Serie de la que forma parte el turno (NULL = turno suelto)';
+COMMENT ON COLUMN appointments.reminder_response IS 'Respuesta al recordatorio: confirmed (asiste) o declined (no puede ir); NULL = sin respuesta';
+COMMENT ON COLUMN appointments.reminder_responded_at IS 'Momento de la última respuesta al recordatorio';
 
 CREATE INDEX idx_appointments_business ON appointments(business_id);
 CREATE INDEX idx_appointments_employee ON appointments(employee_id);
 CREATE INDEX idx_appointments_customer ON appointments(customer_id);
 CREATE INDEX idx_appointments_start_time ON appointments(start_time);
 CREATE INDEX idx_appointments_status ON appointments(status);
+CREATE INDEX idx_appointments_series ON appointments(series_id);
+
+-- ============================================
+-- TABLE: appointment_feedback
+-- ============================================
+CREATE TABLE IF NOT EXISTS appointment_feedback (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  business_id UUID NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  appointment_id UUID NOT NULL UNIQUE REFERENCES appointments(id) ON DELETE CASCADE,
+  customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+  employee_id UUID REFERENCES employees(id) ON DELETE SET NULL,
+  rating INTEGER NOT NULL,
+  comment TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT valid_feedback_rating CHECK (rating BETWEEN 1 AND 5)
+);
+
+COMMENT ON TABLE appointment_feedback IS 'Calificaciones que dejan los clientes después de un turno completado';
+COMMENT ON COLUMN appointment_feedback.rating IS 'Calificación de 1 (muy mala) a 5 (excelente)';
+COMMENT ON COLUMN appointment_feedback.employee_id IS 'Profesional que atendió el turno, para los promedios por profesional';
+
+CREATE INDEX idx_appointment_feedback_business ON appointment_feedback(business_id);
+CREATE INDEX idx_appointment_feedback_employee ON appointment_feedback(employee_id);
 
 -- ============================================
 -- TABLE: availability
@@ -126,28 +290,193 @@ COMMENT ON COLUMN availability.slot_duration_minutes IS 'Duración de cada slot
 CREATE INDEX idx_availability_employee ON availability(employee_id);
 CREATE INDEX idx_availability_day ON availability(day_of_week);
 
+-- ============================================
+-- TABLE: availability_exceptions
+-- ============================================
+CREATE TABLE IF NOT EXISTS availability_exceptions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  business_id UUID NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  employee_id UUID REFERENCES employees(id) ON DELETE CASCADE,
+  type VARCHAR(20) NOT NULL,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  start_time TIME,
+  end_time TIME,
+  reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT valid_exception_type CHECK (type IN ('closed', 'extra_hours')),
+  CONSTRAINT valid_exception_date_range CHECK (end_date >= start_date),
+  CONSTRAINT valid_exception_hours CHECK (
+    (start_time IS NULL AND end_time IS NULL AND type = 'closed')
+    OR (start_time IS NOT NULL AND end_time IS NOT NULL AND end_time > start_time)
+  )
+);
+
+COMMENT ON TABLE availability_exceptions IS 'Excepciones por fecha a los horarios semanales (vacaciones, feriados, horas extra)';
+COMMENT ON COLUMN availability_exceptions.employee_id IS 'Profesional afectado; NULL = todo el negocio';
+COMMENT ON COLUMN availability_exceptions.type IS 'closed = no atiende, extra_hours = atiende además del horario semanal';
+COMMENT ON COLUMN availability_exceptions.start_date IS 'Primer día (inclusive) en la zona horaria del negocio';
+COMMENT ON COLUMN availability_exceptions.end_date IS 'Último día (inclusive) en la zona horaria del negocio';
+COMMENT ON COLUMN availability_exceptions.start_time IS 'Hora de pared en que empieza; NULL en closed = todo el día';
+
+CREATE INDEX idx_availability_exceptions_business_dates
+  ON availability_exceptions(business_id, start_date, end_date);
+CREATE INDEX idx_availability_exceptions_employee ON availability_exceptions(employee_id);
+
 -- ============================================
 -- TABLE: whatsapp_sessions
 -- ============================================
 CREATE TABLE IF NOT EXISTS whatsapp_sessions (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
-  phone VARCHAR(20) NOT NULL UNIQUE,
+  session_key VARCHAR(100) NOT NULL UNIQUE,
+  phone VARCHAR(20) NOT NULL,
   state VARCHAR(50) NOT NULL DEFAULT 'initial',
   data JSONB DEFAULT '{}',
+  business_id UUID REFERENCES businesses(id) ON DELETE CASCADE,
+  customer_id UUID REFERENCES customers(id) ON DELETE SET NULL,
   last_activity TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-
-  CONSTRAINT valid_state CHECK (state IN ('initial', 'selecting_employee', 'selecting_date', 'selecting_time', 'confirming', 'completed'))
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
 COMMENT ON TABLE whatsapp_sessions IS 'Estado de conversaciones activas de WhatsApp';
-COMMENT ON COLUMN whatsapp_sessions.state IS 'Estados: initial, selecting_employee, selecting_date, selecting_time, confirming, completed';
+COMMENT ON COLUMN whatsapp_sessions.state IS 'Estado de la conversación (ver ConversationStateSchema)';
+COMMENT ON COLUMN whatsapp_sessions.session_key IS 'Clave de la sesión: negocio + teléfono';
 COMMENT ON COLUMN whatsapp_sessions.data IS 'Datos temporales de la sesión en formato JSON';
 
 CREATE INDEX idx_whatsapp_sessions_phone ON whatsapp_sessions(phone);
 CREATE INDEX idx_whatsapp_sessions_last_activity ON whatsapp_sessions(last_activity);
 
+-- ============================================
+-- TABLE: whatsapp_processed_messages
+-- ============================================
+CREATE TABLE IF NOT EXISTS whatsapp_processed_messages (
+  message_sid VARCHAR(64) PRIMARY KEY,
+  business_id UUID NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  phone VARCHAR(20) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'processing',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  processed_at TIMESTAMP WITH TIME ZONE,
+
+  CONSTRAINT valid_processed_status CHECK (status IN ('processing', 'processed'))
+);
+
+COMMENT ON TABLE whatsapp_processed_messages IS 'Mensajes entrantes de WhatsApp ya procesados (idempotencia de webhooks)';
+COMMENT ON COLUMN whatsapp_processed_messages.status IS 'processing: en curso, processed: respondido';
+
+CREATE INDEX idx_whatsapp_processed_messages_created ON whatsapp_processed_messages(created_at);
+
+-- ============================================
+-- TABLE: whatsapp_conversation_locks
+-- ============================================
+CREATE TABLE IF NOT EXISTS whatsapp_conversation_locks (
+  lock_key VARCHAR(128) PRIMARY KEY,
+  token VARCHAR(64) NOT NULL,
+  locked_until TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+COMMENT ON TABLE whatsapp_conversation_locks IS 'Conversación de WhatsApp en proceso en alguna instancia (negocio:teléfono)';
+COMMENT ON COLUMN whatsapp_conversation_locks.locked_until IS 'Vencido, otra instancia puede tomar la conversación';
+
+-- ============================================
+-- TABLE: whatsapp_messages
+-- ============================================
+CREATE TABLE IF NOT EXISTS whatsapp_messages (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  business_id UUID NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  customer_id UUID REFERENCES customers(id) ON DELETE SET NULL,
+  phone VARCHAR(32) NOT NULL,
+  direction VARCHAR(10) NOT NULL,
+  body TEXT NOT NULL DEFAULT '',
+  provider VARCHAR(10) NOT NULL,
+  provider_message_id VARCHAR(128),
+  status VARCHAR(20) NOT NULL,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT valid_message_direction CHECK (direction IN ('inbound', 'outbound')),
+  CONSTRAINT valid_message_status CHECK (status IN ('received', 'queued', 'sent', 'delivered', 'read', 'failed'))
+);
+
+COMMENT ON TABLE whatsapp_messages IS 'Historial de mensajes de WhatsApp por negocio y cliente';
+COMMENT ON COLUMN whatsapp_messages.phone IS 'Teléfono del cliente (whatsapp:+...), identifica la conversación';
+COMMENT ON COLUMN whatsapp_messages.direction IS 'inbound: del cliente, outbound: enviado por el negocio o el bot';
+COMMENT ON COLUMN whatsapp_messages.provider_message_id IS 'MessageSid de Twilio o wamid de Meta';
+COMMENT ON COLUMN whatsapp_messages.status IS 'Estado de entrega informado por el proveedor';
+COMMENT ON COLUMN whatsapp_messages.read_at IS 'Cuándo se leyó el mensaje entrante en el panel (NULL = sin leer)';
+
+CREATE INDEX idx_whatsapp_messages_thread ON whatsapp_messages(business_id, phone, created_at DESC);
+
+CREATE UNIQUE INDEX idx_whatsapp_messages_provider_id ON whatsapp_messages(provider, provider_message_id)
+WHERE provider_message_id IS NOT NULL;
+
+CREATE INDEX idx_whatsapp_messages_unread ON whatsapp_messages(business_id, phone)
+WHERE direction = 'inbound' AND read_at IS NULL;
+
+-- ============================================
+-- TABLE: whatsapp_conversations
+-- ============================================
+CREATE TABLE IF NOT EXISTS whatsapp_conversations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  business_id UUID NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  phone VARCHAR(32) NOT NULL,
+  bot_paused BOOLEAN NOT NULL DEFAULT false,
+  paused_at TIMESTAMP WITH TIME ZONE,
+  paused_by UUID,
+  takeover_requested_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT unique_whatsapp_conversation UNIQUE (business_id, phone)
+);
+
+COMMENT ON TABLE whatsapp_conversations IS 'Estado de cada conversación de WhatsApp (bot pausado por atención humana)';
+COMMENT ON COLUMN whatsapp_conversations.bot_paused IS 'true: el bot guarda los mensajes sin responder, atiende el personal';
+COMMENT ON COLUMN whatsapp_conversations.paused_by IS 'Usuario del panel que tomó la conversación (NULL si la pidió el cliente)';
+COMMENT ON COLUMN whatsapp_conversations.takeover_requested_at IS 'Cuándo el cliente pidió hablar con una persona';
+
+-- ============================================
+-- TABLE: waitlist_entries
+-- ============================================
+CREATE TABLE IF NOT EXISTS waitlist_entries (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  business_id UUID NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+  employee_id UUID REFERENCES employees(id) ON DELETE CASCADE,
+  service_id UUID REFERENCES services(id) ON DELETE SET NULL,
+  date DATE NOT NULL,
+  time_window_start TIME,
+  time_window_end TIME,
+  duration_minutes INTEGER NOT NULL DEFAULT 60,
+  status VARCHAR(20) NOT NULL DEFAULT 'waiting',
+  offered_start_time TIMESTAMP WITH TIME ZONE,
+  offered_end_time TIMESTAMP WITH TIME ZONE,
+  offered_employee_id UUID REFERENCES employees(id) ON DELETE SET NULL,
+  offer_expires_at TIMESTAMP WITH TIME ZONE,
+  appointment_id UUID REFERENCES appointments(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT valid_waitlist_status CHECK (status IN ('waiting', 'offered', 'booked', 'expired', 'cancelled')),
+  CONSTRAINT valid_waitlist_duration CHECK (duration_minutes > 0),
+  CONSTRAINT valid_waitlist_window CHECK (
+    (time_window_start IS NULL AND time_window_end IS NULL) OR time_window_end > time_window_start
+  )
+);
+
+COMMENT ON TABLE waitlist_entries IS 'Lista de espera: clientes que quieren un turno en un día sin horarios libres';
+COMMENT ON COLUMN waitlist_entries.employee_id IS 'Profesional pedido (NULL = cualquiera)';
+COMMENT ON COLUMN waitlist_entries.date IS 'Día pedido, en la zona horaria del negocio';
+COMMENT ON COLUMN waitlist_entries.time_window_start IS 'Franja horaria aceptada (NULL = todo el día)';
+COMMENT ON COLUMN waitlist_entries.status IS 'Estados: waiting, offered, booked, expired, cancelled';
+COMMENT ON COLUMN waitlist_entries.offer_expires_at IS 'Hasta cuándo puede aceptar el lugar ofrecido';
+
+CREATE INDEX idx_waitlist_entries_lookup ON waitlist_entries(business_id, date, status);
+CREATE INDEX idx_waitlist_entries_customer ON waitlist_entries(customer_id);
+
 -- ============================================
 -- FUNCTION: Update updated_at timestamp
 -- ============================================
@@ -172,6 +501,11 @@ CREATE TRIGGER update_employees_updated_at
   FOR EACH ROW
   EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_services_updated_at
+  BEFORE UPDATE ON services
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
 CREATE TRIGGER update_customers_updated_at
   BEFORE UPDATE ON customers
   FOR EACH ROW
@@ -191,3 +525,72 @@ CREATE TRIGGER update_whatsapp_sessions_updated_at
   BEFORE UPDATE ON whatsapp_sessions
   FOR EACH ROW
   EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_whatsapp_messages_updated_at
+  BEFORE UPDATE ON whatsapp_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_whatsapp_conversations_updated_at
+  BEFORE UPDATE ON whatsapp_conversations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_waitlist_entries_updated_at
+  BEFORE UPDATE ON waitlist_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_appointment_series_updated_at
+  BEFORE UPDATE ON appointment_series
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_availability_exceptions_updated_at
+  BEFORE UPDATE ON availability_exceptions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_appointment_feedback_updated_at
+  BEFORE UPDATE ON appointment_feedback
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_customer_consents_updated_at
+  BEFORE UPDATE ON customer_consents
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- VIEW: whatsapp_threads
+-- ============================================
+-- One row per conversation with its last message and unread count
+CREATE OR REPLACE VIEW whatsapp_threads AS
+SELECT
+  last.business_id,
+  last.phone,
+  last.customer_id,
+  c.name AS customer_name,
+  last.body AS last_message,
+  last.direction AS last_direction,
+  last.created_at AS last_message_at,
+  (
+    SELECT COUNT(*)
+    FROM whatsapp_messages unread
+    WHERE unread.business_id = last.business_id
+      AND unread.phone = last.phone
+      AND unread.direction = 'inbound'
+      AND unread.read_at IS NULL
+  ) AS unread_count,
+  COALESCE(conv.bot_paused, false) AS bot_paused,
+  conv.takeover_requested_at
+FROM (
+  SELECT DISTINCT ON (business_id, phone) *
+  FROM whatsapp_messages
+  ORDER BY business_id, phone, created_at DESC
+) last
+LEFT JOIN customers c ON c.phone = last.phone
+LEFT JOIN whatsapp_conversations conv
+  ON conv.business_id = last.business_id AND conv.phone = last.phone;
+
+COMMENT ON VIEW whatsapp_threads IS 'Conversaciones de WhatsApp: último mensaje y cantidad sin leer';
@@ -1,5 +1,6 @@
 import { Request, Response } from 'express';
 import { BaseController } from '../../core/base.controller';
+import { ConflictError, ValidationError } from '../../core/errors';
 import { z } from 'zod';
 
 // Test schemas
@@ -107,6 +108,19 @@ describe('BaseController', () => {
         error: 'Failed to create TestEntity',
       });
     });
+
+    it('should keep the status code of business rule errors', async () => {
+      mockReq.body = { name: 'Test' };
+      mockService.create.mockRejectedValue(new ConflictError('Time slot is already booked'));
+
+      await controller.create(mockReq as Request, mockRes as Response);
+
+      expect(statusMock).toHaveBeenCalledWith(409);
+      expect(jsonMock).toHaveBeenCalledWith({
+        success: false,
+        error: 'Time slot is already booked',
+      });
+    });
   });
 
   describe('getById', () => {
@@ -191,6 +205,16 @@ describe('BaseController', () => {
 
       expect(statusMock).toHaveBeenCalledWith(404);
     });
+
+    it('should keep the status code of business rule errors', async () => {
+      mockReq.params = { id: '123' };
+      mockReq.body = { name: 'Updated' };
+      mockService.update.mockRejectedValue(new ValidationError('Appointments can only be booked up to 90 days ahead'));
+
+      await controller.update(mockReq as Request, mockRes as Response);
+
+      expect(statusMock).toHaveBeenCalledWith(400);
+    });
   });
 
   describe('delete', () => {
@@ -0,0 +1,103 @@
+import crypto from 'crypto';
+import { TokenVerifier } from '../../core/token-verifier';
+import { UnauthorizedError } from '../../core/errors';
+
+describe('TokenVerifier', () => {
+  const secret = 'test-jwt-secret-with-at-least-32-characters';
+  const issuer = 'https://project.supabase.co/auth/v1';
+  const now = Math.floor(Date.now() / 1000);
+
+  const claims = (overrides: Record<string, any> = {}) => ({
+    sub: 'auth-user-1',
+    email: 'owner@example.com',
+    aud: 'authenticated',
+    iss: issuer,
+    iat: now,
+    exp: now + 3600,
+    ...overrides,
+  });
+
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+  const signHs256 = (payload: object, key: string = secret) => {
+    const data = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(payload)}`;
+    return `${data}.${crypto.createHmac('sha256', key).update(data).digest('base64url')}`;
+  };
+
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  const jwk = { ...publicKey.export({ format: 'jwk' }), kid: 'key-1', alg: 'ES256', use: 'sig' };
+
+  const signEs256 = (payload: object, kid: string = 'key-1') => {
+    const data = `${encode({ alg: 'ES256', typ: 'JWT', kid })}.${encode(payload)}`;
+    const signature = crypto.sign('sha256', Buffer.from(data), { key: privateKey, dsaEncoding: 'ieee-p1363' });
+    return `${data}.${signature.toString('base64url')}`;
+  };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should accept a token signed with the project secret', async () => {
+    const verifier = new TokenVerifier({ secret, issuer, audience: 'authenticated' });
+
+    await expect(verifier.verify(signHs256(claims()))).resolves.toMatchObject({
+      sub: 'auth-user-1',
+      email: 'owner@example.com',
+    });
+  });
+
+  it('should reject tampered, expired or foreign tokens', async () => {
+    const verifier = new TokenVerifier({ secret, issuer, audience: 'authenticated' });
+    const [header, , signature] = signHs256(claims()).split('.');
+
+    await expect(verifier.verify(`${header}.${encode(claims({ sub: 'someone-else' }))}.${signature}`))
+      .rejects.toThrow('Invalid token signature');
+    await expect(verifier.verify(signHs256(claims(), 'another-secret'))).rejects.toThrow(UnauthorizedError);
+    await expect(verifier.verify(signHs256(claims({ exp: now - 3600 })))).rejects.toThrow('Token expired');
+    await expect(verifier.verify(signHs256(claims({ iss: 'https://other.supabase.co/auth/v1' }))))
+      .rejects.toThrow('Unexpected token issuer');
+    await expect(verifier.verify(signHs256(claims({ aud: 'anon' })))).rejects.toThrow('Unexpected token audience');
+    await expect(verifier.verify('userId:businessId:owner')).rejects.toThrow('Malformed access token');
+  });
+
+  it('should reject unsigned tokens', async () => {
+    const verifier = new TokenVerifier({ secret });
+    const token = `${encode({ alg: 'none', typ: 'JWT' })}.${encode(claims())}.`;
+
+    await expect(verifier.verify(token)).rejects.toThrow('Unsupported token algorithm');
+  });
+
+  it('should verify asymmetric tokens with the keys of the JWKS', async () => {
+    const fetchSpy = jest.spyOn(global, 'fetch').mockResolvedValue({
+      ok: true,
+      json: async () => ({ keys: [jwk] }),
+    } as Response);
+    const verifier = new TokenVerifier({ jwksUrl: `${issuer}/.well-known/jwks.json`, issuer });
+
+    await expect(verifier.verify(signEs256(claims()))).resolves.toMatchObject({ sub: 'auth-user-1' });
+    await expect(verifier.verify(signEs256(claims()))).resolves.toMatchObject({ sub: 'auth-user-1' });
+
+    // Keys are cached between requests
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('should refetch the JWKS when a token names an unknown key', async () => {
+    const fetchSpy = jest.spyOn(global, 'fetch').mockResolvedValue({
+      ok: true,
+      json: async () => ({ keys: [jwk] }),
+    } as Response);
+    const verifier = new TokenVerifier({ jwksUrl: `${issuer}/.well-known/jwks.json` });
+
+    await verifier.verify(signEs256(claims()));
+    await expect(verifier.verify(signEs256(claims(), 'rotated-key'))).rejects.toThrow('Unknown token signing key');
+
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not accept symmetric tokens when only asymmetric keys are configured', async () => {
+    const verifier = new TokenVerifier({ jwks: { keys: [jwk] } });
+
+    await expect(verifier.verify(signEs256(claims()))).resolves.toMatchObject({ sub: 'auth-user-1' });
+    await expect(verifier.verify(signHs256(claims()))).rejects.toThrow('Symmetric tokens are not accepted');
+  });
+});
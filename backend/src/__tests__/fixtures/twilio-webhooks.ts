@@ -0,0 +1,68 @@
+/**
+ * Recorded Twilio WhatsApp webhook payloads
+ * Signatures were generated for TWILIO_TEST_AUTH_TOKEN and TWILIO_TEST_WEBHOOK_URL
+ */
+
+export const TWILIO_TEST_AUTH_TOKEN = '12345678901234567890123456789012';
+export const TWILIO_TEST_WEBHOOK_URL = 'https://api.example.com/api/whatsapp/webhook';
+
+export const incomingTextMessage = {
+  signature: '4/VfMKLZjDki5lsGSX7LjcHX3dQ=',
+  body: {
+    SmsMessageSid: 'SM0f3b5a2c7d8e9f00112233445566778a',
+    NumMedia: '0',
+    ProfileName: 'Juan',
+    SmsSid: 'SM0f3b5a2c7d8e9f00112233445566778a',
+    WaId: '5491122334455',
+    SmsStatus: 'received',
+    Body: 'Hola, quiero un turno',
+    To: 'whatsapp:+14155238886',
+    NumSegments: '1',
+    ReferralNumMedia: '0',
+    MessageSid: 'SM0f3b5a2c7d8e9f00112233445566778a',
+    AccountSid: 'AC00112233445566778899aabbccddeeff',
+    From: 'whatsapp:+5491122334455',
+    ApiVersion: '2010-04-01',
+  },
+};
+
+export const incomingFollowUpMessage = {
+  signature: '2XyAdkwTRCWkFoBmv2NaREKBOD4=',
+  body: {
+    SmsMessageSid: 'SM9a8b7c6d5e4f30211a2b3c4d5e6f7081',
+    NumMedia: '0',
+    ProfileName: 'Juan',
+    SmsSid: 'SM9a8b7c6d5e4f30211a2b3c4d5e6f7081',
+    WaId: '5491122334455',
+    SmsStatus: 'received',
+    Body: 'mañana a las 10',
+    To: 'whatsapp:+14155238886',
+    NumSegments: '1',
+    ReferralNumMedia: '0',
+    MessageSid: 'SM9a8b7c6d5e4f30211a2b3c4d5e6f7081',
+    AccountSid: 'AC00112233445566778899aabbccddeeff',
+    From: 'whatsapp:+5491122334455',
+    ApiVersion: '2010-04-01',
+  },
+};
+
+const outboundStatusBase = {
+  SmsSid: 'SM4c3d2e1f0a9b8c7d6e5f4a3b2c1d0e9f',
+  AccountSid: 'AC00112233445566778899aabbccddeeff',
+  From: 'whatsapp:+14155238886',
+  To: 'whatsapp:+5491122334455',
+  MessageSid: 'SM4c3d2e1f0a9b8c7d6e5f4a3b2c1d0e9f',
+  ApiVersion: '2010-04-01',
+  ChannelToAddress: '+5491122334455',
+  ChannelPrefix: 'whatsapp',
+};
+
+export const statusCallbackSent = {
+  signature: 'uG/1Do1zNXK5GAWjmMzwD+KmzV0=',
+  body: { ...outboundStatusBase, SmsStatus: 'sent', MessageStatus: 'sent' },
+};
+
+export const statusCallbackDelivered = {
+  signature: 'K5CFpIPM+pPD/c2abEg1epI2cOI=',
+  body: { ...outboundStatusBase, SmsStatus: 'delivered', MessageStatus: 'delivered' },
+};
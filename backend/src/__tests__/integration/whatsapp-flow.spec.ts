@@ -3,7 +3,15 @@ import { sessionService } from '../../services/session.service';
 import { customerService } from '../../services/customer.service';
 import { employeeService } from '../../services/employee.service';
 import { appointmentService } from '../../services/appointment.service';
+import { businessService } from '../../services/business.service';
+import { messageService } from '../../services/message.service';
+import { conversationService } from '../../services/conversation.service';
+import { consentService } from '../../services/consent.service';
+import { serviceCatalogService } from '../../services/service-catalog.service';
 import { IncomingWhatsAppMessage } from '../../models';
+import { whatsappController } from '../../controllers/whatsapp.controller';
+import { whatsappService as webhookWhatsAppService } from '../../services';
+import { messagingService } from '../../services/messaging';
 
 // Mock dependencies
 jest.mock('../../services/session.service');
@@ -11,6 +19,12 @@ jest.mock('../../services/customer.service');
 jest.mock('../../services/employee.service');
 jest.mock('../../services/appointment.service');
 jest.mock('../../services/availability.service');
+jest.mock('../../services/business.service');
+jest.mock('../../services/message.service');
+jest.mock('../../services/conversation.service');
+jest.mock('../../services/consent.service');
+jest.mock('../../services/service-catalog.service');
+jest.mock('../../services/employee-assignment.service');
 jest.mock('../../config/twilio');
 
 describe('WhatsApp Flow Integration Tests', () => {
@@ -22,6 +36,18 @@ describe('WhatsApp Flow Integration Tests', () => {
   beforeEach(() => {
     whatsappService = new WhatsAppService();
     jest.clearAllMocks();
+    (businessService.getBusinessByWhatsAppPhone as jest.Mock).mockResolvedValue({
+      id: testBusinessId,
+      name: 'Test Business',
+      whatsapp_enabled: true,
+    });
+    // No service catalog: bookings skip the service step
+    (serviceCatalogService.getActiveServicesByBusiness as jest.Mock).mockResolvedValue([]);
+
+    const ledger = (whatsappService as any).messageLedger;
+    jest.spyOn(ledger, 'claim').mockResolvedValue(true);
+    jest.spyOn(ledger, 'markProcessed').mockResolvedValue(undefined);
+    jest.spyOn(ledger, 'release').mockResolvedValue(undefined);
   });
 
   describe('New Customer Flow', () => {
@@ -85,7 +111,12 @@ describe('WhatsApp Flow Integration Tests', () => {
       expect(customerService.createCustomer).toHaveBeenCalledWith({
         phone: testPhone,
         name: 'Juan Pérez',
-        business_id: expect.any(String),
+      });
+      expect(consentService.setConsent).toHaveBeenCalledWith('customer-123', 'opted_in', 'whatsapp_signup');
+      expect(sessionService.updateData).toHaveBeenCalledWith(testPhone, {
+        customer_id: 'customer-123',
+        customer_name: 'Juan Pérez',
+        business_id: testBusinessId,
       });
       expect(sendMessageSpy).toHaveBeenCalledWith(
         testPhone,
@@ -378,4 +409,454 @@ describe('WhatsApp Flow Integration Tests', () => {
       );
     });
   });
+
+  describe('Messaging Consent', () => {
+    const mockCustomer = {
+      id: 'customer-123',
+      name: 'Juan Pérez',
+      phone: testPhone,
+      business_id: testBusinessId,
+    };
+
+    const messageWith = (body: string): IncomingWhatsAppMessage => ({
+      From: testPhone,
+      To: testTo,
+      Body: body,
+      MessageSid: 'test-sid',
+    });
+
+    beforeEach(() => {
+      (customerService.getCustomerByPhone as jest.Mock).mockResolvedValue(mockCustomer);
+    });
+
+    it('should opt the customer out on "BAJA" at any point of the conversation', async () => {
+      const sendMessageSpy = jest.spyOn(whatsappService as any, 'sendMessage').mockResolvedValue(undefined);
+
+      await whatsappService.handleIncomingMessage(messageWith('BAJA'));
+
+      expect(consentService.setConsent).toHaveBeenCalledWith('customer-123', 'opted_out', 'whatsapp_keyword');
+      expect(sendMessageSpy).toHaveBeenCalledWith(testPhone, expect.stringContaining('no te enviaremos más'));
+      expect(sessionService.resetSession).toHaveBeenCalledWith(testPhone);
+    });
+
+    it('should opt back in on "START" after an opt-out', async () => {
+      (consentService.canMessage as jest.Mock).mockResolvedValue(false);
+      const sendMessageSpy = jest.spyOn(whatsappService as any, 'sendMessage').mockResolvedValue(undefined);
+
+      await whatsappService.handleIncomingMessage(messageWith('start'));
+
+      expect(consentService.setConsent).toHaveBeenCalledWith('customer-123', 'opted_in', 'whatsapp_keyword');
+      expect(sendMessageSpy).toHaveBeenCalledWith(testPhone, expect.stringContaining('volver a recibir'));
+    });
+
+    it('should keep "start" as a restart for customers who did not opt out', async () => {
+      (consentService.canMessage as jest.Mock).mockResolvedValue(true);
+      const sendMessageSpy = jest.spyOn(whatsappService as any, 'sendMessage').mockResolvedValue(undefined);
+
+      await whatsappService.handleIncomingMessage(messageWith('start'));
+
+      expect(consentService.setConsent).not.toHaveBeenCalled();
+      expect(sendMessageSpy).toHaveBeenCalledWith(testPhone, expect.stringContaining('Juan Pérez'));
+    });
+  });
+
+  describe('Data Erasure', () => {
+    it('should ask for confirmation when the customer wants their data erased', async () => {
+      (customerService.getCustomerByPhone as jest.Mock).mockResolvedValue({
+        id: 'customer-123',
+        name: 'Juan Pérez',
+        phone: testPhone,
+      });
+
+      const sendMessageSpy = jest.spyOn(whatsappService as any, 'sendMessage').mockResolvedValue(undefined);
+
+      await whatsappService.handleIncomingMessage({
+        From: testPhone,
+        To: testTo,
+        Body: 'Quiero borrar mis datos',
+        MessageSid: 'test-sid',
+      });
+
+      expect(sendMessageSpy).toHaveBeenCalledWith(testPhone, expect.objectContaining({
+        type: 'buttons',
+        body: expect.stringContaining('borrar tus datos personales'),
+      }));
+      expect(sessionService.updateState).toHaveBeenCalledWith(testPhone, 'confirming_erasure');
+    });
+  });
+
+  describe('Conversation Log', () => {
+    it('should log the inbound message once for the resolved business', async () => {
+      (customerService.getCustomerByPhone as jest.Mock).mockResolvedValue(null);
+      (sessionService.getOrCreateSession as jest.Mock).mockReturnValue({
+        phone: testPhone,
+        state: 'initial',
+        data: {},
+      });
+      jest.spyOn(whatsappService as any, 'sendMessage').mockResolvedValue(undefined);
+
+      const message: IncomingWhatsAppMessage = {
+        From: testPhone,
+        To: testTo,
+        Body: 'Hola',
+        MessageSid: 'SM-logged',
+      };
+
+      await whatsappService.handleIncomingMessage(message);
+
+      expect(messageService.logInbound).toHaveBeenCalledTimes(1);
+      expect(messageService.logInbound).toHaveBeenCalledWith(message, 'twilio');
+    });
+  });
+
+  describe('Human Takeover', () => {
+    const mockCustomer = {
+      id: 'customer-123',
+      name: 'Juan Pérez',
+      phone: testPhone,
+      business_id: testBusinessId,
+    };
+
+    beforeEach(() => {
+      (customerService.getCustomerByPhone as jest.Mock).mockResolvedValue(mockCustomer);
+    });
+
+    it('should store but not answer messages while the bot is paused', async () => {
+      (conversationService.isBotPaused as jest.Mock).mockResolvedValue(true);
+      const sendMessageSpy = jest.spyOn(whatsappService as any, 'sendMessage').mockResolvedValue(undefined);
+
+      const message: IncomingWhatsAppMessage = {
+        From: testPhone,
+        To: testTo,
+        Body: 'Hola, ¿hay alguien?',
+        MessageSid: 'SM-paused',
+      };
+
+      await whatsappService.handleIncomingMessage(message);
+
+      expect(messageService.logInbound).toHaveBeenCalledWith(message, 'twilio');
+      expect(sendMessageSpy).not.toHaveBeenCalled();
+      expect(sessionService.getOrCreateSession).not.toHaveBeenCalled();
+    });
+
+    it('should still opt the customer out while the bot is paused', async () => {
+      (conversationService.isBotPaused as jest.Mock).mockResolvedValue(true);
+      const sendMessageSpy = jest.spyOn(whatsappService as any, 'sendMessage').mockResolvedValue(undefined);
+
+      await whatsappService.handleIncomingMessage({
+        From: testPhone,
+        To: testTo,
+        Body: 'STOP',
+        MessageSid: 'SM-paused-stop',
+      });
+
+      expect(consentService.setConsent).toHaveBeenCalledWith('customer-123', 'opted_out', 'whatsapp_keyword');
+      expect(sendMessageSpy).toHaveBeenCalledWith(testPhone, expect.stringContaining('no te enviaremos más'));
+      expect(sessionService.getOrCreateSession).not.toHaveBeenCalled();
+    });
+
+    it('should request takeover when the customer asks for a person mid-flow', async () => {
+      (conversationService.isBotPaused as jest.Mock).mockResolvedValue(false);
+      (sessionService.getOrCreateSession as jest.Mock).mockResolvedValue({
+        phone: testPhone,
+        state: 'collecting_data',
+        data: { customer_id: mockCustomer.id },
+      });
+      const sendMessageSpy = jest.spyOn(whatsappService as any, 'sendMessage').mockResolvedValue(undefined);
+
+      await whatsappService.handleIncomingMessage({
+        From: testPhone,
+        To: testTo,
+        Body: 'Quiero hablar con una persona',
+        MessageSid: 'SM-human',
+      });
+
+      expect(conversationService.requestTakeover).toHaveBeenCalledWith(testPhone);
+      expect(sessionService.resetSession).toHaveBeenCalledWith(testPhone);
+      expect(sendMessageSpy).toHaveBeenCalledTimes(1);
+      expect(sendMessageSpy).toHaveBeenCalledWith(
+        testPhone,
+        expect.stringContaining('persona del equipo')
+      );
+    });
+
+    it('should not take a feedback comment that mentions staff as a takeover request', async () => {
+      (conversationService.isBotPaused as jest.Mock).mockResolvedValue(false);
+      (sessionService.getOrCreateSession as jest.Mock).mockResolvedValue({
+        phone: testPhone,
+        state: 'commenting_feedback',
+        data: { customer_id: mockCustomer.id },
+      });
+      jest.spyOn(whatsappService as any, 'sendMessage').mockResolvedValue(undefined);
+      const handleComment = jest
+        .spyOn((whatsappService as any).feedbackHandler, 'handleComment')
+        .mockResolvedValue(undefined);
+
+      await whatsappService.handleIncomingMessage({
+        From: testPhone,
+        To: testTo,
+        Body: 'La recepcionista fue muy amable',
+        MessageSid: 'SM-feedback-staff',
+      });
+
+      expect(handleComment).toHaveBeenCalledWith(testPhone, 'La recepcionista fue muy amable');
+      expect(conversationService.requestTakeover).not.toHaveBeenCalled();
+    });
+
+    it('should request takeover from welcome menu option 4', async () => {
+      (conversationService.isBotPaused as jest.Mock).mockResolvedValue(false);
+      (sessionService.getOrCreateSession as jest.Mock).mockResolvedValue({
+        phone: testPhone,
+        state: 'intent_detected',
+        data: { customer_id: mockCustomer.id },
+      });
+      jest.spyOn(whatsappService as any, 'sendMessage').mockResolvedValue(undefined);
+
+      await whatsappService.handleIncomingMessage({
+        From: testPhone,
+        To: testTo,
+        Body: '4',
+        MessageSid: 'SM-menu-4',
+      });
+
+      expect(conversationService.requestTakeover).toHaveBeenCalledWith(testPhone);
+    });
+  });
+
+  describe('Interactive Replies', () => {
+    const employees = [
+      { id: 'emp-1', name: 'Matias Rubiolo', is_active: true },
+      { id: 'emp-2', name: 'Laura Gómez', is_active: true },
+    ];
+
+    beforeEach(() => {
+      (customerService.getCustomerByPhone as jest.Mock).mockResolvedValue({
+        id: 'customer-123',
+        name: 'Juan Pérez',
+        phone: testPhone,
+      });
+    });
+
+    it('should select the employee from a list reply id', async () => {
+      (sessionService.getOrCreateSession as jest.Mock).mockReturnValue({
+        phone: testPhone,
+        state: 'collecting_data',
+        data: {
+          customer_id: 'customer-123',
+          employees,
+          missing_data: ['employee', 'date'],
+          collected_data: {},
+        },
+      });
+
+      const message: IncomingWhatsAppMessage = {
+        From: testPhone,
+        To: testTo,
+        Body: 'Laura Gómez',
+        ListId: '2',
+        ListTitle: 'Laura Gómez',
+        MessageSid: 'test-sid',
+      };
+
+      const sendMessageSpy = jest.spyOn(whatsappService as any, 'sendMessage').mockResolvedValue(undefined);
+
+      await whatsappService.handleIncomingMessage(message);
+
+      expect(sessionService.updateData).toHaveBeenCalledWith(testPhone, {
+        collected_data: { employeeId: 'emp-2', employeeName: 'Laura Gómez' },
+      });
+      expect(sendMessageSpy).toHaveBeenCalledWith(testPhone, expect.stringContaining('día'));
+    });
+
+    it('should send the employee picker as a list message', async () => {
+      (sessionService.getOrCreateSession as jest.Mock).mockReturnValue({
+        phone: testPhone,
+        state: 'initial',
+        data: { customer_id: 'customer-123' },
+      });
+      (employeeService.getActiveEmployeesByBusiness as jest.Mock).mockResolvedValue(employees);
+
+      const message: IncomingWhatsAppMessage = {
+        From: testPhone,
+        To: testTo,
+        Body: 'Quiero agendar un turno',
+        MessageSid: 'test-sid',
+      };
+
+      const sendMessageSpy = jest.spyOn(whatsappService as any, 'sendMessage').mockResolvedValue(undefined);
+
+      await whatsappService.handleIncomingMessage(message);
+
+      expect(sendMessageSpy).toHaveBeenCalledWith(
+        testPhone,
+        expect.objectContaining({
+          type: 'list',
+          fallback: expect.stringContaining('1. Matias Rubiolo'),
+        })
+      );
+    });
+  });
+
+  describe('Multi-tenant Routing', () => {
+    it('should resolve the business from the destination number', async () => {
+      (customerService.getCustomerByPhone as jest.Mock).mockResolvedValue(null);
+      (sessionService.getOrCreateSession as jest.Mock).mockReturnValue({
+        phone: testPhone,
+        state: 'initial',
+        data: {},
+      });
+
+      jest.spyOn(whatsappService as any, 'sendMessage').mockResolvedValue(undefined);
+
+      await whatsappService.handleIncomingMessage({
+        From: testPhone,
+        To: testTo,
+        Body: 'Hola',
+        MessageSid: 'test-sid',
+      });
+
+      expect(businessService.getBusinessByWhatsAppPhone).toHaveBeenCalledWith(testTo);
+    });
+
+    it('should ignore messages for numbers without a WhatsApp-enabled business', async () => {
+      (businessService.getBusinessByWhatsAppPhone as jest.Mock).mockResolvedValue(null);
+
+      const sendMessageSpy = jest.spyOn(whatsappService as any, 'sendMessage').mockResolvedValue(undefined);
+
+      await whatsappService.handleIncomingMessage({
+        From: testPhone,
+        To: 'whatsapp:+19999999999',
+        Body: 'Hola',
+        MessageSid: 'test-sid',
+      });
+
+      expect(sendMessageSpy).not.toHaveBeenCalled();
+      expect(sessionService.getOrCreateSession).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Message Idempotency and Ordering', () => {
+    beforeEach(() => {
+      (customerService.getCustomerByPhone as jest.Mock).mockResolvedValue({
+        id: 'customer-123',
+        name: 'Juan Pérez',
+        phone: testPhone,
+      });
+      (sessionService.getOrCreateSession as jest.Mock).mockReturnValue({
+        phone: testPhone,
+        state: 'initial',
+        data: { customer_id: 'customer-123', customer_name: 'Juan Pérez' },
+      });
+    });
+
+    it('should process a retried MessageSid only once', async () => {
+      const ledger = (whatsappService as any).messageLedger;
+      (ledger.claim as jest.Mock).mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+
+      const sendMessageSpy = jest.spyOn(whatsappService as any, 'sendMessage').mockResolvedValue(undefined);
+      const message: IncomingWhatsAppMessage = {
+        From: testPhone,
+        To: testTo,
+        Body: 'ayuda',
+        MessageSid: 'SM-retried',
+      };
+
+      await whatsappService.handleIncomingMessage(message);
+      await whatsappService.handleIncomingMessage(message);
+
+      expect(ledger.claim).toHaveBeenCalledWith('SM-retried', testBusinessId, testPhone);
+      expect(sendMessageSpy).toHaveBeenCalledTimes(1);
+      expect(ledger.markProcessed).toHaveBeenCalledTimes(1);
+    });
+
+    it('should release a failed message so the provider retry processes it', async () => {
+      const ledger = (whatsappService as any).messageLedger;
+      jest.spyOn(whatsappService as any, 'processMessage')
+        .mockRejectedValueOnce(new Error('Database unavailable'))
+        .mockResolvedValueOnce(undefined);
+      const message: IncomingWhatsAppMessage = {
+        From: testPhone,
+        To: testTo,
+        Body: 'ayuda',
+        MessageSid: 'SM-failed',
+      };
+
+      await expect(whatsappService.handleIncomingMessage(message)).rejects.toThrow('Database unavailable');
+      expect(ledger.release).toHaveBeenCalledWith('SM-failed');
+      expect(ledger.markProcessed).not.toHaveBeenCalled();
+
+      await whatsappService.handleIncomingMessage(message);
+      expect(ledger.markProcessed).toHaveBeenCalledWith('SM-failed');
+    });
+
+    it('should process messages from the same phone in arrival order', async () => {
+      const replies: string[] = [];
+      jest.spyOn(whatsappService as any, 'sendMessage').mockImplementation(async (...args: unknown[]) => {
+        replies.push(args[1] as string);
+      });
+
+      // The first message is slow to resolve the customer
+      (customerService.getCustomerByPhone as jest.Mock).mockImplementationOnce(
+        () => new Promise(resolve => setTimeout(() => resolve({
+          id: 'customer-123',
+          name: 'Juan Pérez',
+          phone: testPhone,
+        }), 20))
+      );
+
+      await Promise.all([
+        whatsappService.handleIncomingMessage({ From: testPhone, To: testTo, Body: 'hola', MessageSid: 'SM-1' }),
+        whatsappService.handleIncomingMessage({ From: testPhone, To: testTo, Body: 'ayuda', MessageSid: 'SM-2' }),
+      ]);
+
+      expect(replies).toHaveLength(2);
+      expect(replies[0]).toContain('¿En qué puedo ayudarte?');
+      expect(replies[1]).toContain('Puedo ayudarte con');
+    });
+  });
+
+  describe('Webhook Responses', () => {
+    const message: IncomingWhatsAppMessage = { From: testPhone, To: testTo, Body: 'hola', MessageSid: 'SM-webhook' };
+    let res: any;
+
+    beforeEach(() => {
+      res = {
+        status: jest.fn().mockReturnThis(),
+        send: jest.fn().mockReturnThis(),
+        json: jest.fn().mockReturnThis(),
+        headersSent: false,
+      };
+      jest.spyOn(messagingService, 'getWebhookProvider').mockReturnValue({
+        name: 'twilio',
+        parseInbound: () => [message],
+        parseStatuses: () => [],
+      } as any);
+      jest.spyOn(webhookWhatsAppService, 'resolveBusiness').mockResolvedValue({
+        id: testBusinessId,
+        whatsapp_enabled: true,
+      } as any);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should answer once the message is processed', async () => {
+      const handle = jest.spyOn(webhookWhatsAppService, 'handleIncomingMessage').mockResolvedValue(undefined);
+
+      await whatsappController.handleWebhook({} as any, res);
+
+      expect(handle).toHaveBeenCalledWith(message, expect.objectContaining({ id: testBusinessId }));
+      expect(res.status).toHaveBeenCalledWith(200);
+    });
+
+    it('should answer 500 when processing fails so the provider retries', async () => {
+      jest.spyOn(webhookWhatsAppService, 'handleIncomingMessage').mockRejectedValue(new Error('Database unavailable'));
+
+      await whatsappController.handleWebhook({} as any, res);
+
+      expect(res.status).toHaveBeenCalledWith(500);
+      expect(res.status).not.toHaveBeenCalledWith(200);
+    });
+  });
 });
@@ -0,0 +1,208 @@
+import crypto from 'crypto';
+import { Response } from 'express';
+import {
+  authenticateBusinessUser,
+  optionalAuth,
+  requestContextMiddleware,
+  requireOwnBusiness,
+  AuthRequest,
+} from '../../middlewares/auth.middleware';
+import { TokenVerifier, tokenVerifier } from '../../core/token-verifier';
+import { requestContext } from '../../core/request-context';
+import { businessService } from '../../services/business.service';
+import { businessUserService } from '../../services/business-user.service';
+
+// uuid ships as ESM only; request ids are not under test here
+jest.mock('uuid', () => ({ v4: () => 'request-id' }));
+
+describe('auth middleware', () => {
+  const secret = 'test-jwt-secret-with-at-least-32-characters';
+  const businessId = '11111111-1111-1111-1111-111111111111';
+  const otherBusinessId = '22222222-2222-2222-2222-222222222222';
+  const localVerifier = new TokenVerifier({ secret, audience: 'authenticated' });
+
+  let res: Partial<Response>;
+  let statusMock: jest.Mock;
+  let jsonMock: jest.Mock;
+  let next: jest.Mock;
+
+  const signToken = (sub: string = 'auth-user-1') => {
+    const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+    const data = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode({
+      sub,
+      email: 'owner@example.com',
+      aud: 'authenticated',
+      exp: Math.floor(Date.now() / 1000) + 3600,
+    })}`;
+    return `${data}.${crypto.createHmac('sha256', secret).update(data).digest('base64url')}`;
+  };
+
+  const buildRequest = (
+    authorization?: string,
+    headers: Record<string, string> = {},
+    query: Record<string, string> = {}
+  ): AuthRequest =>
+    ({ headers: { authorization, ...headers }, query }) as unknown as AuthRequest;
+
+  /**
+   * Run a middleware until it calls next or replies
+   */
+  const run = (middleware: typeof optionalAuth, req: AuthRequest) =>
+    new Promise<void>(resolve => {
+      next.mockImplementation(() => resolve());
+      jsonMock.mockImplementation(() => resolve());
+      middleware(req, res as Response, next);
+    });
+
+  beforeEach(() => {
+    jsonMock = jest.fn();
+    statusMock = jest.fn().mockReturnValue({ json: jsonMock });
+    res = { status: statusMock };
+    next = jest.fn();
+
+    jest.spyOn(tokenVerifier, 'verify').mockImplementation(token => localVerifier.verify(token));
+    jest.spyOn(businessUserService, 'getBusinessesByUser').mockResolvedValue([
+      { id: 'bu-2', auth_id: 'auth-user-1', business_id: otherBusinessId, role: 'staff' },
+      { id: 'bu-1', auth_id: 'auth-user-1', business_id: businessId, role: 'owner' },
+    ] as any);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should set the user with its most recent business and role from a valid token', async () => {
+    const req = buildRequest(`Bearer ${signToken()}`);
+
+    await run(authenticateBusinessUser, req);
+
+    expect(next).toHaveBeenCalled();
+    expect(businessUserService.getBusinessesByUser).toHaveBeenCalledWith('auth-user-1');
+    expect(req.user).toEqual({
+      id: 'auth-user-1',
+      businessId: otherBusinessId,
+      role: 'staff',
+      email: 'owner@example.com',
+    });
+  });
+
+  it('should use the requested business when the user belongs to it', async () => {
+    const req = buildRequest(`Bearer ${signToken()}`, { 'x-business-id': businessId });
+
+    await run(authenticateBusinessUser, req);
+
+    expect(req.user).toMatchObject({ businessId, role: 'owner' });
+  });
+
+  it('should forbid a business the user does not belong to', async () => {
+    const req = buildRequest(`Bearer ${signToken()}`, { 'x-business-id': '33333333-3333-3333-3333-333333333333' });
+
+    await run(authenticateBusinessUser, req);
+
+    expect(statusMock).toHaveBeenCalledWith(403);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('should forbid a business_id query parameter of another business', async () => {
+    const req = buildRequest(`Bearer ${signToken()}`, { 'x-business-id': businessId }, { business_id: otherBusinessId });
+
+    await run(authenticateBusinessUser, req);
+
+    expect(statusMock).toHaveBeenCalledWith(403);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('should reject unverified tokens, including the old userId:businessId:role format', async () => {
+    for (const authorization of [undefined, `Bearer user-1:${businessId}:owner`, `Bearer ${signToken()}x`]) {
+      statusMock.mockClear();
+      await run(authenticateBusinessUser, buildRequest(authorization));
+      expect(statusMock).toHaveBeenCalledWith(401);
+    }
+
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  describe('optionalAuth', () => {
+    it('should continue without user when no token is sent', async () => {
+      const req = buildRequest();
+
+      await run(optionalAuth, req);
+
+      expect(next).toHaveBeenCalled();
+      expect(req.user).toBeUndefined();
+    });
+
+    it('should set the user from a valid token', async () => {
+      const req = buildRequest(`Bearer ${signToken()}`, { 'x-business-id': businessId });
+
+      await run(optionalAuth, req);
+
+      expect(req.user).toMatchObject({ id: 'auth-user-1', businessId, role: 'owner' });
+    });
+
+    it('should reject an invalid token instead of ignoring it', async () => {
+      const req = buildRequest(`Bearer user-1:${businessId}:owner`);
+
+      await run(optionalAuth, req);
+
+      expect(statusMock).toHaveBeenCalledWith(401);
+      expect(next).not.toHaveBeenCalled();
+      expect(req.user).toBeUndefined();
+    });
+  });
+
+  describe('requestContextMiddleware', () => {
+    beforeEach(() => {
+      jest.spyOn(businessService, 'getSchedulingSettings').mockResolvedValue({
+        timeZone: 'America/Argentina/Buenos_Aires',
+        bookingPolicy: {},
+      } as any);
+    });
+
+    it('should scope the request to the business of the verified user', async () => {
+      const req = buildRequest(`Bearer ${signToken()}`, { 'x-business-id': businessId });
+      let contextBusinessId: string | undefined;
+      await run(optionalAuth, req);
+
+      await new Promise<void>(resolve => {
+        requestContextMiddleware(req, res as Response, (() => {
+          contextBusinessId = requestContext.getBusinessIdOrUndefined();
+          resolve();
+        }) as any);
+      });
+
+      expect(contextBusinessId).toBe(businessId);
+      expect(requestContext.getBusinessIdOrUndefined()).toBeUndefined();
+    });
+
+    it('should not trust a business id sent without a token', async () => {
+      const req = buildRequest(undefined, { 'x-business-id': businessId }, { businessId, business_id: businessId });
+      let contextBusinessId: string | undefined = 'unset';
+
+      requestContextMiddleware(req, res as Response, (() => {
+        contextBusinessId = requestContext.getBusinessIdOrUndefined();
+      }) as any);
+
+      expect(contextBusinessId).toBeUndefined();
+      expect(businessService.getSchedulingSettings).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('requireOwnBusiness', () => {
+    const withUser = (id: string) =>
+      ({ params: { id }, user: { id: 'auth-user-1', businessId, role: 'owner' } }) as unknown as AuthRequest;
+
+    it('should allow the business the user acts on', () => {
+      requireOwnBusiness()(withUser(businessId), res as Response, next);
+
+      expect(next).toHaveBeenCalled();
+    });
+
+    it('should forbid another business', () => {
+      requireOwnBusiness()(withUser(otherBusinessId), res as Response, next);
+
+      expect(next).not.toHaveBeenCalled();
+      expect(statusMock).toHaveBeenCalledWith(403);
+    });
+  });
+});
@@ -0,0 +1,170 @@
+import { Request, Response } from 'express';
+import { verifyTwilioSignature } from '../../middlewares/twilio-signature.middleware';
+import {
+  TWILIO_TEST_AUTH_TOKEN,
+  TWILIO_TEST_WEBHOOK_URL,
+  incomingTextMessage,
+  incomingFollowUpMessage,
+  statusCallbackSent,
+  statusCallbackDelivered,
+} from '../fixtures/twilio-webhooks';
+
+describe('verifyTwilioSignature', () => {
+  const originalEnv = { ...process.env };
+  let mockRes: Partial<Response>;
+  let jsonMock: jest.Mock;
+  let statusMock: jest.Mock;
+  let next: jest.Mock;
+
+  const buildRequest = (
+    body: Record<string, any>,
+    signature?: string,
+    host: string = 'api.example.com'
+  ): Request => {
+    const headers: Record<string, string | undefined> = {
+      host,
+      'x-twilio-signature': signature,
+    };
+
+    return {
+      body,
+      protocol: 'https',
+      originalUrl: '/api/whatsapp/webhook',
+      get: (name: string) => headers[name.toLowerCase()],
+    } as unknown as Request;
+  };
+
+  beforeEach(() => {
+    process.env.TWILIO_AUTH_TOKEN = TWILIO_TEST_AUTH_TOKEN;
+    delete process.env.TWILIO_WEBHOOK_BASE_URL;
+    jsonMock = jest.fn();
+    statusMock = jest.fn().mockReturnValue({ json: jsonMock });
+    mockRes = { status: statusMock, json: jsonMock };
+    next = jest.fn();
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('accepts a correctly signed webhook', () => {
+    const req = buildRequest(incomingTextMessage.body, incomingTextMessage.signature);
+
+    verifyTwilioSignature(req, mockRes as Response, next);
+
+    expect(next).toHaveBeenCalled();
+    expect(statusMock).not.toHaveBeenCalled();
+  });
+
+  it('uses TWILIO_WEBHOOK_BASE_URL when behind a proxy', () => {
+    process.env.TWILIO_WEBHOOK_BASE_URL = new URL(TWILIO_TEST_WEBHOOK_URL).origin;
+    const req = buildRequest(incomingTextMessage.body, incomingTextMessage.signature, 'localhost:3000');
+
+    verifyTwilioSignature(req, mockRes as Response, next);
+
+    expect(next).toHaveBeenCalled();
+  });
+
+  it('rejects a webhook without signature', () => {
+    const req = buildRequest(incomingTextMessage.body);
+
+    verifyTwilioSignature(req, mockRes as Response, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(statusMock).toHaveBeenCalledWith(403);
+  });
+
+  it('rejects a tampered payload', () => {
+    const req = buildRequest(
+      { ...incomingTextMessage.body, Body: 'cancelar turno' },
+      incomingTextMessage.signature
+    );
+
+    verifyTwilioSignature(req, mockRes as Response, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(statusMock).toHaveBeenCalledWith(403);
+    expect(jsonMock).toHaveBeenCalledWith(
+      expect.objectContaining({ message: 'Invalid Twilio signature' })
+    );
+  });
+
+  it('rejects a signature made for another URL', () => {
+    const req = buildRequest(
+      incomingTextMessage.body,
+      incomingTextMessage.signature,
+      'attacker.example.com'
+    );
+
+    verifyTwilioSignature(req, mockRes as Response, next);
+
+    expect(statusMock).toHaveBeenCalledWith(403);
+  });
+
+  it('rejects a signature made with another auth token', () => {
+    process.env.TWILIO_AUTH_TOKEN = 'another-auth-token';
+    const req = buildRequest(incomingTextMessage.body, incomingTextMessage.signature);
+
+    verifyTwilioSignature(req, mockRes as Response, next);
+
+    expect(statusMock).toHaveBeenCalledWith(403);
+  });
+
+  it('leaves repeated MessageSids to the processed-message ledger', () => {
+    // Twilio retries a webhook with the same MessageSid and signature
+    verifyTwilioSignature(
+      buildRequest(incomingTextMessage.body, incomingTextMessage.signature),
+      mockRes as Response,
+      next
+    );
+    verifyTwilioSignature(
+      buildRequest(incomingTextMessage.body, incomingTextMessage.signature),
+      mockRes as Response,
+      next
+    );
+
+    expect(next).toHaveBeenCalledTimes(2);
+    expect(statusMock).not.toHaveBeenCalled();
+  });
+
+  it('accepts each delivery status callback for the same message', () => {
+    verifyTwilioSignature(
+      buildRequest(statusCallbackSent.body, statusCallbackSent.signature),
+      mockRes as Response,
+      next
+    );
+    verifyTwilioSignature(
+      buildRequest(statusCallbackDelivered.body, statusCallbackDelivered.signature),
+      mockRes as Response,
+      next
+    );
+
+    expect(next).toHaveBeenCalledTimes(2);
+  });
+
+  it('accepts different messages from the same conversation', () => {
+    verifyTwilioSignature(
+      buildRequest(incomingTextMessage.body, incomingTextMessage.signature),
+      mockRes as Response,
+      next
+    );
+    verifyTwilioSignature(
+      buildRequest(incomingFollowUpMessage.body, incomingFollowUpMessage.signature),
+      mockRes as Response,
+      next
+    );
+
+    expect(next).toHaveBeenCalledTimes(2);
+  });
+
+  it('rejects when the auth token is missing in production', () => {
+    delete process.env.TWILIO_AUTH_TOKEN;
+    process.env.NODE_ENV = 'production';
+    const req = buildRequest(incomingTextMessage.body, incomingTextMessage.signature);
+
+    verifyTwilioSignature(req, mockRes as Response, next);
+
+    expect(statusMock).toHaveBeenCalledWith(403);
+    process.env.NODE_ENV = 'test';
+  });
+});
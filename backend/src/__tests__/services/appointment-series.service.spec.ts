@@ -0,0 +1,171 @@
+import { appointmentSeriesService } from '../../services/appointment-series.service';
+import { appointmentService } from '../../services/appointment.service';
+import { ConflictError } from '../../core/errors';
+import { requestContext } from '../../core/request-context';
+import { supabase } from '../../config/supabase';
+
+describe('AppointmentSeriesService', () => {
+  const businessId = '11111111-1111-1111-1111-111111111111';
+
+  // Martes 20/10 de 18:00 a 19:00 en Buenos Aires, cada semana
+  const input = {
+    business_id: businessId,
+    employee_id: '22222222-2222-2222-2222-222222222222',
+    customer_id: '33333333-3333-3333-3333-333333333333',
+    start_time: '2026-10-20T21:00:00.000Z',
+    end_time: '2026-10-20T22:00:00.000Z',
+    frequency: 'weekly' as const,
+    count: 3,
+  };
+
+  const occurrence = (id: string, startTime: string, fields: Record<string, any> = {}) => ({
+    id,
+    business_id: businessId,
+    employee_id: input.employee_id,
+    customer_id: input.customer_id,
+    series_id: 'series-1',
+    start_time: startTime,
+    end_time: new Date(new Date(startTime).getTime() + 3600000).toISOString(),
+    status: 'confirmed' as const,
+    ...fields,
+  });
+
+  /**
+   * Chainable query that resolves with the given result wherever the chain ends
+   */
+  const queryReturning = (result: any) => {
+    const query: any = {};
+    for (const method of ['select', 'eq', 'in', 'gte', 'order']) {
+      query[method] = jest.fn().mockReturnValue(query);
+    }
+    query.then = (resolve: any, reject: any) => Promise.resolve(result).then(resolve, reject);
+    return query;
+  };
+
+  const inBuenosAires = <T>(callback: () => Promise<T>) =>
+    requestContext.run({ businessId, timeZone: 'America/Argentina/Buenos_Aires' }, callback);
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('createSeries', () => {
+    beforeEach(() => {
+      jest.spyOn(appointmentSeriesService, 'create').mockResolvedValue({ id: 'series-1' } as any);
+    });
+
+    it('should book each occurrence and report the ones already taken', async () => {
+      const create = jest.spyOn(appointmentService, 'create').mockImplementation(async data => {
+        if (data.start_time === '2026-10-27T21:00:00.000Z') {
+          throw new ConflictError('Time slot is already booked');
+        }
+        return { id: `apt-${data.start_time}`, ...data } as any;
+      });
+
+      const result = await inBuenosAires(() => appointmentSeriesService.createSeries(input));
+
+      expect(appointmentSeriesService.create).toHaveBeenCalledWith(expect.objectContaining({
+        frequency: 'weekly',
+        occurrence_count: 3,
+        until_date: null,
+      }));
+      expect(create).toHaveBeenCalledWith(expect.objectContaining({
+        start_time: '2026-11-03T21:00:00.000Z',
+        end_time: '2026-11-03T22:00:00.000Z',
+        series_id: 'series-1',
+      }));
+      expect(result.created.map(apt => apt.start_time)).toEqual([
+        '2026-10-20T21:00:00.000Z',
+        '2026-11-03T21:00:00.000Z',
+      ]);
+      expect(result.skipped).toEqual([{
+        start_time: '2026-10-27T21:00:00.000Z',
+        end_time: '2026-10-27T22:00:00.000Z',
+        reason: 'Time slot is already booked',
+      }]);
+    });
+
+    it('should not keep a series without any appointment', async () => {
+      jest.spyOn(appointmentService, 'create').mockRejectedValue(new ConflictError('Time slot is already booked'));
+      const remove = jest.spyOn(appointmentSeriesService, 'delete').mockResolvedValue();
+
+      await expect(inBuenosAires(() => appointmentSeriesService.createSeries(input))).rejects.toThrow(ConflictError);
+      expect(remove).toHaveBeenCalledWith('series-1');
+    });
+  });
+
+  describe('updateOccurrences', () => {
+    it('should move this and the following occurrences to the same day and time', async () => {
+      jest.spyOn(appointmentService, 'getById').mockResolvedValue(occurrence('apt-2', '2026-10-27T21:00:00.000Z'));
+      const following = queryReturning({
+        data: [
+          occurrence('apt-2', '2026-10-27T21:00:00.000Z'),
+          occurrence('apt-3', '2026-11-03T21:00:00.000Z'),
+        ],
+        error: null,
+      });
+      (supabase.from as jest.Mock).mockReturnValue(following);
+      const update = jest.spyOn(appointmentService, 'update').mockImplementation(async (id, data) => {
+        if (id === 'apt-3') throw new ConflictError('Time slot is already booked');
+        return { id, ...data } as any;
+      });
+
+      // From Tuesday 18:00 to Wednesday 10:00
+      const result = await inBuenosAires(() =>
+        appointmentSeriesService.updateOccurrences('series-1', 'apt-2', {
+          scope: 'following',
+          start_time: '2026-10-28T13:00:00.000Z',
+        })
+      );
+
+      expect(following.gte).toHaveBeenCalledWith('start_time', '2026-10-27T21:00:00.000Z');
+      expect(update).toHaveBeenCalledWith('apt-2', {
+        start_time: '2026-10-28T13:00:00.000Z',
+        end_time: '2026-10-28T14:00:00.000Z',
+      });
+      expect(result.updated.map(apt => apt.id)).toEqual(['apt-2']);
+      expect(result.skipped).toEqual([{
+        appointment_id: 'apt-3',
+        start_time: '2026-11-04T13:00:00.000Z',
+        end_time: '2026-11-04T14:00:00.000Z',
+        reason: 'Time slot is already booked',
+      }]);
+    });
+  });
+
+  describe('cancelOccurrences', () => {
+    it('should only cancel the selected occurrence for "this"', async () => {
+      jest.spyOn(appointmentService, 'getById').mockResolvedValue(occurrence('apt-2', '2026-10-27T21:00:00.000Z'));
+      const cancel = jest.spyOn(appointmentService, 'cancelAppointment').mockResolvedValue({} as any);
+
+      await appointmentSeriesService.cancelOccurrences('series-1', 'apt-2', 'this');
+
+      expect(cancel).toHaveBeenCalledTimes(1);
+      expect(cancel).toHaveBeenCalledWith('apt-2');
+    });
+
+    it('should cancel every open occurrence for "all"', async () => {
+      jest.spyOn(appointmentService, 'getById').mockResolvedValue(occurrence('apt-2', '2026-10-27T21:00:00.000Z'));
+      const all = queryReturning({
+        data: [occurrence('apt-1', '2026-10-20T21:00:00.000Z'), occurrence('apt-3', '2026-11-03T21:00:00.000Z')],
+        error: null,
+      });
+      (supabase.from as jest.Mock).mockReturnValue(all);
+      const cancel = jest.spyOn(appointmentService, 'cancelAppointment').mockResolvedValue({} as any);
+
+      await appointmentSeriesService.cancelOccurrences('series-1', 'apt-2', 'all');
+
+      expect(all.in).toHaveBeenCalledWith('status', ['pending', 'confirmed']);
+      expect(all.gte).not.toHaveBeenCalled();
+      expect(cancel.mock.calls.map(call => call[0])).toEqual(['apt-1', 'apt-3']);
+    });
+
+    it('should reject appointments from another series', async () => {
+      jest.spyOn(appointmentService, 'getById').mockResolvedValue(
+        occurrence('apt-9', '2026-10-27T21:00:00.000Z', { series_id: 'series-2' })
+      );
+
+      await expect(appointmentSeriesService.cancelOccurrences('series-1', 'apt-9', 'all')).rejects.toThrow('Appointment');
+    });
+  });
+});
@@ -0,0 +1,250 @@
+import { appointmentService } from '../../services/appointment.service';
+import { serviceCatalogService } from '../../services/service-catalog.service';
+import { reminderService } from '../../services/reminder.service';
+import { followUpService } from '../../services/follow-up.service';
+import { ConflictError, ValidationError } from '../../core/errors';
+import { requestContext } from '../../core/request-context';
+import { supabase } from '../../config/supabase';
+import { BookingPolicy, DEFAULT_BOOKING_POLICY } from '../../models';
+
+describe('AppointmentService (group classes)', () => {
+  const classAt = '2026-10-20T12:00:00.000Z';
+  const booking = {
+    business_id: '11111111-1111-1111-1111-111111111111',
+    employee_id: 'emp-1',
+    customer_id: 'customer-9',
+    service_id: 'svc-yoga',
+    start_time: classAt,
+    end_time: '2026-10-20T13:00:00.000Z',
+  };
+
+  const attendee = (customerId: string, fields: Record<string, any> = {}) => ({
+    id: `apt-${customerId}`,
+    customer_id: customerId,
+    service_id: 'svc-yoga',
+    start_time: classAt,
+    ...fields,
+  });
+
+  /**
+   * Chainable query that resolves with the given result wherever the chain ends
+   */
+  const queryReturning = (result: any) => {
+    const query: any = {};
+    for (const method of ['select', 'insert', 'update', 'eq', 'neq', 'or', 'in', 'gte']) {
+      query[method] = jest.fn().mockReturnValue(query);
+    }
+    query.single = jest.fn().mockResolvedValue({ data: { id: 'apt-new', ...booking }, error: null });
+    query.then = (resolve: any, reject: any) => Promise.resolve(result).then(resolve, reject);
+    return query;
+  };
+
+  const withAttendees = (attendees: any[]) => {
+    const query = queryReturning({ data: attendees, error: null });
+    (supabase.from as jest.Mock).mockReturnValue(query);
+    return query;
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2026-10-18T12:00:00Z'));
+    jest.spyOn(serviceCatalogService, 'getById').mockResolvedValue({ id: 'svc-yoga', capacity: 3 } as any);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  it('should add the customer to a class with seats left', async () => {
+    const query = withAttendees([attendee('customer-1'), attendee('customer-2')]);
+
+    const created = await appointmentService.create(booking);
+
+    expect(created.id).toBe('apt-new');
+    expect(query.insert).toHaveBeenCalledWith(expect.objectContaining({ status: 'pending' }));
+  });
+
+  it('should reject a full class', async () => {
+    withAttendees([attendee('customer-1'), attendee('customer-2'), attendee('customer-3')]);
+
+    await expect(appointmentService.create(booking)).rejects.toThrow(new ConflictError('Class is full'));
+  });
+
+  it('should not book the same customer twice in a class', async () => {
+    withAttendees([attendee('customer-9')]);
+
+    await expect(appointmentService.create(booking)).rejects.toThrow(
+      new ConflictError('Customer is already booked in this class')
+    );
+  });
+
+  it('should reject a class overlapping another appointment of the professional', async () => {
+    withAttendees([attendee('customer-1', { service_id: 'svc-personal', start_time: '2026-10-20T11:30:00.000Z' })]);
+
+    await expect(appointmentService.create(booking)).rejects.toThrow(
+      new ConflictError('Time slot is already booked')
+    );
+  });
+
+  describe('booking policy', () => {
+    const withPolicy = <T>(policy: Partial<BookingPolicy>, callback: () => Promise<T>) =>
+      requestContext.run({
+        businessId: booking.business_id,
+        timeZone: 'America/Argentina/Buenos_Aires',
+        bookingPolicy: { ...DEFAULT_BOOKING_POLICY, ...policy },
+      }, callback);
+
+    it('should reject bookings inside the minimum notice', async () => {
+      jest.setSystemTime(new Date('2026-10-20T11:30:00Z'));
+      withAttendees([]);
+
+      await expect(withPolicy({ min_notice_minutes: 60 }, () => appointmentService.create(booking)))
+        .rejects.toThrow(ValidationError);
+    });
+
+    it('should reject bookings past the booking window', async () => {
+      withAttendees([]);
+
+      await expect(withPolicy({ max_advance_days: 1 }, () => appointmentService.create(booking)))
+        .rejects.toThrow('Appointments can only be booked up to 1 days ahead');
+    });
+
+    it('should only hold moved appointments to the booking window', async () => {
+      jest.setSystemTime(new Date('2026-10-20T11:30:00Z'));
+      jest.spyOn(appointmentService, 'getById').mockResolvedValue({ id: 'apt-1', ...booking } as any);
+      jest.spyOn(appointmentService as any, 'assertSlotFree').mockResolvedValue(undefined);
+      jest.spyOn(appointmentService as any, 'refreshReminders').mockResolvedValue(undefined);
+      withAttendees([]);
+
+      // Staff edit resending the same start inside the notice
+      await expect(withPolicy({ min_notice_minutes: 60 }, () => appointmentService.update('apt-1', {
+        start_time: classAt,
+        end_time: '2026-10-20T13:30:00.000Z',
+      }))).resolves.toBeDefined();
+
+      await expect(withPolicy({ min_notice_minutes: 60 }, () => appointmentService.update('apt-1', {
+        start_time: '2026-10-20T11:45:00.000Z',
+        end_time: '2026-10-20T12:45:00.000Z',
+      }))).rejects.toThrow(ValidationError);
+    });
+
+    it('should reject customers holding the maximum active bookings', async () => {
+      const query = queryReturning({ count: 2, error: null });
+      (supabase.from as jest.Mock).mockReturnValue(query);
+
+      await expect(withPolicy({ max_active_bookings: 2 }, () => appointmentService.create(booking)))
+        .rejects.toThrow('Customer already has the maximum of 2 active appointments');
+      expect(query.eq).toHaveBeenCalledWith('customer_id', 'customer-9');
+      expect(query.in).toHaveBeenCalledWith('status', ['pending', 'confirmed']);
+    });
+
+    it('should keep the buffers around the appointment clear', async () => {
+      jest.spyOn(serviceCatalogService, 'getById').mockResolvedValue(
+        { id: 'svc-yoga', capacity: 1, buffer_minutes: 15 } as any
+      );
+      const checkConflict = jest.spyOn(appointmentService, 'checkConflict').mockResolvedValue(false);
+      withAttendees([]);
+
+      await withPolicy({ buffer_before_minutes: 10, buffer_after_minutes: 5 }, () => appointmentService.create(booking));
+
+      // The service buffer is larger than the policy's after the appointment
+      expect(checkConflict).toHaveBeenCalledWith(
+        'emp-1',
+        '2026-10-20T11:50:00.000Z',
+        '2026-10-20T13:15:00.000Z',
+        undefined
+      );
+    });
+  });
+
+  describe('reminders', () => {
+    let cancelReminders: jest.SpyInstance;
+    let scheduleReminders: jest.SpyInstance;
+
+    beforeEach(() => {
+      cancelReminders = jest.spyOn(reminderService, 'cancelReminders').mockResolvedValue();
+      scheduleReminders = jest.spyOn(reminderService, 'scheduleAppointmentReminders').mockResolvedValue();
+    });
+
+    it('should schedule the reminders of a new appointment', async () => {
+      withAttendees([]);
+
+      await appointmentService.create(booking);
+
+      expect(scheduleReminders).toHaveBeenCalledWith(expect.objectContaining({ id: 'apt-new' }));
+    });
+
+    it('should replace the reminders when the appointment moves', async () => {
+      jest.spyOn(appointmentService, 'checkConflict').mockResolvedValue(false);
+      withAttendees([]);
+
+      await appointmentService.update('apt-new', {
+        start_time: '2026-10-21T12:00:00.000Z',
+        end_time: '2026-10-21T13:00:00.000Z',
+      });
+
+      expect(cancelReminders).toHaveBeenCalledWith('apt-new');
+      expect(scheduleReminders).toHaveBeenCalledWith(expect.objectContaining({ id: 'apt-new' }));
+      expect(cancelReminders.mock.invocationCallOrder[0]).toBeLessThan(scheduleReminders.mock.invocationCallOrder[0]);
+    });
+
+    it('should drop the reminders when the appointment is completed', async () => {
+      withAttendees([]);
+
+      await appointmentService.completeAppointment('apt-new');
+
+      expect(cancelReminders).toHaveBeenCalledWith('apt-new');
+    });
+
+    it('should leave the reminders alone on other changes', async () => {
+      withAttendees([]);
+
+      await appointmentService.update('apt-new', { notes: 'Trae ropa cómoda' });
+
+      expect(cancelReminders).not.toHaveBeenCalled();
+      expect(scheduleReminders).not.toHaveBeenCalled();
+    });
+
+    it('should not fail the booking when reminders cannot be scheduled', async () => {
+      scheduleReminders.mockRejectedValue(new Error('Redis is down'));
+      withAttendees([]);
+
+      await expect(appointmentService.create(booking)).resolves.toEqual(expect.objectContaining({ id: 'apt-new' }));
+    });
+  });
+
+  describe('follow-ups', () => {
+    let scheduleFollowUp: jest.SpyInstance;
+
+    beforeEach(() => {
+      jest.spyOn(reminderService, 'cancelReminders').mockResolvedValue();
+      jest.spyOn(reminderService, 'scheduleAppointmentReminders').mockResolvedValue();
+      scheduleFollowUp = jest.spyOn(followUpService, 'scheduleFollowUp').mockResolvedValue();
+    });
+
+    it('should send the survey after a completed appointment', async () => {
+      withAttendees([]);
+
+      await appointmentService.completeAppointment('apt-new');
+
+      expect(scheduleFollowUp).toHaveBeenCalledWith(expect.objectContaining({ id: 'apt-new' }), 'feedback');
+    });
+
+    it('should reach out after a no-show', async () => {
+      withAttendees([]);
+
+      await appointmentService.markNoShow('apt-new');
+
+      expect(scheduleFollowUp).toHaveBeenCalledWith(expect.objectContaining({ id: 'apt-new' }), 'no_show');
+    });
+
+    it('should not follow up other status changes', async () => {
+      withAttendees([]);
+
+      await appointmentService.confirmAppointment('apt-new');
+
+      expect(scheduleFollowUp).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import { availabilityExceptionService } from '../../services/availability-exception.service';
+import { requestContext } from '../../core/request-context';
+import { supabase } from '../../config/supabase';
+
+describe('AvailabilityExceptionService', () => {
+  const businessId = '11111111-1111-1111-1111-111111111111';
+  const employeeId = '22222222-2222-2222-2222-222222222222';
+
+  /**
+   * Chainable query that resolves with the given result wherever the chain ends
+   */
+  const queryReturning = (result: any) => {
+    const query: any = {};
+    for (const method of ['select', 'insert', 'eq', 'or', 'gte', 'lte', 'order']) {
+      query[method] = jest.fn().mockReturnValue(query);
+    }
+    query.single = jest.fn().mockResolvedValue(result);
+    query.then = (resolve: any, reject: any) => Promise.resolve(result).then(resolve, reject);
+    return query;
+  };
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should create a single-day exception when no end_date is given', async () => {
+    const query = queryReturning({ data: { id: 'exc-1' }, error: null });
+    (supabase.from as jest.Mock).mockReturnValue(query);
+
+    await availabilityExceptionService.create({
+      business_id: businessId,
+      employee_id: employeeId,
+      type: 'closed',
+      start_date: '2026-12-25',
+    });
+
+    expect(query.insert).toHaveBeenCalledWith(expect.objectContaining({
+      start_date: '2026-12-25',
+      end_date: '2026-12-25',
+    }));
+  });
+
+  it('should include business-wide exceptions covering the day', async () => {
+    const query = queryReturning({ data: [], error: null });
+    (supabase.from as jest.Mock).mockReturnValue(query);
+
+    await requestContext.run({ businessId }, () =>
+      availabilityExceptionService.getExceptionsForDay(employeeId, '2026-12-25')
+    );
+
+    expect(query.or).toHaveBeenCalledWith(
+      `employee_id.eq.${employeeId},and(employee_id.is.null,business_id.eq.${businessId})`
+    );
+    expect(query.lte).toHaveBeenCalledWith('start_date', '2026-12-25');
+    expect(query.gte).toHaveBeenCalledWith('end_date', '2026-12-25');
+  });
+
+  it('should list the exceptions overlapping a date range', async () => {
+    const query = queryReturning({ data: [], error: null });
+    (supabase.from as jest.Mock).mockReturnValue(query);
+
+    await availabilityExceptionService.getAll({ business_id: businessId, from: '2026-12-01', to: '2026-12-31' });
+
+    expect(query.eq).toHaveBeenCalledWith('business_id', businessId);
+    expect(query.gte).toHaveBeenCalledWith('end_date', '2026-12-01');
+    expect(query.lte).toHaveBeenCalledWith('start_date', '2026-12-31');
+  });
+});
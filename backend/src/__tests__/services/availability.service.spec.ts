@@ -0,0 +1,274 @@
+import { availabilityService } from '../../services/availability.service';
+import { appointmentService } from '../../services/appointment.service';
+import { availabilityExceptionService } from '../../services/availability-exception.service';
+import { requestContext } from '../../core/request-context';
+import { supabase } from '../../config/supabase';
+import { BookingPolicy, DEFAULT_BOOKING_POLICY } from '../../models';
+
+describe('AvailabilityService (business timezone)', () => {
+  const employeeId = 'emp-1';
+  // Martes 20/10 a las 00:00 en Buenos Aires
+  const tuesday = new Date('2026-10-20T03:00:00Z');
+
+  /**
+   * Chainable query that resolves with the given result wherever the chain ends
+   */
+  const queryReturning = (result: any) => {
+    const query: any = {};
+    for (const method of ['select', 'eq', 'neq', 'in', 'gte', 'lte', 'order', 'limit']) {
+      query[method] = jest.fn().mockReturnValue(query);
+    }
+    query.then = (resolve: any, reject: any) => Promise.resolve(result).then(resolve, reject);
+    return query;
+  };
+
+  const inZone = <T>(timeZone: string, callback: () => Promise<T>) =>
+    requestContext.run({ businessId: 'business-1', timeZone }, callback);
+
+  let getAppointments: jest.SpyInstance;
+  let getExceptions: jest.SpyInstance;
+  let availabilityQuery: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    // Domingo 18/10, dos días antes
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2026-10-18T12:00:00Z'));
+    availabilityQuery = queryReturning({
+      data: [{ employee_id: employeeId, day_of_week: 2, start_time: '09:00', end_time: '12:00' }],
+      error: null,
+    });
+    (supabase.from as jest.Mock).mockReturnValue(availabilityQuery);
+    getAppointments = jest.spyOn(appointmentService, 'getAppointmentsByDateRange').mockResolvedValue([
+      {
+        start_time: '2026-10-20T13:00:00.000Z',
+        end_time: '2026-10-20T14:00:00.000Z',
+        status: 'confirmed',
+      } as any,
+    ]);
+    getExceptions = jest.spyOn(availabilityExceptionService, 'getExceptionsForDay').mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    getAppointments.mockRestore();
+    getExceptions.mockRestore();
+    jest.useRealTimers();
+  });
+
+  it('should generate slots from wall-clock hours and return them in UTC', async () => {
+    const slots = await inZone('America/Argentina/Buenos_Aires', () =>
+      availabilityService.getAvailableSlots(employeeId, tuesday, 60)
+    );
+
+    // 10:00 (13:00 UTC) is taken
+    expect(slots.map(slot => slot.start_time)).toEqual([
+      '2026-10-20T12:00:00.000Z',
+      '2026-10-20T14:00:00.000Z',
+    ]);
+    expect(availabilityQuery.eq).toHaveBeenCalledWith('day_of_week', 2);
+    expect(getAppointments).toHaveBeenCalledWith(
+      employeeId,
+      '2026-10-20T03:00:00.000Z',
+      '2026-10-21T02:59:59.999Z'
+    );
+  });
+
+  it('should use the weekday of the business, not of the server', async () => {
+    // The same instant is still Monday in Los Angeles
+    await inZone('America/Los_Angeles', () =>
+      availabilityService.getAvailableSlots(employeeId, tuesday, 60)
+    );
+
+    expect(availabilityQuery.eq).toHaveBeenCalledWith('day_of_week', 1);
+  });
+
+  it('should check availability hours in the business timezone', async () => {
+    const checkConflict = jest.spyOn(appointmentService, 'checkConflict').mockResolvedValue(false);
+
+    const available = await inZone('America/Argentina/Buenos_Aires', () =>
+      availabilityService.isEmployeeAvailable(
+        employeeId,
+        new Date('2026-10-20T12:00:00Z'),
+        new Date('2026-10-20T13:00:00Z')
+      )
+    );
+
+    expect(available).toBe(true);
+    expect(availabilityQuery.lte).toHaveBeenCalledWith('start_time', '09:00');
+    expect(availabilityQuery.gte).toHaveBeenCalledWith('end_time', '10:00');
+    checkConflict.mockRestore();
+  });
+
+  it('should keep group class slots open while they have seats left', async () => {
+    const yoga = (startTime: string, customerId: string) => ({
+      customer_id: customerId,
+      service_id: 'svc-yoga',
+      start_time: startTime,
+      end_time: new Date(new Date(startTime).getTime() + 3600000).toISOString(),
+      status: 'confirmed',
+    });
+    getAppointments.mockResolvedValue([
+      // 9:00 has one seat left, 10:00 is full and 11:00 is a private session
+      yoga('2026-10-20T12:00:00.000Z', 'customer-1'),
+      yoga('2026-10-20T12:00:00.000Z', 'customer-2'),
+      yoga('2026-10-20T13:00:00.000Z', 'customer-3'),
+      yoga('2026-10-20T13:00:00.000Z', 'customer-4'),
+      yoga('2026-10-20T13:00:00.000Z', 'customer-5'),
+      { ...yoga('2026-10-20T14:00:00.000Z', 'customer-6'), service_id: 'svc-personal' },
+    ] as any);
+
+    const slots = await inZone('America/Argentina/Buenos_Aires', () =>
+      availabilityService.getAvailableSlots(employeeId, tuesday, 60, 0, { serviceId: 'svc-yoga', capacity: 3 })
+    );
+
+    expect(slots).toEqual([
+      expect.objectContaining({ start_time: '2026-10-20T12:00:00.000Z', seats_left: 1 }),
+    ]);
+  });
+
+  describe('booking policy', () => {
+    const withPolicy = <T>(policy: Partial<BookingPolicy>, callback: () => Promise<T>) =>
+      requestContext.run({
+        businessId: 'business-1',
+        timeZone: 'America/Argentina/Buenos_Aires',
+        bookingPolicy: { ...DEFAULT_BOOKING_POLICY, ...policy },
+      }, callback);
+
+    const startTimes = (slots: Array<{ start_time: string }>) => slots.map(slot => slot.start_time);
+
+    it('should step start times and keep the buffers clear of other appointments', async () => {
+      const stepped = await withPolicy({ slot_step_minutes: 30 }, () =>
+        availabilityService.getAvailableSlots(employeeId, tuesday, 30)
+      );
+      const buffered = await withPolicy(
+        { slot_step_minutes: 30, buffer_before_minutes: 15, buffer_after_minutes: 15 },
+        () => availabilityService.getAvailableSlots(employeeId, tuesday, 30)
+      );
+
+      // 10:00 a 11:00 está ocupado
+      expect(startTimes(stepped)).toEqual([
+        '2026-10-20T12:00:00.000Z',
+        '2026-10-20T12:30:00.000Z',
+        '2026-10-20T14:00:00.000Z',
+        '2026-10-20T14:30:00.000Z',
+      ]);
+      expect(startTimes(buffered)).toEqual([
+        '2026-10-20T12:00:00.000Z',
+        '2026-10-20T14:30:00.000Z',
+      ]);
+    });
+
+    it('should not offer slots inside the minimum notice', async () => {
+      // Martes 9:30
+      jest.setSystemTime(new Date('2026-10-20T12:30:00Z'));
+
+      const slots = await withPolicy({ min_notice_minutes: 60 }, () =>
+        availabilityService.getAvailableSlots(employeeId, tuesday, 60)
+      );
+
+      expect(startTimes(slots)).toEqual(['2026-10-20T14:00:00.000Z']);
+    });
+
+    it('should not offer days past the booking window', async () => {
+      const slots = await withPolicy({ max_advance_days: 1 }, () =>
+        availabilityService.getAvailableSlots(employeeId, tuesday, 60)
+      );
+
+      expect(slots).toEqual([]);
+      expect(getAppointments).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('exceptions', () => {
+    const exception = (fields: Record<string, any>) => ({
+      business_id: 'business-1',
+      employee_id: employeeId,
+      start_date: '2026-10-20',
+      end_date: '2026-10-20',
+      ...fields,
+    }) as any;
+
+    const slotsInBuenosAires = () =>
+      inZone('America/Argentina/Buenos_Aires', () => availabilityService.getAvailableSlots(employeeId, tuesday, 60));
+
+    it('should look up the exceptions of the business-local day', async () => {
+      await slotsInBuenosAires();
+
+      expect(getExceptions).toHaveBeenCalledWith(employeeId, '2026-10-20');
+    });
+
+    it('should not offer slots on a day off', async () => {
+      getExceptions.mockResolvedValue([exception({ type: 'closed', reason: 'Vacaciones' })]);
+
+      expect(await slotsInBuenosAires()).toEqual([]);
+    });
+
+    it('should cut closed hours out of the weekly hours', async () => {
+      getExceptions.mockResolvedValue([exception({ type: 'closed', start_time: '09:00:00', end_time: '10:00:00' })]);
+
+      const slots = await slotsInBuenosAires();
+
+      // 9:00 cerrado, 10:00 ocupado
+      expect(slots.map(slot => slot.start_time)).toEqual(['2026-10-20T14:00:00.000Z']);
+    });
+
+    it('should offer extra hours on a day without weekly hours', async () => {
+      availabilityQuery = queryReturning({ data: [], error: null });
+      (supabase.from as jest.Mock).mockReturnValue(availabilityQuery);
+      getExceptions.mockResolvedValue([exception({ type: 'extra_hours', start_time: '14:00', end_time: '16:00' })]);
+
+      const slots = await slotsInBuenosAires();
+
+      expect(slots.map(slot => slot.start_time)).toEqual([
+        '2026-10-20T17:00:00.000Z',
+        '2026-10-20T18:00:00.000Z',
+      ]);
+    });
+
+    it('should check closures and extra hours in isEmployeeAvailable', async () => {
+      const checkConflict = jest.spyOn(appointmentService, 'checkConflict').mockResolvedValue(false);
+      const isAvailable = (start: string, end: string) =>
+        inZone('America/Argentina/Buenos_Aires', () =>
+          availabilityService.isEmployeeAvailable(employeeId, new Date(start), new Date(end))
+        );
+
+      getExceptions.mockResolvedValue([exception({ type: 'closed' })]);
+      expect(await isAvailable('2026-10-20T12:00:00Z', '2026-10-20T13:00:00Z')).toBe(false);
+
+      // Outside the weekly hours (the query finds no row) but inside extra hours
+      availabilityQuery = queryReturning({ data: [], error: null });
+      (supabase.from as jest.Mock).mockReturnValue(availabilityQuery);
+      getExceptions.mockResolvedValue([exception({ type: 'extra_hours', start_time: '14:00', end_time: '16:00' })]);
+      expect(await isAvailable('2026-10-20T17:00:00Z', '2026-10-20T18:00:00Z')).toBe(true);
+
+      checkConflict.mockRestore();
+    });
+
+    it('should report the opening hours of the day across the team', async () => {
+      availabilityQuery = queryReturning({
+        data: [
+          { employee_id: employeeId, day_of_week: 2, start_time: '09:00', end_time: '12:00' },
+          { employee_id: 'emp-2', day_of_week: 2, start_time: '10:00', end_time: '18:30' },
+        ],
+        error: null,
+      });
+      (supabase.from as jest.Mock).mockReturnValue(availabilityQuery);
+      // emp-1 stays until 20:00 that day
+      getExceptions.mockImplementation(async (id: string) =>
+        id === employeeId ? [exception({ type: 'extra_hours', start_time: '12:00', end_time: '20:00' })] : []
+      );
+
+      const hours = await inZone('America/Argentina/Buenos_Aires', () =>
+        availabilityService.getWorkingHours([employeeId, 'emp-2'], tuesday)
+      );
+
+      expect(hours).toEqual({ start: '09:00', end: '20:00' });
+      expect(availabilityQuery.in).toHaveBeenCalledWith('employee_id', [employeeId, 'emp-2']);
+
+      getExceptions.mockResolvedValue([exception({ type: 'closed' })]);
+      await expect(inZone('America/Argentina/Buenos_Aires', () =>
+        availabilityService.getWorkingHours([employeeId], tuesday)
+      )).resolves.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import { consentService } from '../../services/consent.service';
+import { supabase } from '../../config/supabase';
+import { requestContext } from '../../core/request-context';
+
+describe('ConsentService', () => {
+  const businessId = '11111111-1111-1111-1111-111111111111';
+
+  /**
+   * Chainable query that resolves with the given result wherever the chain ends
+   */
+  const queryReturning = (result: any) => {
+    const query: any = {};
+    for (const method of ['select', 'upsert', 'eq', 'in']) {
+      query[method] = jest.fn().mockReturnValue(query);
+    }
+    query.single = jest.fn().mockResolvedValue(result);
+    query.maybeSingle = jest.fn().mockResolvedValue(result);
+    query.then = (resolve: any, reject: any) => Promise.resolve(result).then(resolve, reject);
+    return query;
+  };
+
+  const inBusiness = <T>(callback: () => Promise<T>) => requestContext.run({ businessId }, callback);
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should record one consent per customer and business', async () => {
+    const query = queryReturning({ data: { id: 'consent-1', status: 'opted_out' }, error: null });
+    (supabase.from as jest.Mock).mockReturnValue(query);
+
+    await inBusiness(() => consentService.setConsent('customer-1', 'opted_out', 'whatsapp_keyword'));
+
+    expect(query.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        business_id: businessId,
+        customer_id: 'customer-1',
+        status: 'opted_out',
+        source: 'whatsapp_keyword',
+      }),
+      { onConflict: 'business_id,customer_id' }
+    );
+  });
+
+  it('should only block messages after an explicit opt-out', async () => {
+    (supabase.from as jest.Mock).mockReturnValue(queryReturning({ data: null, error: null }));
+    await expect(inBusiness(() => consentService.canMessage('customer-1'))).resolves.toBe(true);
+
+    (supabase.from as jest.Mock).mockReturnValue(queryReturning({ data: { status: 'opted_in' }, error: null }));
+    await expect(inBusiness(() => consentService.canMessage('customer-1'))).resolves.toBe(true);
+
+    (supabase.from as jest.Mock).mockReturnValue(queryReturning({ data: { status: 'opted_out' }, error: null }));
+    await expect(inBusiness(() => consentService.canMessage('customer-1'))).resolves.toBe(false);
+  });
+
+  it('should attach each customer its consent, or null if never recorded', async () => {
+    (supabase.from as jest.Mock).mockReturnValue(queryReturning({
+      data: [{ customer_id: 'customer-2', status: 'opted_out' }],
+      error: null,
+    }));
+
+    const customers = await consentService.attachConsents(
+      [{ id: 'customer-1', name: 'Ana' }, { id: 'customer-2', name: 'Luis' }],
+      businessId
+    );
+
+    expect(customers).toEqual([
+      { id: 'customer-1', name: 'Ana', consent: null },
+      { id: 'customer-2', name: 'Luis', consent: { customer_id: 'customer-2', status: 'opted_out' } },
+    ]);
+  });
+});
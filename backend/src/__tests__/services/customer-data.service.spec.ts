@@ -0,0 +1,159 @@
+import { customerDataService } from '../../services/customer-data.service';
+import { customerService } from '../../services/customer.service';
+import { consentService } from '../../services/consent.service';
+import { sessionService } from '../../services/session.service';
+import { supabase } from '../../config/supabase';
+import { requestContext } from '../../core/request-context';
+
+describe('CustomerDataService', () => {
+  const businessId = '11111111-1111-1111-1111-111111111111';
+  const customerId = 'aaaaaaaa-bbbb-cccc-dddd-eeeeeeeeeeee';
+  const phone = 'whatsapp:+5491187654321';
+
+  const customer = { id: customerId, phone, name: 'Ana', email: 'ana@example.com', notes: 'VIP' };
+
+  /**
+   * Chainable query that resolves with the given result wherever the chain ends
+   * Filtering out the business (neq) resolves with the rows of other businesses instead
+   */
+  const queryReturning = (result: any, otherBusinessesResult: any = { data: [], error: null }) => {
+    const query: any = {};
+    for (const method of ['select', 'insert', 'update', 'delete', 'eq', 'order', 'limit']) {
+      query[method] = jest.fn().mockReturnValue(query);
+    }
+    query.neq = jest.fn(() => queryReturning(otherBusinessesResult));
+    query.single = jest.fn().mockResolvedValue(result);
+    query.then = (resolve: any, reject: any) => Promise.resolve(result).then(resolve, reject);
+    return query;
+  };
+
+  const queries: Record<string, any[]> = {};
+  let results: Record<string, any>;
+  let otherBusinessesResults: Record<string, any>;
+
+  const inBusiness = <T>(callback: () => Promise<T>) =>
+    requestContext.run({ businessId, userId: 'user-1' }, callback);
+
+  beforeEach(() => {
+    for (const table of Object.keys(queries)) {
+      delete queries[table];
+    }
+    results = {
+      appointments: { data: [{ id: 'apt-1', business_id: businessId }], error: null },
+      whatsapp_messages: { data: [{ id: 'msg-1', body: 'Hola' }], error: null },
+      customers: { data: { ...customer, phone: 'erased-aaaaaaaabbbb', name: null }, error: null },
+    };
+    otherBusinessesResults = {};
+    (supabase.from as jest.Mock).mockImplementation((table: string) => {
+      const query = queryReturning(
+        results[table] || { data: [], error: null },
+        otherBusinessesResults[table]
+      );
+      (queries[table] = queries[table] || []).push(query);
+      return query;
+    });
+    jest.spyOn(customerService, 'getById').mockResolvedValue({ ...customer } as any);
+    jest.spyOn(consentService, 'setConsent').mockResolvedValue({} as any);
+    jest.spyOn(sessionService, 'endSession').mockResolvedValue(true);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+  });
+
+  it('should export the business profile, appointments, messages and consent and log the request', async () => {
+    const exported = await inBusiness(() => customerDataService.exportCustomer(customerId));
+
+    expect(exported).toEqual(expect.objectContaining({
+      customer: expect.objectContaining({ name: 'Ana' }),
+      appointments: [expect.objectContaining({ id: 'apt-1' })],
+      messages: [{ id: 'msg-1', body: 'Hola' }],
+      consents: [],
+    }));
+    expect(queries.appointments[0].eq).toHaveBeenCalledWith('business_id', businessId);
+    expect(queries.whatsapp_messages[0].eq).toHaveBeenCalledWith('business_id', businessId);
+    expect(queries.whatsapp_messages[0].eq).toHaveBeenCalledWith('phone', phone);
+    expect(queries.customer_consents[0].eq).toHaveBeenCalledWith('business_id', businessId);
+    expect(queries.customer_data_requests[0].insert).toHaveBeenCalledWith(expect.objectContaining({
+      business_id: businessId,
+      customer_id: customerId,
+      type: 'export',
+      source: 'dashboard',
+      requested_by: 'user-1',
+    }));
+  });
+
+  it('should return null for unknown customers', async () => {
+    jest.spyOn(customerService, 'getById').mockResolvedValue(null);
+
+    await expect(inBusiness(() => customerDataService.exportCustomer(customerId))).resolves.toBeNull();
+    expect(queries.customer_data_requests).toBeUndefined();
+  });
+
+  it('should return null for customers of other businesses only', async () => {
+    results.appointments = { data: [], error: null };
+
+    await expect(inBusiness(() => customerDataService.exportCustomer(customerId))).resolves.toBeNull();
+    await expect(inBusiness(() => customerDataService.eraseCustomer(customerId))).resolves.toBeNull();
+    expect(queries.whatsapp_messages.every((query: any) => !query.delete.mock.calls.length)).toBe(true);
+    expect(queries.customer_data_requests).toBeUndefined();
+  });
+
+  it('should require a business in context', async () => {
+    await expect(customerDataService.exportCustomer(customerId)).rejects.toThrow('Business context is required');
+    await expect(customerDataService.eraseCustomer(customerId)).rejects.toThrow('Business context is required');
+  });
+
+  it('should anonymize the customer and keep the appointments', async () => {
+    await inBusiness(() => customerDataService.eraseCustomer(customerId, 'whatsapp'));
+
+    expect(queries.customers[0].update).toHaveBeenCalledWith(expect.objectContaining({
+      phone: 'erased-aaaaaaaabbbb',
+      name: null,
+      email: null,
+      notes: null,
+      erased_at: expect.any(String),
+    }));
+    expect(queries.whatsapp_messages[0].delete).toHaveBeenCalled();
+    expect(queries.whatsapp_messages[0].eq).toHaveBeenCalledWith('business_id', businessId);
+    expect(queries.waitlist_entries[0].eq).toHaveBeenCalledWith('business_id', businessId);
+    const clearedAppointments = queries.appointments.find((query: any) => query.update.mock.calls.length);
+    expect(clearedAppointments.update).toHaveBeenCalledWith({ notes: null });
+    expect(clearedAppointments.eq).toHaveBeenCalledWith('business_id', businessId);
+    expect(queries.appointments.every((query: any) => !query.delete.mock.calls.length)).toBe(true);
+    expect(queries.customer_data_requests[0].insert).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'erasure',
+      source: 'whatsapp',
+    }));
+  });
+
+  it('should only opt the customer out of the business in context', async () => {
+    await inBusiness(() => customerDataService.eraseCustomer(customerId));
+
+    expect(consentService.setConsent).toHaveBeenCalledTimes(1);
+    expect(consentService.setConsent).toHaveBeenCalledWith(customerId, 'opted_out', 'erasure', businessId);
+    expect(sessionService.endSession).toHaveBeenCalledWith(phone);
+  });
+
+  it('should keep the shared profile while another business has data about the customer', async () => {
+    otherBusinessesResults.appointments = { data: [{ id: 'apt-2' }], error: null };
+
+    const erased = await inBusiness(() => customerDataService.eraseCustomer(customerId));
+
+    expect(erased).toEqual(expect.objectContaining({ name: 'Ana', phone }));
+    expect(queries.customers).toBeUndefined();
+    expect(queries.whatsapp_messages[0].delete).toHaveBeenCalled();
+    expect(queries.customer_data_requests[0].insert).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'erasure',
+    }));
+  });
+
+  it('should not anonymize a customer twice', async () => {
+    jest.spyOn(customerService, 'getById').mockResolvedValue({ ...customer, erased_at: '2026-10-01T00:00:00.000Z' } as any);
+
+    await inBusiness(() => customerDataService.eraseCustomer(customerId));
+
+    expect(queries.customers).toBeUndefined();
+  });
+});
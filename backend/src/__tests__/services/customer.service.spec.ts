@@ -0,0 +1,65 @@
+import { customerService } from '../../services/customer.service';
+import { supabase } from '../../config/supabase';
+import { requestContext } from '../../core/request-context';
+
+describe('CustomerService', () => {
+  const businessId = '11111111-1111-1111-1111-111111111111';
+
+  /**
+   * Chainable query that resolves with the given result wherever the chain ends
+   */
+  const queryReturning = (result: any) => {
+    const query: any = {};
+    for (const method of ['select', 'eq', 'in', 'or', 'limit', 'order']) {
+      query[method] = jest.fn().mockReturnValue(query);
+    }
+    query.then = (resolve: any, reject: any) => Promise.resolve(result).then(resolve, reject);
+    return query;
+  };
+
+  const inBusiness = <T>(callback: () => Promise<T>) => requestContext.run({ businessId }, callback);
+
+  let appointments: any;
+  let consents: any;
+  let customers: any;
+
+  beforeEach(() => {
+    appointments = queryReturning({ data: [{ customer_id: 'customer-1' }, { customer_id: 'customer-1' }], error: null });
+    consents = queryReturning({ data: [{ customer_id: 'customer-2' }], error: null });
+    customers = queryReturning({ data: [{ id: 'customer-1' }, { id: 'customer-2' }], error: null });
+    (supabase.from as jest.Mock).mockImplementation((table: string) =>
+      ({ appointments, customer_consents: consents, customers } as Record<string, any>)[table]
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should search only the customers with appointments or consents in the business', async () => {
+    await inBusiness(() => customerService.search('ana'));
+
+    expect(appointments.eq).toHaveBeenCalledWith('business_id', businessId);
+    expect(consents.eq).toHaveBeenCalledWith('business_id', businessId);
+    expect(customers.in).toHaveBeenCalledWith('id', ['customer-1', 'customer-2']);
+    expect(customers.or).toHaveBeenCalledWith(expect.stringContaining('name.ilike.%ana%'));
+  });
+
+  it('should list only the customers of the business', async () => {
+    await inBusiness(() => customerService.getAll());
+
+    expect(customers.in).toHaveBeenCalledWith('id', ['customer-1', 'customer-2']);
+  });
+
+  it('should not query customers when the business has none', async () => {
+    appointments = queryReturning({ data: [], error: null });
+    consents = queryReturning({ data: [], error: null });
+
+    await expect(inBusiness(() => customerService.search('ana'))).resolves.toEqual([]);
+    expect(supabase.from).not.toHaveBeenCalledWith('customers');
+  });
+
+  it('should require a business in context', async () => {
+    await expect(customerService.getAll()).rejects.toThrow('Request context not initialized');
+  });
+});
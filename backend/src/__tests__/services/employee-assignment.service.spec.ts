@@ -0,0 +1,92 @@
+import { employeeAssignmentService } from '../../services/employee-assignment.service';
+import { supabase } from '../../config/supabase';
+
+describe('EmployeeAssignmentService', () => {
+  const businessId = 'business-1';
+  const startTime = new Date('2026-10-20T10:00:00');
+
+  const team = [
+    { id: 'emp-1', business_id: businessId, name: 'Ana', is_active: true, priority: 2 },
+    { id: 'emp-2', business_id: businessId, name: 'Bruno', is_active: true, priority: 1 },
+    { id: 'emp-3', business_id: businessId, name: 'Carla', is_active: true, priority: 1 },
+  ];
+
+  /**
+   * Chainable query that resolves with the given result wherever the chain ends
+   */
+  const queryReturning = (result: any) => {
+    const query: any = {};
+    for (const method of ['select', 'eq', 'neq', 'in', 'gte', 'lte', 'order', 'limit']) {
+      query[method] = jest.fn().mockReturnValue(query);
+    }
+    query.single = jest.fn().mockResolvedValue(result);
+    query.then = (resolve: any, reject: any) => Promise.resolve(result).then(resolve, reject);
+    return query;
+  };
+
+  const mockTables = (strategy: string | undefined, appointments: Array<{ employee_id: string }>) => {
+    const appointmentsQuery = queryReturning({ data: appointments, error: null });
+    (supabase.from as jest.Mock).mockImplementation((table: string) =>
+      table === 'businesses'
+        ? queryReturning({ data: { settings: strategy ? { assignment_strategy: strategy } : {} }, error: null })
+        : appointmentsQuery
+    );
+    return appointmentsQuery;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should assign the only free professional without reading settings', async () => {
+    const employee = await employeeAssignmentService.pickEmployee(businessId, team, ['emp-3'], startTime);
+
+    expect(employee.id).toBe('emp-3');
+    expect(supabase.from).not.toHaveBeenCalled();
+  });
+
+  it('should default to the least booked professional that day', async () => {
+    const query = mockTables(undefined, [
+      { employee_id: 'emp-1' },
+      { employee_id: 'emp-1' },
+      { employee_id: 'emp-2' },
+    ]);
+
+    const employee = await employeeAssignmentService.pickEmployee(
+      businessId,
+      team,
+      ['emp-1', 'emp-2', 'emp-3'],
+      startTime
+    );
+
+    expect(employee.id).toBe('emp-3');
+    expect(query.neq).toHaveBeenCalledWith('status', 'cancelled');
+  });
+
+  it('should follow priority order and break ties by team order', async () => {
+    mockTables('priority', []);
+
+    const employee = await employeeAssignmentService.pickEmployee(
+      businessId,
+      team,
+      ['emp-1', 'emp-2', 'emp-3'],
+      startTime
+    );
+
+    expect(employee.id).toBe('emp-2');
+  });
+
+  it('should rotate after whoever got the latest booking', async () => {
+    mockTables('round_robin', [{ employee_id: 'emp-2' }]);
+
+    const employee = await employeeAssignmentService.pickEmployee(
+      businessId,
+      team,
+      ['emp-1', 'emp-2'],
+      startTime
+    );
+
+    // Carla is next but busy, so the rotation wraps around to Ana
+    expect(employee.id).toBe('emp-1');
+  });
+});
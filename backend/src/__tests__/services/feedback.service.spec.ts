@@ -0,0 +1,67 @@
+import { feedbackService } from '../../services/feedback.service';
+import { supabase } from '../../config/supabase';
+
+describe('FeedbackService', () => {
+  const businessId = '11111111-1111-1111-1111-111111111111';
+
+  /**
+   * Chainable query that resolves with the given result wherever the chain ends
+   */
+  const queryReturning = (result: any) => {
+    const query: any = {};
+    for (const method of ['select', 'upsert', 'update', 'eq']) {
+      query[method] = jest.fn().mockReturnValue(query);
+    }
+    query.single = jest.fn().mockResolvedValue(result);
+    query.then = (resolve: any, reject: any) => Promise.resolve(result).then(resolve, reject);
+    return query;
+  };
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should replace an earlier rating of the same appointment', async () => {
+    const query = queryReturning({ data: { id: 'feedback-1', rating: 4 }, error: null });
+    (supabase.from as jest.Mock).mockReturnValue(query);
+
+    await feedbackService.recordRating(
+      { id: 'apt-1', business_id: businessId, customer_id: 'customer-1', employee_id: 'emp-1' } as any,
+      4
+    );
+
+    expect(query.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({ appointment_id: 'apt-1', employee_id: 'emp-1', rating: 4 }),
+      { onConflict: 'appointment_id' }
+    );
+  });
+
+  it('should average the ratings of the business and of each professional', async () => {
+    (supabase.from as jest.Mock).mockReturnValue(queryReturning({
+      data: [
+        { rating: 5, employee_id: 'emp-1', employee: { name: 'Laura' } },
+        { rating: 4, employee_id: 'emp-1', employee: { name: 'Laura' } },
+        { rating: 2, employee_id: 'emp-2', employee: { name: 'Matias' } },
+        { rating: 3, employee_id: null, employee: null },
+      ],
+      error: null,
+    }));
+
+    const satisfaction = await feedbackService.getBusinessSatisfaction(businessId);
+
+    expect(satisfaction).toEqual({
+      averageRating: 3.5,
+      ratingsCount: 4,
+      byEmployee: [
+        { employee_id: 'emp-1', employee_name: 'Laura', averageRating: 4.5, ratingsCount: 2 },
+        { employee_id: 'emp-2', employee_name: 'Matias', averageRating: 2, ratingsCount: 1 },
+      ],
+    });
+  });
+
+  it('should report no average until someone rates', async () => {
+    (supabase.from as jest.Mock).mockReturnValue(queryReturning({ data: [], error: null }));
+
+    expect(await feedbackService.getEmployeeSatisfaction('emp-1')).toEqual({ averageRating: null, ratingsCount: 0 });
+  });
+});
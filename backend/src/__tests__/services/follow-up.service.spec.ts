@@ -0,0 +1,144 @@
+import { followUpService, FollowUpJobData } from '../../services/follow-up.service';
+import { appointmentService } from '../../services/appointment.service';
+import { consentService } from '../../services/consent.service';
+import { customerService } from '../../services/customer.service';
+import { serviceCatalogService } from '../../services/service-catalog.service';
+import { sessionService } from '../../services/session.service';
+import { whatsappService } from '../../services/whatsapp.service';
+import { followUpQueue } from '../../config/queue';
+import { requestContext } from '../../core/request-context';
+import { BookingPolicy, DEFAULT_BOOKING_POLICY } from '../../models';
+
+describe('followUpService', () => {
+  const businessId = '11111111-1111-1111-1111-111111111111';
+  const customerPhone = '+5491187654321';
+
+  const appointment = {
+    id: 'apt-1',
+    business_id: businessId,
+    employee_id: 'emp-1',
+    customer_id: 'customer-1',
+    service_id: 'svc-1',
+    start_time: '2026-10-18T13:00:00.000Z',
+    end_time: '2026-10-18T14:00:00.000Z',
+    status: 'completed',
+  } as any;
+
+  const withPolicy = <T>(policy: Partial<BookingPolicy>, callback: () => Promise<T>) =>
+    requestContext.run({
+      businessId,
+      timeZone: 'America/Argentina/Buenos_Aires',
+      bookingPolicy: { ...DEFAULT_BOOKING_POLICY, ...policy },
+    }, callback);
+
+  const job = (fields: Partial<FollowUpJobData> = {}): FollowUpJobData => ({
+    appointmentId: 'apt-1',
+    type: 'feedback',
+    customerId: 'customer-1',
+    customerPhone,
+    customerName: 'Ana',
+    serviceName: 'Corte',
+    timeZone: 'America/Argentina/Buenos_Aires',
+    ...fields,
+  });
+
+  const sessionOf = () =>
+    requestContext.run({ businessId }, () => sessionService.getOrCreateSession(customerPhone));
+
+  beforeEach(async () => {
+    jest.spyOn(customerService, 'getById').mockResolvedValue({ id: 'customer-1', phone: customerPhone, name: 'Ana' } as any);
+    jest.spyOn(serviceCatalogService, 'getById').mockResolvedValue({ id: 'svc-1', name: 'Corte' } as any);
+    jest.spyOn(consentService, 'canMessage').mockResolvedValue(true);
+    await requestContext.run({ businessId }, () => sessionService.resetSession(customerPhone));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+  });
+
+  describe('scheduleFollowUp', () => {
+    it('should queue the survey with the delay of the business', async () => {
+      await withPolicy({ feedback_delay_minutes: 90 }, () => followUpService.scheduleFollowUp(appointment, 'feedback'));
+
+      expect(followUpQueue.add).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'feedback', customerPhone, serviceName: 'Corte' }),
+        { delay: 90 * 60000, jobId: 'apt-1-feedback' }
+      );
+    });
+
+    it('should not queue follow-ups the business turned off', async () => {
+      await withPolicy({ no_show_follow_up_delay_minutes: null }, () =>
+        followUpService.scheduleFollowUp({ ...appointment, status: 'no_show' }, 'no_show')
+      );
+
+      expect(followUpQueue.add).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('processFollowUp', () => {
+    const appointmentWith = (fields: Record<string, any>) =>
+      jest.spyOn(appointmentService, 'getAppointmentById').mockResolvedValue({ ...appointment, ...fields });
+
+    it('should ask for a rating and wait for it', async () => {
+      appointmentWith({});
+      const send = jest.spyOn(whatsappService, 'sendMessage').mockResolvedValue(undefined as any);
+
+      await followUpService.processFollowUp(job());
+
+      expect(send).toHaveBeenCalledWith(customerPhone, expect.objectContaining({ type: 'list' }));
+      const session = await sessionOf();
+      expect(session.state).toBe('rating_appointment');
+      expect(session.data.feedback_appointment_id).toBe('apt-1');
+    });
+
+    it('should offer to book again after a no-show', async () => {
+      appointmentWith({ status: 'no_show' });
+      const send = jest.spyOn(whatsappService, 'sendMessage').mockResolvedValue(undefined as any);
+
+      await followUpService.processFollowUp(job({ type: 'no_show' }));
+
+      expect(send).toHaveBeenCalledWith(customerPhone, expect.objectContaining({
+        body: expect.stringContaining('¿Quieres reprogramar tu turno?'),
+      }));
+      const session = await sessionOf();
+      expect(session.state).toBe('offering_rebooking');
+      expect(session.data).toEqual(expect.objectContaining({
+        customer_id: 'customer-1',
+        business_id: businessId,
+        service_name: 'Corte',
+      }));
+    });
+
+    it('should skip the follow-up when the status was corrected afterwards', async () => {
+      appointmentWith({ status: 'confirmed' });
+      const send = jest.spyOn(whatsappService, 'sendMessage').mockResolvedValue(undefined as any);
+
+      await followUpService.processFollowUp(job());
+
+      expect(send).not.toHaveBeenCalled();
+    });
+
+    it('should skip customers who opted out', async () => {
+      appointmentWith({});
+      jest.spyOn(consentService, 'canMessage').mockResolvedValue(false);
+      const send = jest.spyOn(whatsappService, 'sendMessage').mockResolvedValue(undefined as any);
+
+      await followUpService.processFollowUp(job());
+
+      expect(send).not.toHaveBeenCalled();
+      expect((await sessionOf()).state).toBe('initial');
+    });
+
+    it('should not interrupt a conversation in progress', async () => {
+      appointmentWith({});
+      const send = jest.spyOn(whatsappService, 'sendMessage').mockResolvedValue(undefined as any);
+      await requestContext.run({ businessId }, () => sessionService.updateState(customerPhone, 'collecting_data'));
+
+      await followUpService.processFollowUp(job());
+
+      expect(send).not.toHaveBeenCalled();
+      expect((await sessionOf()).state).toBe('collecting_data');
+    });
+  });
+});
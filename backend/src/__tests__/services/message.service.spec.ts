@@ -0,0 +1,125 @@
+import { messageService } from '../../services/message.service';
+import { customerService } from '../../services/customer.service';
+import { supabase } from '../../config/supabase';
+import { requestContext } from '../../core/request-context';
+
+jest.mock('../../services/customer.service');
+
+describe('MessageService', () => {
+  const businessId = 'business-1';
+  const phone = 'whatsapp:+5491122334455';
+
+  /**
+   * Chainable query whose terminal call resolves with the given result
+   */
+  const queryReturning = (result: any) => {
+    const query: any = {};
+    for (const method of ['select', 'insert', 'update', 'eq', 'is', 'lt', 'order', 'range']) {
+      query[method] = jest.fn().mockReturnValue(query);
+    }
+    query.limit = jest.fn().mockResolvedValue(result);
+    query.single = jest.fn().mockResolvedValue(result);
+    query.maybeSingle = jest.fn().mockResolvedValue(result);
+    return query;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(requestContext, 'getBusinessIdOrUndefined').mockReturnValue(businessId);
+    (customerService.getCustomerByPhone as jest.Mock).mockResolvedValue({ id: 'customer-1', phone });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('logInbound', () => {
+    it('should store the message for the business and customer', async () => {
+      const query = queryReturning({ data: { id: 'msg-1' }, error: null });
+      (supabase.from as jest.Mock).mockReturnValue(query);
+
+      await messageService.logInbound(
+        { From: phone, To: 'whatsapp:+5491187654321', Body: 'Hola', MessageSid: 'SM123' },
+        'twilio'
+      );
+
+      expect(supabase.from).toHaveBeenCalledWith('whatsapp_messages');
+      expect(query.insert).toHaveBeenCalledWith({
+        business_id: businessId,
+        customer_id: 'customer-1',
+        phone,
+        direction: 'inbound',
+        body: 'Hola',
+        provider: 'twilio',
+        provider_message_id: 'SM123',
+        status: 'received',
+      });
+    });
+
+    it('should not throw when the message cannot be stored', async () => {
+      (supabase.from as jest.Mock).mockReturnValue(
+        queryReturning({ data: null, error: new Error('db down') })
+      );
+
+      await expect(messageService.logInbound(
+        { From: phone, To: 'whatsapp:+5491187654321', Body: 'Hola' },
+        'twilio'
+      )).resolves.toBeNull();
+    });
+  });
+
+  describe('updateDeliveryStatus', () => {
+    it('should move the status forward', async () => {
+      const lookup = queryReturning({ data: { id: 'msg-1', status: 'sent' }, error: null });
+      const update = queryReturning({ data: { id: 'msg-1', status: 'delivered' }, error: null });
+      (supabase.from as jest.Mock).mockReturnValueOnce(lookup).mockReturnValueOnce(update);
+
+      const result = await messageService.updateDeliveryStatus('twilio', 'SM123', 'delivered');
+
+      expect(update.update).toHaveBeenCalledWith({ status: 'delivered' });
+      expect(result?.status).toBe('delivered');
+    });
+
+    it('should ignore a status that arrives late', async () => {
+      const lookup = queryReturning({ data: { id: 'msg-1', status: 'read' }, error: null });
+      (supabase.from as jest.Mock).mockReturnValueOnce(lookup);
+
+      const result = await messageService.updateDeliveryStatus('twilio', 'SM123', 'delivered');
+
+      expect(supabase.from).toHaveBeenCalledTimes(1);
+      expect(result?.status).toBe('read');
+    });
+  });
+
+  describe('getThreadMessages', () => {
+    it('should return the newest page in chronological order', async () => {
+      const rows = [
+        { id: 'msg-3', created_at: '2026-10-18T12:03:00.000Z' },
+        { id: 'msg-2', created_at: '2026-10-18T12:02:00.000Z' },
+        { id: 'msg-1', created_at: '2026-10-18T12:01:00.000Z' },
+      ];
+      const query = queryReturning({ data: rows, error: null });
+      (supabase.from as jest.Mock).mockReturnValue(query);
+
+      const result = await messageService.getThreadMessages(phone, { limit: 2 });
+
+      expect(query.limit).toHaveBeenCalledWith(3);
+      expect(result.messages.map(m => m.id)).toEqual(['msg-2', 'msg-3']);
+      expect(result.hasMore).toBe(true);
+    });
+
+    it('should page back from the cursor', async () => {
+      const query = queryReturning({ data: [{ id: 'msg-1' }], error: null });
+      (supabase.from as jest.Mock).mockReturnValue(query);
+
+      const result = await messageService.getThreadMessages(phone, {
+        limit: 2,
+        before: '2026-10-18T12:02:00.000Z',
+      });
+
+      expect(query.eq).toHaveBeenCalledWith('business_id', businessId);
+      expect(query.lt).toHaveBeenCalledWith('created_at', '2026-10-18T12:02:00.000Z');
+      expect(result.hasMore).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,55 @@
+import { Request } from 'express';
+import { MessagingService } from '../../../services/messaging/MessagingService';
+import { Business } from '../../../models';
+
+describe('MessagingService', () => {
+  const originalEnv = { ...process.env };
+  let service: MessagingService;
+
+  const business = (overrides: Partial<Business> = {}): Business => ({
+    id: 'business-1',
+    name: 'Barbería',
+    phone: '+5491187654321',
+    plan: 'basic',
+    whatsapp_enabled: true,
+    ...overrides,
+  });
+
+  const request = (body: any, headers: Record<string, string> = {}) =>
+    ({ body, get: (name: string) => headers[name.toLowerCase()] }) as unknown as Request;
+
+  beforeEach(() => {
+    service = new MessagingService();
+    delete process.env.MESSAGING_PROVIDER;
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('uses the Meta Cloud API for businesses with a phone number ID', () => {
+    expect(service.getProviderForBusiness(business({ whatsapp_phone_number_id: '1065' })).name).toBe('meta');
+  });
+
+  it('uses Twilio for the rest', () => {
+    expect(service.getProviderForBusiness(business()).name).toBe('twilio');
+    expect(service.getProviderForBusiness(null).name).toBe('twilio');
+  });
+
+  it('detects the webhook provider from the request', () => {
+    expect(service.getWebhookProvider(request({ object: 'whatsapp_business_account' })).name).toBe('meta');
+    expect(service.getWebhookProvider(request({ From: 'whatsapp:+1', To: 'whatsapp:+2', Body: 'hola' })).name).toBe('twilio');
+  });
+
+  it('lets MESSAGING_PROVIDER force a provider', async () => {
+    process.env.MESSAGING_PROVIDER = 'fake';
+
+    const result = await service.sendText('whatsapp:+5491122334455', 'Hola', business());
+
+    expect(service.getProviderForBusiness(business({ whatsapp_phone_number_id: '1065' })).name).toBe('fake');
+    expect(result.messageId).toMatch(/^fake-/);
+    expect(service.fake.messagesTo('whatsapp:+5491122334455')).toEqual([
+      expect.objectContaining({ body: 'Hola', businessId: 'business-1' }),
+    ]);
+  });
+});
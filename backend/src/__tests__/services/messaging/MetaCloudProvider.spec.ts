@@ -0,0 +1,257 @@
+import crypto from 'crypto';
+import { Request } from 'express';
+import { MetaCloudProvider } from '../../../services/messaging/MetaCloudProvider';
+import { RawBodyRequest } from '../../../services/messaging/MessagingProvider';
+
+describe('MetaCloudProvider', () => {
+  const originalEnv = { ...process.env };
+  const appSecret = 'test-app-secret';
+  let provider: MetaCloudProvider;
+
+  const inboundPayload = {
+    object: 'whatsapp_business_account',
+    entry: [{
+      id: '102290129340398',
+      changes: [{
+        field: 'messages',
+        value: {
+          messaging_product: 'whatsapp',
+          metadata: {
+            display_phone_number: '5491187654321',
+            phone_number_id: '106540352242922',
+          },
+          contacts: [{ profile: { name: 'Juan' }, wa_id: '5491122334455' }],
+          messages: [
+            {
+              from: '5491122334455',
+              id: 'wamid.HBgNNTQ5MTEyMjMzNDQ1NRUCABIYFjNFQjBDNzE2',
+              timestamp: '1760788800',
+              type: 'text',
+              text: { body: 'Hola, quiero un turno' },
+            },
+            {
+              from: '5491122334455',
+              id: 'wamid.HBgNNTQ5MTEyMjMzNDQ1NRUCABIYFjNFQjBDNzE3',
+              timestamp: '1760788801',
+              type: 'image',
+              image: { id: '1234' },
+            },
+          ],
+        },
+      }],
+    }],
+  };
+
+  const statusPayload = {
+    object: 'whatsapp_business_account',
+    entry: [{
+      changes: [{
+        value: {
+          metadata: { display_phone_number: '5491187654321', phone_number_id: '106540352242922' },
+          statuses: [{ id: 'wamid.abc', status: 'delivered' }],
+        },
+      }],
+    }],
+  };
+
+  const buildRequest = (body: any, headers: Record<string, string> = {}): RawBodyRequest => {
+    const raw = Buffer.from(JSON.stringify(body));
+    const lowerHeaders = Object.fromEntries(
+      Object.entries(headers).map(([key, value]) => [key.toLowerCase(), value])
+    );
+
+    return {
+      body,
+      rawBody: raw,
+      get: (name: string) => lowerHeaders[name.toLowerCase()],
+    } as unknown as RawBodyRequest;
+  };
+
+  const sign = (body: any, secret = appSecret) =>
+    `sha256=${crypto.createHmac('sha256', secret).update(JSON.stringify(body)).digest('hex')}`;
+
+  beforeEach(() => {
+    provider = new MetaCloudProvider();
+    process.env.META_APP_SECRET = appSecret;
+    process.env.META_VERIFY_TOKEN = 'verify-me';
+    process.env.META_ACCESS_TOKEN = 'access-token';
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  describe('parseInbound', () => {
+    it('normalizes text messages to the shared inbound format', () => {
+      const messages = provider.parseInbound(buildRequest(inboundPayload) as Request);
+
+      expect(messages).toEqual([{
+        From: 'whatsapp:+5491122334455',
+        To: 'whatsapp:+5491187654321',
+        Body: 'Hola, quiero un turno',
+        MessageSid: 'wamid.HBgNNTQ5MTEyMjMzNDQ1NRUCABIYFjNFQjBDNzE2',
+        PhoneNumberId: '106540352242922',
+      }]);
+    });
+
+    it('returns no messages for status updates', () => {
+      expect(provider.parseInbound(buildRequest(statusPayload) as Request)).toEqual([]);
+    });
+
+    it('rejects payloads that are not WhatsApp webhooks', () => {
+      expect(() => provider.parseInbound(buildRequest({ foo: 'bar' }) as Request)).toThrow('Invalid payload');
+    });
+  });
+
+  describe('interactive replies', () => {
+    const replyPayload = (message: any) => ({
+      object: 'whatsapp_business_account',
+      entry: [{
+        changes: [{
+          value: {
+            metadata: { display_phone_number: '5491187654321', phone_number_id: '106540352242922' },
+            messages: [{ from: '5491122334455', id: 'wamid.reply', timestamp: '1760788900', ...message }],
+          },
+        }],
+      }],
+    });
+
+    it('maps button replies to ButtonPayload', () => {
+      const [message] = provider.parseInbound(buildRequest(replyPayload({
+        type: 'interactive',
+        interactive: { type: 'button_reply', button_reply: { id: 'si', title: '✅ Sí, confirmar' } },
+      })) as Request);
+
+      expect(message).toMatchObject({ Body: '✅ Sí, confirmar', ButtonPayload: 'si' });
+    });
+
+    it('maps list replies to ListId', () => {
+      const [message] = provider.parseInbound(buildRequest(replyPayload({
+        type: 'interactive',
+        interactive: { type: 'list_reply', list_reply: { id: '2', title: 'Laura Gómez' } },
+      })) as Request);
+
+      expect(message).toMatchObject({ Body: 'Laura Gómez', ListId: '2', ListTitle: 'Laura Gómez' });
+    });
+  });
+
+  describe('verifyWebhook', () => {
+    it('accepts a body signed with the app secret', () => {
+      const req = buildRequest(inboundPayload, { 'X-Hub-Signature-256': sign(inboundPayload) });
+
+      expect(provider.verifyWebhook(req)).toEqual({ valid: true });
+    });
+
+    it('rejects a body signed with another secret', () => {
+      const req = buildRequest(inboundPayload, {
+        'X-Hub-Signature-256': sign(inboundPayload, 'other-secret'),
+      });
+
+      expect(provider.verifyWebhook(req).valid).toBe(false);
+    });
+
+    it('rejects a missing signature', () => {
+      expect(provider.verifyWebhook(buildRequest(inboundPayload))).toEqual({
+        valid: false,
+        reason: 'Missing Meta signature',
+      });
+    });
+  });
+
+  describe('verifySubscription', () => {
+    it('echoes the challenge for a valid verify token', () => {
+      expect(provider.verifySubscription({
+        'hub.mode': 'subscribe',
+        'hub.verify_token': 'verify-me',
+        'hub.challenge': '1158201444',
+      })).toBe('1158201444');
+    });
+
+    it('rejects an invalid verify token', () => {
+      expect(provider.verifySubscription({
+        'hub.mode': 'subscribe',
+        'hub.verify_token': 'wrong',
+        'hub.challenge': '1158201444',
+      })).toBeNull();
+    });
+  });
+
+  describe('sending', () => {
+    const business = {
+      name: 'Barbería',
+      phone: '+5491187654321',
+      plan: 'basic' as const,
+      whatsapp_enabled: true,
+      whatsapp_phone_number_id: '106540352242922',
+    };
+
+    const mockFetch = () => jest.spyOn(global, 'fetch').mockResolvedValue({
+      ok: true,
+      json: async () => ({ messages: [{ id: 'wamid.sent' }] }),
+    } as Response);
+
+    it('sends from the business phone number ID', async () => {
+      const fetchMock = mockFetch();
+
+      const result = await provider.sendText('whatsapp:+5491122334455', 'Hola', business);
+
+      expect(result).toEqual({ messageId: 'wamid.sent' });
+      expect(fetchMock).toHaveBeenCalledWith(
+        expect.stringContaining('/106540352242922/messages'),
+        expect.objectContaining({ method: 'POST' })
+      );
+      const body = JSON.parse((fetchMock.mock.calls[0][1] as RequestInit).body as string);
+      expect(body).toEqual({
+        messaging_product: 'whatsapp',
+        to: '5491122334455',
+        type: 'text',
+        text: { body: 'Hola' },
+      });
+    });
+
+    it('sends lists as native interactive messages', async () => {
+      const fetchMock = mockFetch();
+
+      await provider.sendInteractive('whatsapp:+5491122334455', {
+        type: 'list',
+        body: '¿Con qué profesional?',
+        buttonText: 'Ver profesionales',
+        sections: [{ title: 'Profesionales', rows: [{ id: '1', title: 'Matias' }, { id: '2', title: 'Laura' }] }],
+        fallback: '1. Matias\n2. Laura',
+      }, business);
+
+      const body = JSON.parse((fetchMock.mock.calls[0][1] as RequestInit).body as string);
+      expect(body.type).toBe('interactive');
+      expect(body.interactive).toMatchObject({
+        type: 'list',
+        action: { button: 'Ver profesionales', sections: [{ rows: [{ id: '1' }, { id: '2' }] }] },
+      });
+    });
+
+    it('falls back to text when the list exceeds the row limit', async () => {
+      const fetchMock = mockFetch();
+      const rows = Array.from({ length: 11 }, (_, i) => ({ id: `${i + 1}`, title: `${i + 8}:00` }));
+
+      await provider.sendInteractive('whatsapp:+5491122334455', {
+        type: 'list',
+        body: 'Horarios',
+        buttonText: 'Ver horarios',
+        sections: [{ rows }],
+        fallback: 'Horarios disponibles',
+      }, business);
+
+      const body = JSON.parse((fetchMock.mock.calls[0][1] as RequestInit).body as string);
+      expect(body).toMatchObject({ type: 'text', text: { body: 'Horarios disponibles' } });
+    });
+
+    it('requires a phone number ID', async () => {
+      await expect(provider.sendText('whatsapp:+5491122334455', 'Hola', null)).rejects.toThrow(
+        'phone number ID'
+      );
+    });
+  });
+});
@@ -0,0 +1,218 @@
+import { reminderService, ReminderJobData } from '../../services/reminder.service';
+import { appointmentService } from '../../services/appointment.service';
+import { businessService } from '../../services/business.service';
+import { consentService } from '../../services/consent.service';
+import { customerService } from '../../services/customer.service';
+import { employeeService } from '../../services/employee.service';
+import { sessionService } from '../../services/session.service';
+import { whatsappService } from '../../services/whatsapp.service';
+import { reminderQueue } from '../../config/queue';
+import { requestContext } from '../../core/request-context';
+import { BookingPolicy, DEFAULT_BOOKING_POLICY } from '../../models';
+
+describe('reminderService', () => {
+  const businessId = '11111111-1111-1111-1111-111111111111';
+  const startTime = '2026-10-19T13:00:00.000Z';
+  const endTime = '2026-10-19T14:00:00.000Z';
+
+  const withPolicy = <T>(policy: Partial<BookingPolicy>, callback: () => Promise<T>) =>
+    requestContext.run({
+      businessId,
+      timeZone: 'America/Argentina/Buenos_Aires',
+      bookingPolicy: { ...DEFAULT_BOOKING_POLICY, ...policy },
+    }, callback);
+
+  const job = (fields: Partial<ReminderJobData> = {}): ReminderJobData => ({
+    appointmentId: 'apt-1',
+    customerPhone: '+5491112345678',
+    customerName: 'Ana',
+    employeeName: 'Laura',
+    startTime,
+    endTime,
+    offsetMinutes: 24 * 60,
+    timeZone: 'America/Argentina/Buenos_Aires',
+    ...fields,
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2026-10-18T12:00:00Z'));
+    jest.spyOn(consentService, 'canMessage').mockResolvedValue(true);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+    jest.useRealTimers();
+  });
+
+  describe('scheduleReminders', () => {
+    it('should queue one job per offset of the business, skipping the ones already past', async () => {
+      await withPolicy({ reminder_offsets_minutes: [48 * 60, 24 * 60, 90] }, () =>
+        reminderService.scheduleReminders('apt-1', '+5491112345678', 'Ana', 'Laura', startTime, endTime)
+      );
+
+      expect(reminderQueue.add).toHaveBeenCalledTimes(2);
+      expect(reminderQueue.add).toHaveBeenCalledWith(
+        expect.objectContaining({ offsetMinutes: 24 * 60, timeZone: 'America/Argentina/Buenos_Aires' }),
+        { delay: 60 * 60000, jobId: 'apt-1-1440m' }
+      );
+      expect(reminderQueue.add).toHaveBeenCalledWith(
+        expect.objectContaining({ offsetMinutes: 90 }),
+        { delay: (23 * 60 + 30) * 60000, jobId: 'apt-1-90m' }
+      );
+    });
+  });
+
+  describe('scheduleAppointmentReminders', () => {
+    const appointment = {
+      id: 'apt-1',
+      business_id: businessId,
+      employee_id: 'emp-1',
+      customer_id: 'customer-1',
+      start_time: startTime,
+      end_time: endTime,
+      status: 'pending',
+    } as any;
+
+    it('should look up the customer phone and the professional name', async () => {
+      jest.spyOn(customerService, 'getById').mockResolvedValue({ id: 'customer-1', phone: '+5491112345678', name: 'Ana' } as any);
+      jest.spyOn(employeeService, 'getById').mockResolvedValue({ id: 'emp-1', name: 'Laura' } as any);
+      const schedule = jest.spyOn(reminderService, 'scheduleReminders').mockResolvedValue();
+
+      await reminderService.scheduleAppointmentReminders(appointment);
+
+      expect(schedule).toHaveBeenCalledWith('apt-1', '+5491112345678', 'Ana', 'Laura', startTime, endTime);
+    });
+
+    it('should not remind appointments that are no longer active', async () => {
+      const schedule = jest.spyOn(reminderService, 'scheduleReminders').mockResolvedValue();
+
+      for (const status of ['cancelled', 'completed', 'no_show']) {
+        await reminderService.scheduleAppointmentReminders({ ...appointment, status });
+      }
+
+      expect(schedule).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cancelReminders', () => {
+    it('should remove the jobs of the current and the default offsets', async () => {
+      const remove = jest.fn();
+      (reminderQueue.getJob as jest.Mock).mockResolvedValue({ remove });
+
+      await withPolicy({ reminder_offsets_minutes: [30] }, () => reminderService.cancelReminders('apt-1'));
+
+      expect((reminderQueue.getJob as jest.Mock).mock.calls.map(call => call[0]))
+        .toEqual(['apt-1-30m', 'apt-1-1440m', 'apt-1-120m']);
+      expect(remove).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('processReminder', () => {
+    const appointmentWith = (fields: Record<string, any>) =>
+      jest.spyOn(appointmentService, 'getAppointmentById').mockResolvedValue({
+        id: 'apt-1',
+        business_id: businessId,
+        start_time: startTime,
+        status: 'confirmed',
+        ...fields,
+      } as any);
+
+    beforeEach(() => {
+      jest.spyOn(businessService, 'getSchedulingSettings').mockResolvedValue({
+        timeZone: 'America/Argentina/Buenos_Aires',
+        bookingPolicy: { ...DEFAULT_BOOKING_POLICY, reminder_offsets_minutes: [24 * 60, 90] },
+      });
+    });
+
+    it('should skip reminders of a rescheduled appointment', async () => {
+      appointmentWith({ start_time: '2026-10-20T13:00:00+00:00' });
+      const send = jest.spyOn(reminderService, 'sendReminder').mockResolvedValue();
+
+      await reminderService.processReminder(job());
+
+      expect(send).not.toHaveBeenCalled();
+    });
+
+    it('should skip reminders of completed appointments', async () => {
+      appointmentWith({ status: 'completed' });
+      const send = jest.spyOn(reminderService, 'sendReminder').mockResolvedValue();
+
+      await reminderService.processReminder(job());
+
+      expect(send).not.toHaveBeenCalled();
+    });
+
+    it('should skip reminders of offsets the business no longer uses', async () => {
+      appointmentWith({});
+      jest.spyOn(businessService, 'getSchedulingSettings').mockResolvedValue({
+        timeZone: 'America/Argentina/Buenos_Aires',
+        bookingPolicy: { ...DEFAULT_BOOKING_POLICY, reminder_offsets_minutes: [2 * 60] },
+      });
+      const send = jest.spyOn(reminderService, 'sendReminder').mockResolvedValue();
+
+      await reminderService.processReminder(job());
+
+      expect(businessService.getSchedulingSettings).toHaveBeenCalledWith(businessId);
+      expect(send).not.toHaveBeenCalled();
+    });
+
+    it('should skip reminders to customers who opted out', async () => {
+      appointmentWith({ customer_id: 'customer-1' });
+      const canMessage = jest.spyOn(consentService, 'canMessage').mockResolvedValue(false);
+      const send = jest.spyOn(reminderService, 'sendReminder').mockResolvedValue();
+
+      await reminderService.processReminder(job());
+
+      expect(canMessage).toHaveBeenCalledWith('customer-1', businessId);
+      expect(send).not.toHaveBeenCalled();
+    });
+
+    it('should send the reminder in the business timezone', async () => {
+      appointmentWith({ start_time: '2026-10-19T13:00:00+00:00' });
+      const send = jest.spyOn(whatsappService, 'sendMessage').mockResolvedValue(undefined as any);
+
+      await reminderService.processReminder(job());
+
+      expect(send).toHaveBeenCalledWith('+5491112345678', expect.objectContaining({
+        type: 'buttons',
+        body: expect.stringContaining('Mañana tienes una cita'),
+      }));
+      expect((send.mock.calls[0][1] as any).body).toContain('10:00 AM - 11:00 AM');
+    });
+
+    it('should wait for the reply to the reminder in the session', async () => {
+      appointmentWith({});
+      jest.spyOn(whatsappService, 'sendMessage').mockResolvedValue(undefined as any);
+      const updateState = jest.spyOn(sessionService, 'updateState');
+
+      await reminderService.processReminder(job());
+
+      const session = await requestContext.run({ businessId }, () => sessionService.getOrCreateSession(job().customerPhone));
+      expect(session.state).toBe('answering_reminder');
+      expect(session.data).toEqual(expect.objectContaining({ reminder_appointment_id: 'apt-1', employee_name: 'Laura' }));
+      expect(updateState).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not interrupt a conversation in progress', async () => {
+      appointmentWith({});
+      jest.spyOn(whatsappService, 'sendMessage').mockResolvedValue(undefined as any);
+      jest.spyOn(sessionService, 'getOrCreateSession').mockResolvedValue({ state: 'collecting_data', data: {} } as any);
+      const updateState = jest.spyOn(sessionService, 'updateState');
+
+      await reminderService.processReminder(job());
+
+      expect(updateState).not.toHaveBeenCalled();
+    });
+
+    it('should describe shorter offsets in hours and minutes', async () => {
+      appointmentWith({});
+      const send = jest.spyOn(whatsappService, 'sendMessage').mockResolvedValue(undefined as any);
+
+      await reminderService.processReminder(job({ offsetMinutes: 90 }));
+
+      expect((send.mock.calls[0][1] as any).body).toContain('Tu cita es en 1 hora y 30 minutos!');
+    });
+  });
+});
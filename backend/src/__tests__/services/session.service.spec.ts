@@ -0,0 +1,94 @@
+import { SessionService } from '../../services/session.service';
+import { MemorySessionStore } from '../../services/session';
+import { requestContext } from '../../core/request-context';
+
+describe('SessionService', () => {
+  const testPhone = 'whatsapp:+1234567890';
+  const ttlMs = 30 * 60 * 1000;
+  let store: MemorySessionStore;
+  let service: SessionService;
+
+  beforeEach(() => {
+    store = new MemorySessionStore(ttlMs);
+    service = new SessionService(store);
+  });
+
+  it('creates a new session in the initial state', async () => {
+    const session = await service.getOrCreateSession(testPhone);
+
+    expect(session.phone).toBe(testPhone);
+    expect(session.state).toBe('initial');
+    expect(session.data).toEqual({});
+  });
+
+  it('merges data updates and keeps the state', async () => {
+    await service.getOrCreateSession(testPhone);
+    await service.updateState(testPhone, 'collecting_data');
+    await service.updateData(testPhone, { customer_name: 'Juan' });
+    await service.updateData(testPhone, { duration: 30 });
+
+    const session = await service.getOrCreateSession(testPhone);
+    expect(session.state).toBe('collecting_data');
+    expect(session.data).toEqual({ customer_name: 'Juan', duration: 30 });
+  });
+
+  it('returns null when updating a missing session', async () => {
+    expect(await service.updateState(testPhone, 'confirming')).toBeNull();
+    expect(await service.updateData(testPhone, { duration: 30 })).toBeNull();
+  });
+
+  it('clears data on reset', async () => {
+    await service.getOrCreateSession(testPhone);
+    await service.updateData(testPhone, { customer_name: 'Juan' });
+    await service.updateState(testPhone, 'confirming');
+
+    const session = await service.resetSession(testPhone);
+
+    expect(session.state).toBe('initial');
+    expect(session.data).toEqual({});
+  });
+
+  it('starts over when the stored session has expired', async () => {
+    await service.getOrCreateSession(testPhone);
+    await service.updateState(testPhone, 'confirming');
+
+    const stored = await store.get(testPhone);
+    await store.set(testPhone, {
+      ...stored!,
+      lastActivity: new Date(Date.now() - ttlMs - 1000),
+    });
+
+    const session = await service.getOrCreateSession(testPhone);
+    expect(session.state).toBe('initial');
+  });
+
+  it('reports stats for active sessions only', async () => {
+    await service.getOrCreateSession(testPhone);
+    await service.getOrCreateSession('whatsapp:+1987654321');
+    await service.endSession('whatsapp:+1987654321');
+
+    const stats = await service.getStats();
+
+    expect(stats.totalSessions).toBe(1);
+    expect(stats.stateDistribution).toEqual({ initial: 1 });
+  });
+
+  it('keeps separate sessions per business for the same phone', async () => {
+    await requestContext.run({ businessId: 'business-a' }, async () => {
+      await service.getOrCreateSession(testPhone);
+      await service.updateState(testPhone, 'confirming');
+    });
+
+    const other = await requestContext.run({ businessId: 'business-b' }, () =>
+      service.getOrCreateSession(testPhone)
+    );
+    const original = await requestContext.run({ businessId: 'business-a' }, () =>
+      service.getOrCreateSession(testPhone)
+    );
+
+    expect(other.state).toBe('initial');
+    expect(other.business_id).toBe('business-b');
+    expect(original.state).toBe('confirming');
+    expect(original.business_id).toBe('business-a');
+  });
+});
@@ -0,0 +1,91 @@
+import Redis from 'ioredis';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { PostgresSessionStore, RedisSessionStore, SessionStore } from '../../../services/session';
+import { WhatsAppSession } from '../../../models';
+
+describe('Persistent session stores', () => {
+  const key = 'business-a:whatsapp:+5491187654321';
+  const ttlMs = 30 * 60 * 1000;
+
+  const bookingSession = (): WhatsAppSession => ({
+    phone: 'whatsapp:+5491187654321',
+    state: 'selecting_time',
+    data: {
+      customer_id: 'customer-1',
+      collected_data: {
+        date: new Date('2026-10-20T03:00:00.000Z'),
+        dateRange: {
+          start: new Date('2026-10-24T03:00:00.000Z'),
+          end: new Date('2026-10-25T03:00:00.000Z'),
+        },
+        employeeId: 'employee-1',
+        duration: 30,
+      },
+    },
+    lastActivity: new Date(),
+  });
+
+  /**
+   * Supabase client keeping the upserted row as jsonb would: through JSON
+   */
+  const fakeSupabase = () => {
+    let row: any = null;
+    const query: any = {
+      upsert: jest.fn((value: any) => {
+        row = JSON.parse(JSON.stringify(value));
+        return Promise.resolve({ error: null });
+      }),
+      select: jest.fn(() => query),
+      eq: jest.fn(() => query),
+      single: jest.fn(() => Promise.resolve(row
+        ? { data: row, error: null }
+        : { data: null, error: { code: 'PGRST116' } })),
+    };
+    return { from: jest.fn(() => query) } as unknown as SupabaseClient;
+  };
+
+  /**
+   * Redis client keeping values as strings
+   */
+  const fakeRedis = () => {
+    const values = new Map<string, string>();
+    return {
+      get: jest.fn(async (name: string) => values.get(name) ?? null),
+      set: jest.fn(async (name: string, value: string) => {
+        values.set(name, value);
+        return 'OK';
+      }),
+    } as unknown as Redis;
+  };
+
+  const stores: [string, () => SessionStore][] = [
+    ['PostgresSessionStore', () => new PostgresSessionStore(fakeSupabase(), ttlMs)],
+    ['RedisSessionStore', () => new RedisSessionStore(fakeRedis(), ttlMs)],
+  ];
+
+  describe.each(stores)('%s', (_name, createStore) => {
+    it('should read back the booking dates as Dates', async () => {
+      const store = createStore();
+      const session = bookingSession();
+
+      await store.set(key, session);
+      const restored = await store.get(key);
+
+      expect(restored!.lastActivity).toBeInstanceOf(Date);
+      expect(restored!.lastActivity.getTime()).toBe(session.lastActivity.getTime());
+      expect(restored!.data.collected_data.date).toBeInstanceOf(Date);
+      expect(restored!.data.collected_data.date.toISOString()).toBe('2026-10-20T03:00:00.000Z');
+      expect(restored!.data.collected_data.dateRange.start).toBeInstanceOf(Date);
+      expect(restored!.data.collected_data.dateRange.end.toISOString()).toBe('2026-10-25T03:00:00.000Z');
+      expect(restored!.data.collected_data).toEqual(session.data.collected_data);
+    });
+
+    it('should leave sessions without booking data untouched', async () => {
+      const store = createStore();
+
+      await store.set(key, { phone: 'whatsapp:+5491187654321', state: 'initial', data: {}, lastActivity: new Date() });
+
+      expect((await store.get(key))!.data).toEqual({});
+    });
+  });
+});
@@ -0,0 +1,203 @@
+import { waitlistService } from '../../services/waitlist.service';
+import { appointmentService } from '../../services/appointment.service';
+import { consentService } from '../../services/consent.service';
+import { employeeService } from '../../services/employee.service';
+import { serviceCatalogService } from '../../services/service-catalog.service';
+import { sessionService } from '../../services/session.service';
+import { messagingService } from '../../services/messaging';
+import { ConflictError } from '../../core/errors';
+import { requestContext } from '../../core/request-context';
+import { supabase } from '../../config/supabase';
+
+describe('WaitlistService', () => {
+  const businessId = 'business-1';
+  // Martes 20/10 a las 9:00 en Buenos Aires
+  const now = new Date('2026-10-20T12:00:00Z');
+
+  // 16:00 to 17:00 in Buenos Aires with Laura
+  const cancelled = {
+    id: 'apt-1',
+    business_id: businessId,
+    customer_id: 'customer-0',
+    employee_id: 'emp-2',
+    start_time: '2026-10-20T19:00:00.000Z',
+    end_time: '2026-10-20T20:00:00.000Z',
+    status: 'cancelled' as const,
+  };
+
+  const entry = (id: string, fields: Record<string, any> = {}) => ({
+    id,
+    business_id: businessId,
+    customer_id: `customer-${id}`,
+    customer_phone: `whatsapp:+54911000000${id.slice(-1)}`,
+    date: '2026-10-20',
+    duration_minutes: 60,
+    status: 'waiting' as const,
+    ...fields,
+  });
+
+  /**
+   * Chainable query that resolves with the given result wherever the chain ends
+   */
+  const queryReturning = (result: any) => {
+    const query: any = {};
+    for (const method of ['select', 'update', 'eq', 'neq', 'in', 'lt', 'lte', 'order']) {
+      query[method] = jest.fn().mockReturnValue(query);
+    }
+    query.then = (resolve: any, reject: any) => Promise.resolve(result).then(resolve, reject);
+    return query;
+  };
+
+  const inBuenosAires = <T>(callback: () => Promise<T>) =>
+    requestContext.run({ businessId, timeZone: 'America/Argentina/Buenos_Aires' }, callback);
+
+  let update: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(now);
+    update = jest.spyOn(waitlistService, 'update').mockImplementation(async (id, data) => ({ ...entry(id), ...data }) as any);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe('handleFreedSlot', () => {
+    let send: jest.SpyInstance;
+
+    beforeEach(() => {
+      jest.spyOn(waitlistService, 'refreshStatuses').mockResolvedValue();
+      jest.spyOn(employeeService, 'getById').mockResolvedValue({ id: 'emp-2', name: 'Laura' } as any);
+      jest.spyOn(serviceCatalogService, 'filterEmployeesForService').mockImplementation(async serviceId =>
+        serviceId === 'svc-color' ? [] : [{ id: 'emp-2' } as any]
+      );
+      jest.spyOn(consentService, 'canMessage').mockResolvedValue(true);
+      jest.spyOn(sessionService, 'getOrCreateSession').mockResolvedValue({ state: 'initial' } as any);
+      jest.spyOn(sessionService, 'updateData').mockResolvedValue(null);
+      jest.spyOn(sessionService, 'updateState').mockResolvedValue(null);
+      send = jest.spyOn(messagingService, 'send').mockResolvedValue({ messageId: 'msg-1' } as any);
+    });
+
+    it('should offer the slot to the first matching entries for a limited time', async () => {
+      const getAll = jest.spyOn(waitlistService, 'getAll').mockResolvedValue([
+        entry('entry-1', { employee_id: 'emp-1' }),
+        entry('entry-2', { time_window_start: '09:00:00', time_window_end: '12:00:00' }),
+        entry('entry-3', { duration_minutes: 90 }),
+        entry('entry-4', { service_id: 'svc-color' }),
+        entry('entry-5', { employee_id: 'emp-2', time_window_start: '13:00:00', time_window_end: '20:00:00' }),
+        entry('entry-6'),
+        entry('entry-7', { service_id: 'svc-corte', duration_minutes: 30 }),
+        entry('entry-8'),
+      ] as any);
+
+      const offered = await inBuenosAires(() => waitlistService.handleFreedSlot(cancelled));
+
+      expect(getAll).toHaveBeenCalledWith({ business_id: businessId, status: 'waiting', date: '2026-10-20' });
+      expect(offered.map(e => e.id)).toEqual(['entry-5', 'entry-6', 'entry-7']);
+      expect(update).toHaveBeenCalledWith('entry-7', {
+        status: 'offered',
+        offered_start_time: '2026-10-20T19:00:00.000Z',
+        offered_end_time: '2026-10-20T19:30:00.000Z',
+        offered_employee_id: 'emp-2',
+        offer_expires_at: '2026-10-20T12:15:00.000Z',
+      });
+      expect(send).toHaveBeenCalledTimes(3);
+      expect(send).toHaveBeenCalledWith(
+        'whatsapp:+549110000005',
+        expect.objectContaining({ fallback: expect.stringContaining('4:00 PM') })
+      );
+      expect(sessionService.updateState).toHaveBeenCalledWith('whatsapp:+549110000006', 'claiming_waitlist');
+    });
+
+    it('should skip customers who opted out of messages', async () => {
+      jest.spyOn(waitlistService, 'getAll').mockResolvedValue([entry('entry-5'), entry('entry-6')] as any);
+      const canMessage = jest.spyOn(consentService, 'canMessage').mockImplementation(async customerId =>
+        customerId !== 'customer-entry-5'
+      );
+
+      const offered = await inBuenosAires(() => waitlistService.handleFreedSlot(cancelled));
+
+      expect(canMessage).toHaveBeenCalledWith('customer-entry-5', businessId);
+      expect(offered.map(e => e.id)).toEqual(['entry-6']);
+      expect(send).toHaveBeenCalledTimes(1);
+    });
+
+    it('should skip customers in the middle of a conversation', async () => {
+      jest.spyOn(waitlistService, 'getAll').mockResolvedValue([entry('entry-5'), entry('entry-6')] as any);
+      jest.spyOn(sessionService, 'getOrCreateSession').mockImplementation(async phone =>
+        ({ state: phone === 'whatsapp:+549110000005' ? 'selecting_service' : 'initial' }) as any
+      );
+
+      const offered = await inBuenosAires(() => waitlistService.handleFreedSlot(cancelled));
+
+      expect(offered.map(e => e.id)).toEqual(['entry-6']);
+      expect(update).not.toHaveBeenCalledWith('entry-5', expect.anything());
+      expect(sessionService.updateState).not.toHaveBeenCalledWith('whatsapp:+549110000005', 'claiming_waitlist');
+      expect(send).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not offer slots that already started', async () => {
+      jest.setSystemTime(new Date('2026-10-20T19:30:00Z'));
+      const getAll = jest.spyOn(waitlistService, 'getAll');
+
+      const offered = await inBuenosAires(() => waitlistService.handleFreedSlot(cancelled));
+
+      expect(offered).toEqual([]);
+      expect(getAll).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('claimOffer', () => {
+    const offeredEntry = (expiresAt: string) => entry('entry-5', {
+      status: 'offered',
+      offered_start_time: cancelled.start_time,
+      offered_end_time: cancelled.end_time,
+      offered_employee_id: 'emp-2',
+      offer_expires_at: expiresAt,
+    });
+
+    it('should book the slot and withdraw it from the other customers', async () => {
+      jest.spyOn(waitlistService, 'getById').mockResolvedValue(offeredEntry('2026-10-20T12:15:00.000Z') as any);
+      const create = jest.spyOn(appointmentService, 'createAppointment').mockResolvedValue({ id: 'apt-2' } as any);
+      const withdraw = queryReturning({ error: null });
+      (supabase.from as jest.Mock).mockReturnValue(withdraw);
+
+      const result = await inBuenosAires(() => waitlistService.claimOffer('entry-5'));
+
+      expect(result.status).toBe('booked');
+      expect(create).toHaveBeenCalledWith({
+        business_id: businessId,
+        customer_id: 'customer-entry-5',
+        employee_id: 'emp-2',
+        start_time: cancelled.start_time,
+        end_time: cancelled.end_time,
+      });
+      expect(update).toHaveBeenCalledWith('entry-5', { status: 'booked', appointment_id: 'apt-2' });
+      expect(withdraw.update).toHaveBeenCalledWith(expect.objectContaining({ status: 'waiting', offer_expires_at: null }));
+      expect(withdraw.neq).toHaveBeenCalledWith('id', 'entry-5');
+    });
+
+    it('should report the slot as taken when someone booked it first', async () => {
+      jest.spyOn(waitlistService, 'getById').mockResolvedValue(offeredEntry('2026-10-20T12:15:00.000Z') as any);
+      jest.spyOn(appointmentService, 'createAppointment').mockRejectedValue(new ConflictError('Time slot is already booked'));
+
+      const result = await inBuenosAires(() => waitlistService.claimOffer('entry-5'));
+
+      expect(result.status).toBe('taken');
+      expect(update).toHaveBeenCalledWith('entry-5', expect.objectContaining({ status: 'waiting', offer_expires_at: null }));
+    });
+
+    it('should not book an offer after its claim time', async () => {
+      jest.spyOn(waitlistService, 'getById').mockResolvedValue(offeredEntry('2026-10-20T11:59:00.000Z') as any);
+      const create = jest.spyOn(appointmentService, 'createAppointment');
+
+      const result = await inBuenosAires(() => waitlistService.claimOffer('entry-5'));
+
+      expect(result.status).toBe('expired');
+      expect(create).not.toHaveBeenCalled();
+      expect(update).toHaveBeenCalledWith('entry-5', { status: 'waiting' });
+    });
+  });
+});
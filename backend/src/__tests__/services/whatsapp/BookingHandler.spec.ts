@@ -0,0 +1,419 @@
+import { BookingHandler } from '../../../services/whatsapp/BookingHandler';
+import { DataExtractor } from '../../../services/whatsapp/DataExtractor';
+import { ValidationService } from '../../../services/whatsapp/ValidationService';
+import { MessageFormatter } from '../../../services/whatsapp/MessageFormatter';
+import { requestContext } from '../../../core/request-context';
+
+describe('BookingHandler', () => {
+  const testPhone = 'whatsapp:+1234567890';
+  const testBusinessId = 'test-business-id';
+  let session: { state: string; data: Record<string, any> };
+  let sessionService: any;
+  let employeeService: any;
+  let appointmentService: any;
+  let availabilityService: any;
+  let serviceCatalogService: any;
+  let employeeAssignmentService: any;
+  let waitlistService: any;
+  let sendMessage: jest.Mock;
+  let handler: BookingHandler;
+
+  const tomorrowAt = (hours: number, minutes = 0) => {
+    const date = new Date();
+    date.setDate(date.getDate() + 1);
+    date.setHours(hours, minutes, 0, 0);
+    return date;
+  };
+
+  const employees = [
+    { id: 'emp-1', name: 'Matias Rubiolo' },
+    { id: 'emp-2', name: 'Laura Gómez' },
+  ];
+
+  const services = [
+    { id: 'svc-1', name: 'Corte', duration_minutes: 30, buffer_minutes: 0, price: 3500 },
+    { id: 'svc-2', name: 'Color', duration_minutes: 90, buffer_minutes: 15, price: null },
+  ];
+
+  beforeEach(() => {
+    session = {
+      state: 'initial',
+      data: { customer_id: 'customer-123', business_id: testBusinessId },
+    };
+    sessionService = {
+      getOrCreateSession: jest.fn(() => session),
+      updateData: jest.fn((_phone, data) => {
+        session.data = { ...session.data, ...data };
+      }),
+      updateState: jest.fn((_phone, state) => {
+        session.state = state;
+      }),
+      resetSession: jest.fn(() => {
+        session = { state: 'initial', data: {} };
+      }),
+    };
+    employeeService = {
+      getActiveEmployeesByBusiness: jest.fn().mockResolvedValue(employees),
+    };
+    appointmentService = {
+      createAppointment: jest.fn().mockResolvedValue({ id: 'apt-12345678' }),
+    };
+    availabilityService = {
+      getWorkingHours: jest.fn().mockResolvedValue({ start: '09:00', end: '20:00' }),
+      getAvailableSlots: jest.fn().mockResolvedValue([
+        { start_time: tomorrowAt(10).toISOString(), end_time: tomorrowAt(11, 30).toISOString() },
+      ]),
+      getTeamAvailableSlots: jest.fn().mockResolvedValue([
+        {
+          start_time: tomorrowAt(9).toISOString(),
+          end_time: tomorrowAt(10).toISOString(),
+          employee_ids: ['emp-1'],
+        },
+        {
+          start_time: tomorrowAt(10).toISOString(),
+          end_time: tomorrowAt(11).toISOString(),
+          employee_ids: ['emp-1', 'emp-2'],
+        },
+      ]),
+    };
+    serviceCatalogService = {
+      getActiveServicesByBusiness: jest.fn().mockResolvedValue(services),
+      // Only Laura does color
+      filterEmployeesForService: jest.fn(async (serviceId: string, list: any[]) =>
+        serviceId === 'svc-2' ? list.filter(emp => emp.id === 'emp-2') : list
+      ),
+    };
+    employeeAssignmentService = {
+      pickEmployee: jest.fn().mockResolvedValue(employees[1]),
+    };
+    waitlistService = {
+      join: jest.fn().mockResolvedValue({ id: 'entry-1' }),
+    };
+    sendMessage = jest.fn().mockResolvedValue(undefined);
+
+    handler = new BookingHandler(
+      sessionService,
+      {} as any,
+      employeeService,
+      appointmentService,
+      availabilityService,
+      serviceCatalogService,
+      employeeAssignmentService,
+      waitlistService,
+      new DataExtractor(),
+      new ValidationService(),
+      sendMessage
+    );
+  });
+
+  it('should ask for the service first when the business has a catalog', async () => {
+    await handler.startBooking(testPhone, 'Quiero agendar un turno', testBusinessId);
+
+    expect(session.state).toBe('collecting_data');
+    expect(session.data.missing_data).toEqual(['service', 'employee', 'date', 'time']);
+    expect(sendMessage).toHaveBeenCalledWith(
+      testPhone,
+      expect.objectContaining({
+        type: 'list',
+        fallback: expect.stringContaining('1. Corte - 30 min'),
+      })
+    );
+  });
+
+  it('should pick up a service named in the first message', async () => {
+    await handler.startBooking(testPhone, 'Quiero turno para color', testBusinessId);
+
+    expect(session.data.collected_data).toMatchObject({
+      serviceId: 'svc-2',
+      duration: 90,
+      employeeId: 'emp-2',
+    });
+    expect(sendMessage).toHaveBeenCalledWith(testPhone, 'Te agendaré con Laura Gómez.');
+  });
+
+  it('should skip the service step when the business has no catalog', async () => {
+    serviceCatalogService.getActiveServicesByBusiness.mockResolvedValue([]);
+
+    await handler.startBooking(testPhone, 'Quiero agendar un turno', testBusinessId);
+
+    expect(session.data.missing_data).toEqual(['employee', 'date', 'time']);
+  });
+
+  it('should only offer professionals who perform the chosen service', async () => {
+    await handler.startBooking(testPhone, 'Quiero agendar un turno', testBusinessId);
+    await handler.handleDataCollection(testPhone, '2');
+
+    expect(serviceCatalogService.filterEmployeesForService).toHaveBeenCalledWith('svc-2', employees);
+    expect(session.data.employees).toEqual([employees[1]]);
+    expect(session.data.collected_data.employeeId).toBe('emp-2');
+    expect(session.data.missing_data).toEqual(['date', 'time']);
+  });
+
+  it('should size slots and the appointment by the service duration and buffer', async () => {
+    await handler.startBooking(testPhone, 'Quiero turno para color', testBusinessId);
+    await handler.handleDataCollection(testPhone, 'mañana');
+    await handler.handleDataCollection(testPhone, '1');
+
+    expect(availabilityService.getAvailableSlots).toHaveBeenCalledWith(
+      'emp-2',
+      expect.any(Date),
+      90,
+      15,
+      undefined // Not a group class
+    );
+    expect(session.state).toBe('confirming');
+
+    await handler.handleConfirmation(testPhone, 'si');
+
+    expect(appointmentService.createAppointment).toHaveBeenCalledWith(
+      expect.objectContaining({
+        service_id: 'svc-2',
+        employee_id: 'emp-2',
+        start_time: tomorrowAt(10).toISOString(),
+        end_time: tomorrowAt(11, 30).toISOString(),
+      })
+    );
+    expect(sendMessage).toHaveBeenCalledWith(testPhone, expect.stringContaining('Color'));
+  });
+
+  describe('any professional', () => {
+    beforeEach(() => {
+      serviceCatalogService.getActiveServicesByBusiness.mockResolvedValue([]);
+    });
+
+    it('should keep the professional open and offer slots from the whole team', async () => {
+      await handler.startBooking(testPhone, 'Quiero agendar un turno', testBusinessId);
+      await handler.handleDataCollection(testPhone, 'cualquiera');
+
+      expect(session.data.collected_data.anyEmployee).toBe(true);
+      expect(session.data.collected_data.employeeId).toBeUndefined();
+      expect(session.data.missing_data).toEqual(['date', 'time']);
+
+      await handler.handleDataCollection(testPhone, 'mañana');
+
+      expect(availabilityService.getTeamAvailableSlots).toHaveBeenCalledWith(
+        ['emp-1', 'emp-2'],
+        expect.any(Date),
+        60,
+        0,
+        undefined
+      );
+      expect(availabilityService.getAvailableSlots).not.toHaveBeenCalled();
+    });
+
+    it('should assign among the professionals free at the confirmed slot', async () => {
+      await handler.startBooking(testPhone, 'Quiero agendar un turno', testBusinessId);
+      // The extra menu option after the professionals
+      await handler.handleDataCollection(testPhone, '3');
+      await handler.handleDataCollection(testPhone, 'mañana');
+      await handler.handleDataCollection(testPhone, '2');
+
+      expect(session.state).toBe('confirming');
+      expect(sendMessage).toHaveBeenCalledWith(
+        testPhone,
+        expect.objectContaining({
+          body: expect.stringContaining('Primer profesional disponible'),
+        })
+      );
+
+      await handler.handleConfirmation(testPhone, 'si');
+
+      expect(employeeAssignmentService.pickEmployee).toHaveBeenCalledWith(
+        testBusinessId,
+        employees,
+        ['emp-1', 'emp-2'],
+        tomorrowAt(10)
+      );
+      expect(appointmentService.createAppointment).toHaveBeenCalledWith(
+        expect.objectContaining({
+          employee_id: 'emp-2',
+          start_time: tomorrowAt(10).toISOString(),
+        })
+      );
+      expect(sendMessage).toHaveBeenCalledWith(testPhone, expect.stringContaining('Laura Gómez'));
+    });
+  });
+
+  describe('business hours', () => {
+    beforeEach(() => {
+      serviceCatalogService.getActiveServicesByBusiness.mockResolvedValue([]);
+    });
+
+    it('should answer with the opening hours of the day for a time outside them', async () => {
+      availabilityService.getWorkingHours.mockResolvedValue({ start: '09:00', end: '18:30' });
+
+      await handler.startBooking(testPhone, 'Quiero agendar un turno', testBusinessId);
+      await handler.handleDataCollection(testPhone, '1');
+      await handler.handleDataCollection(testPhone, 'mañana');
+      await handler.handleDataCollection(testPhone, '19:00');
+
+      expect(availabilityService.getWorkingHours).toHaveBeenCalledWith(['emp-1'], expect.any(Date));
+      expect(sendMessage).toHaveBeenLastCalledWith(
+        testPhone,
+        expect.stringContaining('Nuestro horario de atención es de 09:00 a 18:30')
+      );
+      expect(session.state).not.toBe('confirming');
+    });
+  });
+
+  describe('date ranges and time windows', () => {
+    const slotAt = (date: Date, hours: number) => {
+      const start = new Date(date);
+      start.setHours(hours, 0, 0, 0);
+      return {
+        start_time: start.toISOString(),
+        end_time: new Date(start.getTime() + 3600000).toISOString(),
+      };
+    };
+
+    beforeEach(() => {
+      // Wednesday, so "el finde" is Saturday and Sunday
+      jest.useFakeTimers();
+      jest.setSystemTime(new Date(2026, 9, 14, 9, 0));
+      serviceCatalogService.getActiveServicesByBusiness.mockResolvedValue([]);
+      // Saturday is fully booked
+      availabilityService.getAvailableSlots.mockImplementation(async (_id: string, date: Date) =>
+        date.getDay() === 0 ? [slotAt(date, 10), slotAt(date, 15)] : []
+      );
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should book the first day of the range with slots in the requested window', async () => {
+      await handler.startBooking(testPhone, 'Quiero turno con Laura el finde a la tarde', testBusinessId);
+
+      expect(session.data.collected_data.date.getDay()).toBe(0);
+      expect(session.data.collected_data.dateRange).toBeUndefined();
+      expect(session.data.missing_data).toEqual(['time']);
+
+      const picker = sendMessage.mock.calls[sendMessage.mock.calls.length - 1][1];
+      const text = typeof picker === 'string' ? picker : picker.fallback;
+      expect(text).toContain('3:00 PM');
+      expect(text).not.toContain('10:00 AM');
+    });
+
+    it('should ask for another date when nothing in the range is free', async () => {
+      availabilityService.getAvailableSlots.mockResolvedValue([]);
+
+      await handler.startBooking(testPhone, 'Quiero turno con Laura el finde', testBusinessId);
+
+      expect(session.data.collected_data.date).toBeUndefined();
+      expect(session.data.missing_data).toEqual(['date', 'time']);
+      expect(sendMessage).toHaveBeenCalledWith(
+        testPhone,
+        expect.stringContaining('No encontré horarios libres')
+      );
+    });
+
+    it('should narrow the offered slots when the customer answers with a window', async () => {
+      await handler.startBooking(testPhone, 'Quiero turno con Laura', testBusinessId);
+      await handler.handleDataCollection(testPhone, 'el domingo');
+      await handler.handleDataCollection(testPhone, 'después de las 2');
+
+      expect(session.data.collected_data.timeWindow).toMatchObject({ start: '14:00' });
+
+      await handler.handleDataCollection(testPhone, '1');
+
+      expect(session.data.collected_data.time).toBe('15:00');
+      expect(session.state).toBe('confirming');
+    });
+  });
+
+  describe('waitlist', () => {
+    beforeEach(() => {
+      // Wednesday; Saturday is fully booked
+      jest.useFakeTimers();
+      jest.setSystemTime(new Date(2026, 9, 14, 9, 0));
+      serviceCatalogService.getActiveServicesByBusiness.mockResolvedValue([]);
+      availabilityService.getAvailableSlots.mockResolvedValue([]);
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should offer the waitlist instead of a date when the day is fully booked', async () => {
+      await handler.startBooking(testPhone, 'Quiero turno con Laura el sábado a la tarde', testBusinessId);
+
+      expect(session.state).toBe('confirming_waitlist');
+      const offer = sendMessage.mock.calls[sendMessage.mock.calls.length - 1][1];
+      expect(offer.fallback).toContain('lista de espera');
+
+      await handler.handleWaitlistReply(testPhone, 'si');
+
+      expect(waitlistService.join).toHaveBeenCalledWith({
+        business_id: testBusinessId,
+        customer_id: 'customer-123',
+        employee_id: 'emp-2',
+        service_id: null,
+        date: '2026-10-17',
+        time_window_start: '13:00',
+        time_window_end: '20:00',
+        duration_minutes: 60,
+      });
+      expect(sendMessage).toHaveBeenLastCalledWith(testPhone, expect.stringContaining('Te anoté'));
+      expect(session.state).toBe('initial');
+    });
+
+    it('should ask for another date when the customer does not want to wait', async () => {
+      await handler.startBooking(testPhone, 'Quiero turno con Laura el sábado', testBusinessId);
+      await handler.handleWaitlistReply(testPhone, 'no');
+
+      expect(waitlistService.join).not.toHaveBeenCalled();
+      expect(session.state).toBe('collecting_data');
+      expect(session.data.missing_data).toEqual(['date', 'time']);
+      expect(session.data.collected_data.employeeId).toBe('emp-2');
+      expect(sendMessage).toHaveBeenLastCalledWith(testPhone, MessageFormatter.formatAskForDate());
+    });
+  });
+
+  describe('business timezone', () => {
+    const inTokyo = (callback: () => Promise<void>) =>
+      requestContext.run({ businessId: testBusinessId, timeZone: 'Asia/Tokyo' }, callback);
+
+    beforeEach(() => {
+      // Tuesday 11:00 in Tokyo, still Monday in the Americas
+      jest.useFakeTimers();
+      jest.setSystemTime(new Date('2026-10-20T02:00:00Z'));
+      // Wednesday 10:00 in Tokyo
+      availabilityService.getAvailableSlots.mockResolvedValue([
+        { start_time: '2026-10-21T01:00:00.000Z', end_time: '2026-10-21T02:30:00.000Z' },
+      ]);
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should read dates and store the appointment in the business timezone', async () => {
+      await inTokyo(async () => {
+        await handler.startBooking(testPhone, 'Quiero turno para color', testBusinessId);
+        await handler.handleDataCollection(testPhone, 'mañana');
+
+        expect(availabilityService.getAvailableSlots).toHaveBeenCalledWith(
+          'emp-2',
+          new Date('2026-10-20T15:00:00.000Z'),
+          90,
+          15,
+          undefined
+        );
+
+        const picker = sendMessage.mock.calls[sendMessage.mock.calls.length - 1][1];
+        const text = typeof picker === 'string' ? picker : picker.fallback;
+        expect(text).toContain('10:00 AM');
+
+        await handler.handleDataCollection(testPhone, '1');
+        await handler.handleConfirmation(testPhone, 'si');
+      });
+
+      expect(appointmentService.createAppointment).toHaveBeenCalledWith(
+        expect.objectContaining({
+          start_time: '2026-10-21T01:00:00.000Z',
+          end_time: '2026-10-21T02:30:00.000Z',
+        })
+      );
+    });
+  });
+});
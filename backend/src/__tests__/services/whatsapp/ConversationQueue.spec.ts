@@ -0,0 +1,129 @@
+import { ConversationQueue } from '../../../services/whatsapp/ConversationQueue';
+import { ConversationLock } from '../../../services/whatsapp/ConversationLock';
+
+describe('ConversationQueue', () => {
+  const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+  it('runs tasks for the same conversation one at a time, in order', async () => {
+    const queue = new ConversationQueue();
+    const events: string[] = [];
+
+    const first = queue.run('business-1:+5491111111111', async () => {
+      events.push('first:start');
+      await delay(20);
+      events.push('first:end');
+    });
+    const second = queue.run('business-1:+5491111111111', async () => {
+      events.push('second:start');
+      events.push('second:end');
+    });
+
+    await Promise.all([first, second]);
+
+    expect(events).toEqual(['first:start', 'first:end', 'second:start', 'second:end']);
+  });
+
+  it('runs different conversations concurrently', async () => {
+    const queue = new ConversationQueue();
+    const events: string[] = [];
+
+    const slow = queue.run('business-1:+5491111111111', async () => {
+      await delay(20);
+      events.push('slow');
+    });
+    const fast = queue.run('business-1:+5492222222222', async () => {
+      events.push('fast');
+    });
+
+    await Promise.all([slow, fast]);
+
+    expect(events).toEqual(['fast', 'slow']);
+  });
+
+  it('keeps processing after a failed task', async () => {
+    const queue = new ConversationQueue();
+
+    const failing = queue.run('key', async () => {
+      throw new Error('boom');
+    });
+    const next = queue.run('key', async () => 'ok');
+
+    await expect(failing).rejects.toThrow('boom');
+    await expect(next).resolves.toBe('ok');
+  });
+
+  it('forgets conversations without pending work', async () => {
+    const queue = new ConversationQueue();
+
+    await queue.run('key', async () => undefined);
+    await delay(0);
+
+    expect(queue.size).toBe(0);
+  });
+
+  describe('with a shared lock', () => {
+    // Lock shared by the queues of two instances
+    const createLock = (): ConversationLock & { holders: Map<string, string> } => {
+      const holders = new Map<string, string>();
+      return {
+        holders,
+        tryAcquire: jest.fn(async (key: string, token: string) => {
+          if (holders.has(key)) {
+            return false;
+          }
+          holders.set(key, token);
+          return true;
+        }),
+        release: jest.fn(async (key: string, token: string) => {
+          if (holders.get(key) === token) {
+            holders.delete(key);
+          }
+        }),
+      };
+    };
+
+    it('runs a conversation one message at a time across instances', async () => {
+      const lock = createLock();
+      const instanceA = new ConversationQueue(lock);
+      const instanceB = new ConversationQueue(lock);
+      const events: string[] = [];
+
+      const first = instanceA.run('business-1:+5491111111111', async () => {
+        events.push('a:start');
+        await delay(150);
+        events.push('a:end');
+      });
+      const second = instanceB.run('business-1:+5491111111111', async () => {
+        events.push('b:start');
+        events.push('b:end');
+      });
+
+      await Promise.all([first, second]);
+
+      expect(events).toEqual(['a:start', 'a:end', 'b:start', 'b:end']);
+      expect(lock.holders.size).toBe(0);
+    });
+
+    it('gives up when another instance keeps the conversation', async () => {
+      const lock = createLock();
+      lock.holders.set('key', 'other-instance');
+      const queue = new ConversationQueue(lock, 50);
+      const task = jest.fn(async () => 'ok');
+
+      await expect(queue.run('key', task)).rejects.toThrow('busy in another instance');
+      expect(task).not.toHaveBeenCalled();
+    });
+
+    it('releases the lock when the task fails', async () => {
+      const lock = createLock();
+      const queue = new ConversationQueue(lock);
+
+      await expect(queue.run('key', async () => {
+        throw new Error('boom');
+      })).rejects.toThrow('boom');
+
+      expect(lock.release).toHaveBeenCalledWith('key', expect.any(String));
+      expect(lock.holders.size).toBe(0);
+    });
+  });
+});
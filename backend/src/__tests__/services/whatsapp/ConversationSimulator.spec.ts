@@ -0,0 +1,81 @@
+import { ConversationSimulator } from '../../../services/whatsapp/ConversationSimulator';
+import { FakeProvider } from '../../../services/messaging/FakeProvider';
+import { SimulatedClock } from '../../../utils/clock';
+import { IncomingWhatsAppMessage } from '../../../models';
+
+describe('ConversationSimulator', () => {
+  const phone = 'whatsapp:+5491100000000';
+  const business = {
+    id: 'business-1',
+    name: 'Peluquería',
+    phone: '+5491100000001',
+    plan: 'basic' as const,
+    whatsapp_enabled: true,
+    whatsapp_phone_number: 'whatsapp:+14155238886',
+    timezone: 'America/Argentina/Buenos_Aires',
+  };
+
+  let provider: FakeProvider;
+  let clock: SimulatedClock;
+  let received: IncomingWhatsAppMessage[];
+  let simulator: ConversationSimulator;
+
+  beforeEach(() => {
+    provider = new FakeProvider();
+    clock = new SimulatedClock();
+    received = [];
+
+    // Echo bot that also tells the time, standing in for WhatsAppService
+    const bot = {
+      handleIncomingMessage: jest.fn(async (message: IncomingWhatsAppMessage) => {
+        received.push(message);
+        await provider.sendText(message.From, `Recibí: ${message.Body}`);
+        await provider.sendText(message.From, `Ahora: ${new Date().toISOString()}`);
+        await provider.sendText('whatsapp:+5491199999999', 'Para otro cliente');
+      }),
+    };
+
+    simulator = new ConversationSimulator(bot, provider, business, phone, clock);
+  });
+
+  afterEach(() => {
+    clock.restore();
+  });
+
+  it('should deliver messages as coming from the phone to the business number', async () => {
+    const replies = await simulator.send('hola');
+
+    expect(replies).toEqual(['Recibí: hola', expect.stringMatching(/^Ahora: /)]);
+    expect(received[0]).toMatchObject({ From: phone, To: business.whatsapp_phone_number, Body: 'hola' });
+    expect(received[0].MessageSid).toMatch(/^SIM/);
+  });
+
+  it('should read clock times without offset in the business timezone', async () => {
+    const now = simulator.setNow('2026-10-20T10:00');
+
+    expect(now.toISOString()).toBe('2026-10-20T13:00:00.000Z');
+    expect(new Date().getTime() - now.getTime()).toBeLessThan(1000);
+    expect(Date.now() - now.getTime()).toBeLessThan(1000);
+    expect(new Date('2026-01-01T00:00:00Z').toISOString()).toBe('2026-01-01T00:00:00.000Z');
+    expect(new Date()).toBeInstanceOf(Date);
+  });
+
+  it('should replay a script and report every failed expectation', async () => {
+    const result = await simulator.runScript({
+      name: 'eco',
+      now: '2026-10-20T10:00:00Z',
+      steps: [
+        { send: 'hola', expect: ['recibí: HOLA', 'Ahora: 2026-10-20T10:00'] },
+        { send: 'chau', now: '2026-10-21T09:00:00Z', expect: 'Ahora: 2026-10-21T09:00', expectNot: 'chau' },
+        { send: 'turno', expect: 'Para otro cliente' },
+      ],
+    });
+
+    expect(result.passed).toBe(false);
+    expect(result.steps.map(step => step.failures)).toEqual([
+      [],
+      ['expected no reply containing "chau"'],
+      ['expected a reply containing "Para otro cliente"'],
+    ]);
+  });
+});
@@ -0,0 +1,95 @@
+import { ErasureHandler } from '../../../services/whatsapp/ErasureHandler';
+import { DataExtractor } from '../../../services/whatsapp/DataExtractor';
+
+describe('ErasureHandler', () => {
+  const testPhone = 'whatsapp:+1234567890';
+  let session: { state: string; data: Record<string, any> };
+  let sessionService: any;
+  let customerService: any;
+  let customerDataService: any;
+  let sendMessage: jest.Mock;
+  let handler: ErasureHandler;
+
+  beforeEach(() => {
+    session = { state: 'initial', data: {} };
+    sessionService = {
+      getOrCreateSession: jest.fn(() => session),
+      updateData: jest.fn((_phone, data) => {
+        session.data = { ...session.data, ...data };
+      }),
+      updateState: jest.fn((_phone, state) => {
+        session.state = state;
+      }),
+      resetSession: jest.fn(() => {
+        session = { state: 'initial', data: {} };
+      }),
+    };
+    customerService = {
+      getCustomerByPhone: jest.fn().mockResolvedValue({ id: 'customer-1', phone: testPhone, name: 'Ana' }),
+    };
+    customerDataService = {
+      eraseCustomer: jest.fn().mockResolvedValue({ id: 'customer-1', erased_at: '2026-10-18T12:00:00.000Z' }),
+    };
+    sendMessage = jest.fn().mockResolvedValue(undefined);
+
+    handler = new ErasureHandler(
+      sessionService,
+      customerService,
+      customerDataService,
+      new DataExtractor(),
+      sendMessage
+    );
+  });
+
+  it('should erase the data only after both confirmations', async () => {
+    await handler.startErasure(testPhone);
+    expect(session.state).toBe('confirming_erasure');
+    expect(sendMessage).toHaveBeenLastCalledWith(testPhone, expect.objectContaining({ type: 'buttons' }));
+
+    await handler.handleConfirmation(testPhone, 'si');
+    expect(session.state).toBe('confirming_erasure_final');
+    expect(sendMessage).toHaveBeenLastCalledWith(testPhone, expect.stringContaining('ELIMINAR'));
+    expect(customerDataService.eraseCustomer).not.toHaveBeenCalled();
+
+    await handler.handleFinalConfirmation(testPhone, 'eliminar');
+    expect(customerDataService.eraseCustomer).toHaveBeenCalledWith('customer-1', 'whatsapp');
+    expect(sendMessage).toHaveBeenLastCalledWith(testPhone, expect.stringContaining('borramos tus datos'));
+  });
+
+  it('should not confirm the erasure when it fails', async () => {
+    customerDataService.eraseCustomer.mockRejectedValue(new Error('database unavailable'));
+
+    await handler.startErasure(testPhone);
+    await handler.handleConfirmation(testPhone, 'si');
+    await handler.handleFinalConfirmation(testPhone, 'ELIMINAR');
+
+    expect(sendMessage).not.toHaveBeenCalledWith(testPhone, expect.stringContaining('borramos tus datos'));
+    expect(sendMessage).toHaveBeenLastCalledWith(testPhone, 'Ocurrió un error. Por favor intenta de nuevo.');
+  });
+
+  it('should keep the data when the customer says no', async () => {
+    await handler.startErasure(testPhone);
+    await handler.handleConfirmation(testPhone, 'no');
+
+    expect(session.state).toBe('initial');
+    expect(sendMessage).toHaveBeenLastCalledWith(testPhone, expect.stringContaining('No borramos nada'));
+  });
+
+  it('should back out when the confirmation word is not typed', async () => {
+    await handler.startErasure(testPhone);
+    await handler.handleConfirmation(testPhone, 'si');
+    await handler.handleFinalConfirmation(testPhone, 'si');
+
+    expect(customerDataService.eraseCustomer).not.toHaveBeenCalled();
+    expect(session.state).toBe('initial');
+  });
+
+  it('should tell unknown numbers there is nothing to erase', async () => {
+    customerService.getCustomerByPhone.mockResolvedValue(null);
+
+    await handler.startErasure(testPhone);
+
+    expect(session.state).toBe('initial');
+    expect(sendMessage).toHaveBeenCalledWith(testPhone, 'No tenemos datos tuyos guardados.');
+  });
+});
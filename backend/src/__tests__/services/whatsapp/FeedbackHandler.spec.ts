@@ -0,0 +1,107 @@
+import { FeedbackHandler } from '../../../services/whatsapp/FeedbackHandler';
+import { DataExtractor } from '../../../services/whatsapp/DataExtractor';
+import { requestContext } from '../../../core/request-context';
+
+describe('FeedbackHandler', () => {
+  const testPhone = 'whatsapp:+1234567890';
+  const businessId = '11111111-1111-1111-1111-111111111111';
+  let session: { state: string; data: Record<string, any> };
+  let sessionService: any;
+  let appointmentService: any;
+  let feedbackService: any;
+  let bookingHandler: any;
+  let sendMessage: jest.Mock;
+  let handler: FeedbackHandler;
+
+  const completedAppointment = { id: 'apt-1', employee_id: 'emp-1', customer_id: 'customer-1', status: 'completed' };
+
+  beforeEach(() => {
+    session = { state: 'rating_appointment', data: { feedback_appointment_id: 'apt-1' } };
+    sessionService = {
+      getOrCreateSession: jest.fn(() => session),
+      updateState: jest.fn((_phone, state) => {
+        session.state = state;
+      }),
+      resetSession: jest.fn(() => {
+        session = { state: 'initial', data: {} };
+      }),
+    };
+    appointmentService = {
+      getAppointmentById: jest.fn().mockResolvedValue(completedAppointment),
+    };
+    feedbackService = {
+      recordRating: jest.fn().mockResolvedValue({}),
+      addComment: jest.fn().mockResolvedValue({}),
+    };
+    bookingHandler = {
+      startBooking: jest.fn().mockResolvedValue(undefined),
+    };
+    sendMessage = jest.fn().mockResolvedValue(undefined);
+
+    handler = new FeedbackHandler(
+      sessionService,
+      appointmentService,
+      feedbackService,
+      bookingHandler,
+      new DataExtractor(),
+      sendMessage
+    );
+  });
+
+  it.each([
+    ['4', 4],
+    ['⭐⭐⭐⭐⭐', 5],
+    ['Le doy un 3', 3],
+    ['muy mala', 1],
+    ['excelente!', 5],
+  ])('should store the rating in "%s"', async (reply, rating) => {
+    await handler.handleRating(testPhone, reply);
+
+    expect(feedbackService.recordRating).toHaveBeenCalledWith(completedAppointment, rating);
+    expect(session.state).toBe('commenting_feedback');
+  });
+
+  it('should ask again when the reply is not a rating', async () => {
+    await handler.handleRating(testPhone, 'hola');
+
+    expect(feedbackService.recordRating).not.toHaveBeenCalled();
+    expect(sendMessage).toHaveBeenCalledWith(testPhone, expect.stringContaining('del *1*'));
+    expect(session.state).toBe('rating_appointment');
+  });
+
+  it('should store the comment and thank the customer', async () => {
+    session.state = 'commenting_feedback';
+
+    await handler.handleComment(testPhone, 'No me gustó la espera');
+
+    expect(feedbackService.addComment).toHaveBeenCalledWith('apt-1', 'No me gustó la espera');
+    expect(sendMessage).toHaveBeenCalledWith(testPhone, expect.stringContaining('Gracias por tu opinión'));
+    expect(session.state).toBe('initial');
+  });
+
+  it('should not store "no" as a comment', async () => {
+    session.state = 'commenting_feedback';
+
+    await handler.handleComment(testPhone, 'No');
+
+    expect(feedbackService.addComment).not.toHaveBeenCalled();
+    expect(session.state).toBe('initial');
+  });
+
+  it('should go straight into booking the missed service after a no-show', async () => {
+    session = { state: 'offering_rebooking', data: { service_name: 'Corte' } };
+
+    await requestContext.run({ businessId }, () => handler.handleRebookingReply(testPhone, 'si'));
+
+    expect(bookingHandler.startBooking).toHaveBeenCalledWith(testPhone, 'Corte', businessId);
+  });
+
+  it('should close the conversation when the customer does not want to book again', async () => {
+    session = { state: 'offering_rebooking', data: { service_name: 'Corte' } };
+
+    await requestContext.run({ businessId }, () => handler.handleRebookingReply(testPhone, 'no'));
+
+    expect(bookingHandler.startBooking).not.toHaveBeenCalled();
+    expect(session.state).toBe('initial');
+  });
+});
@@ -0,0 +1,37 @@
+import { IntentDetector } from '../../../services/whatsapp/IntentDetector';
+
+describe('IntentDetector', () => {
+  const detector = new IntentDetector();
+
+  describe('isHumanRequest', () => {
+    it.each([
+      'humano',
+      'Asesor',
+      'Quiero hablar con una persona',
+      '¿Puedo hablar con alguien?',
+      'atención al cliente',
+      'talk to a person',
+    ])('should take "%s" as a request for a person', message => {
+      expect(detector.isHumanRequest(message)).toBe(true);
+    });
+
+    it.each([
+      'la recepcionista fue muy amable',
+      'el asesor me explicó todo',
+      'quiero agendar un turno',
+      'gracias por la atención al cliente',
+    ])('should not take "%s" as a request for a person', message => {
+      expect(detector.isHumanRequest(message)).toBe(false);
+    });
+  });
+
+  describe('detectIntent', () => {
+    it('should detect a person mentioned in a longer first message', () => {
+      expect(detector.detectIntent('hola, necesito que me atienda un operador').type).toBe('human');
+    });
+
+    it('should not read "agendar" as asking for an agent', () => {
+      expect(detector.detectIntent('quiero agendar un turno').type).toBe('book');
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { MessageFormatter } from '../../../services/whatsapp/MessageFormatter';
+
+describe('MessageFormatter interactive messages', () => {
+  const date = new Date(2026, 9, 20);
+
+  describe('formatEmployeePicker', () => {
+    it('should list employees with the menu numbers as row ids', () => {
+      const picker = MessageFormatter.formatEmployeePicker([
+        { id: 'emp-1', name: 'Matias Rubiolo', role: 'Barbero' },
+        { id: 'emp-2', name: 'Laura Gómez' },
+      ]);
+
+      expect(picker).toMatchObject({
+        type: 'list',
+        sections: [{
+          rows: [
+            { id: '1', title: 'Matias Rubiolo', description: 'Barbero' },
+            { id: '2', title: 'Laura Gómez' },
+            { id: '3', title: '⚡ Cualquiera disponible' },
+          ],
+        }],
+      });
+      expect(typeof picker !== 'string' && picker.fallback).toBe(
+        MessageFormatter.formatEmployeeList([
+          { id: 'emp-1', name: 'Matias Rubiolo', role: 'Barbero' },
+          { id: 'emp-2', name: 'Laura Gómez' },
+        ])
+      );
+    });
+
+    it('should send plain text when there is nothing to pick', () => {
+      expect(MessageFormatter.formatEmployeePicker([{ id: 'emp-1', name: 'Matias Rubiolo' }])).toBe(
+        'Te agendaré con Matias Rubiolo.'
+      );
+    });
+  });
+
+  describe('formatTimeSlotPicker', () => {
+    it('should group slots by morning and afternoon keeping the text numbering', () => {
+      const picker = MessageFormatter.formatTimeSlotPicker(date, ['09:00', '10:30', '15:00']);
+
+      expect(picker).toMatchObject({
+        type: 'list',
+        sections: [
+          { title: '🌅 Mañana', rows: [{ id: '1', title: '9:00 AM' }, { id: '2', title: '10:30 AM' }] },
+          { title: '🌆 Tarde', rows: [{ id: '3', title: '3:00 PM' }] },
+        ],
+      });
+    });
+
+    it('should omit empty sections', () => {
+      const picker = MessageFormatter.formatTimeSlotPicker(date, ['16:00']);
+
+      expect(typeof picker !== 'string' && picker.type === 'list' && picker.sections).toEqual([
+        { title: '🌆 Tarde', rows: [{ id: '1', title: '4:00 PM' }] },
+      ]);
+    });
+
+    it('should send plain text when there are no slots', () => {
+      expect(MessageFormatter.formatTimeSlotPicker(date, [])).toContain('No hay horarios disponibles');
+    });
+
+    it('should show the seats left of group class slots', () => {
+      const picker = MessageFormatter.formatTimeSlotPicker(date, ['09:00', '18:00'], { '09:00': 1, '18:00': 12 });
+
+      expect(picker).toMatchObject({
+        sections: [
+          { rows: [{ id: '1', title: '9:00 AM', description: '1 lugar disponible' }] },
+          { rows: [{ id: '2', title: '6:00 PM', description: '12 lugares disponibles' }] },
+        ],
+      });
+      expect(typeof picker !== 'string' && picker.fallback).toContain('2. 6:00 PM (12 lugares disponibles)');
+    });
+  });
+
+  describe('withYesNoButtons', () => {
+    it('should use ids understood as affirmative and negative replies', () => {
+      const message = MessageFormatter.withYesNoButtons('¿Confirmar?', 'Sí, cancelar', 'No, mantener');
+
+      expect(message).toEqual({
+        type: 'buttons',
+        body: '¿Confirmar?',
+        buttons: [
+          { id: 'si', title: 'Sí, cancelar' },
+          { id: 'no', title: 'No, mantener' },
+        ],
+        fallback: '¿Confirmar?',
+      });
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import { ReminderHandler } from '../../../services/whatsapp/ReminderHandler';
+import { CancellationHandler } from '../../../services/whatsapp/CancellationHandler';
+import { RescheduleHandler } from '../../../services/whatsapp/RescheduleHandler';
+import { DataExtractor } from '../../../services/whatsapp/DataExtractor';
+import { ValidationService } from '../../../services/whatsapp/ValidationService';
+
+describe('ReminderHandler', () => {
+  const testPhone = 'whatsapp:+1234567890';
+  let session: { state: string; data: Record<string, any> };
+  let sessionService: any;
+  let appointmentService: any;
+  let sendMessage: jest.Mock;
+  let handler: ReminderHandler;
+
+  const tomorrowAt = (hours: number, minutes = 0) => {
+    const date = new Date();
+    date.setDate(date.getDate() + 1);
+    date.setHours(hours, minutes, 0, 0);
+    return date;
+  };
+
+  const remindedAppointment = {
+    id: 'apt-1',
+    employee_id: 'emp-1',
+    customer_id: 'customer-1',
+    start_time: tomorrowAt(10).toISOString(),
+    end_time: tomorrowAt(10, 45).toISOString(),
+    status: 'pending',
+  };
+
+  beforeEach(() => {
+    session = {
+      state: 'answering_reminder',
+      data: { reminder_appointment_id: 'apt-1', employee_name: 'Matias Rubiolo' },
+    };
+    sessionService = {
+      getOrCreateSession: jest.fn(() => session),
+      updateData: jest.fn((_phone, data) => {
+        session.data = { ...session.data, ...data };
+      }),
+      updateState: jest.fn((_phone, state) => {
+        session.state = state;
+      }),
+      resetSession: jest.fn(() => {
+        session = { state: 'initial', data: {} };
+      }),
+    };
+    appointmentService = {
+      getAppointmentById: jest.fn().mockResolvedValue({ ...remindedAppointment }),
+      confirmAppointment: jest.fn().mockResolvedValue({ ...remindedAppointment, status: 'confirmed' }),
+      recordReminderResponse: jest.fn().mockResolvedValue({ ...remindedAppointment }),
+    };
+    sendMessage = jest.fn().mockResolvedValue(undefined);
+
+    const dataExtractor = new DataExtractor();
+    const validationService = new ValidationService();
+
+    handler = new ReminderHandler(
+      sessionService,
+      appointmentService,
+      new CancellationHandler(sessionService, appointmentService, dataExtractor, validationService, sendMessage),
+      new RescheduleHandler(sessionService, appointmentService, {} as any, dataExtractor, validationService, sendMessage),
+      dataExtractor,
+      sendMessage
+    );
+  });
+
+  it('should confirm the appointment when the customer says they are coming', async () => {
+    await handler.handleReminderReply(testPhone, 'Confirmo');
+
+    expect(appointmentService.confirmAppointment).toHaveBeenCalledWith('apt-1');
+    expect(appointmentService.recordReminderResponse).toHaveBeenCalledWith('apt-1', 'confirmed');
+    expect(sendMessage).toHaveBeenCalledWith(testPhone, expect.stringContaining('Gracias por confirmar'));
+    expect(session.state).toBe('initial');
+  });
+
+  it('should record a decline and ask whether to cancel or reschedule', async () => {
+    await handler.handleReminderReply(testPhone, 'no puedo ir');
+
+    expect(appointmentService.confirmAppointment).not.toHaveBeenCalled();
+    expect(appointmentService.recordReminderResponse).toHaveBeenCalledWith('apt-1', 'declined');
+    expect(sendMessage).toHaveBeenCalledWith(testPhone, expect.objectContaining({ type: 'buttons' }));
+    expect(session.state).toBe('reminder_declined');
+  });
+
+  it('should ask again on an unclear reply', async () => {
+    await handler.handleReminderReply(testPhone, 'mmm');
+
+    expect(appointmentService.recordReminderResponse).not.toHaveBeenCalled();
+    expect(sendMessage).toHaveBeenCalledWith(testPhone, expect.stringContaining('*Sí*'));
+    expect(session.state).toBe('answering_reminder');
+  });
+
+  it('should start cancelling the reminded appointment', async () => {
+    session.state = 'reminder_declined';
+
+    await handler.handleDeclinedChoice(testPhone, '1');
+
+    expect(session.state).toBe('confirming_cancellation');
+    expect(session.data.pending_cancellation_id).toBe('apt-1');
+    expect(sendMessage).toHaveBeenCalledWith(testPhone, expect.objectContaining({
+      body: expect.stringContaining('Matias Rubiolo'),
+    }));
+  });
+
+  it('should start rescheduling the reminded appointment', async () => {
+    session.state = 'reminder_declined';
+
+    await handler.handleDeclinedChoice(testPhone, 'quiero cambiarlo');
+
+    expect(session.state).toBe('rescheduling_date');
+    expect(session.data).toEqual(expect.objectContaining({
+      pending_reschedule_id: 'apt-1',
+      employee_id: 'emp-1',
+      duration: 45,
+      appointments: [expect.objectContaining({ id: 'apt-1' })],
+    }));
+  });
+
+  it('should not act on an appointment that is no longer active', async () => {
+    appointmentService.getAppointmentById.mockResolvedValue({ ...remindedAppointment, status: 'cancelled' });
+
+    await handler.handleReminderReply(testPhone, 'si');
+
+    expect(appointmentService.confirmAppointment).not.toHaveBeenCalled();
+    expect(sendMessage).toHaveBeenCalledWith(testPhone, expect.stringContaining('ya no está activo'));
+    expect(session.state).toBe('initial');
+  });
+});
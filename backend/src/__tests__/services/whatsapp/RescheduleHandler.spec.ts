@@ -0,0 +1,142 @@
+import { RescheduleHandler } from '../../../services/whatsapp/RescheduleHandler';
+import { DataExtractor } from '../../../services/whatsapp/DataExtractor';
+import { ValidationService } from '../../../services/whatsapp/ValidationService';
+import { ConflictError } from '../../../core/errors';
+
+describe('RescheduleHandler', () => {
+  const testPhone = 'whatsapp:+1234567890';
+  let session: { state: string; data: Record<string, any> };
+  let sessionService: any;
+  let appointmentService: any;
+  let availabilityService: any;
+  let sendMessage: jest.Mock;
+  let handler: RescheduleHandler;
+
+  const tomorrowAt = (hours: number, minutes = 0) => {
+    const date = new Date();
+    date.setDate(date.getDate() + 1);
+    date.setHours(hours, minutes, 0, 0);
+    return date;
+  };
+
+  const upcomingAppointment = {
+    id: 'apt-1',
+    employee_id: 'emp-1',
+    employee_name: 'Matias Rubiolo',
+    start_time: tomorrowAt(10).toISOString(),
+    end_time: tomorrowAt(10, 45).toISOString(),
+    status: 'confirmed',
+  };
+
+  beforeEach(() => {
+    session = { state: 'initial', data: {} };
+    sessionService = {
+      getOrCreateSession: jest.fn(() => session),
+      updateData: jest.fn((_phone, data) => {
+        session.data = { ...session.data, ...data };
+      }),
+      updateState: jest.fn((_phone, state) => {
+        session.state = state;
+      }),
+      resetSession: jest.fn(() => {
+        session = { state: 'initial', data: {} };
+      }),
+    };
+    appointmentService = {
+      getAppointmentsByCustomer: jest.fn().mockResolvedValue([upcomingAppointment]),
+      update: jest.fn().mockResolvedValue({ ...upcomingAppointment }),
+    };
+    availabilityService = {
+      getAvailableSlots: jest.fn().mockResolvedValue([
+        { start_time: tomorrowAt(15).toISOString(), end_time: tomorrowAt(15, 45).toISOString() },
+        { start_time: tomorrowAt(16).toISOString(), end_time: tomorrowAt(16, 45).toISOString() },
+      ]),
+    };
+    sendMessage = jest.fn().mockResolvedValue(undefined);
+
+    handler = new RescheduleHandler(
+      sessionService,
+      appointmentService,
+      availabilityService,
+      new DataExtractor(),
+      new ValidationService(),
+      sendMessage
+    );
+  });
+
+  it('should list upcoming appointments and wait for a selection', async () => {
+    await handler.startReschedule(testPhone, 'customer-123');
+
+    expect(sendMessage).toHaveBeenCalledWith(testPhone, expect.stringContaining('Reprogramar turno'));
+    expect(sendMessage).toHaveBeenCalledWith(testPhone, expect.stringContaining('Matias Rubiolo'));
+    expect(session.state).toBe('rescheduling');
+  });
+
+  it('should reset the session when there is nothing to reschedule', async () => {
+    appointmentService.getAppointmentsByCustomer.mockResolvedValue([]);
+
+    await handler.startReschedule(testPhone, 'customer-123');
+
+    expect(sendMessage).toHaveBeenCalledWith(testPhone, expect.stringContaining('No tienes turnos'));
+    expect(sessionService.resetSession).toHaveBeenCalledWith(testPhone);
+  });
+
+  it('should keep the original duration when looking for new slots', async () => {
+    await handler.startReschedule(testPhone, 'customer-123');
+    await handler.handleAppointmentSelection(testPhone, '1');
+    await handler.handleDateSelection(testPhone, 'mañana');
+
+    expect(availabilityService.getAvailableSlots).toHaveBeenCalledWith(
+      'emp-1',
+      expect.any(Date),
+      45
+    );
+    expect(session.state).toBe('rescheduling_time');
+    expect(session.data.available_slots).toEqual(['15:00', '16:00']);
+  });
+
+  it('should move the appointment after confirmation', async () => {
+    await handler.startReschedule(testPhone, 'customer-123');
+    await handler.handleAppointmentSelection(testPhone, '1');
+    await handler.handleDateSelection(testPhone, 'mañana');
+    await handler.handleTimeSelection(testPhone, '2');
+
+    expect(session.state).toBe('confirming_reschedule');
+
+    await handler.handleRescheduleConfirmation(testPhone, 'sí');
+
+    expect(appointmentService.update).toHaveBeenCalledWith('apt-1', {
+      start_time: tomorrowAt(16).toISOString(),
+      end_time: tomorrowAt(16, 45).toISOString(),
+    });
+    expect(sendMessage).toHaveBeenCalledWith(testPhone, expect.stringContaining('Turno reprogramado'));
+    expect(sessionService.resetSession).toHaveBeenCalledWith(testPhone);
+  });
+
+  it('should offer the remaining slots when the new time was just taken', async () => {
+    appointmentService.update.mockRejectedValue(new ConflictError('Time slot is already booked'));
+
+    await handler.startReschedule(testPhone, 'customer-123');
+    await handler.handleAppointmentSelection(testPhone, '1');
+    await handler.handleDateSelection(testPhone, 'mañana');
+    await handler.handleTimeSelection(testPhone, '1');
+    await handler.handleRescheduleConfirmation(testPhone, 'sí');
+
+    expect(sendMessage).toHaveBeenLastCalledWith(
+      testPhone,
+      expect.stringContaining('acaba de ser reservado')
+    );
+    expect(session.state).toBe('rescheduling_time');
+  });
+
+  it('should keep the appointment when the customer declines', async () => {
+    await handler.startReschedule(testPhone, 'customer-123');
+    await handler.handleAppointmentSelection(testPhone, '1');
+    await handler.handleDateSelection(testPhone, 'mañana');
+    await handler.handleTimeSelection(testPhone, '1');
+    await handler.handleRescheduleConfirmation(testPhone, 'no');
+
+    expect(appointmentService.update).not.toHaveBeenCalled();
+    expect(sendMessage).toHaveBeenLastCalledWith(testPhone, expect.stringContaining('se mantiene'));
+  });
+});
@@ -33,6 +33,22 @@ jest.mock('../config/twilio', () => ({
   sendWhatsAppMessage: jest.fn(),
 }));
 
+// Mock Bull queue (avoids opening Redis connections)
+jest.mock('../config/queue', () => ({
+  reminderQueue: {
+    add: jest.fn(),
+    getJob: jest.fn(),
+    process: jest.fn(),
+    on: jest.fn(),
+  },
+  followUpQueue: {
+    add: jest.fn(),
+    getJob: jest.fn(),
+    process: jest.fn(),
+    on: jest.fn(),
+  },
+}));
+
 // Mock logger to reduce noise in tests
 jest.mock('../config/logger', () => ({
   logger: {
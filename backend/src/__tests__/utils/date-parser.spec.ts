@@ -1,4 +1,10 @@
-import { parseNaturalDate, isValidAppointmentDate } from '../../utils/date-parser';
+import {
+  parseNaturalDate,
+  parseDateRange,
+  parseTimeWindow,
+  isTimeInWindow,
+  isValidAppointmentDate,
+} from '../../utils/date-parser';
 
 describe('parseNaturalDate', () => {
   beforeEach(() => {
@@ -87,6 +93,81 @@ describe('parseNaturalDate', () => {
   });
 });
 
+describe('free text and ranges', () => {
+  // Wednesday 12 November 2025, local time
+  const day = (date: number, month = 10) => new Date(2025, month, date);
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date(2025, 10, 12, 10, 0));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should find a date inside a sentence', () => {
+    expect(parseNaturalDate('Quiero turno para color mañana a las 10')).toEqual(day(13));
+    expect(parseNaturalDate('¿tenés algo el viernes?')).toEqual(day(14));
+    expect(parseNaturalDate('mejor pasado mañana')).toEqual(day(14));
+    expect(parseNaturalDate('para el 20 de noviembre')).toEqual(day(20));
+  });
+
+  it('should not take "a la mañana" for tomorrow', () => {
+    expect(parseNaturalDate('hoy a la mañana')).toEqual(day(12));
+    expect(parseNaturalDate('a la mañana')).toBeNull();
+  });
+
+  it('should parse "el finde" as the coming weekend', () => {
+    expect(parseDateRange('¿hay algo para el finde?')).toEqual({ start: day(15), end: day(16) });
+  });
+
+  it('should parse "la semana que viene" from Monday to Sunday', () => {
+    expect(parseDateRange('la semana que viene')).toEqual({ start: day(17), end: day(23) });
+  });
+
+  it('should parse "en 3 días" as a single day', () => {
+    expect(parseDateRange('en 3 días')).toEqual({ start: day(15), end: day(15) });
+  });
+
+  it('should parse "después del 15" as an open range starting the next day', () => {
+    expect(parseDateRange('después del 15')).toEqual({ start: day(16), end: day(22) });
+  });
+
+  it('should move "a partir del 10" to next month when it already passed', () => {
+    expect(parseDateRange('a partir del 10')).toEqual({ start: day(10, 11), end: day(16, 11) });
+  });
+});
+
+describe('parseTimeWindow', () => {
+  it('should parse parts of the day', () => {
+    expect(parseTimeWindow('¿hay algo para mañana a la tarde?')).toMatchObject({
+      start: '13:00',
+      end: '20:00',
+    });
+    expect(parseTimeWindow('a la mañana')).toMatchObject({ start: '00:00', end: '12:00' });
+    expect(parseTimeWindow('al mediodía')).toMatchObject({ start: '12:00', end: '14:00' });
+  });
+
+  it('should read small hours as afternoon', () => {
+    expect(parseTimeWindow('después de las 5')).toMatchObject({ start: '17:00', end: '24:00' });
+    expect(parseTimeWindow('antes de las 11')).toMatchObject({ start: '00:00', end: '11:00' });
+    expect(parseTimeWindow('entre las 3 y las 6')).toMatchObject({ start: '15:00', end: '18:00' });
+  });
+
+  it('should leave exact times to the time extractor', () => {
+    expect(parseTimeWindow('a las 10 de la mañana')).toBeNull();
+    expect(parseTimeWindow('a las 15:00')).toBeNull();
+  });
+
+  it('should check whether a time falls in the window', () => {
+    const window = parseTimeWindow('después de las 5')!;
+
+    expect(isTimeInWindow('17:00', window)).toBe(true);
+    expect(isTimeInWindow('16:30', window)).toBe(false);
+  });
+});
+
 describe('isValidAppointmentDate', () => {
   beforeEach(() => {
     jest.useFakeTimers();
@@ -129,4 +210,54 @@ describe('isValidAppointmentDate', () => {
     expect(result.valid).toBe(false);
     expect(result.error).toContain('90 días');
   });
+
+  it('should take the booking window from the business policy', () => {
+    const inTwentyDays = new Date();
+    inTwentyDays.setDate(inTwentyDays.getDate() + 20);
+
+    const result = isValidAppointmentDate(inTwentyDays, 'UTC', 14);
+    expect(result.valid).toBe(false);
+    expect(result.error).toContain('14 días');
+    expect(isValidAppointmentDate(inTwentyDays, 'UTC', 30).valid).toBe(true);
+  });
+});
+
+describe('business timezone', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    // Martes 20/10 02:00 UTC: lunes 19 a la noche en Buenos Aires, martes 20 en Tokio
+    jest.setSystemTime(new Date('2026-10-20T02:00:00Z'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should take "today" from the business timezone', () => {
+    expect(parseNaturalDate('hoy', 'America/Argentina/Buenos_Aires')?.toISOString())
+      .toBe('2026-10-19T03:00:00.000Z');
+    expect(parseNaturalDate('hoy', 'Asia/Tokyo')?.toISOString())
+      .toBe('2026-10-19T15:00:00.000Z');
+  });
+
+  it('should return midnight of the business day in UTC', () => {
+    expect(parseNaturalDate('mañana', 'America/Argentina/Buenos_Aires')?.toISOString())
+      .toBe('2026-10-20T03:00:00.000Z');
+    expect(parseNaturalDate('el viernes', 'Asia/Tokyo')?.toISOString())
+      .toBe('2026-10-22T15:00:00.000Z');
+  });
+
+  it('should build ranges on the business calendar', () => {
+    const range = parseDateRange('el finde', 'America/Argentina/Buenos_Aires');
+
+    expect(range?.start.toISOString()).toBe('2026-10-24T03:00:00.000Z');
+    expect(range?.end.toISOString()).toBe('2026-10-25T03:00:00.000Z');
+  });
+
+  it('should validate against the business day', () => {
+    const mondayInBuenosAires = new Date('2026-10-19T03:00:00Z');
+
+    expect(isValidAppointmentDate(mondayInBuenosAires, 'America/Argentina/Buenos_Aires').valid).toBe(true);
+    expect(isValidAppointmentDate(mondayInBuenosAires, 'Asia/Tokyo').valid).toBe(false);
+  });
 });
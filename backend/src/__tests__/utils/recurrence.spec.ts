@@ -0,0 +1,60 @@
+import { expandRecurrence, MAX_OCCURRENCES } from '../../utils/recurrence';
+
+describe('expandRecurrence', () => {
+  const BUENOS_AIRES = 'America/Argentina/Buenos_Aires';
+  const MADRID = 'Europe/Madrid';
+  const iso = (dates: Date[]) => dates.map(date => date.toISOString());
+
+  it('should repeat weekly the given number of times', () => {
+    // Martes 20/10 a las 18:00 en Buenos Aires
+    const dates = expandRecurrence(new Date('2026-10-20T21:00:00Z'), { frequency: 'weekly', count: 3 }, BUENOS_AIRES);
+
+    expect(iso(dates)).toEqual([
+      '2026-10-20T21:00:00.000Z',
+      '2026-10-27T21:00:00.000Z',
+      '2026-11-03T21:00:00.000Z',
+    ]);
+  });
+
+  it('should repeat every two weeks until the given day, inclusive', () => {
+    const dates = expandRecurrence(
+      new Date('2026-10-20T21:00:00Z'),
+      { frequency: 'biweekly', until: new Date('2026-11-18T02:59:59.999Z') },
+      BUENOS_AIRES
+    );
+
+    expect(iso(dates)).toEqual([
+      '2026-10-20T21:00:00.000Z',
+      '2026-11-03T21:00:00.000Z',
+      '2026-11-17T21:00:00.000Z',
+    ]);
+  });
+
+  it('should keep the wall-clock time across a daylight saving change', () => {
+    // El 25/10 Madrid vuelve a UTC+1: las 18:00 pasan de 16:00 a 17:00 UTC
+    const dates = expandRecurrence(new Date('2026-10-20T16:00:00Z'), { frequency: 'weekly', count: 2 }, MADRID);
+
+    expect(iso(dates)).toEqual(['2026-10-20T16:00:00.000Z', '2026-10-27T17:00:00.000Z']);
+  });
+
+  it('should skip months without the day when repeating monthly', () => {
+    // 31/10, 31/12 y 31/1: noviembre no tiene 31
+    const dates = expandRecurrence(new Date('2026-10-31T13:00:00Z'), { frequency: 'monthly', count: 3 }, BUENOS_AIRES);
+
+    expect(iso(dates)).toEqual([
+      '2026-10-31T13:00:00.000Z',
+      '2026-12-31T13:00:00.000Z',
+      '2027-01-31T13:00:00.000Z',
+    ]);
+  });
+
+  it('should never expand past the maximum', () => {
+    const dates = expandRecurrence(
+      new Date('2026-10-20T21:00:00Z'),
+      { frequency: 'weekly', until: new Date('2030-01-01T00:00:00Z') },
+      BUENOS_AIRES
+    );
+
+    expect(dates).toHaveLength(MAX_OCCURRENCES);
+  });
+});
@@ -0,0 +1,78 @@
+import {
+  addZonedDays,
+  endOfZonedDay,
+  formatZonedTime,
+  getZonedParts,
+  isValidTimeZone,
+  setZonedTime,
+  startOfZonedDay,
+  toZonedTime,
+  fromZonedTime,
+  zonedTimeToUtc,
+} from '../../utils/timezone';
+
+// Los resultados no dependen de la zona del proceso: `npm run test:tz` corre la suite con varios TZ
+describe(`timezone utils (TZ=${process.env.TZ || 'system'})`, () => {
+  const BUENOS_AIRES = 'America/Argentina/Buenos_Aires';
+  const TOKYO = 'Asia/Tokyo';
+  const MADRID = 'Europe/Madrid';
+
+  it('should validate IANA timezones', () => {
+    expect(isValidTimeZone(BUENOS_AIRES)).toBe(true);
+    expect(isValidTimeZone('UTC')).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+  });
+
+  it('should convert wall-clock times to UTC', () => {
+    expect(zonedTimeToUtc(2026, 10, 20, 9, 0, BUENOS_AIRES).toISOString()).toBe('2026-10-20T12:00:00.000Z');
+    expect(zonedTimeToUtc(2026, 10, 20, 9, 0, TOKYO).toISOString()).toBe('2026-10-20T00:00:00.000Z');
+    expect(zonedTimeToUtc(2026, 10, 20, 0, 570, BUENOS_AIRES).toISOString()).toBe('2026-10-20T12:30:00.000Z');
+  });
+
+  it('should read the wall clock and weekday of an instant', () => {
+    // Martes 20 a las 02:00 UTC sigue siendo lunes 19 en Buenos Aires
+    const parts = getZonedParts(new Date('2026-10-20T02:00:00Z'), BUENOS_AIRES);
+
+    expect(parts).toMatchObject({ year: 2026, month: 10, day: 19, hour: 23, minute: 0, weekday: 1 });
+    expect(getZonedParts(new Date('2026-10-20T02:00:00Z'), TOKYO).weekday).toBe(2);
+  });
+
+  it('should compute day boundaries in the zone', () => {
+    const instant = new Date('2026-10-20T02:00:00Z');
+
+    expect(startOfZonedDay(instant, BUENOS_AIRES).toISOString()).toBe('2026-10-19T03:00:00.000Z');
+    expect(endOfZonedDay(instant, BUENOS_AIRES).toISOString()).toBe('2026-10-20T02:59:59.999Z');
+    expect(startOfZonedDay(instant, TOKYO).toISOString()).toBe('2026-10-19T15:00:00.000Z');
+  });
+
+  it('should keep the wall clock across daylight saving changes', () => {
+    // Madrid pasa de UTC+2 a UTC+1 el 25/10/2026
+    const saturday = zonedTimeToUtc(2026, 10, 24, 10, 0, MADRID);
+    const sunday = addZonedDays(saturday, 1, MADRID);
+
+    expect(saturday.toISOString()).toBe('2026-10-24T08:00:00.000Z');
+    expect(sunday.toISOString()).toBe('2026-10-25T09:00:00.000Z');
+    expect(formatZonedTime(sunday, MADRID)).toBe('10:00');
+  });
+
+  it('should move times in a daylight saving gap forward', () => {
+    // El 29/03/2026 en Madrid no existen las 02:30
+    expect(formatZonedTime(zonedTimeToUtc(2026, 3, 29, 2, 30, MADRID), MADRID)).toBe('03:30');
+  });
+
+  it('should set a time of day on the zoned date', () => {
+    const day = new Date('2026-10-20T03:00:00Z');
+
+    expect(setZonedTime(day, '15:30', BUENOS_AIRES).toISOString()).toBe('2026-10-20T18:30:00.000Z');
+    expect(formatZonedTime(new Date('2026-10-20T18:30:00Z'), BUENOS_AIRES)).toBe('15:30');
+  });
+
+  it('should round-trip wall-clock dates', () => {
+    const instant = new Date('2026-10-20T18:30:00Z');
+    const wallClock = toZonedTime(instant, TOKYO);
+
+    expect(wallClock.getDate()).toBe(21);
+    expect(wallClock.getHours()).toBe(3);
+    expect(fromZonedTime(wallClock, TOKYO).toISOString()).toBe(instant.toISOString());
+  });
+});
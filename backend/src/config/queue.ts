@@ -28,22 +28,38 @@ export const reminderQueue = new Bull('appointment-reminders', {
   },
 });
 
-// Event listeners para logging
-reminderQueue.on('error', (error) => {
-  logger.error('Queue error:', error);
+// Mensajes después del turno: encuesta de satisfacción y contacto por ausencia
+export const followUpQueue = new Bull('appointment-follow-ups', {
+  redis: redisConfig,
+  defaultJobOptions: {
+    attempts: 3,
+    backoff: {
+      type: 'exponential',
+      delay: 2000,
+    },
+    removeOnComplete: true,
+    removeOnFail: false,
+  },
 });
 
-reminderQueue.on('failed', (job, error) => {
-  logger.error(`Job ${job.id} failed:`, error);
-});
+// Event listeners para logging
+for (const queue of [reminderQueue, followUpQueue]) {
+  queue.on('error', (error) => {
+    logger.error('Queue error:', error);
+  });
 
-reminderQueue.on('completed', (job) => {
-  logger.info(`Job ${job.id} completed`);
-});
+  queue.on('failed', (job, error) => {
+    logger.error(`Job ${job.id} failed:`, error);
+  });
 
-reminderQueue.on('stalled', (job) => {
-  logger.warn(`Job ${job.id} stalled`);
-});
+  queue.on('completed', (job) => {
+    logger.info(`Job ${job.id} completed`);
+  });
+
+  queue.on('stalled', (job) => {
+    logger.warn(`Job ${job.id} stalled`);
+  });
+}
 
 logger.info('Queue initialized successfully');
 
@@ -11,7 +11,12 @@ export const twilioClient = process.env.TWILIO_ACCOUNT_SID && process.env.TWILIO
 
 export const TWILIO_WHATSAPP_NUMBER = process.env.TWILIO_WHATSAPP_NUMBER || '';
 
-export async function sendWhatsAppMessage(to: string, message: string) {
+// Delivery status callbacks go to the same webhook as inbound messages
+const STATUS_CALLBACK_URL = process.env.TWILIO_WEBHOOK_BASE_URL
+  ? `${process.env.TWILIO_WEBHOOK_BASE_URL.replace(/\/$/, '')}/api/whatsapp/webhook`
+  : undefined;
+
+export async function sendWhatsAppMessage(to: string, message: string, from: string = TWILIO_WHATSAPP_NUMBER) {
   if (!twilioClient) {
     logger.error('Twilio client not initialized');
     throw new Error('Twilio client not configured');
@@ -19,9 +24,10 @@ export async function sendWhatsAppMessage(to: string, message: string) {
 
   try {
     const result = await twilioClient.messages.create({
-      from: TWILIO_WHATSAPP_NUMBER,
+      from: from.startsWith('whatsapp:') ? from : `whatsapp:${from}`,
       to: to.startsWith('whatsapp:') ? to : `whatsapp:${to}`,
-      body: message
+      body: message,
+      ...(STATUS_CALLBACK_URL && { statusCallback: STATUS_CALLBACK_URL })
     });
 
     logger.info(`WhatsApp message sent to ${to}`, { messageSid: result.sid });
@@ -0,0 +1,186 @@
+import { Request, Response } from 'express';
+import { appointmentSeriesService } from '../services/appointment-series.service';
+import {
+  CreateAppointmentSeriesSchema,
+  UpdateAppointmentSeriesSchema,
+  UpdateSeriesOccurrencesSchema,
+  CancelSeriesOccurrencesSchema,
+  AppointmentSeries,
+  CreateAppointmentSeriesInput,
+  UpdateAppointmentSeriesInput,
+} from '../models';
+import { logger } from '../config/logger';
+import { BaseController } from '../core/base.controller';
+import { ConflictError, NotFoundError, ValidationError } from '../core/errors';
+
+/**
+ * AppointmentSeriesController - Recurring appointments and their occurrences
+ */
+class AppointmentSeriesController extends BaseController<
+  AppointmentSeries,
+  CreateAppointmentSeriesInput,
+  UpdateAppointmentSeriesInput
+> {
+  protected entityName = 'AppointmentSeries';
+  protected service = appointmentSeriesService;
+  protected createSchema = CreateAppointmentSeriesSchema;
+  protected updateSchema = UpdateAppointmentSeriesSchema;
+
+  /**
+   * Override create: expand the series, reporting the occurrences skipped by conflicts
+   */
+  async create(req: Request, res: Response): Promise<void> {
+    try {
+      const validationResult = CreateAppointmentSeriesSchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: validationResult.error.errors,
+        });
+        return;
+      }
+
+      const result = await appointmentSeriesService.createSeries(validationResult.data);
+
+      res.status(201).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      if (error instanceof ValidationError || error instanceof ConflictError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+        return;
+      }
+
+      logger.error('Error creating appointment series:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to create appointment series',
+      });
+    }
+  }
+
+  /**
+   * Custom endpoint: Appointments of a series
+   */
+  async getOccurrences(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const appointments = await appointmentSeriesService.getOccurrences(id);
+
+      res.status(200).json({
+        success: true,
+        data: appointments,
+        count: appointments.length
+      });
+    } catch (error) {
+      logger.error('Error getting series occurrences:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get series occurrences',
+      });
+    }
+  }
+
+  /**
+   * Custom endpoint: Edit this occurrence, this and the following ones, or all of them
+   */
+  async updateOccurrences(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, appointmentId } = req.params;
+      const validationResult = UpdateSeriesOccurrencesSchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: validationResult.error.errors,
+        });
+        return;
+      }
+
+      const result = await appointmentSeriesService.updateOccurrences(id, appointmentId, validationResult.data);
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        res.status(404).json({
+          success: false,
+          error: error.message,
+        });
+        return;
+      }
+
+      logger.error('Error updating series occurrences:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to update series occurrences',
+      });
+    }
+  }
+
+  /**
+   * Custom endpoint: Cancel this occurrence, this and the following ones, or all of them
+   */
+  async cancelOccurrences(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, appointmentId } = req.params;
+      const validationResult = CancelSeriesOccurrencesSchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: validationResult.error.errors,
+        });
+        return;
+      }
+
+      const cancelled = await appointmentSeriesService.cancelOccurrences(
+        id,
+        appointmentId,
+        validationResult.data.scope
+      );
+
+      res.status(200).json({
+        success: true,
+        data: cancelled,
+        count: cancelled.length,
+        message: 'Appointments cancelled successfully'
+      });
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        res.status(404).json({
+          success: false,
+          error: error.message,
+        });
+        return;
+      }
+
+      logger.error('Error cancelling series occurrences:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to cancel series occurrences',
+      });
+    }
+  }
+}
+
+// Export singleton instance configured as object for backward compatibility
+const controller = new AppointmentSeriesController();
+export const appointmentSeriesController = {
+  create: controller.create.bind(controller),
+  getById: controller.getById.bind(controller),
+  update: controller.update.bind(controller),
+  getOccurrences: controller.getOccurrences.bind(controller),
+  updateOccurrences: controller.updateOccurrences.bind(controller),
+  cancelOccurrences: controller.cancelOccurrences.bind(controller),
+};
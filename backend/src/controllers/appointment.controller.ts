@@ -3,6 +3,7 @@ import { appointmentService } from '../services/appointment.service';
 import {
   CreateAppointmentSchema,
   UpdateAppointmentSchema,
+  QueryClassSessionsSchema,
   Appointment,
   CreateAppointmentInput,
   UpdateAppointmentInput,
@@ -167,6 +168,60 @@ class AppointmentController extends BaseController<Appointment, CreateAppointmen
     }
   }
 
+  /**
+   * Custom endpoint: Record that the customer showed up (DELETE undoes it)
+   */
+  async checkIn(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const appointment = await appointmentService.checkIn(id, req.method !== 'DELETE');
+
+      res.status(200).json({
+        success: true,
+        data: appointment,
+        message: appointment.checked_in_at ? 'Customer checked in' : 'Check-in removed'
+      });
+    } catch (error) {
+      logger.error('Error checking in appointment:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to check in appointment',
+      });
+    }
+  }
+
+  /**
+   * Custom endpoint: Group classes in a date range with their attendees
+   */
+  async getClasses(req: Request, res: Response): Promise<void> {
+    try {
+      const validationResult = QueryClassSessionsSchema.safeParse(req.query);
+
+      if (!validationResult.success) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid query parameters',
+          details: validationResult.error.errors,
+        });
+        return;
+      }
+
+      const sessions = await appointmentService.getClassSessions(validationResult.data);
+
+      res.status(200).json({
+        success: true,
+        data: sessions,
+        count: sessions.length
+      });
+    } catch (error) {
+      logger.error('Error getting class sessions:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get class sessions',
+      });
+    }
+  }
+
   /**
    * Custom endpoint: Get upcoming appointments
    */
@@ -238,6 +293,8 @@ export const appointmentController = {
   confirm: controller.confirm.bind(controller),
   complete: controller.complete.bind(controller),
   markNoShow: controller.markNoShow.bind(controller),
+  checkIn: controller.checkIn.bind(controller),
+  getClasses: controller.getClasses.bind(controller),
   delete: controller.delete.bind(controller),
   getUpcoming: controller.getUpcoming.bind(controller),
   getStats: controller.getStats.bind(controller),
@@ -0,0 +1,68 @@
+import { Request, Response } from 'express';
+import { availabilityExceptionService } from '../services/availability-exception.service';
+import {
+  CreateAvailabilityExceptionSchema,
+  UpdateAvailabilityExceptionSchema,
+  QueryAvailabilityExceptionsSchema,
+  AvailabilityException,
+  CreateAvailabilityExceptionInput,
+  UpdateAvailabilityExceptionInput,
+} from '../models';
+import { logger } from '../config/logger';
+import { BaseController } from '../core/base.controller';
+
+/**
+ * AvailabilityExceptionController - Time off, holidays and extra hours
+ */
+class AvailabilityExceptionController extends BaseController<
+  AvailabilityException,
+  CreateAvailabilityExceptionInput,
+  UpdateAvailabilityExceptionInput
+> {
+  protected entityName = 'AvailabilityException';
+  protected service = availabilityExceptionService;
+  protected createSchema = CreateAvailabilityExceptionSchema;
+  protected updateSchema = UpdateAvailabilityExceptionSchema;
+
+  /**
+   * Override getAll to support ?employee_id, ?from and ?to
+   */
+  async getAll(req: Request, res: Response): Promise<void> {
+    try {
+      const validationResult = QueryAvailabilityExceptionsSchema.safeParse(req.query);
+
+      if (!validationResult.success) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid query parameters',
+          details: validationResult.error.errors,
+        });
+        return;
+      }
+
+      const exceptions = await availabilityExceptionService.getAll(validationResult.data);
+
+      res.status(200).json({
+        success: true,
+        data: exceptions,
+        count: exceptions.length
+      });
+    } catch (error) {
+      logger.error('Error getting availability exceptions:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get availability exceptions',
+      });
+    }
+  }
+}
+
+// Export singleton instance configured as object for backward compatibility
+const controller = new AvailabilityExceptionController();
+export const availabilityExceptionController = {
+  create: controller.create.bind(controller),
+  getById: controller.getById.bind(controller),
+  getAll: controller.getAll.bind(controller),
+  update: controller.update.bind(controller),
+  delete: controller.delete.bind(controller),
+};
@@ -1,5 +1,6 @@
 import { Request, Response } from 'express';
 import { availabilityService } from '../services/availability.service';
+import { serviceCatalogService } from '../services/service-catalog.service';
 import {
   CreateAvailabilitySchema,
   UpdateAvailabilitySchema,
@@ -9,6 +10,7 @@ import {
 } from '../models';
 import { logger } from '../config/logger';
 import { BaseController } from '../core/base.controller';
+import { NotFoundError } from '../core/errors';
 
 /**
  * AvailabilityController extending BaseController
@@ -44,11 +46,12 @@ class AvailabilityController extends BaseController<Availability, CreateAvailabi
 
   /**
    * Custom endpoint: Get available time slots
+   * Pass service_id to size the slots by the service instead of ?duration
    */
   async getSlots(req: Request, res: Response): Promise<void> {
     try {
       const { employeeId } = req.params;
-      const { date, duration } = req.query;
+      const { date, duration, service_id } = req.query;
 
       if (!date) {
         res.status(400).json({
@@ -58,10 +61,20 @@ class AvailabilityController extends BaseController<Availability, CreateAvailabi
         return;
       }
 
+      // The service's duration and buffer take precedence over an explicit duration
+      const service = service_id
+        ? await serviceCatalogService.getById(service_id as string)
+        : null;
+
       const slots = await availabilityService.getAvailableSlots(
         employeeId,
         new Date(date as string),
-        duration ? parseInt(duration as string) : 60
+        service?.duration_minutes || (duration ? parseInt(duration as string) : 60),
+        service?.buffer_minutes || 0,
+        // Group classes stay open until full and report the seats left
+        service && service.capacity > 1
+          ? { serviceId: service.id!, capacity: service.capacity }
+          : undefined
       );
 
       res.status(200).json({
@@ -71,6 +84,15 @@ class AvailabilityController extends BaseController<Availability, CreateAvailabi
       });
     } catch (error) {
       logger.error('Error getting available slots:', error);
+
+      if (error instanceof NotFoundError) {
+        res.status(404).json({
+          success: false,
+          error: error.message,
+        });
+        return;
+      }
+
       res.status(500).json({
         success: false,
         error: 'Failed to get available slots',
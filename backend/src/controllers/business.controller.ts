@@ -1,5 +1,6 @@
 import { Request, Response } from 'express';
 import { businessService } from '../services/business.service';
+import { businessUserService } from '../services/business-user.service';
 import {
   CreateBusinessSchema,
   UpdateBusinessSchema,
@@ -10,6 +11,7 @@ import {
 import { logger } from '../config/logger';
 import { BaseController } from '../core/base.controller';
 import { ConflictError } from '../core/errors';
+import { requestContext } from '../core/request-context';
 
 /**
  * BusinessController extending BaseController
@@ -57,6 +59,51 @@ class BusinessController extends BaseController<Business, CreateBusinessInput, U
     }
   }
 
+  /**
+   * Override getAll to list only the businesses the user belongs to
+   */
+  async getAll(_req: Request, res: Response): Promise<void> {
+    try {
+      const businesses = await businessService.getAll(undefined, await this.getUserBusinessIds());
+
+      res.status(200).json({
+        success: true,
+        data: businesses,
+      });
+    } catch (error) {
+      logger.error('Error getting all Businesses:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get Businesses',
+      });
+    }
+  }
+
+  /**
+   * Override search to search only the businesses the user belongs to
+   */
+  async search(req: Request, res: Response): Promise<void> {
+    try {
+      const { query, limit } = req.query;
+      const businesses = await businessService.search(
+        query as string,
+        limit ? parseInt(limit as string, 10) : 10,
+        await this.getUserBusinessIds()
+      );
+
+      res.status(200).json({
+        success: true,
+        data: businesses,
+      });
+    } catch (error) {
+      logger.error('Error searching Businesses:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to search Businesses',
+      });
+    }
+  }
+
   /**
    * Custom endpoint: Get business employees
    */
@@ -127,6 +174,19 @@ class BusinessController extends BaseController<Business, CreateBusinessInput, U
       });
     }
   }
+
+  /**
+   * Ids of the businesses the authenticated user belongs to
+   */
+  private async getUserBusinessIds(): Promise<string[]> {
+    const userId = requestContext.getUserId();
+    if (!userId) {
+      return [];
+    }
+
+    const memberships = await businessUserService.getBusinessesByUser(userId);
+    return memberships.map(membership => membership.business_id);
+  }
 }
 
 // Export singleton instance configured as object for backward compatibility
@@ -1,11 +1,14 @@
 import { Request, Response } from 'express';
 import { customerService } from '../services/customer.service';
+import { consentService } from '../services/consent.service';
+import { customerDataService } from '../services/customer-data.service';
 import {
   CreateCustomerSchema,
   UpdateCustomerSchema,
 } from '../models';
 import { logger } from '../config/logger';
 import { BaseController } from '../core/base.controller';
+import { requestContext } from '../core/request-context';
 import { Customer, CreateCustomerInput, UpdateCustomerInput } from '../models';
 
 /**
@@ -18,6 +21,37 @@ class CustomerController extends BaseController<Customer, CreateCustomerInput, U
   protected createSchema = CreateCustomerSchema;
   protected updateSchema = UpdateCustomerSchema;
 
+  /**
+   * Override getById to include the customer's messaging consent for the business in context
+   */
+  async getById(req: Request, res: Response): Promise<void> {
+    try {
+      const customer = await customerService.getById(req.params.id);
+
+      if (!customer) {
+        res.status(404).json({
+          success: false,
+          error: 'Customer not found',
+        });
+        return;
+      }
+
+      const businessId = requestContext.getBusinessIdOrUndefined();
+      const consent = businessId ? await consentService.getConsent(customer.id!, businessId) : null;
+
+      res.json({
+        success: true,
+        data: { ...customer, consent },
+      });
+    } catch (error) {
+      logger.error('Error getting customer:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get customer',
+      });
+    }
+  }
+
   /**
    * Custom endpoint: Get customer by phone number
    */
@@ -58,9 +92,12 @@ class CustomerController extends BaseController<Customer, CreateCustomerInput, U
       // If no search query provided but business_id exists, return all customers for that business
       if (!q || typeof q !== 'string') {
         if (business_id && typeof business_id === 'string') {
-          const customers = await customerService.getCustomersByBusiness(
-            business_id,
-            limit ? parseInt(limit as string) : undefined
+          const customers = await consentService.attachConsents(
+            await customerService.getCustomersByBusiness(
+              business_id,
+              limit ? parseInt(limit as string) : undefined
+            ),
+            business_id
           );
           res.json({
             success: true,
@@ -77,10 +114,13 @@ class CustomerController extends BaseController<Customer, CreateCustomerInput, U
         return;
       }
 
-      const customers = await customerService.search(
+      const found = await customerService.search(
         q,
         limit ? parseInt(limit as string) : undefined
       );
+      const customers = business_id && typeof business_id === 'string'
+        ? await consentService.attachConsents(found, business_id)
+        : found;
 
       res.json({
         success: true,
@@ -127,6 +167,63 @@ class CustomerController extends BaseController<Customer, CreateCustomerInput, U
       });
     }
   }
+
+  /**
+   * Custom endpoint: Complete JSON export of a customer's data (data-subject access request)
+   */
+  async exportData(req: Request, res: Response): Promise<void> {
+    try {
+      const data = await customerDataService.exportCustomer(req.params.id);
+
+      if (!data) {
+        res.status(404).json({
+          success: false,
+          error: 'Customer not found',
+        });
+        return;
+      }
+
+      res.setHeader('Content-Disposition', `attachment; filename="customer-${req.params.id}.json"`);
+      res.json({
+        success: true,
+        data,
+      });
+    } catch (error) {
+      logger.error('Error exporting customer data:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to export customer data',
+      });
+    }
+  }
+
+  /**
+   * Custom endpoint: Anonymize a customer's personal data, keeping their appointments
+   */
+  async erase(req: Request, res: Response): Promise<void> {
+    try {
+      const customer = await customerDataService.eraseCustomer(req.params.id);
+
+      if (!customer) {
+        res.status(404).json({
+          success: false,
+          error: 'Customer not found',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: customer,
+      });
+    } catch (error) {
+      logger.error('Error erasing customer data:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to erase customer data',
+      });
+    }
+  }
 }
 
 // Export singleton instance configured as object for backward compatibility
@@ -139,4 +236,6 @@ export const customerController = {
   delete: controller.delete.bind(controller),
   search: controller.search.bind(controller),
   getHistory: controller.getHistory.bind(controller),
+  exportData: controller.exportData.bind(controller),
+  erase: controller.erase.bind(controller),
 };
@@ -1,8 +1,13 @@
 
 export * from './appointment.controller';
+export * from './appointment-series.controller';
 export * from './availability.controller';
+export * from './availability-exception.controller';
 export * from './business.controller';
 export * from './business-user.controller';
 export * from './customer.controller';
 export * from './employee.controller';
+export * from './message.controller';
+export * from './service.controller';
+export * from './waitlist.controller';
 export * from './whatsapp.controller';
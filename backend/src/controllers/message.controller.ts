@@ -0,0 +1,189 @@
+import { Request, Response } from 'express';
+import { conversationService, messageService, sessionService } from '../services';
+import { messagingService } from '../services/messaging';
+import { QueryThreadMessagesSchema, QueryThreadsSchema, ReplyMessageSchema } from '../models';
+import { logger } from '../config/logger';
+
+export const messageController = {
+  /**
+   * List conversations with their last message and unread count
+   */
+  async listThreads(req: Request, res: Response): Promise<void> {
+    try {
+      const validationResult = QueryThreadsSchema.safeParse(req.query);
+
+      if (!validationResult.success) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid query',
+          details: validationResult.error.issues,
+        });
+        return;
+      }
+
+      const { threads, total } = await messageService.getThreads(validationResult.data);
+
+      res.json({
+        success: true,
+        data: threads,
+        count: threads.length,
+        total,
+      });
+    } catch (error) {
+      logger.error('Error listing message threads:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to list conversations',
+      });
+    }
+  },
+
+  /**
+   * Read a conversation, paging back with ?before=<created_at of the oldest loaded message>
+   */
+  async getThread(req: Request, res: Response): Promise<void> {
+    try {
+      const validationResult = QueryThreadMessagesSchema.safeParse(req.query);
+
+      if (!validationResult.success) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid query',
+          details: validationResult.error.issues,
+        });
+        return;
+      }
+
+      const { messages, hasMore } = await messageService.getThreadMessages(
+        req.params.phone,
+        validationResult.data
+      );
+
+      res.json({
+        success: true,
+        data: messages,
+        count: messages.length,
+        hasMore,
+      });
+    } catch (error) {
+      logger.error('Error getting message thread:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get conversation',
+      });
+    }
+  },
+
+  async markThreadRead(req: Request, res: Response): Promise<void> {
+    try {
+      const updated = await messageService.markThreadRead(req.params.phone);
+
+      res.json({
+        success: true,
+        data: { updated },
+      });
+    } catch (error) {
+      logger.error('Error marking thread as read:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to mark conversation as read',
+      });
+    }
+  },
+
+  /**
+   * Staff reply from the dashboard; the bot stays paused so it doesn't answer over them
+   */
+  async replyToThread(req: Request, res: Response): Promise<void> {
+    try {
+      const validationResult = ReplyMessageSchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: validationResult.error.issues,
+        });
+        return;
+      }
+
+      const { phone } = req.params;
+
+      if (!(await conversationService.isBotPaused(phone))) {
+        await conversationService.pauseBot(phone);
+      }
+
+      // Same path as bot messages, so the reply is logged in the conversation
+      const result = await messagingService.sendText(phone, validationResult.data.body);
+
+      res.status(201).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      logger.error('Error replying to message thread:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to send reply',
+      });
+    }
+  },
+
+  async takeOverThread(req: Request, res: Response): Promise<void> {
+    try {
+      const conversation = await conversationService.pauseBot(req.params.phone);
+
+      res.json({
+        success: true,
+        data: conversation,
+      });
+    } catch (error) {
+      logger.error('Error taking over message thread:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to take over conversation',
+      });
+    }
+  },
+
+  /**
+   * Hand the conversation back to the bot, starting from a fresh session
+   */
+  async releaseThread(req: Request, res: Response): Promise<void> {
+    try {
+      const conversation = await conversationService.resumeBot(req.params.phone);
+      await sessionService.resetSession(req.params.phone);
+
+      res.json({
+        success: true,
+        data: conversation,
+      });
+    } catch (error) {
+      logger.error('Error releasing message thread:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to hand conversation back to the bot',
+      });
+    }
+  },
+
+  async getStats(_req: Request, res: Response): Promise<void> {
+    try {
+      const [stats, pendingTakeovers] = await Promise.all([
+        messageService.getStats(),
+        conversationService.countPendingTakeovers(),
+      ]);
+
+      res.json({
+        success: true,
+        data: { ...stats, pendingTakeovers },
+      });
+    } catch (error) {
+      logger.error('Error getting message stats:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get message stats',
+      });
+    }
+  },
+};
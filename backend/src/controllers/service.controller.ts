@@ -0,0 +1,184 @@
+import { Request, Response } from 'express';
+import { serviceCatalogService } from '../services/service-catalog.service';
+import {
+  CreateServiceSchema,
+  UpdateServiceSchema,
+  QueryServicesSchema,
+  SetServiceEmployeesSchema,
+  SetEmployeeServicesSchema,
+  Service,
+  CreateServiceInput,
+  UpdateServiceInput,
+} from '../models';
+import { logger } from '../config/logger';
+import { BaseController } from '../core/base.controller';
+
+/**
+ * ServiceController - Service catalog CRUD and employee assignments
+ */
+class ServiceController extends BaseController<Service, CreateServiceInput, UpdateServiceInput> {
+  protected entityName = 'Service';
+  protected service = serviceCatalogService;
+  protected createSchema = CreateServiceSchema;
+  protected updateSchema = UpdateServiceSchema;
+
+  /**
+   * Override getAll to support ?is_active and ?search
+   */
+  async getAll(req: Request, res: Response): Promise<void> {
+    try {
+      const validationResult = QueryServicesSchema.safeParse(req.query);
+
+      if (!validationResult.success) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid query parameters',
+          details: validationResult.error.errors,
+        });
+        return;
+      }
+
+      const services = await serviceCatalogService.getAll(validationResult.data);
+
+      res.status(200).json({
+        success: true,
+        data: services,
+        count: services.length
+      });
+    } catch (error) {
+      logger.error('Error getting services:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get Services',
+      });
+    }
+  }
+
+  /**
+   * Custom endpoint: Employees who perform the service
+   */
+  async getEmployees(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const employees = await serviceCatalogService.getServiceEmployees(id);
+
+      res.status(200).json({
+        success: true,
+        data: employees,
+        count: employees.length
+      });
+    } catch (error) {
+      logger.error('Error getting service employees:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get service employees',
+      });
+    }
+  }
+
+  /**
+   * Custom endpoint: Replace the employees who perform the service
+   */
+  async setEmployees(req: Request, res: Response): Promise<void> {
+    try {
+      const validationResult = SetServiceEmployeesSchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: validationResult.error.errors,
+        });
+        return;
+      }
+
+      const employees = await serviceCatalogService.setServiceEmployees(
+        req.params.id,
+        validationResult.data.employee_ids
+      );
+
+      res.status(200).json({
+        success: true,
+        data: employees,
+        count: employees.length
+      });
+    } catch (error) {
+      logger.error('Error setting service employees:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to update service employees',
+      });
+    }
+  }
+
+  /**
+   * Custom endpoint: Services an employee performs (mounted under /employees/:id/services)
+   */
+  async getEmployeeServices(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const services = await serviceCatalogService.getEmployeeServices(id);
+
+      res.status(200).json({
+        success: true,
+        data: services,
+        count: services.length
+      });
+    } catch (error) {
+      logger.error('Error getting employee services:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get employee services',
+      });
+    }
+  }
+
+  /**
+   * Custom endpoint: Replace the services an employee performs
+   */
+  async setEmployeeServices(req: Request, res: Response): Promise<void> {
+    try {
+      const validationResult = SetEmployeeServicesSchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: validationResult.error.errors,
+        });
+        return;
+      }
+
+      const services = await serviceCatalogService.setEmployeeServices(
+        req.params.id,
+        validationResult.data.service_ids
+      );
+
+      res.status(200).json({
+        success: true,
+        data: services,
+        count: services.length
+      });
+    } catch (error) {
+      logger.error('Error setting employee services:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to update employee services',
+      });
+    }
+  }
+}
+
+// Export singleton instance configured as object for backward compatibility
+const controller = new ServiceController();
+export const serviceController = {
+  create: controller.create.bind(controller),
+  getById: controller.getById.bind(controller),
+  getAll: controller.getAll.bind(controller),
+  update: controller.update.bind(controller),
+  delete: controller.delete.bind(controller),
+  getEmployees: controller.getEmployees.bind(controller),
+  setEmployees: controller.setEmployees.bind(controller),
+  getEmployeeServices: controller.getEmployeeServices.bind(controller),
+  setEmployeeServices: controller.setEmployeeServices.bind(controller),
+};
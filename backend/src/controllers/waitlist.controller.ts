@@ -0,0 +1,125 @@
+import { Request, Response } from 'express';
+import { waitlistService } from '../services/waitlist.service';
+import {
+  CreateWaitlistEntrySchema,
+  UpdateWaitlistEntrySchema,
+  QueryWaitlistSchema,
+  WaitlistEntry,
+  CreateWaitlistEntryInput,
+  UpdateWaitlistEntryInput,
+} from '../models';
+import { logger } from '../config/logger';
+import { BaseController } from '../core/base.controller';
+import { requestContext } from '../core/request-context';
+
+/**
+ * WaitlistController - Dashboard view of the waitlist
+ */
+class WaitlistController extends BaseController<WaitlistEntry, CreateWaitlistEntryInput, UpdateWaitlistEntryInput> {
+  protected entityName = 'WaitlistEntry';
+  protected service = waitlistService;
+  protected createSchema = CreateWaitlistEntrySchema;
+  protected updateSchema = UpdateWaitlistEntrySchema;
+
+  /**
+   * Override getAll to support ?status, ?date and ?customer_id
+   * Expired offers and past days are settled first so the list shows current statuses
+   */
+  async getAll(req: Request, res: Response): Promise<void> {
+    try {
+      const validationResult = QueryWaitlistSchema.safeParse(req.query);
+
+      if (!validationResult.success) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid query parameters',
+          details: validationResult.error.errors,
+        });
+        return;
+      }
+
+      const businessId = validationResult.data.business_id || requestContext.getBusinessIdOrUndefined();
+      if (businessId) {
+        await waitlistService.refreshStatuses(businessId);
+      }
+
+      const entries = await waitlistService.getAll(validationResult.data);
+
+      res.status(200).json({
+        success: true,
+        data: entries,
+        count: entries.length
+      });
+    } catch (error) {
+      logger.error('Error getting waitlist:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get waitlist',
+      });
+    }
+  }
+
+  /**
+   * Override create: add a customer from the dashboard (same rules as from WhatsApp)
+   */
+  async create(req: Request, res: Response): Promise<void> {
+    try {
+      const validationResult = CreateWaitlistEntrySchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: validationResult.error.errors,
+        });
+        return;
+      }
+
+      const entry = await waitlistService.join(validationResult.data);
+
+      res.status(201).json({
+        success: true,
+        data: entry,
+      });
+    } catch (error) {
+      logger.error('Error adding to waitlist:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to add to waitlist',
+      });
+    }
+  }
+
+  /**
+   * Custom endpoint: Remove a customer from the waitlist
+   */
+  async cancel(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const entry = await waitlistService.cancelEntry(id);
+
+      res.status(200).json({
+        success: true,
+        data: entry,
+        message: 'Waitlist entry cancelled successfully'
+      });
+    } catch (error) {
+      logger.error('Error cancelling waitlist entry:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to cancel waitlist entry',
+      });
+    }
+  }
+}
+
+// Export singleton instance configured as object for backward compatibility
+const controller = new WaitlistController();
+export const waitlistController = {
+  create: controller.create.bind(controller),
+  getById: controller.getById.bind(controller),
+  getAll: controller.getAll.bind(controller),
+  update: controller.update.bind(controller),
+  delete: controller.delete.bind(controller),
+  cancel: controller.cancel.bind(controller),
+};
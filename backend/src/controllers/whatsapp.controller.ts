@@ -1,29 +1,70 @@
 import { Request, Response } from 'express';
-import { whatsappService } from '../services';
-import { IncomingWhatsAppMessageSchema } from '../models';
+import { whatsappService, messageService } from '../services';
+import { messagingService } from '../services/messaging';
+import { Business, IncomingWhatsAppMessage } from '../models';
+import { ValidationError } from '../core/errors';
 import { logger } from '../config/logger';
 
 export const whatsappController = {
   async handleWebhook(req: Request, res: Response): Promise<void> {
     try {
-      const validationResult = IncomingWhatsAppMessageSchema.safeParse(req.body);
+      const provider = messagingService.getWebhookProvider(req);
 
-      if (!validationResult.success) {
-        logger.error('Invalid webhook payload:', validationResult.error);
-        res.status(400).json({
+      let messages: IncomingWhatsAppMessage[];
+      try {
+        messages = provider.parseInbound(req);
+      } catch (error) {
+        if (error instanceof ValidationError) {
+          logger.error('Invalid webhook payload:', error.details);
+          res.status(400).json({
+            success: false,
+            error: 'Invalid payload',
+            details: error.details,
+          });
+          return;
+        }
+        throw error;
+      }
+
+      for (const update of provider.parseStatuses(req)) {
+        await messageService.updateDeliveryStatus(provider.name, update.messageId, update.status);
+      }
+
+      // Status updates and unsupported message types carry nothing to answer
+      if (messages.length === 0) {
+        res.status(200).send('OK');
+        return;
+      }
+
+      // Route each message to the business that owns the destination number
+      const routed: Array<{ message: IncomingWhatsAppMessage; business: Business }> = [];
+      for (const message of messages) {
+        const business = await whatsappService.resolveBusiness(message);
+
+        if (!business) {
+          logger.warn(`Rejected webhook for unknown or disabled WhatsApp number ${message.To}`);
+          continue;
+        }
+
+        routed.push({ message, business });
+      }
+
+      if (routed.length === 0) {
+        res.status(404).json({
           success: false,
-          error: 'Invalid payload',
-          details: validationResult.error.issues,
+          error: 'No WhatsApp-enabled business for this number',
         });
         return;
       }
 
-      const message = validationResult.data;
+      // Answer only once processed: a failure answers 500, so the provider retries the webhook
+      // and the messages whose claim was released are processed again
+      for (const { message, business } of routed) {
+        await whatsappService.handleIncomingMessage(message, business);
+      }
 
       res.status(200).send('OK');
 
-      await whatsappService.handleIncomingMessage(message);
-
     } catch (error) {
       logger.error('Error in webhook handler:', error);
 
@@ -36,9 +77,30 @@ export const whatsappController = {
     }
   },
 
-  async verifyWebhook(_req: Request, res: Response): Promise<void> {
+  /**
+   * GET webhook: answers the Meta hub.challenge subscription handshake
+   * Without hub.* parameters it works as a simple health check
+   */
+  async verifyWebhook(req: Request, res: Response): Promise<void> {
     try {
-      res.status(200).send('Webhook endpoint is active');
+      if (!req.query['hub.mode']) {
+        res.status(200).send('Webhook endpoint is active');
+        return;
+      }
+
+      const challenge = messagingService.meta.verifySubscription(req.query);
+
+      if (!challenge) {
+        logger.warn('Rejected Meta webhook subscription: invalid verify token');
+        res.status(403).json({
+          success: false,
+          error: 'Invalid verify token',
+        });
+        return;
+      }
+
+      logger.info('Meta webhook subscription verified');
+      res.status(200).send(challenge);
     } catch (error) {
       logger.error('Error in webhook verification:', error);
       res.status(500).json({
@@ -78,7 +140,7 @@ export const whatsappController = {
   async getStatus(_req: Request, res: Response): Promise<void> {
     try {
       const { sessionService } = await import('../services');
-      const stats = sessionService.getStats();
+      const stats = await sessionService.getStats();
 
       res.json({
         success: true,
@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import { ZodType } from 'zod';
 import { logger } from '../config/logger';
+import { AppError } from './errors';
 
 /**
  * Base controller class that provides generic CRUD operations
@@ -41,6 +42,16 @@ export abstract class BaseController<_T, CreateDTO, UpdateDTO> {
       });
     } catch (error) {
       logger.error(`Error creating ${this.entityName}:`, error);
+
+      // Rejected by a business rule (conflict, booking policy): keep its status code
+      if (error instanceof AppError && error.isOperational) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+        return;
+      }
+
       res.status(500).json({
         success: false,
         error: `Failed to create ${this.entityName}`,
@@ -120,6 +131,14 @@ export abstract class BaseController<_T, CreateDTO, UpdateDTO> {
         return;
       }
 
+      if (error instanceof AppError && error.isOperational) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+        return;
+      }
+
       res.status(500).json({
         success: false,
         error: `Failed to update ${this.entityName}`,
@@ -12,3 +12,9 @@ export {
   requestContext,
   type RequestContext
 } from './request-context';
+export {
+  TokenVerifier,
+  tokenVerifier,
+  type AccessTokenClaims,
+  type TokenVerifierOptions
+} from './token-verifier';
@@ -1,5 +1,7 @@
 import { AsyncLocalStorage } from 'async_hooks';
 import { logger } from '../config/logger';
+import { DEFAULT_TIMEZONE } from '../utils/timezone';
+import { BookingPolicy, DEFAULT_BOOKING_POLICY } from '../models/business.model';
 
 /**
  * Request context data structure
@@ -9,6 +11,10 @@ export interface RequestContext {
   userId?: string;
   userRole?: string;
   requestId?: string;
+  // IANA timezone of the business (businesses.timezone)
+  timeZone?: string;
+  // businesses.settings.booking_policy with defaults applied
+  bookingPolicy?: BookingPolicy;
 }
 
 /**
@@ -87,6 +93,24 @@ export class RequestContextService {
     return context?.requestId;
   }
 
+  /**
+   * Get the business timezone from the current context
+   * Falls back to DEFAULT_TIMEZONE outside a business context
+   */
+  getTimeZone(): string {
+    const context = this.getContext();
+    return context?.timeZone || DEFAULT_TIMEZONE;
+  }
+
+  /**
+   * Get the booking policy of the business from the current context
+   * Falls back to DEFAULT_BOOKING_POLICY outside a business context
+   */
+  getBookingPolicy(): BookingPolicy {
+    const context = this.getContext();
+    return context?.bookingPolicy || DEFAULT_BOOKING_POLICY;
+  }
+
   /**
    * Check if a context is currently active
    */
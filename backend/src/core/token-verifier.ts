@@ -0,0 +1,228 @@
+import crypto from 'crypto';
+import { logger } from '../config/logger';
+import { UnauthorizedError } from './errors';
+
+/**
+ * Claims of a Supabase access token used by the API
+ */
+export interface AccessTokenClaims {
+  sub: string;
+  email?: string;
+  role?: string;
+  aud?: string | string[];
+  iss?: string;
+  exp: number;
+  nbf?: number;
+  iat?: number;
+}
+
+export interface TokenVerifierOptions {
+  // Legacy JWT secret of the project (HS256 tokens)
+  secret?: string;
+  // JWKS endpoint of the project (asymmetric RS256/ES256 tokens)
+  jwksUrl?: string;
+  // Keys known up front instead of (or before) fetching jwksUrl
+  jwks?: { keys: crypto.JsonWebKey[] };
+  issuer?: string;
+  audience?: string;
+  // Tolerated clock difference with Supabase Auth
+  clockToleranceSeconds?: number;
+  jwksCacheMinutes?: number;
+}
+
+// Node digest and signature encoding of each supported JWS algorithm
+const ALGORITHMS: Record<string, { digest: string; kind: 'hmac' | 'rsa' | 'ec' }> = {
+  HS256: { digest: 'sha256', kind: 'hmac' },
+  HS384: { digest: 'sha384', kind: 'hmac' },
+  HS512: { digest: 'sha512', kind: 'hmac' },
+  RS256: { digest: 'sha256', kind: 'rsa' },
+  RS384: { digest: 'sha384', kind: 'rsa' },
+  RS512: { digest: 'sha512', kind: 'rsa' },
+  ES256: { digest: 'sha256', kind: 'ec' },
+  ES384: { digest: 'sha384', kind: 'ec' },
+  ES512: { digest: 'sha512', kind: 'ec' },
+};
+
+const decodeSegment = (segment: string): any =>
+  JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+
+/**
+ * TokenVerifier - Verifies Supabase Auth access tokens without calling Supabase on each request
+ * Signed with the project JWT secret (HS256) or with the asymmetric keys published in its JWKS;
+ * JWKS keys are cached and refetched when a token names an unknown key id
+ */
+export class TokenVerifier {
+  private keys: Map<string, crypto.KeyObject> = new Map();
+  private keysFetchedAt = 0;
+
+  constructor(private options: TokenVerifierOptions) {
+    if (options.jwks) {
+      this.loadKeys(options.jwks.keys);
+    }
+  }
+
+  /**
+   * Whether any key to verify tokens is configured
+   */
+  isConfigured(): boolean {
+    return !!(this.options.secret || this.options.jwksUrl || this.options.jwks);
+  }
+
+  /**
+   * Verify the signature and claims of a token and return its claims
+   * Throws UnauthorizedError when the token can't be trusted
+   */
+  async verify(token: string): Promise<AccessTokenClaims> {
+    const segments = token.split('.');
+
+    if (segments.length !== 3) {
+      throw new UnauthorizedError('Malformed access token');
+    }
+
+    const [encodedHeader, encodedPayload, encodedSignature] = segments;
+    let header: { alg?: string; kid?: string };
+    let claims: AccessTokenClaims;
+
+    try {
+      header = decodeSegment(encodedHeader);
+      claims = decodeSegment(encodedPayload);
+    } catch {
+      throw new UnauthorizedError('Malformed access token');
+    }
+
+    const algorithm = header.alg && ALGORITHMS[header.alg];
+    if (!algorithm) {
+      throw new UnauthorizedError(`Unsupported token algorithm: ${header.alg}`);
+    }
+
+    const signedData = Buffer.from(`${encodedHeader}.${encodedPayload}`);
+    const signature = Buffer.from(encodedSignature, 'base64url');
+
+    const valid = algorithm.kind === 'hmac'
+      ? this.verifyHmac(algorithm.digest, signedData, signature)
+      : crypto.verify(
+        algorithm.digest,
+        signedData,
+        {
+          key: await this.getPublicKey(header.kid),
+          ...(algorithm.kind === 'ec' && { dsaEncoding: 'ieee-p1363' as const }),
+        },
+        signature
+      );
+
+    if (!valid) {
+      throw new UnauthorizedError('Invalid token signature');
+    }
+
+    this.verifyClaims(claims);
+    return claims;
+  }
+
+  private verifyHmac(digest: string, signedData: Buffer, signature: Buffer): boolean {
+    if (!this.options.secret) {
+      throw new UnauthorizedError('Symmetric tokens are not accepted');
+    }
+
+    const expected = crypto.createHmac(digest, this.options.secret).update(signedData).digest();
+    return expected.length === signature.length && crypto.timingSafeEqual(expected, signature);
+  }
+
+  private verifyClaims(claims: AccessTokenClaims): void {
+    const now = Math.floor(Date.now() / 1000);
+    const tolerance = this.options.clockToleranceSeconds ?? 30;
+
+    if (!claims.sub) {
+      throw new UnauthorizedError('Token has no subject');
+    }
+
+    if (typeof claims.exp !== 'number' || claims.exp + tolerance < now) {
+      throw new UnauthorizedError('Token expired');
+    }
+
+    if (typeof claims.nbf === 'number' && claims.nbf - tolerance > now) {
+      throw new UnauthorizedError('Token not yet valid');
+    }
+
+    if (this.options.issuer && claims.iss !== this.options.issuer) {
+      throw new UnauthorizedError('Unexpected token issuer');
+    }
+
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (this.options.audience && !audiences.includes(this.options.audience)) {
+      throw new UnauthorizedError('Unexpected token audience');
+    }
+  }
+
+  /**
+   * Public key named by the token, refetching the JWKS once if it's unknown or stale
+   */
+  private async getPublicKey(kid?: string): Promise<crypto.KeyObject> {
+    const cacheMs = (this.options.jwksCacheMinutes ?? 10) * 60 * 1000;
+    const stale = Date.now() - this.keysFetchedAt > cacheMs;
+
+    if (this.options.jwksUrl && (stale || !this.findKey(kid))) {
+      await this.fetchKeys();
+    }
+
+    const key = this.findKey(kid);
+    if (!key) {
+      throw new UnauthorizedError('Unknown token signing key');
+    }
+
+    return key;
+  }
+
+  private findKey(kid?: string): crypto.KeyObject | undefined {
+    if (kid) {
+      return this.keys.get(kid);
+    }
+
+    // Tokens without kid are only accepted when there is a single key to pick
+    return this.keys.size === 1 ? this.keys.values().next().value : undefined;
+  }
+
+  private async fetchKeys(): Promise<void> {
+    try {
+      const response = await fetch(this.options.jwksUrl!);
+
+      if (!response.ok) {
+        throw new Error(`JWKS request failed with status ${response.status}`);
+      }
+
+      const jwks = (await response.json()) as { keys?: crypto.JsonWebKey[] };
+      this.loadKeys(jwks.keys || []);
+      this.keysFetchedAt = Date.now();
+    } catch (error) {
+      // Keep verifying with the keys already known
+      logger.error('Error fetching JWKS:', error);
+    }
+  }
+
+  private loadKeys(jwks: crypto.JsonWebKey[]): void {
+    for (const jwk of jwks) {
+      if (jwk.use && jwk.use !== 'sig') {
+        continue;
+      }
+
+      try {
+        const kid = (jwk.kid as string | undefined) || `key-${this.keys.size}`;
+        this.keys.set(kid, crypto.createPublicKey({ key: jwk, format: 'jwk' }));
+      } catch (error) {
+        logger.warn('Ignoring unusable JWKS key', { kid: jwk.kid, error });
+      }
+    }
+  }
+}
+
+/**
+ * Verifier for the project's tokens, configured from the environment:
+ * SUPABASE_JWT_SECRET (HS256) and/or SUPABASE_JWKS_URL (defaults to the project's JWKS endpoint)
+ */
+const supabaseUrl = process.env.SUPABASE_URL?.replace(/\/$/, '');
+
+export const tokenVerifier = new TokenVerifier({
+  secret: process.env.SUPABASE_JWT_SECRET || undefined,
+  jwksUrl: process.env.SUPABASE_JWKS_URL || (supabaseUrl ? `${supabaseUrl}/auth/v1/.well-known/jwks.json` : undefined),
+  issuer: process.env.SUPABASE_JWT_ISSUER || (supabaseUrl ? `${supabaseUrl}/auth/v1` : undefined),
+  audience: process.env.SUPABASE_JWT_AUDIENCE || 'authenticated',
+});
@@ -3,6 +3,7 @@ import cors from 'cors';
 import dotenv from 'dotenv';
 import { logger } from './config/logger';
 import { requestContextMiddleware, optionalAuth } from './middlewares';
+import { RawBodyRequest } from './services/messaging';
 
 dotenv.config();
 
@@ -13,7 +14,12 @@ app.use(cors({
   origin: process.env.FRONTEND_URL || 'http://localhost:5173',
   credentials: true
 }));
-app.use(express.json());
+app.use(express.json({
+  // Keep the raw body for webhook signature verification (Meta signs the exact bytes)
+  verify: (req, _res, buf) => {
+    (req as RawBodyRequest).rawBody = buf;
+  }
+}));
 app.use(express.urlencoded({ extended: true }));
 
 // Health check endpoint (no auth required)
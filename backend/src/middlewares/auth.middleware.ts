@@ -1,6 +1,10 @@
 import { Request, Response, NextFunction } from 'express';
 import { requestContext, RequestContext } from '../core/request-context';
 import { logger } from '../config/logger';
+import { businessService } from '../services/business.service';
+import { businessUserService } from '../services/business-user.service';
+import { tokenVerifier } from '../core/token-verifier';
+import { UnauthorizedError, ForbiddenError } from '../core/errors';
 import { v4 as uuidv4 } from 'uuid';
 
 /**
@@ -17,90 +21,141 @@ export interface AuthRequest extends Request {
 
 /**
  * Middleware to set up request context
- * This middleware extracts business context from the request and stores it in AsyncLocalStorage
+ * The business comes from the verified user (see optionalAuth): business ids sent by the client
+ * are only honored there, when the user belongs to that business. Requests without a user get
+ * no business context; dashboard routes reject them (authenticateBusinessUser) and webhooks
+ * resolve their business from the destination number
  */
 export function requestContextMiddleware(
   req: AuthRequest,
-  res: Response,
+  _res: Response,
   next: NextFunction
 ): void {
+  if (!req.user) {
+    next();
+    return;
+  }
+
   // Generate a unique request ID
   const requestId = uuidv4();
+  const { businessId, id: userId, role: userRole } = req.user;
 
-  // Extract business ID from various sources
-  let businessId: string | undefined;
-  let userId: string | undefined;
-  let userRole: string | undefined;
+  // Slots, day boundaries and stats are computed in the business timezone, under its booking policy
+  businessService.getSchedulingSettings(businessId).then(({ timeZone, bookingPolicy }) => {
+    // Create request context
+    const context: RequestContext = {
+      businessId,
+      userId,
+      userRole,
+      requestId,
+      timeZone,
+      bookingPolicy
+    };
 
-  // Priority 1: From authenticated user (set by authentication middleware)
-  if (req.user?.businessId) {
-    businessId = req.user.businessId;
-    userId = req.user.id;
-    userRole = req.user.role;
-  }
+    // Run the rest of the request in this context
+    requestContext.run(context, () => {
+      logger.debug('Request context initialized', {
+        requestId,
+        businessId,
+        userId,
+        timeZone,
+        path: req.path,
+        method: req.method
+      });
+
+      next();
+    });
+  }, next);
+}
 
-  // Priority 2: From header (for API clients)
-  if (!businessId && req.headers['x-business-id']) {
-    businessId = req.headers['x-business-id'] as string;
+/**
+ * Verify the bearer token of the request and resolve the business the user acts on
+ * The business is the one requested via x-business-id header or businessId/business_id query
+ * parameter, or the user's most recent one; the role is the user's role in that business (business_users)
+ * Returns undefined when the request carries no token
+ */
+async function resolveUser(req: AuthRequest): Promise<AuthRequest['user']> {
+  const authHeader = req.headers.authorization;
+
+  if (!authHeader) {
+    return undefined;
   }
 
-  // Priority 3: From query parameter (for testing/development)
-  if (!businessId && req.query.businessId) {
-    businessId = req.query.businessId as string;
+  if (!authHeader.startsWith('Bearer ')) {
+    throw new UnauthorizedError('Invalid authentication token');
   }
 
-  // Priority 4: Default business ID from environment (fallback for development)
-  if (!businessId && process.env.DEFAULT_BUSINESS_ID) {
-    businessId = process.env.DEFAULT_BUSINESS_ID;
-    logger.warn('Using DEFAULT_BUSINESS_ID from environment', { requestId });
+  const claims = await tokenVerifier.verify(authHeader.slice('Bearer '.length).trim());
+  const memberships = await businessUserService.getBusinessesByUser(claims.sub);
+  const requested = new Set(
+    [req.headers['x-business-id'], req.query.businessId, req.query.business_id]
+      .filter((value): value is string => typeof value === 'string' && value.length > 0)
+  );
+
+  if (requested.size > 1) {
+    throw new ForbiddenError('Conflicting business ids in request');
   }
 
-  if (!businessId) {
-    logger.error('No business ID found in request', { requestId, path: req.path });
-    res.status(400).json({
-      error: 'Business ID is required',
-      message: 'Please provide a business ID via authentication, header, or query parameter'
-    });
-    return;
+  const [requestedBusinessId] = requested;
+
+  const membership = requestedBusinessId
+    ? memberships.find(m => m.business_id === requestedBusinessId)
+    : memberships[0];
+
+  if (!membership) {
+    throw new ForbiddenError(requestedBusinessId
+      ? 'You do not have access to this business'
+      : 'User has no business assigned');
   }
 
-  // Create request context
-  const context: RequestContext = {
-    businessId,
-    userId,
-    userRole,
-    requestId
+  return {
+    id: claims.sub,
+    businessId: membership.business_id,
+    role: membership.role,
+    email: claims.email
   };
+}
 
-  // Run the rest of the request in this context
-  requestContext.run(context, () => {
-    logger.debug('Request context initialized', {
-      requestId,
-      businessId,
-      userId,
-      path: req.path,
-      method: req.method
+/**
+ * Reply to a failed authentication with its status (401 invalid token, 403 no access)
+ */
+function rejectAuthentication(res: Response, error: unknown): void {
+  if (error instanceof ForbiddenError) {
+    res.status(403).json({
+      error: 'Forbidden',
+      message: error.message
     });
+    return;
+  }
 
-    next();
+  if (error instanceof UnauthorizedError) {
+    logger.debug('Authentication rejected', { reason: error.message });
+  } else {
+    logger.error('Authentication error:', error);
+  }
+
+  res.status(401).json({
+    error: 'Unauthorized',
+    message: 'Invalid authentication token'
   });
 }
 
 /**
- * Simple authentication middleware for business users
- * This is a placeholder - replace with your actual authentication logic (JWT, OAuth, etc.)
+ * Authentication middleware for business users
+ * Requires a Supabase access token (Authorization: Bearer <jwt>) of a user of the business
  */
 export function authenticateBusinessUser(
   req: AuthRequest,
   res: Response,
   next: NextFunction
 ): void {
-  // TODO: Implement actual authentication logic
-  // For now, this is a placeholder that extracts user info from headers
-
-  const authHeader = req.headers.authorization;
+  // Already verified by optionalAuth
+  if (req.user) {
+    next();
+    return;
+  }
 
-  if (!authHeader) {
+  if (!req.headers.authorization) {
     res.status(401).json({
       error: 'Unauthorized',
       message: 'Authentication required'
@@ -108,32 +163,10 @@ export function authenticateBusinessUser(
     return;
   }
 
-  try {
-    // TODO: Verify JWT token and extract user data
-    // For now, we'll use a simple Bearer token format: Bearer <userId>:<businessId>:<role>
-
-    const token = authHeader.replace('Bearer ', '');
-    const [userId, businessId, role] = token.split(':');
-
-    if (!userId || !businessId || !role) {
-      throw new Error('Invalid token format');
-    }
-
-    // Set user data on request
-    req.user = {
-      id: userId,
-      businessId,
-      role
-    };
-
+  resolveUser(req).then(user => {
+    req.user = user;
     next();
-  } catch (error) {
-    logger.error('Authentication error:', error);
-    res.status(401).json({
-      error: 'Unauthorized',
-      message: 'Invalid authentication token'
-    });
-  }
+  }, error => rejectAuthentication(res, error));
 }
 
 /**
@@ -161,37 +194,47 @@ export function requireRole(...allowedRoles: string[]) {
   };
 }
 
+/**
+ * Middleware to restrict routes of a business (/:id) to the business the user acts on
+ */
+export function requireOwnBusiness(param: string = 'id') {
+  return (req: AuthRequest, res: Response, next: NextFunction): void => {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    if (req.params[param] !== req.user.businessId) {
+      res.status(403).json({
+        error: 'Forbidden',
+        message: 'You do not have access to this business'
+      });
+      return;
+    }
+
+    next();
+  };
+}
+
 /**
  * Optional authentication middleware - sets user if token is provided, but doesn't require it
+ * A token that is provided must be valid: it is rejected rather than ignored
  */
 export function optionalAuth(
   req: AuthRequest,
-  _res: Response,
+  res: Response,
   next: NextFunction
 ): void {
-  const authHeader = req.headers.authorization;
-
-  if (!authHeader) {
+  if (!req.headers.authorization) {
     next();
     return;
   }
 
-  try {
-    const token = authHeader.replace('Bearer ', '');
-    const [userId, businessId, role] = token.split(':');
-
-    if (userId && businessId && role) {
-      req.user = {
-        id: userId,
-        businessId,
-        role
-      };
-    }
-
+  resolveUser(req).then(user => {
+    req.user = user;
     next();
-  } catch (error) {
-    // If optional auth fails, just continue without user
-    logger.debug('Optional auth failed, continuing without user');
-    next();
-  }
+  }, error => rejectAuthentication(res, error));
 }
@@ -2,6 +2,11 @@ export {
   requestContextMiddleware,
   authenticateBusinessUser,
   requireRole,
+  requireOwnBusiness,
   optionalAuth,
   type AuthRequest
 } from './auth.middleware';
+
+export { verifyTwilioSignature } from './twilio-signature.middleware';
+
+export { verifyWebhookSignature } from './webhook-signature.middleware';
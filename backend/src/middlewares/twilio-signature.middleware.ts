@@ -0,0 +1,47 @@
+import { Request, Response, NextFunction } from 'express';
+import { logger } from '../config/logger';
+import { TwilioProvider } from '../services/messaging/TwilioProvider';
+
+/**
+ * Twilio MessageSid format (SM for text, MM for media messages)
+ */
+const MESSAGE_SID_PATTERN = /^(SM|MM)[0-9a-f]{32}$/;
+
+const twilioProvider = new TwilioProvider();
+
+function reject(res: Response, message: string): void {
+  res.status(403).json({
+    error: 'Forbidden',
+    message
+  });
+}
+
+/**
+ * Middleware to verify Twilio webhook requests
+ * Validates X-Twilio-Signature against the auth token and full URL
+ * Twilio signs no timestamp, so replays are caught by MessageSid instead: the signature covers it,
+ * and WhatsAppService skips any MessageSid already in the processed-message ledger
+ */
+export function verifyTwilioSignature(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  const verification = twilioProvider.verifyWebhook(req);
+
+  if (!verification.valid) {
+    logger.warn('Rejected Twilio webhook', { reason: verification.reason, path: req.originalUrl });
+    reject(res, verification.reason || 'Invalid Twilio signature');
+    return;
+  }
+
+  const messageSid = req.body?.MessageSid;
+
+  if (!messageSid || !MESSAGE_SID_PATTERN.test(messageSid)) {
+    logger.warn('Rejected Twilio webhook with invalid MessageSid', { messageSid });
+    reject(res, 'Invalid MessageSid');
+    return;
+  }
+
+  next();
+}
@@ -0,0 +1,34 @@
+import { Request, Response, NextFunction } from 'express';
+import { logger } from '../config/logger';
+import { messagingService } from '../services/messaging';
+import { verifyTwilioSignature } from './twilio-signature.middleware';
+
+/**
+ * Middleware to verify inbound WhatsApp webhooks from any messaging provider
+ * Twilio requests also need a well-formed MessageSid
+ */
+export function verifyWebhookSignature(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  const provider = messagingService.getWebhookProvider(req);
+
+  if (provider.name === 'twilio') {
+    verifyTwilioSignature(req, res, next);
+    return;
+  }
+
+  const verification = provider.verifyWebhook(req);
+
+  if (!verification.valid) {
+    logger.warn(`Rejected ${provider.name} webhook`, { reason: verification.reason });
+    res.status(403).json({
+      error: 'Forbidden',
+      message: verification.reason
+    });
+    return;
+  }
+
+  next();
+}
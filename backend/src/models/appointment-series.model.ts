@@ -0,0 +1,94 @@
+import { z } from 'zod';
+
+const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
+
+export const RecurrenceFrequencySchema = z.enum([
+  'weekly',
+  'biweekly',
+  'monthly'
+]);
+
+/**
+ * Which occurrences an edit or cancellation applies to
+ */
+export const SeriesScopeSchema = z.enum([
+  'this',
+  'following',
+  'all'
+]);
+
+export const AppointmentSeriesSchema = z.object({
+  id: z.string().uuid().optional(),
+  business_id: z.string().uuid(),
+  customer_id: z.string().uuid(),
+  employee_id: z.string().uuid(),
+  service_id: z.string().uuid().nullable().optional(),
+  frequency: RecurrenceFrequencySchema,
+  // First occurrence; the rest keep its wall-clock time
+  start_time: z.string().datetime(),
+  end_time: z.string().datetime(),
+  until_date: z.string().regex(dateRegex).nullable().optional(),
+  occurrence_count: z.number().int().positive().nullable().optional(),
+  notes: z.string().nullable().optional(),
+  created_at: z.string().datetime().optional(),
+  updated_at: z.string().datetime().optional(),
+});
+
+export const CreateAppointmentSeriesSchema = z.object({
+  business_id: z.string().uuid(),
+  employee_id: z.string().uuid(),
+  customer_id: z.string().uuid(),
+  service_id: z.string().uuid().optional(),
+  start_time: z.string().datetime(),
+  end_time: z.string().datetime(),
+  notes: z.string().optional(),
+  frequency: RecurrenceFrequencySchema,
+  until: z.string().regex(dateRegex, 'Invalid date format (expected YYYY-MM-DD)').optional(),
+  count: z.number().int().min(2, 'A series needs at least 2 occurrences').max(52).optional(),
+}).refine(
+  (data) => new Date(data.start_time) < new Date(data.end_time),
+  {
+    message: 'start_time must be before end_time',
+    path: ['start_time'],
+  }
+).refine(
+  (data) => data.until !== undefined || data.count !== undefined,
+  {
+    message: 'Either until or count is required',
+    path: ['until'],
+  }
+);
+
+export const UpdateAppointmentSeriesSchema = z.object({
+  notes: z.string().nullable().optional(),
+});
+
+/**
+ * Edit one occurrence and, depending on scope, the following ones or the whole series
+ * A new start_time moves every affected occurrence by the same days and to the same time
+ */
+export const UpdateSeriesOccurrencesSchema = z.object({
+  scope: SeriesScopeSchema,
+  employee_id: z.string().uuid().optional(),
+  start_time: z.string().datetime().optional(),
+  end_time: z.string().datetime().optional(),
+  notes: z.string().optional(),
+}).refine(
+  (data) => !data.start_time || !data.end_time || new Date(data.start_time) < new Date(data.end_time),
+  {
+    message: 'start_time must be before end_time',
+    path: ['start_time'],
+  }
+);
+
+export const CancelSeriesOccurrencesSchema = z.object({
+  scope: SeriesScopeSchema,
+});
+
+export type RecurrenceFrequency = z.infer<typeof RecurrenceFrequencySchema>;
+export type SeriesScope = z.infer<typeof SeriesScopeSchema>;
+export type AppointmentSeries = z.infer<typeof AppointmentSeriesSchema>;
+export type CreateAppointmentSeriesInput = z.infer<typeof CreateAppointmentSeriesSchema>;
+export type UpdateAppointmentSeriesInput = z.infer<typeof UpdateAppointmentSeriesSchema>;
+export type UpdateSeriesOccurrencesInput = z.infer<typeof UpdateSeriesOccurrencesSchema>;
+export type CancelSeriesOccurrencesInput = z.infer<typeof CancelSeriesOccurrencesSchema>;
@@ -8,26 +8,45 @@ export const AppointmentStatusSchema = z.enum([
   'no_show'
 ]);
 
+/**
+ * What the customer answered to a WhatsApp reminder
+ */
+export const ReminderResponseSchema = z.enum([
+  'confirmed',
+  'declined'
+]);
+
 export const AppointmentSchema = z.object({
   id: z.string().uuid().optional(),
   business_id: z.string().uuid(),
   employee_id: z.string().uuid(),
   customer_id: z.string().uuid(),
+  service_id: z.string().uuid().nullable().optional(),
   start_time: z.string().datetime(),
   end_time: z.string().datetime(),
   status: AppointmentStatusSchema.default('pending'),
   notes: z.string().optional(),
+  checked_in_at: z.string().datetime().nullable().optional(),
+  series_id: z.string().uuid().nullable().optional(),
+  reminder_response: ReminderResponseSchema.nullable().optional(),
+  reminder_responded_at: z.string().datetime().nullable().optional(),
   created_at: z.string().datetime().optional(),
   updated_at: z.string().datetime().optional(),
+  // Joined names returned by queryAppointments
+  employee_name: z.string().nullable().optional(),
+  customer_name: z.string().nullable().optional(),
+  service_name: z.string().nullable().optional(),
 });
 
 export const CreateAppointmentSchema = z.object({
   business_id: z.string().uuid(),
   employee_id: z.string().uuid(),
   customer_id: z.string().uuid(),
+  service_id: z.string().uuid().optional(),
   start_time: z.string().datetime(),
   end_time: z.string().datetime(),
   notes: z.string().optional(),
+  series_id: z.string().uuid().optional(),
 }).refine(
   (data) => new Date(data.start_time) < new Date(data.end_time),
   {
@@ -38,10 +57,12 @@ export const CreateAppointmentSchema = z.object({
 
 export const UpdateAppointmentSchema = z.object({
   employee_id: z.string().uuid().optional(),
+  service_id: z.string().uuid().nullable().optional(),
   start_time: z.string().datetime().optional(),
   end_time: z.string().datetime().optional(),
   status: AppointmentStatusSchema.optional(),
   notes: z.string().optional(),
+  checked_in_at: z.string().datetime().nullable().optional(),
 });
 
 export const QueryAppointmentsSchema = z.object({
@@ -53,8 +74,43 @@ export const QueryAppointmentsSchema = z.object({
   end_date: z.string().datetime().optional(),
 });
 
+/**
+ * A group class: the appointments of one professional and service starting at the same time
+ */
+export const ClassAttendeeSchema = z.object({
+  appointment_id: z.string().uuid(),
+  customer_id: z.string().uuid(),
+  customer_name: z.string().nullable(),
+  customer_phone: z.string().nullable(),
+  status: AppointmentStatusSchema,
+  checked_in_at: z.string().datetime().nullable(),
+});
+
+export const ClassSessionSchema = z.object({
+  service_id: z.string().uuid(),
+  service_name: z.string().nullable(),
+  employee_id: z.string().uuid(),
+  employee_name: z.string().nullable(),
+  start_time: z.string().datetime(),
+  end_time: z.string().datetime(),
+  capacity: z.number().int().positive(),
+  seats_left: z.number().int().min(0),
+  attendees: z.array(ClassAttendeeSchema),
+});
+
+export const QueryClassSessionsSchema = z.object({
+  business_id: z.string().uuid(),
+  employee_id: z.string().uuid().optional(),
+  start_date: z.string().datetime(),
+  end_date: z.string().datetime(),
+});
+
 export type AppointmentStatus = z.infer<typeof AppointmentStatusSchema>;
+export type ReminderResponse = z.infer<typeof ReminderResponseSchema>;
 export type Appointment = z.infer<typeof AppointmentSchema>;
 export type CreateAppointmentInput = z.infer<typeof CreateAppointmentSchema>;
 export type UpdateAppointmentInput = z.infer<typeof UpdateAppointmentSchema>;
 export type QueryAppointmentsInput = z.infer<typeof QueryAppointmentsSchema>;
+export type ClassAttendee = z.infer<typeof ClassAttendeeSchema>;
+export type ClassSession = z.infer<typeof ClassSessionSchema>;
+export type QueryClassSessionsInput = z.infer<typeof QueryClassSessionsSchema>;
@@ -0,0 +1,104 @@
+import { z } from 'zod';
+
+const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
+// Postgres returns TIME columns with seconds; 24:00 closes the day
+const timeRegex = /^(([0-1][0-9]|2[0-3]):[0-5][0-9](:[0-5][0-9])?|24:00(:00)?)$/;
+
+/**
+ * closed: no bookings (all day, or only between start_time and end_time)
+ * extra_hours: bookable between start_time and end_time on top of the weekly schedule
+ */
+export const AvailabilityExceptionTypeSchema = z.enum([
+  'closed',
+  'extra_hours'
+]);
+
+export const AvailabilityExceptionSchema = z.object({
+  id: z.string().uuid().optional(),
+  business_id: z.string().uuid(),
+  employee_id: z.string().uuid().nullable().optional(), // null = the whole business
+  type: AvailabilityExceptionTypeSchema,
+  // Business-local days, both inclusive
+  start_date: z.string().regex(dateRegex),
+  end_date: z.string().regex(dateRegex),
+  start_time: z.string().regex(timeRegex).nullable().optional(),
+  end_time: z.string().regex(timeRegex).nullable().optional(),
+  reason: z.string().nullable().optional(),
+  created_at: z.string().datetime().optional(),
+  updated_at: z.string().datetime().optional(),
+});
+
+export const CreateAvailabilityExceptionSchema = z.object({
+  business_id: z.string().uuid('Invalid business ID'),
+  employee_id: z.string().uuid('Invalid employee ID').nullable().optional(),
+  type: AvailabilityExceptionTypeSchema,
+  start_date: z.string().regex(dateRegex, 'Invalid date format (expected YYYY-MM-DD)'),
+  // Defaults to start_date (a single day)
+  end_date: z.string().regex(dateRegex, 'Invalid date format (expected YYYY-MM-DD)').optional(),
+  start_time: z.string().regex(timeRegex, 'Invalid time format (expected HH:MM)').nullable().optional(),
+  end_time: z.string().regex(timeRegex, 'Invalid time format (expected HH:MM)').nullable().optional(),
+  reason: z.string().optional(),
+}).refine(
+  (data) => !data.end_date || data.start_date <= data.end_date,
+  {
+    message: 'start_date must not be after end_date',
+    path: ['start_date'],
+  }
+).refine(
+  (data) => !data.start_time === !data.end_time,
+  {
+    message: 'start_time and end_time go together',
+    path: ['start_time'],
+  }
+).refine(
+  (data) => data.type !== 'extra_hours' || !!data.start_time,
+  {
+    message: 'Extra hours need start_time and end_time',
+    path: ['start_time'],
+  }
+).refine(
+  (data) => !data.start_time || data.start_time < data.end_time!,
+  {
+    message: 'start_time must be before end_time',
+    path: ['start_time'],
+  }
+);
+
+export const UpdateAvailabilityExceptionSchema = z.object({
+  employee_id: z.string().uuid().nullable().optional(),
+  type: AvailabilityExceptionTypeSchema.optional(),
+  start_date: z.string().regex(dateRegex, 'Invalid date format (expected YYYY-MM-DD)').optional(),
+  end_date: z.string().regex(dateRegex, 'Invalid date format (expected YYYY-MM-DD)').optional(),
+  start_time: z.string().regex(timeRegex, 'Invalid time format (expected HH:MM)').nullable().optional(),
+  end_time: z.string().regex(timeRegex, 'Invalid time format (expected HH:MM)').nullable().optional(),
+  reason: z.string().nullable().optional(),
+}).refine(
+  (data) => !data.start_date || !data.end_date || data.start_date <= data.end_date,
+  {
+    message: 'start_date must not be after end_date',
+    path: ['start_date'],
+  }
+).refine(
+  (data) => !data.start_time || !data.end_time || data.start_time < data.end_time,
+  {
+    message: 'start_time must be before end_time',
+    path: ['start_time'],
+  }
+);
+
+/**
+ * Exceptions touching a date range; with employee_id, the ones that affect that employee
+ * (their own and the business-wide ones)
+ */
+export const QueryAvailabilityExceptionsSchema = z.object({
+  business_id: z.string().uuid().optional(),
+  employee_id: z.string().uuid().optional(),
+  from: z.string().regex(dateRegex, 'Invalid date format (expected YYYY-MM-DD)').optional(),
+  to: z.string().regex(dateRegex, 'Invalid date format (expected YYYY-MM-DD)').optional(),
+});
+
+export type AvailabilityExceptionType = z.infer<typeof AvailabilityExceptionTypeSchema>;
+export type AvailabilityException = z.infer<typeof AvailabilityExceptionSchema>;
+export type CreateAvailabilityExceptionInput = z.infer<typeof CreateAvailabilityExceptionSchema>;
+export type UpdateAvailabilityExceptionInput = z.infer<typeof UpdateAvailabilityExceptionSchema>;
+export type QueryAvailabilityExceptionsInput = z.infer<typeof QueryAvailabilityExceptionsSchema>;
@@ -55,6 +55,17 @@ export const TimeSlotSchema = z.object({
   end_time: z.string().datetime(),
   available: z.boolean(),
   employee_id: z.string().uuid(),
+  seats_left: z.number().int().min(0).optional(), // Group classes only
+});
+
+/**
+ * A slot offered for "any professional": the employees free at that time
+ */
+export const TeamTimeSlotSchema = z.object({
+  start_time: z.string().datetime(),
+  end_time: z.string().datetime(),
+  employee_ids: z.array(z.string().uuid()),
+  seats_left: z.number().int().min(0).optional(), // Group classes only: summed across the team
 });
 
 export const GetAvailableSlotsSchema = z.object({
@@ -68,4 +79,5 @@ export type Availability = z.infer<typeof AvailabilitySchema>;
 export type CreateAvailabilityInput = z.infer<typeof CreateAvailabilitySchema>;
 export type UpdateAvailabilityInput = z.infer<typeof UpdateAvailabilitySchema>;
 export type TimeSlot = z.infer<typeof TimeSlotSchema>;
+export type TeamTimeSlot = z.infer<typeof TeamTimeSlotSchema>;
 export type GetAvailableSlotsInput = z.infer<typeof GetAvailableSlotsSchema>;
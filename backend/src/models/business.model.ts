@@ -1,4 +1,55 @@
 import { z } from 'zod';
+import { isValidTimeZone } from '../utils/timezone';
+
+/**
+ * How a "cualquiera" booking picks the professional once the slot is confirmed
+ * Stored in businesses.settings.assignment_strategy
+ */
+export const AssignmentStrategySchema = z.enum(['least_booked', 'round_robin', 'priority']);
+
+/**
+ * Booking rules of a business, stored in businesses.settings.booking_policy
+ * Missing fields take these defaults, which match how bookings worked before policies
+ */
+export const BookingPolicySchema = z.object({
+  // How long before its start a slot can still be booked
+  min_notice_minutes: z.number().int().min(0).default(60),
+  // How far ahead bookings are taken
+  max_advance_days: z.number().int().min(1).default(90),
+  // Kept free around every appointment; a service's own buffer_minutes wins if larger
+  buffer_before_minutes: z.number().int().min(0).default(0),
+  buffer_after_minutes: z.number().int().min(0).default(0),
+  // Minutes between offered start times; null = one slot right after the other
+  slot_step_minutes: z.number().int().min(5).nullable().default(null),
+  // Pending or confirmed future appointments a customer can hold; null = no limit
+  max_active_bookings: z.number().int().min(1).nullable().default(null),
+  // Customers cannot cancel or reschedule on WhatsApp closer than this to the start
+  cancellation_cutoff_hours: z.number().min(0).default(0),
+  // WhatsApp reminders sent this long before every pending or confirmed appointment (up to a week)
+  reminder_offsets_minutes: z.array(z.number().int().min(5).max(7 * 24 * 60)).max(5).default([24 * 60, 2 * 60]),
+  // Rating request sent this long after an appointment is completed; null = no survey
+  feedback_delay_minutes: z.number().int().min(0).nullable().default(60),
+  // "¿Querés reprogramar?" sent this long after a no-show; null = no outreach
+  no_show_follow_up_delay_minutes: z.number().int().min(0).nullable().default(30),
+});
+
+export const DEFAULT_BOOKING_POLICY: BookingPolicy = BookingPolicySchema.parse({});
+
+/**
+ * Known keys of businesses.settings; other keys are kept as they are
+ * The booking policy is stored as given and completed with defaults when read
+ */
+export const BusinessSettingsSchema = z.object({
+  assignment_strategy: AssignmentStrategySchema.optional(),
+  booking_policy: BookingPolicySchema.partial().optional(),
+}).passthrough();
+
+/**
+ * IANA timezone in which hours, slots and customer-facing times are computed
+ */
+export const TimeZoneSchema = z
+  .string()
+  .refine(isValidTimeZone, { message: 'Invalid IANA timezone' });
 
 export const BusinessSchema = z.object({
   id: z.string().uuid().optional(),
@@ -6,8 +57,9 @@ export const BusinessSchema = z.object({
   phone: z.string().min(10),
   email: z.string().email().optional(),
   industry: z.string().optional(),
-  settings: z.record(z.any()).optional(),
+  settings: BusinessSettingsSchema.optional(),
   plan: z.enum(['basic', 'pro', 'enterprise']).default('basic'),
+  timezone: TimeZoneSchema.optional(),
   // WhatsApp configuration
   whatsapp_phone_number_id: z.string().optional(),
   whatsapp_phone_number: z.string().optional(),
@@ -21,8 +73,9 @@ export const CreateBusinessSchema = z.object({
   phone: z.string().min(10, 'Phone number must be at least 10 characters'),
   email: z.string().email().optional(),
   industry: z.string().optional(),
-  settings: z.record(z.any()).optional().default({}),
+  settings: BusinessSettingsSchema.optional().default({}),
   plan: z.enum(['basic', 'pro', 'enterprise']).optional().default('basic'),
+  timezone: TimeZoneSchema.optional(),
 });
 
 export const UpdateBusinessSchema = z.object({
@@ -30,8 +83,9 @@ export const UpdateBusinessSchema = z.object({
   phone: z.string().min(10).optional(),
   email: z.string().email().optional(),
   industry: z.string().optional(),
-  settings: z.record(z.any()).optional(),
+  settings: BusinessSettingsSchema.optional(),
   plan: z.enum(['basic', 'pro', 'enterprise']).optional(),
+  timezone: TimeZoneSchema.optional(),
   // WhatsApp configuration
   whatsapp_phone_number_id: z.string().optional(),
   whatsapp_phone_number: z.string().optional(),
@@ -46,6 +100,9 @@ export const QueryBusinessesSchema = z.object({
   offset: z.string().transform(Number).optional(),
 });
 
+export type AssignmentStrategy = z.infer<typeof AssignmentStrategySchema>;
+export type BookingPolicy = z.infer<typeof BookingPolicySchema>;
+export type BusinessSettings = z.infer<typeof BusinessSettingsSchema>;
 export type Business = z.infer<typeof BusinessSchema>;
 export type CreateBusinessInput = z.infer<typeof CreateBusinessSchema>;
 export type UpdateBusinessInput = z.infer<typeof UpdateBusinessSchema>;
@@ -6,6 +6,8 @@ export const CustomerSchema = z.object({
   name: z.string().optional(),
   email: z.string().email().optional(),
   notes: z.string().optional(),
+  // Set when the customer's personal data was anonymized
+  erased_at: z.string().datetime().nullable().optional(),
   created_at: z.string().datetime().optional(),
   updated_at: z.string().datetime().optional(),
 });
@@ -23,6 +25,50 @@ export const UpdateCustomerSchema = z.object({
   notes: z.string().optional(),
 });
 
+/**
+ * Whether a customer accepts messages the business starts (reminders, follow-ups, offers)
+ * Stored per business; a customer without a consent row has not opted out
+ */
+export const ConsentStatusSchema = z.enum(['opted_in', 'opted_out']);
+
+// whatsapp_signup: registered through the bot; whatsapp_keyword: wrote BAJA/STOP or ALTA/START;
+// erasure: the customer's data was erased
+export const ConsentSourceSchema = z.enum(['whatsapp_signup', 'whatsapp_keyword', 'erasure']);
+
+export const CustomerConsentSchema = z.object({
+  id: z.string().uuid().optional(),
+  business_id: z.string().uuid(),
+  customer_id: z.string().uuid(),
+  status: ConsentStatusSchema,
+  source: ConsentSourceSchema,
+  changed_at: z.string().datetime(),
+  created_at: z.string().datetime().optional(),
+  updated_at: z.string().datetime().optional(),
+});
+
+/**
+ * Data-subject requests: export of a customer's data or erasure of their PII
+ * dashboard: requested by staff; whatsapp: requested by the customer to the bot
+ */
+export const CustomerDataRequestTypeSchema = z.enum(['export', 'erasure']);
+export const CustomerDataRequestSourceSchema = z.enum(['dashboard', 'whatsapp']);
+
+export const CustomerDataRequestSchema = z.object({
+  id: z.string().uuid().optional(),
+  business_id: z.string().uuid().nullable().optional(),
+  customer_id: z.string().uuid(),
+  type: CustomerDataRequestTypeSchema,
+  source: CustomerDataRequestSourceSchema,
+  requested_by: z.string().uuid().nullable().optional(),
+  created_at: z.string().datetime().optional(),
+});
+
 export type Customer = z.infer<typeof CustomerSchema>;
 export type CreateCustomerInput = z.infer<typeof CreateCustomerSchema>;
 export type UpdateCustomerInput = z.infer<typeof UpdateCustomerSchema>;
+export type ConsentStatus = z.infer<typeof ConsentStatusSchema>;
+export type ConsentSource = z.infer<typeof ConsentSourceSchema>;
+export type CustomerConsent = z.infer<typeof CustomerConsentSchema>;
+export type CustomerDataRequestType = z.infer<typeof CustomerDataRequestTypeSchema>;
+export type CustomerDataRequestSource = z.infer<typeof CustomerDataRequestSourceSchema>;
+export type CustomerDataRequest = z.infer<typeof CustomerDataRequestSchema>;
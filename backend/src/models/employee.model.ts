@@ -8,6 +8,7 @@ export const EmployeeSchema = z.object({
   email: z.string().email().optional(),
   role: z.string().optional(),
   is_active: z.boolean().default(true),
+  priority: z.number().int().optional(),
   created_at: z.string().datetime().optional(),
   updated_at: z.string().datetime().optional(),
 });
@@ -19,6 +20,7 @@ export const CreateEmployeeSchema = z.object({
   email: z.string().email().optional(),
   role: z.string().optional(),
   is_active: z.boolean().optional().default(true),
+  priority: z.number().int().optional(),
 });
 
 export const UpdateEmployeeSchema = z.object({
@@ -27,6 +29,7 @@ export const UpdateEmployeeSchema = z.object({
   email: z.string().email().optional(),
   role: z.string().optional(),
   is_active: z.boolean().optional(),
+  priority: z.number().int().optional(),
 });
 
 export const QueryEmployeesSchema = z.object({
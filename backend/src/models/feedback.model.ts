@@ -0,0 +1,33 @@
+import { z } from 'zod';
+
+/**
+ * A customer's rating of a completed appointment, sent on WhatsApp
+ */
+export const AppointmentFeedbackSchema = z.object({
+  id: z.string().uuid().optional(),
+  business_id: z.string().uuid(),
+  appointment_id: z.string().uuid(),
+  customer_id: z.string().uuid(),
+  employee_id: z.string().uuid().nullable().optional(),
+  rating: z.number().int().min(1).max(5),
+  comment: z.string().nullable().optional(),
+  created_at: z.string().datetime().optional(),
+  updated_at: z.string().datetime().optional(),
+});
+
+/**
+ * Average rating and number of ratings; the average is null until someone rates
+ */
+export const SatisfactionSchema = z.object({
+  averageRating: z.number().nullable(),
+  ratingsCount: z.number().int().min(0),
+});
+
+export const EmployeeSatisfactionSchema = SatisfactionSchema.extend({
+  employee_id: z.string().uuid(),
+  employee_name: z.string().nullable(),
+});
+
+export type AppointmentFeedback = z.infer<typeof AppointmentFeedbackSchema>;
+export type Satisfaction = z.infer<typeof SatisfactionSchema>;
+export type EmployeeSatisfaction = z.infer<typeof EmployeeSatisfactionSchema>;
@@ -1,8 +1,14 @@
 
 export * from './appointment.model';
+export * from './appointment-series.model';
 export * from './availability.model';
+export * from './availability-exception.model';
 export * from './business.model';
 export * from './business-user.model';
 export * from './customer.model';
 export * from './employee.model';
+export * from './feedback.model';
+export * from './message.model';
+export * from './service.model';
 export * from './session.model';
+export * from './waitlist.model';
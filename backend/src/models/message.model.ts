@@ -0,0 +1,82 @@
+import { z } from 'zod';
+
+export const MessageDirectionSchema = z.enum(['inbound', 'outbound']);
+
+export const MessageStatusSchema = z.enum([
+  'received',
+  'queued',
+  'sent',
+  'delivered',
+  'read',
+  'failed'
+]);
+
+export const MessageSchema = z.object({
+  id: z.string().uuid().optional(),
+  business_id: z.string().uuid(),
+  customer_id: z.string().uuid().nullable().optional(),
+  phone: z.string(),
+  direction: MessageDirectionSchema,
+  body: z.string(),
+  provider: z.enum(['twilio', 'meta', 'fake']),
+  provider_message_id: z.string().nullable().optional(),
+  status: MessageStatusSchema,
+  read_at: z.string().datetime().nullable().optional(),
+  created_at: z.string().datetime().optional(),
+  updated_at: z.string().datetime().optional(),
+});
+
+/**
+ * One conversation in the inbox (row of the whatsapp_threads view)
+ */
+export const MessageThreadSchema = z.object({
+  business_id: z.string().uuid(),
+  phone: z.string(),
+  customer_id: z.string().uuid().nullable(),
+  customer_name: z.string().nullable(),
+  last_message: z.string(),
+  last_direction: MessageDirectionSchema,
+  last_message_at: z.string().datetime(),
+  unread_count: z.number(),
+  bot_paused: z.boolean(),
+  takeover_requested_at: z.string().datetime().nullable(),
+});
+
+/**
+ * Per-conversation state; while bot_paused is set, staff answer from the dashboard
+ */
+export const ConversationSchema = z.object({
+  id: z.string().uuid().optional(),
+  business_id: z.string().uuid(),
+  phone: z.string(),
+  bot_paused: z.boolean(),
+  paused_at: z.string().datetime().nullable().optional(),
+  paused_by: z.string().uuid().nullable().optional(),
+  takeover_requested_at: z.string().datetime().nullable().optional(),
+  created_at: z.string().datetime().optional(),
+  updated_at: z.string().datetime().optional(),
+});
+
+export const QueryThreadsSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export const QueryThreadMessagesSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  // Cursor: only messages older than this timestamp
+  before: z.string().datetime().optional(),
+});
+
+export const ReplyMessageSchema = z.object({
+  body: z.string().trim().min(1, 'Message body is required').max(4096),
+});
+
+export type MessageDirection = z.infer<typeof MessageDirectionSchema>;
+export type MessageStatus = z.infer<typeof MessageStatusSchema>;
+export type Message = z.infer<typeof MessageSchema>;
+export type MessageThread = z.infer<typeof MessageThreadSchema>;
+export type Conversation = z.infer<typeof ConversationSchema>;
+export type ReplyMessageInput = z.infer<typeof ReplyMessageSchema>;
+export type QueryThreadsInput = z.infer<typeof QueryThreadsSchema>;
+export type QueryThreadMessagesInput = z.infer<typeof QueryThreadMessagesSchema>;
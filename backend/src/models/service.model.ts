@@ -0,0 +1,58 @@
+import { z } from 'zod';
+
+export const ServiceSchema = z.object({
+  id: z.string().uuid().optional(),
+  business_id: z.string().uuid(),
+  name: z.string().min(1),
+  description: z.string().nullable().optional(),
+  duration_minutes: z.number().int().positive(),
+  price: z.number().nonnegative().nullable().optional(),
+  buffer_minutes: z.number().int().min(0),
+  capacity: z.number().int().positive().default(1), // Seats per slot; more than 1 makes it a group class
+  is_active: z.boolean(),
+  created_at: z.string().datetime().optional(),
+  updated_at: z.string().datetime().optional(),
+});
+
+export const CreateServiceSchema = z.object({
+  business_id: z.string().uuid('Invalid business ID'),
+  name: z.string().min(1, 'Service name is required'),
+  description: z.string().optional(),
+  duration_minutes: z.number().int().positive('Duration must be a positive number of minutes'),
+  price: z.number().nonnegative().nullable().optional(),
+  buffer_minutes: z.number().int().min(0).optional(),
+  capacity: z.number().int().positive('Capacity must be at least 1').optional(),
+  is_active: z.boolean().optional(),
+});
+
+export const UpdateServiceSchema = z.object({
+  name: z.string().min(1).optional(),
+  description: z.string().nullable().optional(),
+  duration_minutes: z.number().int().positive().optional(),
+  price: z.number().nonnegative().nullable().optional(),
+  buffer_minutes: z.number().int().min(0).optional(),
+  capacity: z.number().int().positive().optional(),
+  is_active: z.boolean().optional(),
+});
+
+export const QueryServicesSchema = z.object({
+  business_id: z.string().uuid().optional(),
+  is_active: z.string().transform((val) => val === 'true').optional(),
+  search: z.string().optional(),
+});
+
+/**
+ * Replaces the set of employees that perform a service (or services of an employee)
+ */
+export const SetServiceEmployeesSchema = z.object({
+  employee_ids: z.array(z.string().uuid()),
+});
+
+export const SetEmployeeServicesSchema = z.object({
+  service_ids: z.array(z.string().uuid()),
+});
+
+export type Service = z.infer<typeof ServiceSchema>;
+export type CreateServiceInput = z.infer<typeof CreateServiceSchema>;
+export type UpdateServiceInput = z.infer<typeof UpdateServiceSchema>;
+export type QueryServicesInput = z.infer<typeof QueryServicesSchema>;
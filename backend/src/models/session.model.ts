@@ -12,6 +12,19 @@ export const ConversationStateSchema = z.enum([
   'confirming',
   'cancelling',
   'confirming_cancellation',
+  'rescheduling',
+  'rescheduling_date',
+  'rescheduling_time',
+  'confirming_reschedule',
+  'confirming_waitlist',
+  'claiming_waitlist',
+  'answering_reminder',
+  'reminder_declined',
+  'rating_appointment',
+  'commenting_feedback',
+  'offering_rebooking',
+  'confirming_erasure',
+  'confirming_erasure_final',
   'viewing',
   'completed',
   'cancelled'
@@ -33,6 +46,7 @@ export const SessionDataSchema = z.object({
   employee_id: z.string().uuid().optional(),
   employee_name: z.string().optional(),
   employees: z.array(z.any()).optional(),
+  services: z.array(z.any()).optional(),
   selected_date: z.string().optional(),
   selected_time: z.string().optional(),
   selected_start_time: z.string().optional(),
@@ -46,6 +60,10 @@ export const SessionDataSchema = z.object({
   missing_data: z.any().optional(),
   appointments: z.array(z.any()).optional(),
   pending_cancellation_id: z.string().optional(),
+  pending_reschedule_id: z.string().optional(),
+  pending_waitlist_entry_id: z.string().optional(),
+  reminder_appointment_id: z.string().optional(),
+  feedback_appointment_id: z.string().optional(),
 });
 
 export const IncomingWhatsAppMessageSchema = z.object({
@@ -55,6 +73,14 @@ export const IncomingWhatsAppMessageSchema = z.object({
   MessageSid: z.string().optional(),
   AccountSid: z.string().optional(),
   NumMedia: z.string().optional(),
+  // Meta WhatsApp Cloud API phone number ID that received the message
+  PhoneNumberId: z.string().optional(),
+  // Quick-reply button tapped (id and title)
+  ButtonPayload: z.string().optional(),
+  ButtonText: z.string().optional(),
+  // List row picked (id and title)
+  ListId: z.string().optional(),
+  ListTitle: z.string().optional(),
 });
 
 export type ConversationState = z.infer<typeof ConversationStateSchema>;
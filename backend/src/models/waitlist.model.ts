@@ -0,0 +1,82 @@
+import { z } from 'zod';
+
+const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
+// Postgres returns TIME columns with seconds; 24:00 closes windows such as "a la noche"
+const timeRegex = /^(([0-1][0-9]|2[0-3]):[0-5][0-9](:[0-5][0-9])?|24:00(:00)?)$/;
+
+export const WaitlistStatusSchema = z.enum([
+  'waiting',
+  'offered',
+  'booked',
+  'expired',
+  'cancelled'
+]);
+
+export const WaitlistEntrySchema = z.object({
+  id: z.string().uuid().optional(),
+  business_id: z.string().uuid(),
+  customer_id: z.string().uuid(),
+  employee_id: z.string().uuid().nullable().optional(),
+  service_id: z.string().uuid().nullable().optional(),
+  date: z.string().regex(dateRegex),
+  time_window_start: z.string().regex(timeRegex).nullable().optional(),
+  time_window_end: z.string().regex(timeRegex).nullable().optional(),
+  duration_minutes: z.number().int().positive(),
+  status: WaitlistStatusSchema.default('waiting'),
+  offered_start_time: z.string().datetime().nullable().optional(),
+  offered_end_time: z.string().datetime().nullable().optional(),
+  offered_employee_id: z.string().uuid().nullable().optional(),
+  offer_expires_at: z.string().datetime().nullable().optional(),
+  appointment_id: z.string().uuid().nullable().optional(),
+  created_at: z.string().datetime().optional(),
+  updated_at: z.string().datetime().optional(),
+  // Joined names returned by getAll
+  customer_name: z.string().nullable().optional(),
+  customer_phone: z.string().nullable().optional(),
+  employee_name: z.string().nullable().optional(),
+  service_name: z.string().nullable().optional(),
+});
+
+/**
+ * A customer joining the waitlist for a day (business-local date, YYYY-MM-DD)
+ * No employee means any professional; no window means any time that day
+ */
+export const CreateWaitlistEntrySchema = z.object({
+  business_id: z.string().uuid('Invalid business ID'),
+  customer_id: z.string().uuid('Invalid customer ID'),
+  employee_id: z.string().uuid().nullable().optional(),
+  service_id: z.string().uuid().nullable().optional(),
+  date: z.string().regex(dateRegex, 'Invalid date format (expected YYYY-MM-DD)'),
+  time_window_start: z.string().regex(timeRegex, 'Invalid time format (expected HH:MM)').nullable().optional(),
+  time_window_end: z.string().regex(timeRegex, 'Invalid time format (expected HH:MM)').nullable().optional(),
+  duration_minutes: z.number().int().positive().optional(),
+}).refine(
+  (data) => !data.time_window_start === !data.time_window_end,
+  {
+    message: 'time_window_start and time_window_end go together',
+    path: ['time_window_start'],
+  }
+).refine(
+  (data) => !data.time_window_start || data.time_window_start < data.time_window_end!,
+  {
+    message: 'time_window_start must be before time_window_end',
+    path: ['time_window_start'],
+  }
+);
+
+export const UpdateWaitlistEntrySchema = z.object({
+  status: WaitlistStatusSchema.optional(),
+});
+
+export const QueryWaitlistSchema = z.object({
+  business_id: z.string().uuid().optional(),
+  status: WaitlistStatusSchema.optional(),
+  date: z.string().regex(dateRegex).optional(),
+  customer_id: z.string().uuid().optional(),
+});
+
+export type WaitlistStatus = z.infer<typeof WaitlistStatusSchema>;
+export type WaitlistEntry = z.infer<typeof WaitlistEntrySchema>;
+export type CreateWaitlistEntryInput = z.infer<typeof CreateWaitlistEntrySchema>;
+export type UpdateWaitlistEntryInput = z.infer<typeof UpdateWaitlistEntrySchema>;
+export type QueryWaitlistInput = z.infer<typeof QueryWaitlistSchema>;
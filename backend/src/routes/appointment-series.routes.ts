@@ -0,0 +1,18 @@
+import { Router } from 'express';
+import { appointmentSeriesController } from '../controllers';
+
+const router: Router = Router();
+
+router.post('/', appointmentSeriesController.create);
+
+router.get('/:id', appointmentSeriesController.getById);
+
+router.patch('/:id', appointmentSeriesController.update);
+
+router.get('/:id/occurrences', appointmentSeriesController.getOccurrences);
+
+router.patch('/:id/occurrences/:appointmentId', appointmentSeriesController.updateOccurrences);
+
+router.post('/:id/occurrences/:appointmentId/cancel', appointmentSeriesController.cancelOccurrences);
+
+export default router;
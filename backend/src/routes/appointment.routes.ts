@@ -8,6 +8,8 @@ router.get('/upcoming', appointmentController.getUpcoming);
 
 router.get('/stats', appointmentController.getStats);
 
+router.get('/classes', appointmentController.getClasses);
+
 router.get('/', appointmentController.query);
 
 router.get('/:id', appointmentController.getById);
@@ -24,6 +26,10 @@ router.post('/:id/complete', appointmentController.complete);
 
 router.post('/:id/no-show', appointmentController.markNoShow);
 
+router.post('/:id/check-in', appointmentController.checkIn);
+
+router.delete('/:id/check-in', appointmentController.checkIn);
+
 router.delete('/:id', appointmentController.delete);
 
 export default router;
@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import { availabilityExceptionController } from '../controllers';
+
+const router: Router = Router();
+
+router.get('/', availabilityExceptionController.getAll);
+
+router.get('/:id', availabilityExceptionController.getById);
+
+router.post('/', availabilityExceptionController.create);
+
+router.patch('/:id', availabilityExceptionController.update);
+
+router.delete('/:id', availabilityExceptionController.delete);
+
+export default router;
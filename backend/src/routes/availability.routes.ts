@@ -14,6 +14,8 @@ router.get('/summary', availabilityController.getSummary);
 
 router.get('/employee/:employeeId', availabilityController.getByEmployee);
 
+router.get('/employee/:employeeId/slots', availabilityController.getSlots);
+
 router.post('/', availabilityController.create);
 
 router.patch('/:id', availabilityController.update);
@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { businessController } from '../controllers';
+import { requireOwnBusiness } from '../middlewares';
 
 const router: Router = Router();
 
@@ -8,18 +9,18 @@ router.get('/search', businessController.search);
 
 router.get('/', businessController.getAll);
 
-router.get('/:id', businessController.getById);
+router.get('/:id', requireOwnBusiness(), businessController.getById);
 
-router.get('/:id/employees', businessController.getEmployees);
+router.get('/:id/employees', requireOwnBusiness(), businessController.getEmployees);
 
-router.get('/:id/appointments', businessController.getAppointments);
+router.get('/:id/appointments', requireOwnBusiness(), businessController.getAppointments);
 
-router.get('/:id/stats', businessController.getStats);
+router.get('/:id/stats', requireOwnBusiness(), businessController.getStats);
 
 router.post('/', businessController.create);
 
-router.patch('/:id', businessController.update);
+router.patch('/:id', requireOwnBusiness(), businessController.update);
 
-router.delete('/:id', businessController.delete);
+router.delete('/:id', requireOwnBusiness(), businessController.delete);
 
 export default router;
@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { customerController } from '../controllers';
+import { requireRole } from '../middlewares';
 
 const router: Router = Router();
 
@@ -11,6 +12,10 @@ router.get('/:id', customerController.getById);
 
 router.get('/:id/history', customerController.getHistory);
 
+router.get('/:id/export', requireRole('owner', 'admin'), customerController.exportData);
+
+router.post('/:id/erase', requireRole('owner', 'admin'), customerController.erase);
+
 router.post('/', customerController.create);
 
 router.patch('/:id', customerController.update);
@@ -1,5 +1,5 @@
 import { Router } from 'express';
-import { employeeController } from '../controllers';
+import { employeeController, serviceController } from '../controllers';
 
 const router: Router = Router();
 
@@ -16,12 +16,16 @@ router.get('/:id/appointments', employeeController.getAppointments);
 
 router.get('/:id/stats', employeeController.getStats);
 
+router.get('/:id/services', serviceController.getEmployeeServices);
+
 router.post('/', employeeController.create);
 
 router.post('/:id/activate', employeeController.activate);
 
 router.post('/:id/deactivate', employeeController.deactivate);
 
+router.put('/:id/services', serviceController.setEmployeeServices);
+
 router.patch('/:id', employeeController.update);
 
 router.delete('/:id', employeeController.delete);
@@ -1,21 +1,34 @@
 
 import { Router } from 'express';
 import appointmentRoutes from './appointment.routes';
+import appointmentSeriesRoutes from './appointment-series.routes';
 import availabilityRoutes from './availability.routes';
+import availabilityExceptionRoutes from './availability-exception.routes';
 import businessRoutes from './business.routes';
 import businessUserRoutes from './business-user.routes';
 import customerRoutes from './customer.routes';
 import employeeRoutes from './employee.routes';
+import messageRoutes from './message.routes';
+import serviceRoutes from './service.routes';
+import waitlistRoutes from './waitlist.routes';
 import whatsappRoutes from './whatsapp.routes';
+import { authenticateBusinessUser } from '../middlewares';
 
 const router: Router = Router();
 
-router.use('/appointments', appointmentRoutes);
-router.use('/availability', availabilityRoutes);
-router.use('/businesses', businessRoutes);
-router.use('/business-users', businessUserRoutes);
-router.use('/customers', customerRoutes);
-router.use('/employees', employeeRoutes);
+// Dashboard routes act on the business of the logged-in user; WhatsApp webhooks resolve theirs
+// from the destination number
+router.use('/appointments', authenticateBusinessUser, appointmentRoutes);
+router.use('/appointment-series', authenticateBusinessUser, appointmentSeriesRoutes);
+router.use('/availability', authenticateBusinessUser, availabilityRoutes);
+router.use('/availability-exceptions', authenticateBusinessUser, availabilityExceptionRoutes);
+router.use('/businesses', authenticateBusinessUser, businessRoutes);
+router.use('/business-users', authenticateBusinessUser, businessUserRoutes);
+router.use('/customers', authenticateBusinessUser, customerRoutes);
+router.use('/employees', authenticateBusinessUser, employeeRoutes);
+router.use('/messages', authenticateBusinessUser, messageRoutes);
+router.use('/services', authenticateBusinessUser, serviceRoutes);
+router.use('/waitlist', authenticateBusinessUser, waitlistRoutes);
 router.use('/whatsapp', whatsappRoutes);
 
 router.get('/health', (_req, res) => {
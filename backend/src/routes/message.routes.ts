@@ -0,0 +1,20 @@
+import { Router } from 'express';
+import { messageController } from '../controllers';
+
+const router: Router = Router();
+
+router.get('/stats', messageController.getStats);
+
+router.get('/threads', messageController.listThreads);
+
+router.get('/threads/:phone', messageController.getThread);
+
+router.post('/threads/:phone/read', messageController.markThreadRead);
+
+router.post('/threads/:phone/reply', messageController.replyToThread);
+
+router.post('/threads/:phone/takeover', messageController.takeOverThread);
+
+router.post('/threads/:phone/release', messageController.releaseThread);
+
+export default router;
@@ -0,0 +1,20 @@
+import { Router } from 'express';
+import { serviceController } from '../controllers';
+
+const router: Router = Router();
+
+router.get('/', serviceController.getAll);
+
+router.get('/:id', serviceController.getById);
+
+router.get('/:id/employees', serviceController.getEmployees);
+
+router.post('/', serviceController.create);
+
+router.put('/:id/employees', serviceController.setEmployees);
+
+router.patch('/:id', serviceController.update);
+
+router.delete('/:id', serviceController.delete);
+
+export default router;
@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import { waitlistController } from '../controllers';
+
+const router: Router = Router();
+
+router.get('/', waitlistController.getAll);
+
+router.get('/:id', waitlistController.getById);
+
+router.post('/', waitlistController.create);
+
+router.post('/:id/cancel', waitlistController.cancel);
+
+router.delete('/:id', waitlistController.delete);
+
+export default router;
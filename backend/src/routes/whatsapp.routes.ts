@@ -1,15 +1,16 @@
 import { Router } from 'express';
 import { whatsappController } from '../controllers';
+import { authenticateBusinessUser, verifyWebhookSignature } from '../middlewares';
 
 const router: Router = Router();
 
 
-router.post('/webhook', whatsappController.handleWebhook);
+router.post('/webhook', verifyWebhookSignature, whatsappController.handleWebhook);
 
 router.get('/webhook', whatsappController.verifyWebhook);
 
-router.post('/test', whatsappController.sendTestMessage);
+router.post('/test', authenticateBusinessUser, whatsappController.sendTestMessage);
 
-router.get('/status', whatsappController.getStatus);
+router.get('/status', authenticateBusinessUser, whatsappController.getStatus);
 
 export default router;
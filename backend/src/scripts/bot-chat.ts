@@ -0,0 +1,156 @@
+import { readFileSync } from 'fs';
+import { createInterface } from 'readline';
+import type { ConversationScript, ConversationSimulator } from '../services/whatsapp/ConversationSimulator';
+
+/**
+ * Simulador de conversaciones con el bot de WhatsApp, sin Twilio ni teléfono
+ * Usa la base de datos configurada en .env (conviene una de desarrollo: se crean turnos reales)
+ *
+ * Modo interactivo:
+ *   npm run bot:chat -- --business <id> --phone whatsapp:+5491100000000 --now 2026-10-20T10:00
+ *   Comandos: /now <fecha>, /reset, /salir
+ *
+ * Modo guion (sale con código 1 si falla alguna expectativa):
+ *   npm run bot:chat -- --script conversations/reservar.json
+ */
+
+// Respuestas por el proveedor falso y sin ruido de logs en la terminal
+process.env.MESSAGING_PROVIDER = 'fake';
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'warn';
+
+const DEFAULT_PHONE = 'whatsapp:+5491100000000';
+
+interface ChatOptions {
+  business?: string;
+  phone?: string;
+  now?: string;
+  script?: string;
+}
+
+function parseArgs(argv: string[]): ChatOptions {
+  const options: ChatOptions = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const match = argv[i].match(/^--(business|phone|now|script)(?:=(.*))?$/);
+    if (!match) {
+      throw new Error(`Opción desconocida: ${argv[i]}`);
+    }
+    options[match[1] as keyof ChatOptions] = match[2] ?? argv[++i];
+  }
+
+  return options;
+}
+
+function printReplies(replies: string[]): void {
+  if (replies.length === 0) {
+    console.log('  (sin respuesta)');
+  }
+  for (const reply of replies) {
+    console.log(`🤖 ${reply.split('\n').join('\n   ')}\n`);
+  }
+}
+
+async function runScript(simulator: ConversationSimulator, script: ConversationScript): Promise<boolean> {
+  const result = await simulator.runScript(script);
+
+  console.log(`\n▶ ${result.name || 'Conversación'}`);
+  for (const { step, replies, failures } of result.steps) {
+    console.log(`${failures.length === 0 ? '✅' : '❌'} 👤 ${step.send}`);
+    if (failures.length > 0) {
+      failures.forEach(failure => console.log(`   - ${failure}`));
+      printReplies(replies);
+    }
+  }
+  console.log(result.passed ? '\nOK' : '\nFALLÓ');
+
+  return result.passed;
+}
+
+async function runInteractive(
+  simulator: ConversationSimulator,
+  resetSession: () => Promise<void>
+): Promise<void> {
+  const rl = createInterface({ input: process.stdin, output: process.stdout, prompt: '👤 ' });
+  console.log('Escribí como si fueras el cliente. /now <fecha>, /reset, /salir\n');
+  rl.prompt();
+
+  for await (const line of rl) {
+    const text = line.trim();
+
+    try {
+      if (text === '/salir' || text === '/exit') {
+        break;
+      } else if (text === '/reset') {
+        await resetSession();
+        console.log('  Sesión reiniciada\n');
+      } else if (text.startsWith('/now ')) {
+        console.log(`  Ahora es ${simulator.setNow(text.slice(5).trim()).toISOString()}\n`);
+      } else if (text) {
+        printReplies(await simulator.send(text));
+      }
+    } catch (error) {
+      console.error(`  Error: ${(error as Error).message}\n`);
+    }
+
+    rl.prompt();
+  }
+
+  rl.close();
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+  const script: ConversationScript | undefined = options.script
+    ? JSON.parse(readFileSync(options.script, 'utf8'))
+    : undefined;
+
+  // Importados después de fijar el entorno
+  const { businessService } = await import('../services/business.service');
+  const { sessionService } = await import('../services/session.service');
+  const { messagingService } = await import('../services/messaging');
+  const { whatsappService } = await import('../services/whatsapp');
+  const { ConversationSimulator } = await import('../services/whatsapp/ConversationSimulator');
+  const { requestContext } = await import('../core/request-context');
+  const { SimulatedClock } = await import('../utils/clock');
+
+  const businessId = options.business || script?.business || process.env.DEFAULT_BUSINESS_ID;
+  if (!businessId) {
+    throw new Error('Indicá el negocio con --business o DEFAULT_BUSINESS_ID');
+  }
+
+  const business = await businessService.getById(businessId);
+  if (!business) {
+    throw new Error(`No existe el negocio ${businessId}`);
+  }
+
+  const phone = options.phone || script?.phone || DEFAULT_PHONE;
+  const clock = new SimulatedClock();
+  const simulator = new ConversationSimulator(whatsappService, messagingService.fake, business, phone, clock);
+
+  const resetSession = () =>
+    requestContext.run({ businessId, timeZone: business.timezone }, async () => {
+      await sessionService.resetSession(phone);
+    });
+
+  // La línea de comandos manda sobre el "now" del guion
+  const now = options.now || script?.now;
+  if (now) {
+    simulator.setNow(now);
+  }
+
+  console.log(`Negocio: ${business.name} (${business.timezone || 'zona por defecto'}) · Cliente: ${phone}`);
+  await resetSession();
+
+  if (script) {
+    const passed = await runScript(simulator, { ...script, now: undefined });
+    process.exit(passed ? 0 : 1);
+  }
+
+  await runInteractive(simulator, resetSession);
+  process.exit(0);
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,308 @@
+import { supabase } from '../config/supabase';
+import { logger } from '../config/logger';
+import {
+  Appointment,
+  AppointmentSeries,
+  CreateAppointmentSeriesInput,
+  SeriesScope,
+  UpdateSeriesOccurrencesInput,
+} from '../models';
+import { BaseService } from '../core/base.service';
+import { ConflictError, NotFoundError, ValidationError } from '../core/errors';
+import { requestContext } from '../core/request-context';
+import { expandRecurrence } from '../utils/recurrence';
+import {
+  addZonedDays,
+  formatZonedDate,
+  formatZonedTime,
+  setZonedTime,
+  zonedTimeToUtc,
+} from '../utils/timezone';
+import { appointmentService } from './appointment.service';
+
+/**
+ * Occurrences that can still be moved or cancelled
+ */
+const OPEN_STATUSES = ['pending', 'confirmed'];
+
+/**
+ * An occurrence left as it was because its slot is taken
+ */
+export interface SkippedOccurrence {
+  appointment_id?: string; // Set when an existing occurrence could not be moved
+  start_time: string;
+  end_time: string;
+  reason: string;
+}
+
+export interface SeriesCreationResult {
+  series: AppointmentSeries;
+  created: Appointment[];
+  skipped: SkippedOccurrence[];
+}
+
+export interface SeriesUpdateResult {
+  updated: Appointment[];
+  skipped: SkippedOccurrence[];
+}
+
+/**
+ * AppointmentSeriesService - Recurring appointments
+ * A series is expanded into regular appointments up front; each one goes through the
+ * same conflict and booking policy checks as any booking and the rejected ones are
+ * reported instead of failing the whole series
+ */
+class AppointmentSeriesService extends BaseService<AppointmentSeries> {
+  protected tableName = 'appointment_series';
+  protected entityName = 'AppointmentSeries';
+
+  constructor() {
+    super(supabase);
+  }
+
+  /**
+   * Custom method: Create a series and book each of its occurrences
+   */
+  async createSeries(input: CreateAppointmentSeriesInput): Promise<SeriesCreationResult> {
+    try {
+      const timeZone = requestContext.getTimeZone();
+      const { frequency, until, count, ...appointment } = input;
+      const start = new Date(appointment.start_time);
+      const duration = new Date(appointment.end_time).getTime() - start.getTime();
+
+      const starts = expandRecurrence(
+        start,
+        { frequency, count, until: until ? this.endOfDate(until, timeZone) : undefined },
+        timeZone
+      );
+
+      if (starts.length < 2) {
+        throw new ValidationError('The series must repeat at least once');
+      }
+
+      const series = await this.create({
+        ...appointment,
+        frequency,
+        until_date: until ?? null,
+        occurrence_count: count ?? null,
+      });
+
+      const created: Appointment[] = [];
+      const skipped: SkippedOccurrence[] = [];
+
+      for (const occurrenceStart of starts) {
+        const startTime = occurrenceStart.toISOString();
+        const endTime = new Date(occurrenceStart.getTime() + duration).toISOString();
+
+        try {
+          created.push(await appointmentService.create({
+            ...appointment,
+            start_time: startTime,
+            end_time: endTime,
+            series_id: series.id,
+          }));
+        } catch (error) {
+          if (!(error instanceof ConflictError || error instanceof ValidationError)) throw error;
+          skipped.push({ start_time: startTime, end_time: endTime, reason: error.message });
+        }
+      }
+
+      if (created.length === 0) {
+        await this.delete(series.id!);
+        throw new ConflictError('No occurrence of the series could be booked');
+      }
+
+      logger.info(`Appointment series ${series.id}: ${created.length} created, ${skipped.length} skipped`);
+      return { series, created, skipped };
+    } catch (error) {
+      logger.error('Error in createSeries:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Custom method: Appointments of a series in chronological order
+   */
+  async getOccurrences(seriesId: string): Promise<Appointment[]> {
+    try {
+      const { data, error } = await this.supabase
+        .from('appointments')
+        .select('*')
+        .eq('series_id', seriesId)
+        .order('start_time', { ascending: true });
+
+      if (error) {
+        logger.error('Error getting series occurrences:', error);
+        throw error;
+      }
+
+      return data || [];
+    } catch (error) {
+      logger.error('Error in getOccurrences:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Custom method: Edit an occurrence, the following ones or the whole series
+   * A new start_time moves each occurrence by the same number of days to the same wall-clock
+   * time; occurrences whose new slot is taken are left as they were and reported
+   */
+  async updateOccurrences(
+    seriesId: string,
+    appointmentId: string,
+    input: UpdateSeriesOccurrencesInput
+  ): Promise<SeriesUpdateResult> {
+    try {
+      const { scope, start_time, end_time, ...changes } = input;
+      const selected = await this.getOccurrence(seriesId, appointmentId);
+      const occurrences = await this.getScopeOccurrences(selected, scope);
+      const move = start_time || end_time
+        ? this.buildMove(selected, start_time, end_time)
+        : null;
+
+      const updated: Appointment[] = [];
+      const skipped: SkippedOccurrence[] = [];
+
+      for (const occurrence of occurrences) {
+        const times: { start_time?: string; end_time?: string } = move ? move(occurrence) : {};
+
+        try {
+          updated.push(await appointmentService.update(occurrence.id!, { ...changes, ...times }));
+        } catch (error) {
+          if (!(error instanceof ConflictError || error instanceof ValidationError)) throw error;
+          skipped.push({
+            appointment_id: occurrence.id,
+            start_time: times.start_time || occurrence.start_time,
+            end_time: times.end_time || occurrence.end_time,
+            reason: error.message,
+          });
+        }
+      }
+
+      // The series keeps describing its occurrences
+      if (scope === 'all') {
+        const series = await this.getById(seriesId);
+        if (series) {
+          await this.update(seriesId, { ...changes, ...(move ? move(series) : {}) });
+        }
+      }
+
+      return { updated, skipped };
+    } catch (error) {
+      logger.error('Error in updateOccurrences:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Custom method: Cancel an occurrence, the following ones or the whole series
+   * Only pending and confirmed occurrences are cancelled when the scope spans several
+   */
+  async cancelOccurrences(
+    seriesId: string,
+    appointmentId: string,
+    scope: SeriesScope
+  ): Promise<Appointment[]> {
+    try {
+      const selected = await this.getOccurrence(seriesId, appointmentId);
+      const occurrences = await this.getScopeOccurrences(selected, scope);
+      const cancelled: Appointment[] = [];
+
+      for (const occurrence of occurrences) {
+        cancelled.push(await appointmentService.cancelAppointment(occurrence.id!));
+      }
+
+      return cancelled;
+    } catch (error) {
+      logger.error('Error in cancelOccurrences:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Helper: The appointment, checking it belongs to the series
+   */
+  private async getOccurrence(seriesId: string, appointmentId: string): Promise<Appointment> {
+    const appointment = await appointmentService.getById(appointmentId);
+
+    if (!appointment || appointment.series_id !== seriesId) {
+      throw new NotFoundError('Appointment');
+    }
+
+    return appointment;
+  }
+
+  /**
+   * Helper: The occurrences a scope covers, starting from the selected one
+   */
+  private async getScopeOccurrences(selected: Appointment, scope: SeriesScope): Promise<Appointment[]> {
+    if (scope === 'this') {
+      return [selected];
+    }
+
+    let query = this.supabase
+      .from('appointments')
+      .select('*')
+      .eq('series_id', selected.series_id)
+      .in('status', OPEN_STATUSES);
+
+    if (scope === 'following') {
+      query = query.gte('start_time', selected.start_time);
+    }
+
+    const { data, error } = await query.order('start_time', { ascending: true });
+
+    if (error) {
+      logger.error('Error getting series occurrences:', error);
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Helper: How the new times of the selected occurrence translate to any other one
+   */
+  private buildMove(
+    selected: Appointment,
+    startTime?: string,
+    endTime?: string
+  ): (occurrence: { start_time: string }) => { start_time: string; end_time: string } {
+    const timeZone = requestContext.getTimeZone();
+    const newStart = new Date(startTime || selected.start_time);
+    const duration = endTime
+      ? new Date(endTime).getTime() - newStart.getTime()
+      : new Date(selected.end_time).getTime() - new Date(selected.start_time).getTime();
+    const days = this.daysBetween(new Date(selected.start_time), newStart, timeZone);
+    const time = formatZonedTime(newStart, timeZone);
+
+    return occurrence => {
+      const start = setZonedTime(addZonedDays(new Date(occurrence.start_time), days, timeZone), time, timeZone);
+      return {
+        start_time: start.toISOString(),
+        end_time: new Date(start.getTime() + duration).toISOString(),
+      };
+    };
+  }
+
+  /**
+   * Helper: Calendar days from one instant to another in the business timezone
+   */
+  private daysBetween(from: Date, to: Date, timeZone: string): number {
+    const day = (date: Date) => Date.parse(`${formatZonedDate(date, timeZone)}T00:00:00Z`);
+    return Math.round((day(to) - day(from)) / 86400000);
+  }
+
+  /**
+   * Helper: Last instant of a "YYYY-MM-DD" day in the business timezone
+   */
+  private endOfDate(date: string, timeZone: string): Date {
+    const [year, month, day] = date.split('-').map(Number);
+    return new Date(zonedTimeToUtc(year, month, day + 1, 0, 0, timeZone).getTime() - 1);
+  }
+}
+
+// Export class and singleton instance
+export { AppointmentSeriesService };
+export const appointmentSeriesService = new AppointmentSeriesService();
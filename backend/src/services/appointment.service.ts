@@ -2,13 +2,31 @@ import { supabase } from '../config/supabase';
 import { logger } from '../config/logger';
 import {
   Appointment,
+  ClassSession,
   CreateAppointmentInput,
   UpdateAppointmentInput,
   QueryAppointmentsInput,
+  QueryClassSessionsInput,
+  ReminderResponse,
 } from '../models';
 import { BaseService } from '../core/base.service';
-import { ConflictError, NotFoundError } from '../core/errors';
+import { ConflictError, NotFoundError, ValidationError } from '../core/errors';
+import { requestContext } from '../core/request-context';
+import { addZonedDays, endOfZonedDay, getZonedParts, startOfZonedDay } from '../utils/timezone';
+import { followUpService, FollowUpType } from './follow-up.service';
 import { reminderService } from './reminder.service';
+import { serviceCatalogService } from './service-catalog.service';
+
+/**
+ * The slot an appointment wants to take
+ */
+interface RequestedSlot {
+  employee_id: string;
+  customer_id: string;
+  service_id?: string | null;
+  start_time: string;
+  end_time: string;
+}
 
 /**
  * AppointmentService extending BaseService
@@ -23,19 +41,13 @@ class AppointmentService extends BaseService<Appointment> {
   }
 
   /**
-   * Override create to check for conflicts
+   * Override create to check the booking policy and conflicts, then schedule the reminders
    */
   async create(data: CreateAppointmentInput): Promise<Appointment> {
     try {
-      const hasConflict = await this.checkConflict(
-        data.employee_id,
-        data.start_time,
-        data.end_time
-      );
-
-      if (hasConflict) {
-        throw new ConflictError('Time slot is already booked');
-      }
+      this.assertBookingWindow(data.start_time);
+      await this.assertBookingLimit(data.customer_id);
+      await this.assertSlotFree(data);
 
       // Set default status to pending
       const appointmentData = {
@@ -43,7 +55,10 @@ class AppointmentService extends BaseService<Appointment> {
         status: 'pending' as const, // Always set to pending on create
       };
 
-      return await super.create(appointmentData);
+      const appointment = await super.create(appointmentData);
+      await this.refreshReminders(appointment);
+
+      return appointment;
     } catch (error) {
       logger.error('Error in createAppointment:', error);
       throw error;
@@ -52,6 +67,9 @@ class AppointmentService extends BaseService<Appointment> {
 
   /**
    * Override update to check for conflicts when time/employee changes
+   * A new start time must also respect the booking policy notice and window
+   * Reminders follow the new time, and are dropped once the appointment is no longer active
+   * Completed and no-show appointments get their WhatsApp follow-up
    */
   async update(id: string, data: UpdateAppointmentInput): Promise<Appointment> {
     try {
@@ -61,19 +79,31 @@ class AppointmentService extends BaseService<Appointment> {
           throw new NotFoundError(this.entityName);
         }
 
-        const hasConflict = await this.checkConflict(
-          data.employee_id || existing.employee_id,
-          data.start_time || existing.start_time,
-          data.end_time || existing.end_time,
-          id
-        );
-
-        if (hasConflict) {
-          throw new ConflictError('Time slot is already booked');
+        // Only a move is held to the booking window: edits that resend the same start still apply
+        if (data.start_time && new Date(data.start_time).getTime() !== new Date(existing.start_time).getTime()) {
+          this.assertBookingWindow(data.start_time);
         }
+
+        await this.assertSlotFree({
+          employee_id: data.employee_id || existing.employee_id,
+          customer_id: existing.customer_id,
+          service_id: data.service_id !== undefined ? data.service_id : existing.service_id,
+          start_time: data.start_time || existing.start_time,
+          end_time: data.end_time || existing.end_time,
+        }, id);
+      }
+
+      const appointment = await super.update(id, data);
+
+      if (data.status || data.start_time || data.end_time || data.employee_id) {
+        await this.refreshReminders(appointment);
       }
 
-      return await super.update(id, data);
+      if (data.status === 'completed' || data.status === 'no_show') {
+        await this.scheduleFollowUp(appointment, data.status === 'no_show' ? 'no_show' : 'feedback');
+      }
+
+      return appointment;
     } catch (error) {
       logger.error('Error in updateAppointment:', error);
       throw error;
@@ -81,19 +111,20 @@ class AppointmentService extends BaseService<Appointment> {
   }
 
   /**
-   * Custom method: Cancel appointment and its reminders
+   * Custom method: Cancel appointment (update drops its reminders)
    */
   async cancelAppointment(id: string): Promise<Appointment> {
     try {
       const result = await this.update(id, { status: 'cancelled' });
 
-      // Cancel scheduled reminders
+      // Offer the freed slot to the waitlist
       try {
-        await reminderService.cancelReminders(id);
-        logger.info(`Reminders cancelled for appointment ${id}`);
-      } catch (reminderError) {
-        logger.error('Error cancelling reminders:', reminderError);
-        // Don't fail appointment cancellation if reminders fail
+        // Lazy load waitlistService to avoid circular dependency
+        const { waitlistService } = await import('./waitlist.service');
+        await waitlistService.handleFreedSlot(result);
+      } catch (waitlistError) {
+        logger.error('Error offering freed slot to the waitlist:', waitlistError);
+        // Don't fail appointment cancellation if the waitlist fails
       }
 
       return result;
@@ -124,6 +155,32 @@ class AppointmentService extends BaseService<Appointment> {
     return this.update(id, { status: 'no_show' });
   }
 
+  /**
+   * Replace the scheduled reminders with the ones for the appointment as it is now
+   * (none when it is cancelled, completed or a no-show)
+   */
+  private async refreshReminders(appointment: Appointment): Promise<void> {
+    try {
+      await reminderService.cancelReminders(appointment.id!);
+      await reminderService.scheduleAppointmentReminders(appointment);
+    } catch (reminderError) {
+      logger.error('Error updating reminders:', reminderError);
+      // Don't fail the appointment change if reminders fail
+    }
+  }
+
+  /**
+   * Survey after a completed appointment, "¿querés reprogramar?" after a no-show
+   */
+  private async scheduleFollowUp(appointment: Appointment, type: FollowUpType): Promise<void> {
+    try {
+      await followUpService.scheduleFollowUp(appointment, type);
+    } catch (followUpError) {
+      logger.error('Error scheduling follow-up:', followUpError);
+      // Don't fail the appointment change if the follow-up fails
+    }
+  }
+
   /**
    * Custom method: Check for appointment conflicts
    */
@@ -159,6 +216,224 @@ class AppointmentService extends BaseService<Appointment> {
     }
   }
 
+  /**
+   * Custom method: Count the customer's pending or confirmed appointments still ahead
+   */
+  async countActiveBookings(customerId: string): Promise<number> {
+    try {
+      const { count, error } = await this.supabase
+        .from(this.tableName)
+        .select('id', { count: 'exact', head: true })
+        .eq('customer_id', customerId)
+        .in('status', ['pending', 'confirmed'])
+        .gte('start_time', new Date().toISOString());
+
+      if (error) {
+        logger.error('Error counting active bookings:', error);
+        throw error;
+      }
+
+      return count || 0;
+    } catch (error) {
+      logger.error('Error in countActiveBookings:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Reject start times the business booking policy does not take: inside the minimum
+   * notice or past the last bookable day
+   */
+  private assertBookingWindow(startTime: string): void {
+    const policy = requestContext.getBookingPolicy();
+    const timeZone = requestContext.getTimeZone();
+    const now = new Date();
+    const start = new Date(startTime);
+
+    if (start.getTime() < now.getTime() + policy.min_notice_minutes * 60000) {
+      throw new ValidationError(
+        `Appointments must be booked at least ${policy.min_notice_minutes} minutes in advance`
+      );
+    }
+
+    const lastDay = addZonedDays(startOfZonedDay(now, timeZone), policy.max_advance_days, timeZone);
+    if (startOfZonedDay(start, timeZone) > lastDay) {
+      throw new ValidationError(
+        `Appointments can only be booked up to ${policy.max_advance_days} days ahead`
+      );
+    }
+  }
+
+  /**
+   * Reject a new booking for a customer already holding the policy's maximum
+   */
+  private async assertBookingLimit(customerId: string): Promise<void> {
+    const limit = requestContext.getBookingPolicy().max_active_bookings;
+
+    if (limit !== null && (await this.countActiveBookings(customerId)) >= limit) {
+      throw new ValidationError(`Customer already has the maximum of ${limit} active appointments`);
+    }
+  }
+
+  /**
+   * Reject the slot unless it is free, or it is a group class with seats left
+   * A class is the appointments of the same employee and service starting at the same
+   * time; anything else overlapping the slot is a conflict
+   * The slot is padded with the booking policy buffers (or the service buffer, if larger, after it)
+   */
+  private async assertSlotFree(slot: RequestedSlot, excludeAppointmentId?: string): Promise<void> {
+    const service = slot.service_id
+      ? await serviceCatalogService.getById(slot.service_id)
+      : null;
+    const capacity = service?.capacity ?? 1;
+
+    const policy = requestContext.getBookingPolicy();
+    const bufferAfter = Math.max(service?.buffer_minutes ?? 0, policy.buffer_after_minutes);
+    const blockedFrom = new Date(
+      new Date(slot.start_time).getTime() - policy.buffer_before_minutes * 60000
+    ).toISOString();
+    const blockedUntil = new Date(new Date(slot.end_time).getTime() + bufferAfter * 60000).toISOString();
+
+    if (capacity <= 1) {
+      const hasConflict = await this.checkConflict(
+        slot.employee_id,
+        blockedFrom,
+        blockedUntil,
+        excludeAppointmentId
+      );
+
+      if (hasConflict) {
+        throw new ConflictError('Time slot is already booked');
+      }
+      return;
+    }
+
+    let query = this.supabase
+      .from(this.tableName)
+      .select('id, customer_id, service_id, start_time')
+      .eq('employee_id', slot.employee_id)
+      .neq('status', 'cancelled')
+      .or(`and(start_time.lt.${blockedUntil},end_time.gt.${blockedFrom})`);
+
+    if (excludeAppointmentId) {
+      query = query.neq('id', excludeAppointmentId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      logger.error('Error checking class seats:', error);
+      throw error;
+    }
+
+    const overlapping = data || [];
+    const startsAt = new Date(slot.start_time).getTime();
+    const attendees = overlapping.filter((apt: any) =>
+      apt.service_id === slot.service_id && new Date(apt.start_time).getTime() === startsAt
+    );
+
+    if (attendees.length < overlapping.length) {
+      throw new ConflictError('Time slot is already booked');
+    }
+
+    if (attendees.some((apt: any) => apt.customer_id === slot.customer_id)) {
+      throw new ConflictError('Customer is already booked in this class');
+    }
+
+    if (attendees.length >= capacity) {
+      throw new ConflictError('Class is full');
+    }
+  }
+
+  /**
+   * Custom method: Group classes in a date range, with their attendees
+   */
+  async getClassSessions(filters: QueryClassSessionsInput): Promise<ClassSession[]> {
+    try {
+      let query = this.supabase
+        .from(this.tableName)
+        .select(`
+          *,
+          customer:customers(id, name, phone),
+          employee:employees(id, name),
+          service:services(id, name, capacity)
+        `)
+        .eq('business_id', filters.business_id)
+        .neq('status', 'cancelled')
+        .gte('start_time', filters.start_date)
+        .lte('start_time', filters.end_date);
+
+      if (filters.employee_id) {
+        query = query.eq('employee_id', filters.employee_id);
+      }
+
+      const { data, error } = await query.order('start_time', { ascending: true });
+
+      if (error) {
+        logger.error('Error getting class sessions:', error);
+        throw error;
+      }
+
+      const sessions = new Map<string, ClassSession>();
+
+      for (const apt of (data || []) as any[]) {
+        const capacity = apt.service?.capacity ?? 1;
+        if (capacity <= 1) continue;
+
+        const key = `${apt.employee_id}|${apt.service_id}|${new Date(apt.start_time).getTime()}`;
+        let session = sessions.get(key);
+
+        if (!session) {
+          session = {
+            service_id: apt.service_id,
+            service_name: apt.service?.name || null,
+            employee_id: apt.employee_id,
+            employee_name: apt.employee?.name || null,
+            start_time: apt.start_time,
+            end_time: apt.end_time,
+            capacity,
+            seats_left: capacity,
+            attendees: [],
+          };
+          sessions.set(key, session);
+        }
+
+        session.attendees.push({
+          appointment_id: apt.id,
+          customer_id: apt.customer_id,
+          customer_name: apt.customer?.name || null,
+          customer_phone: apt.customer?.phone || null,
+          status: apt.status,
+          checked_in_at: apt.checked_in_at || null,
+        });
+        session.seats_left = Math.max(capacity - session.attendees.length, 0);
+      }
+
+      return [...sessions.values()];
+    } catch (error) {
+      logger.error('Error in getClassSessions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Custom method: Store the customer's answer to a WhatsApp reminder, shown in the dashboard
+   * Doesn't touch the status: confirming and cancelling go through their own methods
+   */
+  async recordReminderResponse(id: string, response: ReminderResponse): Promise<Appointment> {
+    return super.update(id, {
+      reminder_response: response,
+      reminder_responded_at: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Custom method: Record (or undo) that the customer showed up
+   */
+  async checkIn(id: string, checkedIn: boolean = true): Promise<Appointment> {
+    return this.update(id, { checked_in_at: checkedIn ? new Date().toISOString() : null });
+  }
+
   /**
    * Custom method: Query appointments with filters
    */
@@ -168,7 +443,8 @@ class AppointmentService extends BaseService<Appointment> {
         ? `
           *,
           customer:customers(id, name, phone, email),
-          employee:employees(id, name, phone, email, role)
+          employee:employees(id, name, phone, email, role),
+          service:services(id, name, duration_minutes)
         `
         : '*';
 
@@ -210,6 +486,7 @@ class AppointmentService extends BaseService<Appointment> {
         ...apt,
         employee_name: apt.employee?.name || null,
         customer_name: apt.customer?.name || null,
+        service_name: apt.service?.name || null,
       }));
 
       return mappedData as Appointment[];
@@ -240,6 +517,7 @@ class AppointmentService extends BaseService<Appointment> {
   async getAppointmentsByCustomer(customerId: string): Promise<Appointment[]> {
     return this.queryAppointments({
       customer_id: customerId,
+      business_id: this.getBusinessId(), // Only the current business's appointments
     }, true); // Include employee and customer relations
   }
 
@@ -257,7 +535,8 @@ class AppointmentService extends BaseService<Appointment> {
         .select(`
           *,
           customer:customers(id, name, phone, email),
-          employee:employees(id, name, phone, email)
+          employee:employees(id, name, phone, email),
+          service:services(id, name, duration_minutes)
         `)
         .gte('start_time', now)
         .in('status', ['pending', 'confirmed'])
@@ -287,17 +566,18 @@ class AppointmentService extends BaseService<Appointment> {
    */
   async getStats(businessId: string, _startDate?: string, _endDate?: string) {
     try {
+      // "Today" and "this week" are the business's, not the server's
+      const timeZone = requestContext.getTimeZone();
       const now = new Date();
-      const todayStart = new Date(now.getFullYear(), now.getMonth(), now.getDate()).toISOString();
-      const todayEnd = new Date(now.getFullYear(), now.getMonth(), now.getDate(), 23, 59, 59).toISOString();
-
-      const weekStart = new Date(now);
-      weekStart.setDate(now.getDate() - now.getDay());
-      weekStart.setHours(0, 0, 0, 0);
+      const todayStart = startOfZonedDay(now, timeZone).toISOString();
+      const todayEnd = endOfZonedDay(now, timeZone).toISOString();
 
-      const weekEnd = new Date(weekStart);
-      weekEnd.setDate(weekStart.getDate() + 6);
-      weekEnd.setHours(23, 59, 59, 999);
+      const weekStart = addZonedDays(
+        startOfZonedDay(now, timeZone),
+        -getZonedParts(now, timeZone).weekday,
+        timeZone
+      );
+      const weekEnd = endOfZonedDay(addZonedDays(weekStart, 6, timeZone), timeZone);
 
       // Get today's appointments
       const { data: todayData, error: todayError } = await this.supabase
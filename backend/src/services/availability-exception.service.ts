@@ -0,0 +1,105 @@
+import { supabase } from '../config/supabase';
+import { logger } from '../config/logger';
+import {
+  AvailabilityException,
+  CreateAvailabilityExceptionInput,
+  QueryAvailabilityExceptionsInput,
+} from '../models';
+import { BaseService } from '../core/base.service';
+
+/**
+ * AvailabilityExceptionService - Date-specific changes to the weekly availability
+ * Vacations and holidays close days (or some hours); extra hours open time the weekly
+ * schedule does not have. Business-wide exceptions (no employee) apply to everyone
+ */
+class AvailabilityExceptionService extends BaseService<AvailabilityException> {
+  protected tableName = 'availability_exceptions';
+  protected entityName = 'AvailabilityException';
+
+  constructor() {
+    super(supabase);
+  }
+
+  /**
+   * Override create: a single day when no end_date is given
+   */
+  async create(data: CreateAvailabilityExceptionInput): Promise<AvailabilityException> {
+    return super.create({
+      ...data,
+      end_date: data.end_date || data.start_date,
+    });
+  }
+
+  /**
+   * Override getAll to filter by employee and date range
+   */
+  async getAll(filters?: QueryAvailabilityExceptionsInput): Promise<AvailabilityException[]> {
+    try {
+      let query = this.supabase
+        .from(this.tableName)
+        .select('*');
+
+      const businessId = filters?.business_id || this.getBusinessId();
+      if (businessId) {
+        query = query.eq('business_id', businessId);
+      }
+
+      if (filters?.employee_id) {
+        query = query.or(`employee_id.eq.${filters.employee_id},employee_id.is.null`);
+      }
+
+      // Ranges overlapping [from, to]
+      if (filters?.from) {
+        query = query.gte('end_date', filters.from);
+      }
+
+      if (filters?.to) {
+        query = query.lte('start_date', filters.to);
+      }
+
+      const { data, error } = await query.order('start_date', { ascending: true });
+
+      if (error) {
+        logger.error(`Error getting all ${this.entityName}s:`, error);
+        throw error;
+      }
+
+      return data || [];
+    } catch (error) {
+      logger.error(`Error in getAll${this.entityName}s:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Custom method: Exceptions that apply to an employee on a business-local day (YYYY-MM-DD)
+   * Business-wide ones are included when the business is known from the request context
+   */
+  async getExceptionsForDay(employeeId: string, date: string): Promise<AvailabilityException[]> {
+    try {
+      const businessId = this.getBusinessId();
+      const { data, error } = await this.supabase
+        .from(this.tableName)
+        .select('*')
+        .or(businessId
+          ? `employee_id.eq.${employeeId},and(employee_id.is.null,business_id.eq.${businessId})`
+          : `employee_id.eq.${employeeId}`)
+        .lte('start_date', date)
+        .gte('end_date', date);
+
+      if (error) {
+        logger.error('Error getting availability exceptions:', error);
+        throw error;
+      }
+
+      return data || [];
+    } catch (error) {
+      logger.error('Error in getExceptionsForDay:', error);
+      throw error;
+    }
+  }
+}
+
+// Export class and singleton instance
+export { AvailabilityExceptionService };
+export const availabilityExceptionService = new AvailabilityExceptionService();
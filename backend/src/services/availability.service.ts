@@ -2,10 +2,37 @@ import { supabase } from '../config/supabase';
 import { logger } from '../config/logger';
 import {
   Availability,
+  AvailabilityException,
+  TeamTimeSlot,
   TimeSlot,
 } from '../models';
 import { BaseService } from '../core/base.service';
+import { requestContext } from '../core/request-context';
+import {
+  addZonedDays,
+  endOfZonedDay,
+  formatZonedDate,
+  formatZonedTime,
+  getZonedParts,
+  startOfZonedDay,
+  zonedTimeToUtc,
+  ZonedParts,
+} from '../utils/timezone';
 import { appointmentService } from './appointment.service';
+import { availabilityExceptionService } from './availability-exception.service';
+
+/**
+ * A stretch of a day in wall-clock minutes since midnight: [start, end)
+ */
+type MinuteWindow = [number, number];
+
+/**
+ * A group class service: its slots stay open until `capacity` customers booked them
+ */
+export interface ClassSeats {
+  serviceId: string;
+  capacity: number;
+}
 
 /**
  * AvailabilityService extending BaseService
@@ -45,14 +72,36 @@ class AvailabilityService extends BaseService<Availability> {
   /**
    * Custom method: Get available time slots for an employee on a specific date
    * Complex business logic for slot calculation
+   * The buffers are kept free around each slot, so they must not overlap other appointments either;
+   * the business booking policy sets them (the service buffer wins after the slot if larger), the
+   * step between start times, the minimum notice and how many days ahead slots are offered
+   * Availability hours are wall-clock times in the business timezone; slots are returned in UTC
+   * Date-specific exceptions (time off, holidays, extra hours) apply on top of the weekly hours
+   * For a group class, a slot taken only by that same class is still offered while it has seats
    */
   async getAvailableSlots(
     employeeId: string,
     date: Date,
-    duration: number = 60
+    duration: number = 60,
+    buffer: number = 0,
+    seats?: ClassSeats
   ): Promise<TimeSlot[]> {
     try {
-      const dayOfWeek = date.getDay();
+      const timeZone = requestContext.getTimeZone();
+      const policy = requestContext.getBookingPolicy();
+      const day = getZonedParts(date, timeZone);
+      const dayOfWeek = day.weekday;
+
+      const now = new Date();
+      const lastDay = addZonedDays(startOfZonedDay(now, timeZone), policy.max_advance_days, timeZone);
+      if (startOfZonedDay(date, timeZone) > lastDay) {
+        return [];
+      }
+
+      const earliestStart = new Date(now.getTime() + policy.min_notice_minutes * 60000);
+      const bufferBefore = policy.buffer_before_minutes;
+      const bufferAfter = Math.max(buffer, policy.buffer_after_minutes);
+      const step = policy.slot_step_minutes ?? bufferBefore + duration + bufferAfter;
 
       // Get employee's availability for this day
       const { data: availabilityRecords, error: availError } = await this.supabase
@@ -66,15 +115,25 @@ class AvailabilityService extends BaseService<Availability> {
         throw availError;
       }
 
-      if (!availabilityRecords || availabilityRecords.length === 0) {
+      const exceptions = await availabilityExceptionService.getExceptionsForDay(
+        employeeId,
+        formatZonedDate(date, timeZone)
+      );
+      const windows = this.applyExceptions(
+        (availabilityRecords || []).map((record: Availability): MinuteWindow => [
+          this.parseTimeToMinutes(record.start_time),
+          this.parseTimeToMinutes(record.end_time),
+        ]),
+        exceptions
+      );
+
+      if (windows.length === 0) {
         return [];
       }
 
       // Get existing appointments for this date
-      const dateStart = new Date(date);
-      dateStart.setHours(0, 0, 0, 0);
-      const dateEnd = new Date(date);
-      dateEnd.setHours(23, 59, 59, 999);
+      const dateStart = startOfZonedDay(date, timeZone);
+      const dateEnd = endOfZonedDay(date, timeZone);
 
       const appointments = await appointmentService.getAppointmentsByDateRange(
         employeeId,
@@ -85,50 +144,46 @@ class AvailabilityService extends BaseService<Availability> {
       // Calculate available slots
       const slots: TimeSlot[] = [];
 
-      for (const availability of availabilityRecords) {
-        const startTime = this.parseTimeToMinutes(availability.start_time);
-        const endTime = this.parseTimeToMinutes(availability.end_time);
-
+      for (const [startTime, endTime] of windows) {
         // Generate time slots
-        for (let time = startTime; time + duration <= endTime; time += duration) {
-          const slotStart = this.minutesToTime(time);
-          const slotEnd = this.minutesToTime(time + duration);
+        for (let time = startTime; time + duration <= endTime; time += step) {
+          const slotStartDate = this.atMinutes(day, time, timeZone);
+          const slotEndDate = this.atMinutes(day, time + duration, timeZone);
+          const blockedFrom = this.atMinutes(day, time - bufferBefore, timeZone);
+          const blockedUntil = this.atMinutes(day, time + duration + bufferAfter, timeZone);
+
+          // Too soon for the minimum notice
+          if (slotStartDate < earliestStart) continue;
 
-          // Check if slot conflicts with any appointment
-          const hasConflict = appointments.some((apt: any) => {
+          // Appointments overlapping the slot (and its buffers)
+          const overlapping = appointments.filter((apt: any) => {
             if (apt.status === 'cancelled') return false;
 
             const aptStart = new Date(apt.start_time);
             const aptEnd = new Date(apt.end_time);
 
-            const slotStartDate = new Date(date);
-            const [slotStartHours, slotStartMinutes] = slotStart.split(':').map(Number);
-            slotStartDate.setHours(slotStartHours, slotStartMinutes, 0, 0);
-
-            const slotEndDate = new Date(date);
-            const [slotEndHours, slotEndMinutes] = slotEnd.split(':').map(Number);
-            slotEndDate.setHours(slotEndHours, slotEndMinutes, 0, 0);
-
             return (
-              slotStartDate < aptEnd && slotEndDate > aptStart
+              blockedFrom < aptEnd && blockedUntil > aptStart
             );
           });
 
-          if (!hasConflict) {
-            // Create datetime strings for start and end
-            const slotStartDate = new Date(date);
-            const [slotStartHours, slotStartMinutes] = slotStart.split(':').map(Number);
-            slotStartDate.setHours(slotStartHours, slotStartMinutes, 0, 0);
-
-            const slotEndDate = new Date(date);
-            const [slotEndHours, slotEndMinutes] = slotEnd.split(':').map(Number);
-            slotEndDate.setHours(slotEndHours, slotEndMinutes, 0, 0);
-
+          // Seats already taken in this slot's class; any other overlap is a conflict
+          const attendees = seats
+            ? overlapping.filter((apt: any) =>
+              apt.service_id === seats.serviceId &&
+              new Date(apt.start_time).getTime() === slotStartDate.getTime()
+            ).length
+            : 0;
+          const hasConflict = attendees < overlapping.length;
+          const seatsLeft = seats ? seats.capacity - attendees : undefined;
+
+          if (!hasConflict && (seatsLeft === undefined || seatsLeft > 0)) {
             slots.push({
               employee_id: employeeId,
               start_time: slotStartDate.toISOString(),
               end_time: slotEndDate.toISOString(),
               available: true,
+              ...(seatsLeft !== undefined && { seats_left: seatsLeft }),
             });
           }
         }
@@ -141,8 +196,52 @@ class AvailabilityService extends BaseService<Availability> {
     }
   }
 
+  /**
+   * Custom method: Get available time slots across several employees on a date
+   * Slots starting at the same time are merged, keeping who is free for each one
+   * (and, for a group class, the seats left among all of them)
+   */
+  async getTeamAvailableSlots(
+    employeeIds: string[],
+    date: Date,
+    duration: number = 60,
+    buffer: number = 0,
+    seats?: ClassSeats
+  ): Promise<TeamTimeSlot[]> {
+    try {
+      const merged = new Map<string, TeamTimeSlot>();
+
+      for (const employeeId of employeeIds) {
+        const slots = await this.getAvailableSlots(employeeId, date, duration, buffer, seats);
+
+        for (const slot of slots) {
+          const existing = merged.get(slot.start_time);
+          if (existing) {
+            existing.employee_ids.push(employeeId);
+            if (slot.seats_left !== undefined) {
+              existing.seats_left = (existing.seats_left || 0) + slot.seats_left;
+            }
+          } else {
+            merged.set(slot.start_time, {
+              start_time: slot.start_time,
+              end_time: slot.end_time,
+              employee_ids: [employeeId],
+              ...(slot.seats_left !== undefined && { seats_left: slot.seats_left }),
+            });
+          }
+        }
+      }
+
+      return [...merged.values()].sort((a, b) => a.start_time.localeCompare(b.start_time));
+    } catch (error) {
+      logger.error('Error in getTeamAvailableSlots:', error);
+      throw error;
+    }
+  }
+
   /**
    * Custom method: Check if employee is available at a specific time
+   * The weekly hours must cover it, or extra hours that day; a closure that day must not touch it
    */
   async isEmployeeAvailable(
     employeeId: string,
@@ -150,9 +249,10 @@ class AvailabilityService extends BaseService<Availability> {
     endTime: Date
   ): Promise<boolean> {
     try {
-      const dayOfWeek = startTime.getDay();
-      const timeStart = this.formatTime(startTime);
-      const timeEnd = this.formatTime(endTime);
+      const timeZone = requestContext.getTimeZone();
+      const dayOfWeek = getZonedParts(startTime, timeZone).weekday;
+      const timeStart = formatZonedTime(startTime, timeZone);
+      const timeEnd = formatZonedTime(endTime, timeZone);
 
       // Check if within availability hours
       const { data: availabilityRecords, error } = await this.supabase
@@ -168,7 +268,18 @@ class AvailabilityService extends BaseService<Availability> {
         throw error;
       }
 
-      if (!availabilityRecords || availabilityRecords.length === 0) {
+      const start = this.parseTimeToMinutes(timeStart);
+      const end = this.parseTimeToMinutes(timeEnd);
+      const exceptions = await availabilityExceptionService.getExceptionsForDay(
+        employeeId,
+        formatZonedDate(startTime, timeZone)
+      );
+      const windows = this.applyExceptions(
+        availabilityRecords && availabilityRecords.length > 0 ? [[start, end]] : [],
+        exceptions
+      );
+
+      if (!windows.some(([from, to]) => from <= start && end <= to)) {
         return false;
       }
 
@@ -186,6 +297,58 @@ class AvailabilityService extends BaseService<Availability> {
     }
   }
 
+  /**
+   * Custom method: Opening hours of a day across employees, from the earliest start to the latest end
+   * Weekly hours with that day's exceptions applied, as "HH:mm" in the business timezone;
+   * null when nobody works that day
+   */
+  async getWorkingHours(employeeIds: string[], date: Date): Promise<{ start: string; end: string } | null> {
+    try {
+      const timeZone = requestContext.getTimeZone();
+      const dayOfWeek = getZonedParts(date, timeZone).weekday;
+
+      const { data: availabilityRecords, error } = await this.supabase
+        .from(this.tableName)
+        .select('*')
+        .in('employee_id', employeeIds)
+        .eq('day_of_week', dayOfWeek);
+
+      if (error) {
+        logger.error('Error getting working hours:', error);
+        throw error;
+      }
+
+      const windows: MinuteWindow[] = [];
+      for (const employeeId of employeeIds) {
+        const exceptions = await availabilityExceptionService.getExceptionsForDay(
+          employeeId,
+          formatZonedDate(date, timeZone)
+        );
+        windows.push(...this.applyExceptions(
+          (availabilityRecords || [])
+            .filter((record: Availability) => record.employee_id === employeeId)
+            .map((record: Availability): MinuteWindow => [
+              this.parseTimeToMinutes(record.start_time),
+              this.parseTimeToMinutes(record.end_time),
+            ]),
+          exceptions
+        ));
+      }
+
+      if (windows.length === 0) {
+        return null;
+      }
+
+      return {
+        start: this.formatMinutes(Math.min(...windows.map(([start]) => start))),
+        end: this.formatMinutes(Math.max(...windows.map(([, end]) => end))),
+      };
+    } catch (error) {
+      logger.error('Error in getWorkingHours:', error);
+      throw error;
+    }
+  }
+
   /**
    * Custom method: Get next available slot for an employee
    */
@@ -193,19 +356,21 @@ class AvailabilityService extends BaseService<Availability> {
     employeeId: string,
     fromDate: Date,
     duration: number = 60,
-    maxDays: number = 14
+    maxDays: number = 14,
+    buffer: number = 0
   ): Promise<TimeSlot | null> {
     try {
-      const currentDate = new Date(fromDate);
+      const timeZone = requestContext.getTimeZone();
+      let currentDate = new Date(fromDate);
 
       for (let day = 0; day < maxDays; day++) {
-        const slots = await this.getAvailableSlots(employeeId, currentDate, duration);
+        const slots = await this.getAvailableSlots(employeeId, currentDate, duration, buffer);
 
         if (slots.length > 0) {
           return slots[0];
         }
 
-        currentDate.setDate(currentDate.getDate() + 1);
+        currentDate = addZonedDays(currentDate, 1, timeZone);
       }
 
       return null;
@@ -250,21 +415,64 @@ class AvailabilityService extends BaseService<Availability> {
   }
 
   /**
-   * Helper: Convert minutes to time string (HH:MM)
+   * Helper: Format minutes since midnight as HH:MM
    */
-  private minutesToTime(minutes: number): string {
-    const hours = Math.floor(minutes / 60);
-    const mins = minutes % 60;
-    return `${hours.toString().padStart(2, '0')}:${mins.toString().padStart(2, '0')}`;
+  private formatMinutes(minutes: number): string {
+    return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+  }
+
+  /**
+   * Helper: Working windows of a day once its exceptions are applied
+   * Extra hours are added (merging with touching windows), then closures are cut out;
+   * a closure without hours closes the whole day
+   */
+  private applyExceptions(windows: MinuteWindow[], exceptions: AvailabilityException[]): MinuteWindow[] {
+    if (exceptions.some(exception => exception.type === 'closed' && !exception.start_time)) {
+      return [];
+    }
+
+    const extra = exceptions
+      .filter(exception => exception.type === 'extra_hours' && exception.start_time && exception.end_time)
+      .map((exception): MinuteWindow => [
+        this.parseTimeToMinutes(exception.start_time!),
+        this.parseTimeToMinutes(exception.end_time!),
+      ]);
+
+    let result: MinuteWindow[] = [];
+    for (const [start, end] of [...windows, ...extra].sort((a, b) => a[0] - b[0])) {
+      const last = result[result.length - 1];
+      if (last && start <= last[1]) {
+        last[1] = Math.max(last[1], end);
+      } else {
+        result.push([start, end]);
+      }
+    }
+
+    for (const closure of exceptions) {
+      if (closure.type !== 'closed' || !closure.start_time || !closure.end_time) continue;
+
+      const closedFrom = this.parseTimeToMinutes(closure.start_time);
+      const closedTo = this.parseTimeToMinutes(closure.end_time);
+
+      result = result.flatMap(([start, end]): MinuteWindow[] => {
+        if (closedTo <= start || closedFrom >= end) {
+          return [[start, end]];
+        }
+        return [
+          ...(closedFrom > start ? [[start, closedFrom] as MinuteWindow] : []),
+          ...(closedTo < end ? [[closedTo, end] as MinuteWindow] : []),
+        ];
+      });
+    }
+
+    return result;
   }
 
   /**
-   * Helper: Format Date to time string (HH:MM)
+   * Helper: Instant of a day's wall-clock minute in the business timezone
    */
-  private formatTime(date: Date): string {
-    const hours = date.getHours().toString().padStart(2, '0');
-    const minutes = date.getMinutes().toString().padStart(2, '0');
-    return `${hours}:${minutes}`;
+  private atMinutes(day: ZonedParts, minutes: number, timeZone: string): Date {
+    return zonedTimeToUtc(day.year, day.month, day.day, 0, minutes, timeZone);
   }
 
   /**
@@ -1,13 +1,28 @@
 import { supabase } from '../config/supabase';
 import { logger } from '../config/logger';
 import {
+  BookingPolicy,
+  BookingPolicySchema,
   Business,
   CreateBusinessInput,
+  DEFAULT_BOOKING_POLICY,
   UpdateBusinessInput,
   QueryBusinessesInput,
 } from '../models';
 import { BaseService } from '../core/base.service';
 import { NotFoundError, ConflictError } from '../core/errors';
+import { DEFAULT_TIMEZONE, isValidTimeZone } from '../utils/timezone';
+import { feedbackService } from './feedback.service';
+
+const SCHEDULING_CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+
+/**
+ * Per-business settings every request needs to compute slots and validate bookings
+ */
+export interface SchedulingSettings {
+  timeZone: string;
+  bookingPolicy: BookingPolicy;
+}
 
 /**
  * BusinessService extending BaseService
@@ -17,6 +32,11 @@ class BusinessService extends BaseService<Business> {
   protected tableName = 'businesses';
   protected entityName = 'Business';
 
+  // The businesses table is the tenant itself (no business_id column)
+  protected enableMultiTenancy = false;
+
+  private schedulingCache: Map<string, SchedulingSettings & { expiresAt: number }> = new Map();
+
   constructor() {
     super(supabase);
   }
@@ -59,7 +79,9 @@ class BusinessService extends BaseService<Business> {
         }
       }
 
-      return await super.update(id, data);
+      const updated = await super.update(id, data);
+      this.schedulingCache.delete(id);
+      return updated;
     } catch (error) {
       logger.error('Error in updateBusiness:', error);
       throw error;
@@ -68,11 +90,16 @@ class BusinessService extends BaseService<Business> {
 
   /**
    * Override getAll to support custom filtering
+   * businessIds limits the list to those businesses (the ones a user belongs to)
    */
-  async getAll(filters?: QueryBusinessesInput): Promise<Business[]> {
+  async getAll(filters?: QueryBusinessesInput, businessIds?: string[]): Promise<Business[]> {
     try {
       let query = this.supabase.from(this.tableName).select('*');
 
+      if (businessIds) {
+        query = query.in('id', businessIds);
+      }
+
       if (filters?.industry) {
         query = query.eq('industry', filters.industry);
       }
@@ -113,13 +140,20 @@ class BusinessService extends BaseService<Business> {
 
   /**
    * Override search to include industry
+   * businessIds limits the search to those businesses (the ones a user belongs to)
    */
-  async search(query: string, limit: number = 10): Promise<Business[]> {
+  async search(query: string, limit: number = 10, businessIds?: string[]): Promise<Business[]> {
     try {
-      const { data, error } = await this.supabase
+      let request = this.supabase
         .from(this.tableName)
         .select('*')
-        .or(`name.ilike.%${query}%,phone.ilike.%${query}%,email.ilike.%${query}%,industry.ilike.%${query}%`)
+        .or(`name.ilike.%${query}%,phone.ilike.%${query}%,email.ilike.%${query}%,industry.ilike.%${query}%`);
+
+      if (businessIds) {
+        request = request.in('id', businessIds);
+      }
+
+      const { data, error } = await request
         .limit(limit)
         .order('name', { ascending: true });
 
@@ -190,6 +224,88 @@ class BusinessService extends BaseService<Business> {
     }
   }
 
+  /**
+   * Custom method: Get business by Meta WhatsApp phone number ID
+   * Used for routing incoming WhatsApp Cloud API messages
+   */
+  async getBusinessByWhatsAppPhoneNumberId(phoneNumberId: string): Promise<Business | null> {
+    try {
+      const { data, error } = await this.supabase
+        .from(this.tableName)
+        .select('*')
+        .eq('whatsapp_phone_number_id', phoneNumberId)
+        .eq('whatsapp_enabled', true)
+        .single();
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          return null;
+        }
+        throw error;
+      }
+
+      return data;
+    } catch (error) {
+      logger.error('Error in getBusinessByWhatsAppPhoneNumberId:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Custom method: Get the IANA timezone and booking policy of a business
+   * Cached briefly since every API request resolves them; falls back to the defaults
+   */
+  async getSchedulingSettings(businessId: string): Promise<SchedulingSettings> {
+    const cached = this.schedulingCache.get(businessId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return { timeZone: cached.timeZone, bookingPolicy: cached.bookingPolicy };
+    }
+
+    try {
+      const { data, error } = await this.supabase
+        .from(this.tableName)
+        .select('timezone, settings')
+        .eq('id', businessId)
+        .single();
+
+      if (error) {
+        throw error;
+      }
+
+      const settings = {
+        timeZone: data?.timezone && isValidTimeZone(data.timezone) ? data.timezone : DEFAULT_TIMEZONE,
+        bookingPolicy: this.parseBookingPolicy(data?.settings),
+      };
+      this.schedulingCache.set(businessId, { ...settings, expiresAt: Date.now() + SCHEDULING_CACHE_TTL });
+      return settings;
+    } catch (error) {
+      logger.error('Error in getSchedulingSettings:', error);
+      return { timeZone: DEFAULT_TIMEZONE, bookingPolicy: DEFAULT_BOOKING_POLICY };
+    }
+  }
+
+  /**
+   * Custom method: Get the IANA timezone of a business
+   */
+  async getTimeZone(businessId: string): Promise<string> {
+    return (await this.getSchedulingSettings(businessId)).timeZone;
+  }
+
+  /**
+   * Custom method: Booking policy from a businesses.settings value, with defaults applied
+   * An invalid policy is ignored rather than blocking every booking
+   */
+  parseBookingPolicy(settings?: Record<string, any> | null): BookingPolicy {
+    const parsed = BookingPolicySchema.safeParse(settings?.booking_policy ?? {});
+
+    if (!parsed.success) {
+      logger.warn('Invalid booking policy in business settings, using defaults', parsed.error.errors);
+      return DEFAULT_BOOKING_POLICY;
+    }
+
+    return parsed.data;
+  }
+
   /**
    * Custom method: Get all employees for a business
    */
@@ -256,9 +372,10 @@ class BusinessService extends BaseService<Business> {
    */
   async getBusinessStats(businessId: string) {
     try {
-      const [employees, appointments] = await Promise.all([
+      const [employees, appointments, satisfaction] = await Promise.all([
         this.getBusinessEmployees(businessId),
         this.getBusinessAppointments(businessId),
+        feedbackService.getBusinessSatisfaction(businessId),
       ]);
 
       const activeEmployees = employees.filter((emp: any) => emp.is_active);
@@ -279,6 +396,8 @@ class BusinessService extends BaseService<Business> {
         pendingAppointments: pendingAppointments.length,
         confirmedAppointments: confirmedAppointments.length,
         completedAppointments: completedAppointments.length,
+        // Ratings from the post-appointment survey, overall and per professional
+        satisfaction,
       };
     } catch (error) {
       logger.error('Error in getBusinessStats:', error);
@@ -0,0 +1,132 @@
+import { supabase } from '../config/supabase';
+import { logger } from '../config/logger';
+import { ConsentSource, ConsentStatus, Customer, CustomerConsent } from '../models';
+import { BaseService } from '../core/base.service';
+
+/**
+ * ConsentService - Whether each customer accepts messages a business starts
+ * Reminders, follow-ups and waitlist offers check canMessage before sending; replies
+ * to a message the customer just sent are not affected
+ */
+class ConsentService extends BaseService<CustomerConsent> {
+  protected tableName = 'customer_consents';
+  protected entityName = 'CustomerConsent';
+
+  constructor() {
+    super(supabase);
+  }
+
+  /**
+   * Custom method: Consent of a customer for the business in context (null if never recorded)
+   */
+  async getConsent(customerId: string, businessId = this.getBusinessId()): Promise<CustomerConsent | null> {
+    try {
+      if (!businessId) {
+        return null;
+      }
+
+      const { data, error } = await this.supabase
+        .from(this.tableName)
+        .select('*')
+        .eq('business_id', businessId)
+        .eq('customer_id', customerId)
+        .maybeSingle();
+
+      if (error) {
+        throw error;
+      }
+
+      return data;
+    } catch (error) {
+      logger.error('Error in getConsent:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Custom method: Record that a customer gave or withdrew consent
+   */
+  async setConsent(
+    customerId: string,
+    status: ConsentStatus,
+    source: ConsentSource,
+    businessId = this.getBusinessId()
+  ): Promise<CustomerConsent> {
+    try {
+      const { data, error } = await this.supabase
+        .from(this.tableName)
+        .upsert(
+          {
+            business_id: businessId,
+            customer_id: customerId,
+            status,
+            source,
+            changed_at: new Date().toISOString(),
+          },
+          { onConflict: 'business_id,customer_id' }
+        )
+        .select()
+        .single();
+
+      if (error) {
+        throw error;
+      }
+
+      logger.info(`Customer ${customerId} ${status} for business ${businessId}`, { source });
+      return data;
+    } catch (error) {
+      logger.error('Error in setConsent:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Custom method: Whether the business may start a conversation with the customer
+   * Only an explicit opt-out blocks it
+   */
+  async canMessage(customerId: string, businessId = this.getBusinessId()): Promise<boolean> {
+    const consent = await this.getConsent(customerId, businessId);
+    return consent?.status !== 'opted_out';
+  }
+
+  /**
+   * Custom method: Add each customer's consent for a business to a customer list (null if never recorded)
+   */
+  async attachConsents<C extends Pick<Customer, 'id'>>(
+    customers: C[],
+    businessId: string
+  ): Promise<(C & { consent: CustomerConsent | null })[]> {
+    try {
+      const ids = customers.map(customer => customer.id).filter(Boolean) as string[];
+      if (ids.length === 0) {
+        return customers.map(customer => ({ ...customer, consent: null }));
+      }
+
+      const { data, error } = await this.supabase
+        .from(this.tableName)
+        .select('*')
+        .eq('business_id', businessId)
+        .in('customer_id', ids);
+
+      if (error) {
+        throw error;
+      }
+
+      const byCustomer = new Map<string, CustomerConsent>(
+        (data || []).map((consent: CustomerConsent) => [consent.customer_id, consent])
+      );
+
+      return customers.map(customer => ({
+        ...customer,
+        consent: (customer.id && byCustomer.get(customer.id)) || null,
+      }));
+    } catch (error) {
+      logger.error('Error in attachConsents:', error);
+      throw error;
+    }
+  }
+}
+
+// Export class and singleton instance
+export { ConsentService };
+export const consentService = new ConsentService();
@@ -0,0 +1,139 @@
+import { supabase } from '../config/supabase';
+import { logger } from '../config/logger';
+import { requestContext } from '../core/request-context';
+import { Conversation } from '../models';
+import { BaseService } from '../core/base.service';
+
+/**
+ * ConversationService - Human takeover of WhatsApp conversations
+ * While a conversation is paused, inbound messages are logged but the bot doesn't answer
+ */
+class ConversationService extends BaseService<Conversation> {
+  protected tableName = 'whatsapp_conversations';
+  protected entityName = 'Conversation';
+
+  constructor() {
+    super(supabase);
+  }
+
+  async getConversation(phone: string): Promise<Conversation | null> {
+    try {
+      const { data, error } = await this.supabase
+        .from(this.tableName)
+        .select('*')
+        .eq('business_id', this.getBusinessId())
+        .eq('phone', phone)
+        .maybeSingle();
+
+      if (error) {
+        throw error;
+      }
+
+      return data;
+    } catch (error) {
+      logger.error('Error in getConversation:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Whether staff are handling the conversation
+   * On lookup errors the bot keeps answering rather than going silent
+   */
+  async isBotPaused(phone: string): Promise<boolean> {
+    try {
+      const conversation = await this.getConversation(phone);
+      return conversation?.bot_paused || false;
+    } catch (error) {
+      logger.error(`Could not check takeover state for ${phone}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Staff take over the conversation from the dashboard
+   */
+  async pauseBot(phone: string): Promise<Conversation> {
+    return this.upsert(phone, {
+      bot_paused: true,
+      paused_at: new Date().toISOString(),
+      paused_by: requestContext.getUserId() || null,
+    });
+  }
+
+  /**
+   * Hand the conversation back to the bot and clear any pending request
+   */
+  async resumeBot(phone: string): Promise<Conversation> {
+    return this.upsert(phone, {
+      bot_paused: false,
+      paused_at: null,
+      paused_by: null,
+      takeover_requested_at: null,
+    });
+  }
+
+  /**
+   * The customer asked to talk to a person: pause the bot and flag the conversation for staff
+   */
+  async requestTakeover(phone: string): Promise<Conversation> {
+    const now = new Date().toISOString();
+
+    return this.upsert(phone, {
+      bot_paused: true,
+      paused_at: now,
+      paused_by: null,
+      takeover_requested_at: now,
+    });
+  }
+
+  /**
+   * Conversations waiting for a person to answer
+   */
+  async countPendingTakeovers(): Promise<number> {
+    try {
+      const { count, error } = await this.supabase
+        .from(this.tableName)
+        .select('id', { count: 'exact', head: true })
+        .eq('business_id', this.getBusinessId())
+        .eq('bot_paused', true)
+        .not('takeover_requested_at', 'is', null);
+
+      if (error) {
+        throw error;
+      }
+
+      return count || 0;
+    } catch (error) {
+      logger.error('Error in countPendingTakeovers:', error);
+      throw error;
+    }
+  }
+
+  private async upsert(phone: string, changes: Partial<Conversation>): Promise<Conversation> {
+    try {
+      const { data, error } = await this.supabase
+        .from(this.tableName)
+        .upsert(
+          { business_id: requestContext.getBusinessId(), phone, ...changes },
+          { onConflict: 'business_id,phone' }
+        )
+        .select()
+        .single();
+
+      if (error) {
+        throw error;
+      }
+
+      logger.info(`Conversation ${phone} ${data.bot_paused ? 'paused' : 'resumed'}`);
+      return data;
+    } catch (error) {
+      logger.error('Error updating conversation:', error);
+      throw error;
+    }
+  }
+}
+
+// Export class and singleton instance
+export { ConversationService };
+export const conversationService = new ConversationService();
@@ -0,0 +1,282 @@
+import { supabase } from '../config/supabase';
+import { logger } from '../config/logger';
+import {
+  Customer,
+  CustomerConsent,
+  CustomerDataRequest,
+  CustomerDataRequestSource,
+  CustomerDataRequestType,
+  Message,
+} from '../models';
+import { BaseService } from '../core/base.service';
+import { requestContext } from '../core/request-context';
+import { consentService } from './consent.service';
+import { customerService } from './customer.service';
+import { sessionService } from './session.service';
+
+/**
+ * Everything stored about one customer, as returned by the export endpoint
+ */
+export interface CustomerDataExport {
+  exported_at: string;
+  customer: Customer;
+  appointments: any[];
+  messages: Message[];
+  consents: CustomerConsent[];
+}
+
+/**
+ * Placeholder phone of an erased customer: phone is unique and required, and the customer
+ * can sign up again from the same number as someone new
+ */
+const erasedPhone = (customerId: string) => `erased-${customerId.replace(/-/g, '').slice(0, 12)}`;
+
+type Filters = Record<string, string>;
+
+/**
+ * CustomerDataService - Data-subject requests: export and erasure of a customer's personal data
+ * Customer rows are shared by every business, so both operations only reach the rows of the
+ * business in context, and only for customers that business has appointments or consent with.
+ * Erasure keeps the business's appointments for its statistics. Every request is logged in
+ * customer_data_requests
+ */
+class CustomerDataService extends BaseService<CustomerDataRequest> {
+  protected tableName = 'customer_data_requests';
+  protected entityName = 'CustomerDataRequest';
+
+  constructor() {
+    super(supabase);
+  }
+
+  /**
+   * Custom method: Profile, appointments, messages and consent of a customer with the business
+   * in context (null if not found or not a customer of the business)
+   */
+  async exportCustomer(
+    customerId: string,
+    source: CustomerDataRequestSource = 'dashboard'
+  ): Promise<CustomerDataExport | null> {
+    try {
+      const businessId = this.requireBusinessId();
+      const customer = await customerService.getById(customerId);
+
+      if (!customer) {
+        return null;
+      }
+
+      const ofBusiness = { business_id: businessId, customer_id: customerId };
+      const [appointments, messages, consents] = await Promise.all([
+        this.selectRows<any>('appointments', ofBusiness, 'start_time', '*, employees(name), services(name)'),
+        this.selectRows<Message>('whatsapp_messages', { business_id: businessId, phone: customer.phone }, 'created_at'),
+        this.selectRows<CustomerConsent>('customer_consents', ofBusiness),
+      ]);
+
+      if (appointments.length === 0 && consents.length === 0) {
+        return null;
+      }
+
+      await this.logRequest(customerId, 'export', source);
+
+      return {
+        exported_at: new Date().toISOString(),
+        customer,
+        appointments,
+        messages,
+        consents,
+      };
+    } catch (error) {
+      logger.error('Error in exportCustomer:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Custom method: Remove a customer's personal data from the business in context
+   * (null if not found or not a customer of the business)
+   * Messages, conversations, bot session and waitlist entries of the business are removed, and
+   * notes and feedback comments cleared; appointments are kept. The customer is left opted out
+   * with the business, so queued reminders and follow-ups are not sent. The shared profile (name,
+   * email, phone, notes) is only anonymized once no other business keeps data about the customer
+   */
+  async eraseCustomer(
+    customerId: string,
+    source: CustomerDataRequestSource = 'dashboard'
+  ): Promise<Customer | null> {
+    try {
+      const businessId = this.requireBusinessId();
+      const customer = await customerService.getById(customerId);
+
+      if (!customer || !(await this.isCustomerOf(customerId, businessId))) {
+        return null;
+      }
+
+      const phone = customer.phone;
+      const ofBusiness = { business_id: businessId, customer_id: customerId };
+
+      await this.deleteRows('whatsapp_messages', { business_id: businessId, phone });
+      await this.deleteRows('whatsapp_conversations', { business_id: businessId, phone });
+      await this.deleteRows('whatsapp_processed_messages', { business_id: businessId, phone });
+      await this.deleteRows('waitlist_entries', ofBusiness);
+      await this.clearColumn('appointments', 'notes', ofBusiness);
+      await this.clearColumn('appointment_series', 'notes', ofBusiness);
+      await this.clearColumn('appointment_feedback', 'comment', ofBusiness);
+
+      await consentService.setConsent(customerId, 'opted_out', 'erasure', businessId);
+      await sessionService.endSession(phone);
+
+      let erased: Customer = customer;
+
+      if (!customer.erased_at && !(await this.isKeptByOtherBusiness(customerId, businessId))) {
+        const { data, error } = await this.supabase
+          .from('customers')
+          .update({
+            phone: erasedPhone(customerId),
+            name: null,
+            email: null,
+            notes: null,
+            erased_at: new Date().toISOString(),
+          })
+          .eq('id', customerId)
+          .select()
+          .single();
+
+        if (error) {
+          throw error;
+        }
+
+        erased = data;
+      }
+
+      await this.logRequest(customerId, 'erasure', source);
+
+      return erased;
+    } catch (error) {
+      logger.error('Error in eraseCustomer:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Whether the business has appointments or a consent record with the customer
+   */
+  private async isCustomerOf(customerId: string, businessId: string): Promise<boolean> {
+    const ofBusiness = { business_id: businessId, customer_id: customerId };
+    const [appointments, consents] = await Promise.all([
+      this.selectRows<any>('appointments', ofBusiness, undefined, 'id'),
+      this.selectRows<CustomerConsent>('customer_consents', ofBusiness, undefined, 'id'),
+    ]);
+
+    return appointments.length > 0 || consents.length > 0;
+  }
+
+  /**
+   * Whether another business still has appointments or a consent record with the customer
+   */
+  private async isKeptByOtherBusiness(customerId: string, businessId: string): Promise<boolean> {
+    for (const table of ['appointments', 'customer_consents']) {
+      const { data, error } = await this.supabase
+        .from(table)
+        .select('id')
+        .eq('customer_id', customerId)
+        .neq('business_id', businessId)
+        .limit(1);
+
+      if (error) {
+        throw error;
+      }
+
+      if (data && data.length > 0) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  private requireBusinessId(): string {
+    const businessId = this.getBusinessId();
+
+    if (!businessId) {
+      throw new Error('Business context is required for customer data requests');
+    }
+
+    return businessId;
+  }
+
+  /**
+   * Record the request for the business in context and who made it
+   */
+  private async logRequest(
+    customerId: string,
+    type: CustomerDataRequestType,
+    source: CustomerDataRequestSource
+  ): Promise<void> {
+    const requestedBy = requestContext.getUserId() || null;
+
+    await this.create({
+      business_id: this.getBusinessId() || null,
+      customer_id: customerId,
+      type,
+      source,
+      requested_by: requestedBy,
+    });
+
+    logger.info(`Customer data ${type} for ${customerId}`, {
+      businessId: this.getBusinessId(),
+      source,
+      requestedBy,
+    });
+  }
+
+  private async selectRows<R>(table: string, filters: Filters, orderBy?: string, columns = '*'): Promise<R[]> {
+    let query = this.supabase.from(table).select(columns);
+
+    for (const [column, value] of Object.entries(filters)) {
+      query = query.eq(column, value);
+    }
+
+    if (orderBy) {
+      query = query.order(orderBy, { ascending: true });
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw error;
+    }
+
+    return (data || []) as R[];
+  }
+
+  private async deleteRows(table: string, filters: Filters): Promise<void> {
+    let query = this.supabase.from(table).delete();
+
+    for (const [column, value] of Object.entries(filters)) {
+      query = query.eq(column, value);
+    }
+
+    const { error } = await query;
+
+    if (error) {
+      throw error;
+    }
+  }
+
+  private async clearColumn(table: string, column: string, filters: Filters): Promise<void> {
+    let query = this.supabase.from(table).update({ [column]: null });
+
+    for (const [filterColumn, value] of Object.entries(filters)) {
+      query = query.eq(filterColumn, value);
+    }
+
+    const { error } = await query;
+
+    if (error) {
+      throw error;
+    }
+  }
+}
+
+// Export class and singleton instance
+export { CustomerDataService };
+export const customerDataService = new CustomerDataService();
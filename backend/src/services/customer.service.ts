@@ -2,6 +2,7 @@ import { supabase } from '../config/supabase';
 import { logger } from '../config/logger';
 import { Customer, CreateCustomerInput } from '../models';
 import { BaseService } from '../core/base.service';
+import { requestContext } from '../core/request-context';
 
 /**
  * Customer service extending BaseService
@@ -11,6 +12,10 @@ class CustomerService extends BaseService<Customer> {
   protected tableName = 'customers';
   protected entityName = 'Customer';
 
+  // Customers are shared across businesses (no business_id column); lists and searches are
+  // limited to the customers with appointments or consents in the business in context
+  protected enableMultiTenancy = false;
+
   constructor() {
     super(supabase);
   }
@@ -36,13 +41,49 @@ class CustomerService extends BaseService<Customer> {
   }
 
   /**
-   * Override search for specific customer search fields
+   * Override getAll to list only the customers of the business in context
+   */
+  async getAll(): Promise<Customer[]> {
+    try {
+      const customerIds = await this.getBusinessCustomerIds(requestContext.getBusinessId());
+
+      if (customerIds.length === 0) {
+        return [];
+      }
+
+      const { data, error } = await this.supabase
+        .from(this.tableName)
+        .select('*')
+        .in('id', customerIds)
+        .order('name', { ascending: true });
+
+      if (error) {
+        logger.error('Error getting all customers:', error);
+        throw error;
+      }
+
+      return data || [];
+    } catch (error) {
+      logger.error('Error in getAllCustomers:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Override search for specific customer search fields, among the customers of the business in context
    */
   async search(query: string, limit: number = 10): Promise<Customer[]> {
     try {
+      const customerIds = await this.getBusinessCustomerIds(requestContext.getBusinessId());
+
+      if (customerIds.length === 0) {
+        return [];
+      }
+
       const { data, error } = await this.supabase
         .from(this.tableName)
         .select('*')
+        .in('id', customerIds)
         .or(`name.ilike.%${query}%,phone.ilike.%${query}%,email.ilike.%${query}%`)
         .limit(limit);
 
@@ -114,7 +155,8 @@ class CustomerService extends BaseService<Customer> {
             id,
             phone,
             name,
-            email
+            email,
+            erased_at
           )
         `)
         .eq('business_id', businessId);
@@ -176,6 +218,26 @@ class CustomerService extends BaseService<Customer> {
     }
   }
 
+  /**
+   * Ids of the customers with appointments or a messaging consent in the business
+   */
+  private async getBusinessCustomerIds(businessId: string): Promise<string[]> {
+    const [appointments, consents] = await Promise.all([
+      this.supabase.from('appointments').select('customer_id').eq('business_id', businessId),
+      this.supabase.from('customer_consents').select('customer_id').eq('business_id', businessId),
+    ]);
+
+    for (const { error } of [appointments, consents]) {
+      if (error) {
+        logger.error('Error getting customers of business:', error);
+        throw error;
+      }
+    }
+
+    const rows = [...(appointments.data || []), ...(consents.data || [])] as { customer_id: string }[];
+    return [...new Set(rows.map(row => row.customer_id))];
+  }
+
   // Alias methods for backward compatibility
   createCustomer = this.create;
   getCustomerById = this.getById;
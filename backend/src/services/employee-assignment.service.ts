@@ -0,0 +1,141 @@
+import { supabase } from '../config/supabase';
+import { logger } from '../config/logger';
+import { AssignmentStrategy, AssignmentStrategySchema, Employee } from '../models';
+import { requestContext } from '../core/request-context';
+import { endOfZonedDay, startOfZonedDay } from '../utils/timezone';
+
+const DEFAULT_STRATEGY: AssignmentStrategy = 'least_booked';
+
+/**
+ * EmployeeAssignmentService - Picks the professional for "cualquiera" bookings
+ * The strategy comes from businesses.settings.assignment_strategy
+ */
+export class EmployeeAssignmentService {
+  async getStrategy(businessId: string): Promise<AssignmentStrategy> {
+    try {
+      const { data, error } = await supabase
+        .from('businesses')
+        .select('settings')
+        .eq('id', businessId)
+        .single();
+
+      if (error) {
+        throw error;
+      }
+
+      const parsed = AssignmentStrategySchema.safeParse(data?.settings?.assignment_strategy);
+      return parsed.success ? parsed.data : DEFAULT_STRATEGY;
+    } catch (error) {
+      logger.error('Error in getStrategy:', error);
+      return DEFAULT_STRATEGY;
+    }
+  }
+
+  /**
+   * Choose one of the candidates free at startTime
+   * team is the full list in display order; it drives round-robin and breaks ties
+   */
+  async pickEmployee(
+    businessId: string,
+    team: Employee[],
+    candidateIds: string[],
+    startTime: Date
+  ): Promise<Employee> {
+    const candidates = team.filter(emp => candidateIds.includes(emp.id!));
+
+    if (candidates.length === 0) {
+      throw new Error('No candidate employees to assign');
+    }
+    if (candidates.length === 1) {
+      return candidates[0];
+    }
+
+    const strategy = await this.getStrategy(businessId);
+    logger.debug('Assigning employee', { businessId, strategy, candidateIds });
+
+    switch (strategy) {
+      case 'priority':
+        return this.pickByPriority(candidates);
+      case 'round_robin':
+        return this.pickRoundRobin(businessId, team, candidates);
+      case 'least_booked':
+      default:
+        return this.pickLeastBooked(candidates, startTime);
+    }
+  }
+
+  /**
+   * Lowest priority value first; the team order breaks ties
+   */
+  private pickByPriority(candidates: Employee[]): Employee {
+    return candidates.reduce((best, emp) =>
+      (emp.priority ?? 0) < (best.priority ?? 0) ? emp : best
+    );
+  }
+
+  /**
+   * The candidate with the fewest active appointments that day
+   */
+  private async pickLeastBooked(candidates: Employee[], startTime: Date): Promise<Employee> {
+    const timeZone = requestContext.getTimeZone();
+    const dayStart = startOfZonedDay(startTime, timeZone);
+    const dayEnd = endOfZonedDay(startTime, timeZone);
+
+    const { data, error } = await supabase
+      .from('appointments')
+      .select('employee_id')
+      .in('employee_id', candidates.map(emp => emp.id))
+      .neq('status', 'cancelled')
+      .gte('start_time', dayStart.toISOString())
+      .lte('start_time', dayEnd.toISOString());
+
+    if (error) {
+      logger.error('Error counting appointments for assignment:', error);
+      return candidates[0];
+    }
+
+    const counts = new Map<string, number>();
+    for (const row of data || []) {
+      counts.set(row.employee_id, (counts.get(row.employee_id) || 0) + 1);
+    }
+
+    return candidates.reduce((best, emp) =>
+      (counts.get(emp.id!) || 0) < (counts.get(best.id!) || 0) ? emp : best
+    );
+  }
+
+  /**
+   * The next candidate in team order after whoever got the business's latest booking
+   */
+  private async pickRoundRobin(
+    businessId: string,
+    team: Employee[],
+    candidates: Employee[]
+  ): Promise<Employee> {
+    const { data, error } = await supabase
+      .from('appointments')
+      .select('employee_id')
+      .eq('business_id', businessId)
+      .in('employee_id', team.map(emp => emp.id))
+      .order('created_at', { ascending: false })
+      .limit(1);
+
+    if (error) {
+      logger.error('Error reading last assignment:', error);
+      return candidates[0];
+    }
+
+    const lastIndex = team.findIndex(emp => emp.id === data?.[0]?.employee_id);
+
+    for (let offset = 1; offset <= team.length; offset++) {
+      const next = team[(lastIndex + offset) % team.length];
+      if (candidates.includes(next)) {
+        return next;
+      }
+    }
+
+    return candidates[0];
+  }
+}
+
+export const employeeAssignmentService = new EmployeeAssignmentService();
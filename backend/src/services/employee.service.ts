@@ -7,6 +7,7 @@ import {
 } from '../models';
 import { BaseService } from '../core/base.service';
 import { NotFoundError } from '../core/errors';
+import { feedbackService } from './feedback.service';
 
 /**
  * EmployeeService extending BaseService
@@ -250,6 +251,7 @@ class EmployeeService extends BaseService<Employee> {
     try {
       const appointments = await this.getEmployeeAppointments(employeeId);
       const availability = await this.getEmployeeAvailability(employeeId);
+      const satisfaction = await feedbackService.getEmployeeSatisfaction(employeeId);
 
       const pendingAppointments = appointments.filter(
         (app: any) => app.status === 'pending'
@@ -271,6 +273,8 @@ class EmployeeService extends BaseService<Employee> {
         completedAppointments: completedAppointments.length,
         cancelledAppointments: cancelledAppointments.length,
         availabilitySlots: availability.length,
+        // Ratings from the post-appointment survey
+        satisfaction,
       };
     } catch (error) {
       logger.error('Error in getEmployeeStats:', error);
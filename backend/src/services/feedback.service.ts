@@ -0,0 +1,154 @@
+import { supabase } from '../config/supabase';
+import { logger } from '../config/logger';
+import { Appointment, AppointmentFeedback, EmployeeSatisfaction, Satisfaction } from '../models';
+import { BaseService } from '../core/base.service';
+
+/**
+ * FeedbackService - Ratings customers leave after a completed appointment
+ * Collected on WhatsApp by the follow-up survey; aggregated in the business and employee stats
+ */
+class FeedbackService extends BaseService<AppointmentFeedback> {
+  protected tableName = 'appointment_feedback';
+  protected entityName = 'AppointmentFeedback';
+
+  constructor() {
+    super(supabase);
+  }
+
+  /**
+   * Custom method: Store the rating of an appointment (a second rating replaces the first)
+   */
+  async recordRating(appointment: Appointment, rating: number): Promise<AppointmentFeedback> {
+    try {
+      const { data, error } = await this.supabase
+        .from(this.tableName)
+        .upsert(
+          {
+            business_id: appointment.business_id,
+            appointment_id: appointment.id,
+            customer_id: appointment.customer_id,
+            employee_id: appointment.employee_id,
+            rating,
+          },
+          { onConflict: 'appointment_id' }
+        )
+        .select()
+        .single();
+
+      if (error) {
+        throw error;
+      }
+
+      logger.info(`Appointment ${appointment.id} rated ${rating}`);
+      return data;
+    } catch (error) {
+      logger.error('Error in recordRating:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Custom method: Add the optional comment to an appointment's rating
+   */
+  async addComment(appointmentId: string, comment: string): Promise<AppointmentFeedback> {
+    try {
+      const { data, error } = await this.supabase
+        .from(this.tableName)
+        .update({ comment })
+        .eq('appointment_id', appointmentId)
+        .select()
+        .single();
+
+      if (error) {
+        throw error;
+      }
+
+      return data;
+    } catch (error) {
+      logger.error('Error in addComment:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Custom method: Average rating of a business, overall and per professional
+   */
+  async getBusinessSatisfaction(
+    businessId: string
+  ): Promise<Satisfaction & { byEmployee: EmployeeSatisfaction[] }> {
+    try {
+      const { data, error } = await this.supabase
+        .from(this.tableName)
+        .select('rating, employee_id, employee:employees(name)')
+        .eq('business_id', businessId);
+
+      if (error) {
+        throw error;
+      }
+
+      const ratings: any[] = data || [];
+      const byEmployee = new Map<string, { name: string | null; ratings: number[] }>();
+
+      for (const feedback of ratings) {
+        if (!feedback.employee_id) continue;
+
+        const entry = byEmployee.get(feedback.employee_id) ||
+          { name: feedback.employee?.name || null, ratings: [] as number[] };
+        entry.ratings.push(feedback.rating);
+        byEmployee.set(feedback.employee_id, entry);
+      }
+
+      return {
+        ...this.summarize(ratings.map(feedback => feedback.rating)),
+        byEmployee: [...byEmployee.entries()].map(([employeeId, entry]) => ({
+          employee_id: employeeId,
+          employee_name: entry.name,
+          ...this.summarize(entry.ratings),
+        })),
+      };
+    } catch (error) {
+      logger.error('Error in getBusinessSatisfaction:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Custom method: Average rating of a professional
+   */
+  async getEmployeeSatisfaction(employeeId: string): Promise<Satisfaction> {
+    try {
+      const { data, error } = await this.supabase
+        .from(this.tableName)
+        .select('rating')
+        .eq('employee_id', employeeId);
+
+      if (error) {
+        throw error;
+      }
+
+      return this.summarize((data || []).map((feedback: any) => feedback.rating));
+    } catch (error) {
+      logger.error('Error in getEmployeeSatisfaction:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Average rounded to one decimal
+   */
+  private summarize(ratings: number[]): Satisfaction {
+    if (ratings.length === 0) {
+      return { averageRating: null, ratingsCount: 0 };
+    }
+
+    const total = ratings.reduce((sum, rating) => sum + rating, 0);
+    return {
+      averageRating: Math.round((total / ratings.length) * 10) / 10,
+      ratingsCount: ratings.length,
+    };
+  }
+}
+
+// Export class and singleton instance
+export { FeedbackService };
+export const feedbackService = new FeedbackService();
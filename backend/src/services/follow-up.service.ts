@@ -0,0 +1,163 @@
+import { followUpQueue } from '../config/queue';
+import { logger } from '../config/logger';
+import { requestContext } from '../core/request-context';
+import { Appointment } from '../models';
+import { appointmentService } from './appointment.service';
+import { consentService } from './consent.service';
+import { customerService } from './customer.service';
+import { serviceCatalogService } from './service-catalog.service';
+import { sessionService } from './session.service';
+import { MessageFormatter } from './whatsapp/MessageFormatter';
+
+/**
+ * feedback: encuesta de satisfacción después de un turno completado
+ * no_show: ofrecer un turno nuevo a quien no vino
+ */
+export type FollowUpType = 'feedback' | 'no_show';
+
+export interface FollowUpJobData {
+  appointmentId: string;
+  type: FollowUpType;
+  customerId: string;
+  customerPhone: string;
+  customerName?: string;
+  serviceName?: string;
+  // Zona horaria del negocio al programar
+  timeZone?: string;
+}
+
+// Estado en el que tiene que seguir el turno para que el mensaje tenga sentido
+const EXPECTED_STATUS: Record<FollowUpType, Appointment['status']> = {
+  feedback: 'completed',
+  no_show: 'no_show',
+};
+
+export const followUpService = {
+  /**
+   * Programa el mensaje posterior al turno según la política del negocio
+   * (feedback_delay_minutes / no_show_follow_up_delay_minutes; null = desactivado)
+   */
+  async scheduleFollowUp(appointment: Appointment, type: FollowUpType): Promise<void> {
+    try {
+      const policy = requestContext.getBookingPolicy();
+      const delayMinutes = type === 'feedback'
+        ? policy.feedback_delay_minutes
+        : policy.no_show_follow_up_delay_minutes;
+
+      if (delayMinutes === null || !appointment.id) {
+        return;
+      }
+
+      const [customer, service] = await Promise.all([
+        customerService.getById(appointment.customer_id),
+        appointment.service_id ? serviceCatalogService.getById(appointment.service_id) : null,
+      ]);
+
+      if (!customer?.phone) {
+        logger.warn(`Customer of appointment ${appointment.id} has no phone, skipping ${type} follow-up`);
+        return;
+      }
+
+      await followUpQueue.add(
+        {
+          appointmentId: appointment.id,
+          type,
+          customerId: appointment.customer_id,
+          customerPhone: customer.phone,
+          customerName: customer.name || undefined,
+          serviceName: service?.name || undefined,
+          timeZone: requestContext.getTimeZone(),
+        } as FollowUpJobData,
+        {
+          delay: delayMinutes * 60000,
+          // Un solo mensaje de cada tipo por turno aunque se marque dos veces
+          jobId: `${appointment.id}-${type}`,
+        }
+      );
+
+      logger.info(`Scheduled ${type} follow-up for appointment ${appointment.id} in ${delayMinutes} minutes`);
+    } catch (error) {
+      logger.error('Error scheduling follow-up:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Procesa un seguimiento (envía el mensaje de WhatsApp)
+   */
+  async processFollowUp(data: FollowUpJobData): Promise<void> {
+    try {
+      const appointment = await appointmentService.getAppointmentById(data.appointmentId);
+
+      if (!appointment) {
+        logger.warn(`Appointment ${data.appointmentId} not found, skipping ${data.type} follow-up`);
+        return;
+      }
+
+      // El estado se corrigió desde el panel después de programarlo
+      if (appointment.status !== EXPECTED_STATUS[data.type]) {
+        logger.info(`Appointment ${data.appointmentId} is ${appointment.status}, skipping ${data.type} follow-up`);
+        return;
+      }
+
+      if (!(await consentService.canMessage(data.customerId, appointment.business_id))) {
+        logger.info(`Customer ${data.customerId} opted out, skipping ${data.type} follow-up`);
+        return;
+      }
+
+      // El worker corre fuera de un request: envío y sesión en el contexto del negocio
+      await requestContext.run(
+        { businessId: appointment.business_id, timeZone: data.timeZone },
+        () => this.sendFollowUp(data)
+      );
+
+      logger.info(`${data.type} follow-up sent to ${data.customerPhone} for appointment ${data.appointmentId}`);
+    } catch (error) {
+      logger.error('Error processing follow-up:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Envía el mensaje y deja la sesión esperando la respuesta
+   * Si el cliente está en medio de otra conversación no se la pisa y el mensaje no se envía
+   */
+  async sendFollowUp(data: FollowUpJobData): Promise<void> {
+    const phone = data.customerPhone;
+    const session = await sessionService.getOrCreateSession(phone);
+
+    if (!sessionService.isIdle(session)) {
+      logger.info(`Session of ${phone} is busy (${session.state}), skipping ${data.type} follow-up`);
+      return;
+    }
+
+    // Lazy load whatsappService to avoid circular dependency
+    const { whatsappService } = await import('./whatsapp.service');
+
+    if (data.type === 'feedback') {
+      await whatsappService.sendMessage(phone, MessageFormatter.formatFeedbackRequest(data.customerName));
+      await sessionService.updateData(phone, { feedback_appointment_id: data.appointmentId });
+      await sessionService.updateState(phone, 'rating_appointment');
+      return;
+    }
+
+    await whatsappService.sendMessage(
+      phone,
+      MessageFormatter.formatNoShowFollowUp(data.customerName, data.serviceName)
+    );
+    // Lo que necesita el flujo de reserva si responde que sí
+    await sessionService.updateData(phone, {
+      customer_id: data.customerId,
+      customer_name: data.customerName,
+      business_id: requestContext.getBusinessId(),
+      service_name: data.serviceName,
+    });
+    await sessionService.updateState(phone, 'offering_rebooking');
+  },
+};
+
+// Worker para procesar los seguimientos
+followUpQueue.process(async (job) => {
+  logger.info(`Processing follow-up job ${job.id}`, job.data);
+  await followUpService.processFollowUp(job.data);
+});
@@ -1,9 +1,19 @@
 
 export * from './appointment.service';
+export * from './appointment-series.service';
 export * from './availability.service';
+export * from './availability-exception.service';
 export * from './business.service';
 export * from './business-user.service';
+export * from './consent.service';
+export * from './conversation.service';
 export * from './customer.service';
+export * from './customer-data.service';
 export * from './employee.service';
+export * from './employee-assignment.service';
+export * from './feedback.service';
+export * from './message.service';
+export * from './service-catalog.service';
 export * from './session.service';
+export * from './waitlist.service';
 export * from './whatsapp.service';
@@ -0,0 +1,282 @@
+import { supabase } from '../config/supabase';
+import { logger } from '../config/logger';
+import {
+  IncomingWhatsAppMessage,
+  Message,
+  MessageStatus,
+  MessageThread,
+  QueryThreadMessagesInput,
+  QueryThreadsInput,
+} from '../models';
+import { BaseService } from '../core/base.service';
+import { requestContext } from '../core/request-context';
+import { addZonedDays, getZonedParts, startOfZonedDay } from '../utils/timezone';
+import { customerService } from './customer.service';
+import type { MessagingProviderName } from './messaging';
+
+/**
+ * Delivery statuses in the order they happen; callbacks may arrive out of order
+ */
+const STATUS_RANK: Record<MessageStatus, number> = {
+  received: 0,
+  queued: 1,
+  sent: 2,
+  delivered: 3,
+  read: 4,
+  failed: 5,
+};
+
+export interface OutboundMessageLog {
+  businessId: string;
+  phone: string;
+  body: string;
+  provider: MessagingProviderName;
+  providerMessageId?: string;
+}
+
+/**
+ * MessageService - Conversation log of every WhatsApp message per business/customer
+ * Threads are keyed by the customer's phone, so conversations started before the customer
+ * registered are kept
+ */
+class MessageService extends BaseService<Message> {
+  protected tableName = 'whatsapp_messages';
+  protected entityName = 'Message';
+
+  constructor() {
+    super(supabase);
+  }
+
+  /**
+   * Record an inbound customer message for the business in the request context
+   * Logging never breaks the conversation, so errors are swallowed
+   */
+  async logInbound(
+    message: IncomingWhatsAppMessage,
+    provider: MessagingProviderName
+  ): Promise<Message | null> {
+    try {
+      return await this.create({
+        customer_id: await this.findCustomerId(message.From),
+        phone: message.From,
+        direction: 'inbound',
+        body: message.Body,
+        provider,
+        provider_message_id: message.MessageSid || null,
+        status: 'received',
+      });
+    } catch (error) {
+      logger.error('Error logging inbound message:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Record a message sent to a customer
+   * Logging never breaks sending, so errors are swallowed
+   */
+  async logOutbound(log: OutboundMessageLog): Promise<Message | null> {
+    try {
+      return await this.create({
+        business_id: log.businessId,
+        customer_id: await this.findCustomerId(log.phone),
+        phone: log.phone,
+        direction: 'outbound',
+        body: log.body,
+        provider: log.provider,
+        provider_message_id: log.providerMessageId || null,
+        status: 'sent',
+      });
+    } catch (error) {
+      logger.error('Error logging outbound message:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Apply a delivery status callback from the provider
+   * Statuses only move forward (a late "sent" never overwrites "read")
+   */
+  async updateDeliveryStatus(
+    provider: MessagingProviderName,
+    providerMessageId: string,
+    status: MessageStatus
+  ): Promise<Message | null> {
+    try {
+      const { data: existing, error } = await this.supabase
+        .from(this.tableName)
+        .select('*')
+        .eq('provider', provider)
+        .eq('provider_message_id', providerMessageId)
+        .maybeSingle();
+
+      if (error) {
+        throw error;
+      }
+
+      if (!existing) {
+        logger.debug(`No logged message for status update ${providerMessageId}`);
+        return null;
+      }
+
+      if (STATUS_RANK[status] <= STATUS_RANK[existing.status as MessageStatus]) {
+        return existing;
+      }
+
+      const { data, error: updateError } = await this.supabase
+        .from(this.tableName)
+        .update({ status })
+        .eq('id', existing.id)
+        .select()
+        .single();
+
+      if (updateError) {
+        throw updateError;
+      }
+
+      return data;
+    } catch (error) {
+      logger.error('Error in updateDeliveryStatus:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Conversations of the current business, most recent first
+   */
+  async getThreads(query: QueryThreadsInput): Promise<{ threads: MessageThread[]; total: number }> {
+    try {
+      const { data, error, count } = await this.supabase
+        .from('whatsapp_threads')
+        .select('*', { count: 'exact' })
+        .eq('business_id', this.getBusinessId())
+        .order('last_message_at', { ascending: false })
+        .range(query.offset, query.offset + query.limit - 1);
+
+      if (error) {
+        throw error;
+      }
+
+      return { threads: data || [], total: count || 0 };
+    } catch (error) {
+      logger.error('Error in getThreads:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Messages of one conversation in chronological order
+   * Pages backwards from `before` so older history loads on scroll
+   */
+  async getThreadMessages(
+    phone: string,
+    query: QueryThreadMessagesInput
+  ): Promise<{ messages: Message[]; hasMore: boolean }> {
+    try {
+      let dbQuery = this.supabase
+        .from(this.tableName)
+        .select('*')
+        .eq('business_id', this.getBusinessId())
+        .eq('phone', phone);
+
+      if (query.before) {
+        dbQuery = dbQuery.lt('created_at', query.before);
+      }
+
+      // Fetch one extra row to know whether there is an older page
+      const { data, error } = await dbQuery
+        .order('created_at', { ascending: false })
+        .limit(query.limit + 1);
+
+      if (error) {
+        throw error;
+      }
+
+      const rows = data || [];
+      const hasMore = rows.length > query.limit;
+
+      return {
+        messages: rows.slice(0, query.limit).reverse(),
+        hasMore,
+      };
+    } catch (error) {
+      logger.error('Error in getThreadMessages:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Mark the customer's messages in a conversation as read
+   * Returns how many messages were unread
+   */
+  async markThreadRead(phone: string): Promise<number> {
+    try {
+      const { data, error } = await this.supabase
+        .from(this.tableName)
+        .update({ read_at: new Date().toISOString() })
+        .eq('business_id', this.getBusinessId())
+        .eq('phone', phone)
+        .eq('direction', 'inbound')
+        .is('read_at', null)
+        .select('id');
+
+      if (error) {
+        throw error;
+      }
+
+      return data?.length || 0;
+    } catch (error) {
+      logger.error('Error in markThreadRead:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Inbox counters: unread messages, and messages received today / this week
+   */
+  async getStats() {
+    try {
+      const businessId = this.getBusinessId();
+      const timeZone = requestContext.getTimeZone();
+      const now = new Date();
+      const todayStart = startOfZonedDay(now, timeZone);
+      const weekStart = addZonedDays(todayStart, -getZonedParts(now, timeZone).weekday, timeZone);
+
+      const countInbound = async (filter: (query: any) => any): Promise<number> => {
+        const { count, error } = await filter(
+          this.supabase
+            .from(this.tableName)
+            .select('id', { count: 'exact', head: true })
+            .eq('business_id', businessId)
+            .eq('direction', 'inbound')
+        );
+
+        if (error) {
+          throw error;
+        }
+
+        return count || 0;
+      };
+
+      const [unreadCount, todayCount, weekCount] = await Promise.all([
+        countInbound(query => query.is('read_at', null)),
+        countInbound(query => query.gte('created_at', todayStart.toISOString())),
+        countInbound(query => query.gte('created_at', weekStart.toISOString())),
+      ]);
+
+      return { unreadCount, todayCount, weekCount };
+    } catch (error) {
+      logger.error('Error in getMessageStats:', error);
+      throw error;
+    }
+  }
+
+  private async findCustomerId(phone: string): Promise<string | null> {
+    const customer = await customerService.getCustomerByPhone(phone);
+    return customer?.id || null;
+  }
+}
+
+// Export class and singleton instance
+export { MessageService };
+export const messageService = new MessageService();
@@ -0,0 +1,89 @@
+import { Request } from 'express';
+import { randomUUID } from 'crypto';
+import { ValidationError } from '../../core/errors';
+import { Business, IncomingWhatsAppMessage, IncomingWhatsAppMessageSchema } from '../../models';
+import {
+  DeliveryStatusUpdate,
+  InteractiveMessage,
+  MessagingProvider,
+  SendResult,
+  WebhookVerification,
+} from './MessagingProvider';
+
+export interface FakeSentMessage {
+  to: string;
+  body: string;
+  interactive?: InteractiveMessage;
+  businessId?: string;
+  messageId: string;
+  sentAt: Date;
+}
+
+/**
+ * FakeProvider - In-memory provider for tests and local development
+ * Records outbound messages instead of sending them
+ */
+export class FakeProvider implements MessagingProvider {
+  readonly name = 'fake' as const;
+  readonly sent: FakeSentMessage[] = [];
+
+  async sendText(to: string, body: string, business?: Business | null): Promise<SendResult> {
+    return this.record(to, body, business);
+  }
+
+  /**
+   * Recorded with the plain-text fallback as body, so tests can assert on either
+   */
+  async sendInteractive(to: string, message: InteractiveMessage, business?: Business | null): Promise<SendResult> {
+    return this.record(to, message.fallback, business, message);
+  }
+
+  parseInbound(req: Request): IncomingWhatsAppMessage[] {
+    const validationResult = IncomingWhatsAppMessageSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      throw new ValidationError('Invalid payload', validationResult.error.issues);
+    }
+
+    return [validationResult.data];
+  }
+
+  parseStatuses(_req: Request): DeliveryStatusUpdate[] {
+    return [];
+  }
+
+  verifyWebhook(_req: Request): WebhookVerification {
+    return { valid: true };
+  }
+
+  /**
+   * Messages sent to a phone, oldest first
+   */
+  messagesTo(to: string): FakeSentMessage[] {
+    return this.sent.filter(message => message.to === to);
+  }
+
+  clear(): void {
+    this.sent.length = 0;
+  }
+
+  private record(
+    to: string,
+    body: string,
+    business?: Business | null,
+    interactive?: InteractiveMessage
+  ): SendResult {
+    const messageId = `fake-${randomUUID()}`;
+
+    this.sent.push({
+      to,
+      body,
+      interactive,
+      businessId: business?.id,
+      messageId,
+      sentAt: new Date(),
+    });
+
+    return { messageId };
+  }
+}
@@ -0,0 +1,115 @@
+import { Request } from 'express';
+import { Business, IncomingWhatsAppMessage, MessageStatus } from '../../models';
+
+export type MessagingProviderName = 'twilio' | 'meta' | 'fake';
+
+/**
+ * Quick-reply button; the id comes back as ButtonPayload when tapped
+ */
+export interface ReplyButton {
+  id: string;
+  title: string;
+}
+
+/**
+ * List row; the id comes back as ListId when picked
+ */
+export interface ListRow {
+  id: string;
+  title: string;
+  description?: string;
+}
+
+export interface ListSection {
+  title?: string;
+  rows: ListRow[];
+}
+
+/**
+ * Structured message rendered natively by providers that support it
+ * fallback is the plain-text version (numbered menu) for providers or payloads that can't
+ */
+export type InteractiveMessage =
+  | {
+      type: 'buttons';
+      body: string;
+      buttons: ReplyButton[];
+      fallback: string;
+    }
+  | {
+      type: 'list';
+      body: string;
+      buttonText: string;
+      sections: ListSection[];
+      fallback: string;
+    };
+
+/**
+ * Anything the bot can send: plain text or an interactive message
+ */
+export type OutboundMessage = string | InteractiveMessage;
+
+/**
+ * Result of sending a message through a provider
+ */
+export interface SendResult {
+  messageId: string;
+}
+
+/**
+ * Delivery status reported by the provider for a message we sent
+ */
+export interface DeliveryStatusUpdate {
+  messageId: string;
+  status: MessageStatus;
+}
+
+/**
+ * Result of verifying an inbound webhook request
+ */
+export interface WebhookVerification {
+  valid: boolean;
+  reason?: string;
+}
+
+/**
+ * Request with the raw body captured by express.json (needed for HMAC signatures)
+ */
+export interface RawBodyRequest extends Request {
+  rawBody?: Buffer;
+}
+
+/**
+ * MessagingProvider - WhatsApp transport used by the bot
+ * Each business is served by one provider (Twilio, Meta Cloud API, or the fake one in tests)
+ */
+export interface MessagingProvider {
+  readonly name: MessagingProviderName;
+
+  /**
+   * Send a text message from the business's WhatsApp number
+   */
+  sendText(to: string, body: string, business?: Business | null): Promise<SendResult>;
+
+  /**
+   * Send buttons or a list, falling back to the plain-text version when not supported
+   */
+  sendInteractive(to: string, message: InteractiveMessage, business?: Business | null): Promise<SendResult>;
+
+  /**
+   * Parse an inbound webhook into normalized messages
+   * Button and list replies carry their id in ButtonPayload / ListId
+   * Returns an empty list for webhooks without customer messages (e.g. status updates)
+   */
+  parseInbound(req: Request): IncomingWhatsAppMessage[];
+
+  /**
+   * Parse delivery status callbacks (sent, delivered, read, failed) from a webhook
+   */
+  parseStatuses(req: Request): DeliveryStatusUpdate[];
+
+  /**
+   * Verify that an inbound webhook really comes from the provider
+   */
+  verifyWebhook(req: RawBodyRequest): WebhookVerification;
+}
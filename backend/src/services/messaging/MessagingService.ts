@@ -0,0 +1,138 @@
+import { Request } from 'express';
+import { logger } from '../../config/logger';
+import { requestContext } from '../../core/request-context';
+import { Business } from '../../models';
+import { businessService } from '../business.service';
+import { messageService } from '../message.service';
+import {
+  MessagingProvider,
+  MessagingProviderName,
+  OutboundMessage,
+  SendResult,
+} from './MessagingProvider';
+import { TwilioProvider } from './TwilioProvider';
+import { MetaCloudProvider } from './MetaCloudProvider';
+import { FakeProvider } from './FakeProvider';
+
+const BUSINESS_CACHE_TTL = 60 * 1000; // 1 minute
+
+/**
+ * MessagingService - Picks the messaging provider for each business and webhook
+ * MESSAGING_PROVIDER forces a single provider (e.g. "fake" for local development)
+ */
+export class MessagingService {
+  readonly twilio: TwilioProvider;
+  readonly meta: MetaCloudProvider;
+  readonly fake: FakeProvider;
+  private businessCache: Map<string, { business: Business; expiresAt: number }> = new Map();
+
+  constructor() {
+    this.twilio = new TwilioProvider();
+    this.meta = new MetaCloudProvider();
+    this.fake = new FakeProvider();
+  }
+
+  /**
+   * Get a provider by name
+   */
+  getProvider(name: MessagingProviderName): MessagingProvider {
+    return this[name];
+  }
+
+  /**
+   * Provider that sends messages for a business
+   * Businesses with a Meta phone number ID use the Cloud API, the rest use Twilio
+   */
+  getProviderForBusiness(business?: Business | null): MessagingProvider {
+    const forced = this.getForcedProvider();
+    if (forced) {
+      return forced;
+    }
+
+    return business?.whatsapp_phone_number_id ? this.meta : this.twilio;
+  }
+
+  /**
+   * Provider that sent an inbound webhook request
+   */
+  getWebhookProvider(req: Request): MessagingProvider {
+    const forced = this.getForcedProvider();
+    if (forced) {
+      return forced;
+    }
+
+    return this.meta.isMetaWebhook(req) ? this.meta : this.twilio;
+  }
+
+  /**
+   * Send a text message through the business's provider
+   */
+  async sendText(to: string, body: string, business?: Business | null): Promise<SendResult> {
+    return this.send(to, body, business);
+  }
+
+  /**
+   * Send text or an interactive message through the business's provider
+   * Defaults to the business in the current request context
+   */
+  async send(to: string, message: OutboundMessage, business?: Business | null): Promise<SendResult> {
+    const sender = business !== undefined ? business : await this.getContextBusiness();
+    const provider = this.getProviderForBusiness(sender);
+
+    const result = typeof message === 'string'
+      ? await provider.sendText(to, message, sender)
+      : await provider.sendInteractive(to, message, sender);
+    logger.info(`Message sent to ${to} via ${provider.name}`, { messageId: result.messageId });
+
+    if (sender?.id) {
+      await messageService.logOutbound({
+        businessId: sender.id,
+        phone: to,
+        body: typeof message === 'string' ? message : message.fallback,
+        provider: provider.name,
+        providerMessageId: result.messageId,
+      });
+    }
+
+    return result;
+  }
+
+  private getForcedProvider(): MessagingProvider | null {
+    const name = process.env.MESSAGING_PROVIDER as MessagingProviderName | undefined;
+
+    if (name === 'twilio' || name === 'meta' || name === 'fake') {
+      return this.getProvider(name);
+    }
+
+    return null;
+  }
+
+  private async getContextBusiness(): Promise<Business | null> {
+    const businessId = requestContext.getBusinessIdOrUndefined();
+
+    if (!businessId) {
+      return null;
+    }
+
+    const cached = this.businessCache.get(businessId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.business;
+    }
+
+    try {
+      const business = await businessService.getById(businessId);
+      if (!business) {
+        return null;
+      }
+
+      this.businessCache.set(businessId, { business, expiresAt: Date.now() + BUSINESS_CACHE_TTL });
+      return business;
+    } catch (error) {
+      logger.error(`Could not load business ${businessId} for messaging:`, error);
+      return null;
+    }
+  }
+}
+
+// Export singleton instance
+export const messagingService = new MessagingService();
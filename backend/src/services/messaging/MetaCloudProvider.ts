@@ -0,0 +1,289 @@
+import { Request } from 'express';
+import crypto from 'crypto';
+import { logger } from '../../config/logger';
+import { ValidationError } from '../../core/errors';
+import { Business, IncomingWhatsAppMessage, MessageStatus } from '../../models';
+import {
+  DeliveryStatusUpdate,
+  InteractiveMessage,
+  MessagingProvider,
+  RawBodyRequest,
+  SendResult,
+  WebhookVerification,
+} from './MessagingProvider';
+
+const GRAPH_API_URL = 'https://graph.facebook.com';
+
+/**
+ * Cloud API limits for interactive messages
+ */
+const MAX_BUTTONS = 3;
+const MAX_LIST_ROWS = 10;
+const MAX_BUTTON_TITLE = 20;
+const MAX_ROW_TITLE = 24;
+const MAX_ROW_DESCRIPTION = 72;
+const MAX_SECTION_TITLE = 24;
+const MAX_BODY = 1024;
+
+const META_STATUSES: MessageStatus[] = ['sent', 'delivered', 'read', 'failed'];
+
+/**
+ * MetaCloudProvider - WhatsApp through the Meta WhatsApp Cloud API
+ * Messages are sent from the business's whatsapp_phone_number_id
+ */
+export class MetaCloudProvider implements MessagingProvider {
+  readonly name = 'meta' as const;
+
+  async sendText(to: string, body: string, business?: Business | null): Promise<SendResult> {
+    return this.send(business, {
+      to: this.toWaId(to),
+      type: 'text',
+      text: { body },
+    });
+  }
+
+  /**
+   * Reply buttons and list messages; payloads over the Cloud API limits are sent as text
+   */
+  async sendInteractive(to: string, message: InteractiveMessage, business?: Business | null): Promise<SendResult> {
+    if (!this.fitsLimits(message)) {
+      logger.info(`Interactive ${message.type} exceeds Cloud API limits, sending text fallback`);
+      return this.sendText(to, message.fallback, business);
+    }
+
+    const interactive = message.type === 'buttons'
+      ? {
+          type: 'button',
+          body: { text: message.body },
+          action: {
+            buttons: message.buttons.map(button => ({
+              type: 'reply',
+              reply: { id: button.id, title: this.truncate(button.title, MAX_BUTTON_TITLE) },
+            })),
+          },
+        }
+      : {
+          type: 'list',
+          body: { text: message.body },
+          action: {
+            button: this.truncate(message.buttonText, MAX_BUTTON_TITLE),
+            sections: message.sections.map(section => ({
+              ...(section.title && { title: this.truncate(section.title, MAX_SECTION_TITLE) }),
+              rows: section.rows.map(row => ({
+                id: row.id,
+                title: this.truncate(row.title, MAX_ROW_TITLE),
+                ...(row.description && { description: this.truncate(row.description, MAX_ROW_DESCRIPTION) }),
+              })),
+            })),
+          },
+        };
+
+    return this.send(business, {
+      to: this.toWaId(to),
+      type: 'interactive',
+      interactive,
+    });
+  }
+
+  /**
+   * Flatten entry[].changes[].value.messages[] into normalized messages
+   * Phones use the same "whatsapp:+<number>" format as Twilio so customers are shared
+   */
+  parseInbound(req: Request): IncomingWhatsAppMessage[] {
+    const payload = req.body;
+
+    if (payload?.object !== 'whatsapp_business_account' || !Array.isArray(payload.entry)) {
+      throw new ValidationError('Invalid payload');
+    }
+
+    const messages: IncomingWhatsAppMessage[] = [];
+
+    for (const entry of payload.entry) {
+      for (const change of entry.changes || []) {
+        const value = change.value || {};
+        const metadata = value.metadata || {};
+
+        for (const msg of value.messages || []) {
+          const content = this.parseContent(msg);
+
+          if (!content) {
+            logger.info(`Ignoring unsupported WhatsApp message type ${msg.type}`);
+            continue;
+          }
+
+          messages.push({
+            From: `whatsapp:+${msg.from}`,
+            To: `whatsapp:+${metadata.display_phone_number}`,
+            MessageSid: msg.id,
+            PhoneNumberId: metadata.phone_number_id,
+            ...content,
+          });
+        }
+      }
+    }
+
+    return messages;
+  }
+
+  /**
+   * Flatten entry[].changes[].value.statuses[] into delivery status updates
+   */
+  parseStatuses(req: Request): DeliveryStatusUpdate[] {
+    const updates: DeliveryStatusUpdate[] = [];
+
+    for (const entry of req.body?.entry || []) {
+      for (const change of entry.changes || []) {
+        for (const status of change.value?.statuses || []) {
+          if (META_STATUSES.includes(status.status)) {
+            updates.push({ messageId: status.id, status: status.status });
+          }
+        }
+      }
+    }
+
+    return updates;
+  }
+
+  /**
+   * Validate X-Hub-Signature-256 (HMAC-SHA256 of the raw body with the app secret)
+   */
+  verifyWebhook(req: RawBodyRequest): WebhookVerification {
+    const appSecret = process.env.META_APP_SECRET;
+
+    if (!appSecret) {
+      if (process.env.NODE_ENV === 'production') {
+        logger.error('META_APP_SECRET not set - rejecting webhook');
+        return { valid: false, reason: 'Webhook verification is not configured' };
+      }
+
+      logger.warn('META_APP_SECRET not set - skipping webhook signature verification');
+      return { valid: true };
+    }
+
+    const signature = req.get('X-Hub-Signature-256');
+
+    if (!signature) {
+      return { valid: false, reason: 'Missing Meta signature' };
+    }
+
+    if (!req.rawBody) {
+      return { valid: false, reason: 'Missing request body' };
+    }
+
+    const expected = `sha256=${crypto.createHmac('sha256', appSecret).update(req.rawBody).digest('hex')}`;
+
+    const valid = signature.length === expected.length &&
+      crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected));
+
+    return valid ? { valid: true } : { valid: false, reason: 'Invalid Meta signature' };
+  }
+
+  /**
+   * Answer the hub.challenge handshake Meta performs when subscribing the webhook
+   * Returns the challenge to echo back, or null if the request is not a valid subscription
+   */
+  verifySubscription(query: Record<string, any>): string | null {
+    const verifyToken = process.env.META_VERIFY_TOKEN;
+
+    if (
+      query['hub.mode'] === 'subscribe' &&
+      verifyToken &&
+      query['hub.verify_token'] === verifyToken &&
+      typeof query['hub.challenge'] === 'string'
+    ) {
+      return query['hub.challenge'];
+    }
+
+    return null;
+  }
+
+  /**
+   * Whether a webhook request comes from the Meta Cloud API
+   */
+  isMetaWebhook(req: Request): boolean {
+    return req.body?.object === 'whatsapp_business_account' || !!req.get('X-Hub-Signature-256');
+  }
+
+  /**
+   * Text, button and list replies; the reply title becomes the Body
+   */
+  private parseContent(msg: any): Pick<
+    IncomingWhatsAppMessage,
+    'Body' | 'ButtonPayload' | 'ButtonText' | 'ListId' | 'ListTitle'
+  > | null {
+    if (msg.type === 'text') {
+      return { Body: msg.text?.body || '' };
+    }
+
+    if (msg.type === 'interactive' && msg.interactive?.type === 'button_reply') {
+      const reply = msg.interactive.button_reply;
+      return { Body: reply.title, ButtonPayload: reply.id, ButtonText: reply.title };
+    }
+
+    if (msg.type === 'interactive' && msg.interactive?.type === 'list_reply') {
+      const reply = msg.interactive.list_reply;
+      return { Body: reply.title, ListId: reply.id, ListTitle: reply.title };
+    }
+
+    // Quick replies on template messages
+    if (msg.type === 'button') {
+      return { Body: msg.button?.text || '', ButtonPayload: msg.button?.payload, ButtonText: msg.button?.text };
+    }
+
+    return null;
+  }
+
+  private fitsLimits(message: InteractiveMessage): boolean {
+    if (message.body.length > MAX_BODY) {
+      return false;
+    }
+
+    if (message.type === 'buttons') {
+      return message.buttons.length > 0 && message.buttons.length <= MAX_BUTTONS;
+    }
+
+    const rows = message.sections.reduce((total, section) => total + section.rows.length, 0);
+    return rows > 0 && rows <= MAX_LIST_ROWS;
+  }
+
+  private async send(business: Business | null | undefined, payload: Record<string, any>): Promise<SendResult> {
+    const phoneNumberId = business?.whatsapp_phone_number_id;
+    const accessToken = process.env.META_ACCESS_TOKEN;
+
+    if (!phoneNumberId) {
+      throw new ValidationError('Business has no WhatsApp phone number ID configured');
+    }
+
+    if (!accessToken) {
+      logger.error('META_ACCESS_TOKEN not set');
+      throw new Error('Meta WhatsApp Cloud API not configured');
+    }
+
+    const version = process.env.META_GRAPH_API_VERSION || 'v21.0';
+    const response = await fetch(`${GRAPH_API_URL}/${version}/${phoneNumberId}/messages`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ messaging_product: 'whatsapp', ...payload }),
+    });
+
+    const result: any = await response.json();
+
+    if (!response.ok) {
+      logger.error('Error sending WhatsApp Cloud API message:', result?.error);
+      throw new Error(result?.error?.message || `Meta API request failed with status ${response.status}`);
+    }
+
+    return { messageId: result.messages?.[0]?.id || '' };
+  }
+
+  private truncate(text: string, max: number): string {
+    return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+  }
+
+  private toWaId(phone: string): string {
+    return phone.replace('whatsapp:', '').replace(/^\+/, '');
+  }
+}
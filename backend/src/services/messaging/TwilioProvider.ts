@@ -0,0 +1,125 @@
+import { Request } from 'express';
+import twilio from 'twilio';
+import { sendWhatsAppMessage } from '../../config/twilio';
+import { logger } from '../../config/logger';
+import { ValidationError } from '../../core/errors';
+import { Business, IncomingWhatsAppMessage, IncomingWhatsAppMessageSchema, MessageStatus } from '../../models';
+import {
+  DeliveryStatusUpdate,
+  InteractiveMessage,
+  MessagingProvider,
+  SendResult,
+  WebhookVerification,
+} from './MessagingProvider';
+
+/**
+ * Twilio MessageStatus values mapped to our delivery statuses
+ */
+const TWILIO_STATUSES: Record<string, MessageStatus> = {
+  accepted: 'queued',
+  queued: 'queued',
+  sending: 'queued',
+  sent: 'sent',
+  delivered: 'delivered',
+  read: 'read',
+  failed: 'failed',
+  undelivered: 'failed',
+};
+
+/**
+ * TwilioProvider - WhatsApp through the Twilio Messaging API
+ */
+export class TwilioProvider implements MessagingProvider {
+  readonly name = 'twilio' as const;
+
+  async sendText(to: string, body: string, business?: Business | null): Promise<SendResult> {
+    const result = business?.whatsapp_phone_number
+      ? await sendWhatsAppMessage(to, body, business.whatsapp_phone_number)
+      : await sendWhatsAppMessage(to, body);
+
+    return { messageId: result?.sid || '' };
+  }
+
+  /**
+   * Free-form interactive messages need pre-approved Content templates on Twilio,
+   * so the numbered text menu is sent instead. Replies still work by number.
+   */
+  async sendInteractive(to: string, message: InteractiveMessage, business?: Business | null): Promise<SendResult> {
+    return this.sendText(to, message.fallback, business);
+  }
+
+  parseInbound(req: Request): IncomingWhatsAppMessage[] {
+    // Status callbacks share the webhook URL but carry no customer message
+    if (this.isStatusCallback(req)) {
+      return [];
+    }
+
+    const validationResult = IncomingWhatsAppMessageSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      throw new ValidationError('Invalid payload', validationResult.error.issues);
+    }
+
+    return [validationResult.data];
+  }
+
+  parseStatuses(req: Request): DeliveryStatusUpdate[] {
+    if (!this.isStatusCallback(req)) {
+      return [];
+    }
+
+    const status = TWILIO_STATUSES[req.body.MessageStatus];
+
+    return status ? [{ messageId: req.body.MessageSid, status }] : [];
+  }
+
+  /**
+   * Whether the request is a delivery status callback for a message we sent
+   */
+  isStatusCallback(req: Request): boolean {
+    return !!req.body?.MessageStatus && req.body.Body === undefined;
+  }
+
+  /**
+   * Validate X-Twilio-Signature against the auth token and the full webhook URL
+   */
+  verifyWebhook(req: Request): WebhookVerification {
+    const authToken = process.env.TWILIO_AUTH_TOKEN;
+
+    if (!authToken) {
+      if (process.env.NODE_ENV === 'production') {
+        logger.error('TWILIO_AUTH_TOKEN not set - rejecting webhook');
+        return { valid: false, reason: 'Webhook verification is not configured' };
+      }
+
+      logger.warn('TWILIO_AUTH_TOKEN not set - skipping webhook signature verification');
+      return { valid: true };
+    }
+
+    const signature = req.get('X-Twilio-Signature');
+
+    if (!signature) {
+      return { valid: false, reason: 'Missing Twilio signature' };
+    }
+
+    if (!twilio.validateRequest(authToken, signature, this.getWebhookUrl(req), req.body || {})) {
+      return { valid: false, reason: 'Invalid Twilio signature' };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Build the public URL Twilio signed the request with
+   * TWILIO_WEBHOOK_BASE_URL overrides the host when running behind a proxy
+   */
+  private getWebhookUrl(req: Request): string {
+    const baseUrl = process.env.TWILIO_WEBHOOK_BASE_URL;
+
+    if (baseUrl) {
+      return `${baseUrl.replace(/\/$/, '')}${req.originalUrl}`;
+    }
+
+    return `${req.protocol}://${req.get('host')}${req.originalUrl}`;
+  }
+}
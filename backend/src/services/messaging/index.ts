@@ -0,0 +1,10 @@
+/**
+ * Messaging Module
+ * WhatsApp providers (Twilio, Meta Cloud API, fake) behind a common interface
+ */
+
+export * from './MessagingProvider';
+export { TwilioProvider } from './TwilioProvider';
+export { MetaCloudProvider } from './MetaCloudProvider';
+export { FakeProvider, type FakeSentMessage } from './FakeProvider';
+export { MessagingService, messagingService } from './MessagingService';
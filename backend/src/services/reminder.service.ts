@@ -1,6 +1,13 @@
 import { reminderQueue } from '../config/queue';
 import { logger } from '../config/logger';
+import { requestContext } from '../core/request-context';
+import { Appointment, DEFAULT_BOOKING_POLICY } from '../models';
 import { appointmentService } from './appointment.service';
+import { businessService } from './business.service';
+import { consentService } from './consent.service';
+import { customerService } from './customer.service';
+import { employeeService } from './employee.service';
+import { sessionService } from './session.service';
 import { MessageFormatter } from './whatsapp/MessageFormatter';
 
 export interface ReminderJobData {
@@ -10,14 +17,37 @@ export interface ReminderJobData {
   employeeName: string;
   startTime: string;
   endTime: string;
-  reminderType: '24h' | '2h';
+  // Minutos antes del turno (booking_policy.reminder_offsets_minutes del negocio)
+  offsetMinutes: number;
+  // Zona horaria del negocio al programar; las horas del mensaje se muestran en ella
+  timeZone?: string;
 }
 
+// Estados en los que el turno sigue en pie y corresponde recordarlo
+const REMINDABLE_STATUSES = ['pending', 'confirmed'];
+
+const reminderJobId = (appointmentId: string, offsetMinutes: number) =>
+  `${appointmentId}-${offsetMinutes}m`;
+
+/**
+ * Anticipación legible: "2 horas", "30 minutos", "1 hora y 30 minutos"
+ */
+const formatLeadTime = (minutes: number): string => {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  const hoursText = hours === 1 ? '1 hora' : `${hours} horas`;
+  const minutesText = rest === 1 ? '1 minuto' : `${rest} minutos`;
+
+  if (hours === 0) return minutesText;
+  if (rest === 0) return hoursText;
+  return `${hoursText} y ${minutesText}`;
+};
+
 export const reminderService = {
   /**
-   * Programa recordatorios para una cita
-   * - 24 horas antes
-   * - 2 horas antes
+   * Programa recordatorios para una cita, uno por cada desfase de la política del negocio
+   * (por defecto 24 horas y 2 horas antes)
+   * Los desfases son absolutos; la zona del negocio solo se usa para mostrar la hora
    */
   async scheduleReminders(
     appointmentId: string,
@@ -30,13 +60,16 @@ export const reminderService = {
     try {
       const appointmentDate = new Date(startTime);
       const now = new Date();
+      const timeZone = requestContext.getTimeZone();
+      const offsets = requestContext.getBookingPolicy().reminder_offsets_minutes;
 
-      // Recordatorio 24 horas antes
-      const reminder24h = new Date(appointmentDate);
-      reminder24h.setHours(reminder24h.getHours() - 24);
+      for (const offsetMinutes of new Set(offsets)) {
+        const reminderAt = new Date(appointmentDate.getTime() - offsetMinutes * 60000);
 
-      if (reminder24h > now) {
-        const delay = reminder24h.getTime() - now.getTime();
+        // Los que ya pasaron no se envían (turnos tomados con poca anticipación)
+        if (reminderAt <= now) {
+          continue;
+        }
 
         await reminderQueue.add(
           {
@@ -46,64 +79,76 @@ export const reminderService = {
             employeeName,
             startTime,
             endTime,
-            reminderType: '24h',
+            offsetMinutes,
+            timeZone,
           } as ReminderJobData,
           {
-            delay,
-            jobId: `${appointmentId}-24h`,
+            delay: reminderAt.getTime() - now.getTime(),
+            jobId: reminderJobId(appointmentId, offsetMinutes),
           }
         );
 
-        logger.info(`Scheduled 24h reminder for appointment ${appointmentId} at ${reminder24h}`);
+        logger.info(`Scheduled ${offsetMinutes}m reminder for appointment ${appointmentId} at ${reminderAt.toISOString()}`);
       }
+    } catch (error) {
+      logger.error('Error scheduling reminders:', error);
+      throw error;
+    }
+  },
 
-      // Recordatorio 2 horas antes
-      const reminder2h = new Date(appointmentDate);
-      reminder2h.setHours(reminder2h.getHours() - 2);
-
-      if (reminder2h > now) {
-        const delay = reminder2h.getTime() - now.getTime();
+  /**
+   * Programa los recordatorios de un turno ya guardado, buscando el teléfono del cliente
+   * y el nombre del profesional. Los turnos cancelados o terminados no se recuerdan
+   */
+  async scheduleAppointmentReminders(appointment: Appointment): Promise<void> {
+    try {
+      if (!appointment.id || !REMINDABLE_STATUSES.includes(appointment.status)) {
+        return;
+      }
 
-        await reminderQueue.add(
-          {
-            appointmentId,
-            customerPhone,
-            customerName,
-            employeeName,
-            startTime,
-            endTime,
-            reminderType: '2h',
-          } as ReminderJobData,
-          {
-            delay,
-            jobId: `${appointmentId}-2h`,
-          }
-        );
+      const [customer, employee] = await Promise.all([
+        customerService.getById(appointment.customer_id),
+        employeeService.getById(appointment.employee_id),
+      ]);
 
-        logger.info(`Scheduled 2h reminder for appointment ${appointmentId} at ${reminder2h}`);
+      if (!customer?.phone) {
+        logger.warn(`Customer of appointment ${appointment.id} has no phone, skipping reminders`);
+        return;
       }
+
+      await this.scheduleReminders(
+        appointment.id,
+        customer.phone,
+        customer.name || undefined,
+        employee?.name || '',
+        appointment.start_time,
+        appointment.end_time
+      );
     } catch (error) {
-      logger.error('Error scheduling reminders:', error);
+      logger.error('Error scheduling appointment reminders:', error);
       throw error;
     }
   },
 
   /**
    * Cancela todos los recordatorios de una cita
+   * Se prueban los desfases actuales del negocio y los de por defecto; si un job quedó con
+   * un desfase que ya no está configurado, processReminder lo descarta al ejecutarse
    */
   async cancelReminders(appointmentId: string): Promise<void> {
     try {
-      // Buscar y eliminar jobs por ID
-      const job24h = await reminderQueue.getJob(`${appointmentId}-24h`);
-      if (job24h) {
-        await job24h.remove();
-        logger.info(`Cancelled 24h reminder for appointment ${appointmentId}`);
-      }
+      const offsets = new Set([
+        ...requestContext.getBookingPolicy().reminder_offsets_minutes,
+        ...DEFAULT_BOOKING_POLICY.reminder_offsets_minutes,
+      ]);
 
-      const job2h = await reminderQueue.getJob(`${appointmentId}-2h`);
-      if (job2h) {
-        await job2h.remove();
-        logger.info(`Cancelled 2h reminder for appointment ${appointmentId}`);
+      for (const offsetMinutes of offsets) {
+        // Buscar y eliminar jobs por ID
+        const job = await reminderQueue.getJob(reminderJobId(appointmentId, offsetMinutes));
+        if (job) {
+          await job.remove();
+          logger.info(`Cancelled ${offsetMinutes}m reminder for appointment ${appointmentId}`);
+        }
       }
     } catch (error) {
       logger.error('Error cancelling reminders:', error);
@@ -124,38 +169,38 @@ export const reminderService = {
         return;
       }
 
-      if (appointment.status === 'cancelled') {
-        logger.info(`Appointment ${data.appointmentId} is cancelled, skipping reminder`);
+      if (!REMINDABLE_STATUSES.includes(appointment.status)) {
+        logger.info(`Appointment ${data.appointmentId} is ${appointment.status}, skipping reminder`);
         return;
       }
 
-      const startTime = new Date(data.startTime);
-      const endTime = new Date(data.endTime);
+      // Job viejo de un turno que se movió (el nuevo horario tiene sus propios jobs)
+      if (new Date(appointment.start_time).getTime() !== new Date(data.startTime).getTime()) {
+        logger.info(`Appointment ${data.appointmentId} was rescheduled, skipping stale reminder`);
+        return;
+      }
 
-      // Formatear mensaje según el tipo de recordatorio
-      let message = '';
-
-      if (data.reminderType === '24h') {
-        message =
-          '🔔 Recordatorio: Mañana tienes una cita\n\n' +
-          `👤 Profesional: ${data.employeeName}\n` +
-          `📅 Fecha: ${MessageFormatter.formatDatePublic(startTime)}\n` +
-          `⏰ Hora: ${MessageFormatter.formatTimePublic(startTime)} - ${MessageFormatter.formatTimePublic(endTime)}\n\n` +
-          'Te esperamos!';
-      } else {
-        message =
-          '⏰ Tu cita es en 2 horas!\n\n' +
-          `👤 Profesional: ${data.employeeName}\n` +
-          `📅 Fecha: ${MessageFormatter.formatDatePublic(startTime)}\n` +
-          `⏰ Hora: ${MessageFormatter.formatTimePublic(startTime)} - ${MessageFormatter.formatTimePublic(endTime)}\n\n` +
-          'Nos vemos pronto!';
+      // Job de un desfase que el negocio ya no usa (cambió sus reminder_offsets_minutes)
+      const { bookingPolicy } = await businessService.getSchedulingSettings(appointment.business_id);
+      if (!bookingPolicy.reminder_offsets_minutes.includes(data.offsetMinutes)) {
+        logger.info(`Reminder offset ${data.offsetMinutes}m is no longer configured, skipping reminder for ${data.appointmentId}`);
+        return;
       }
 
-      // Lazy load whatsappService to avoid circular dependency
-      const { whatsappService } = await import('./whatsapp.service');
+      // El cliente pidió la baja (BAJA/STOP) después de reservar
+      if (!(await consentService.canMessage(appointment.customer_id, appointment.business_id))) {
+        logger.info(`Customer ${appointment.customer_id} opted out, skipping reminder for ${data.appointmentId}`);
+        return;
+      }
 
-      // Enviar mensaje por WhatsApp
-      await whatsappService.sendMessage(data.customerPhone, message);
+      const startTime = new Date(data.startTime);
+      const endTime = new Date(data.endTime);
+
+      // El worker corre fuera de un request: fechas y envío en el contexto del negocio
+      await requestContext.run(
+        { businessId: appointment.business_id, timeZone: data.timeZone },
+        () => this.sendReminder(data, startTime, endTime)
+      );
 
       logger.info(`Reminder sent to ${data.customerPhone} for appointment ${data.appointmentId}`);
     } catch (error) {
@@ -164,6 +209,66 @@ export const reminderService = {
     }
   },
 
+  /**
+   * Arma y envía el mensaje de recordatorio
+   */
+  async sendReminder(data: ReminderJobData, startTime: Date, endTime: Date): Promise<void> {
+    // Formatear mensaje según la anticipación: con días justos se habla de días
+    let message = '';
+    const details =
+      `👤 Profesional: ${data.employeeName}\n` +
+      `📅 Fecha: ${MessageFormatter.formatDatePublic(startTime)}\n` +
+      `⏰ Hora: ${MessageFormatter.formatTimePublic(startTime)} - ${MessageFormatter.formatTimePublic(endTime)}\n\n`;
+    const days = data.offsetMinutes / (24 * 60);
+
+    if (Number.isInteger(days)) {
+      message =
+        `🔔 Recordatorio: ${days === 1 ? 'Mañana tienes una cita' : `En ${days} días tienes una cita`}\n\n` +
+        details +
+        'Te esperamos!';
+    } else {
+      message =
+        `⏰ Tu cita es en ${formatLeadTime(data.offsetMinutes)}!\n\n` +
+        details +
+        'Nos vemos pronto!';
+    }
+
+    // Lazy load whatsappService to avoid circular dependency
+    const { whatsappService } = await import('./whatsapp.service');
+
+    // Enviar mensaje por WhatsApp; los botones devuelven "si"/"no"
+    await whatsappService.sendMessage(
+      data.customerPhone,
+      MessageFormatter.withYesNoButtons(
+        message + '\n\n¿Confirmas tu asistencia?',
+        '✅ Confirmo',
+        '❌ No puedo ir'
+      )
+    );
+
+    await this.awaitReply(data);
+  },
+
+  /**
+   * Deja la sesión esperando la respuesta al recordatorio, atada a este turno
+   * Dura lo que la sesión (SESSION_TTL_MINUTES sin actividad). Si el cliente está en
+   * medio de otra conversación no se la pisa: su respuesta se toma como un mensaje más
+   */
+  async awaitReply(data: ReminderJobData): Promise<void> {
+    const session = await sessionService.getOrCreateSession(data.customerPhone);
+
+    if (!sessionService.isIdle(session)) {
+      logger.info(`Session of ${data.customerPhone} is busy (${session.state}), not waiting for a reminder reply`);
+      return;
+    }
+
+    await sessionService.updateData(data.customerPhone, {
+      reminder_appointment_id: data.appointmentId,
+      employee_name: data.employeeName,
+    });
+    await sessionService.updateState(data.customerPhone, 'answering_reminder');
+  },
+
   /**
    * Obtiene estadísticas de la queue
    */
@@ -0,0 +1,180 @@
+import { supabase } from '../config/supabase';
+import { logger } from '../config/logger';
+import { Employee, QueryServicesInput, Service } from '../models';
+import { BaseService } from '../core/base.service';
+
+/**
+ * ServiceCatalogService - Services a business offers and the employees who perform them
+ * The service duration (plus buffer) drives slot generation and appointment end_time
+ */
+class ServiceCatalogService extends BaseService<Service> {
+  protected tableName = 'services';
+  protected entityName = 'Service';
+
+  constructor() {
+    super(supabase);
+  }
+
+  /**
+   * Override getAll to support filtering
+   */
+  async getAll(filters?: QueryServicesInput): Promise<Service[]> {
+    try {
+      let query = this.supabase
+        .from(this.tableName)
+        .select('*');
+
+      const businessId = filters?.business_id || this.getBusinessId();
+      if (businessId) {
+        query = query.eq('business_id', businessId);
+      }
+
+      if (filters?.is_active !== undefined) {
+        query = query.eq('is_active', filters.is_active);
+      }
+
+      if (filters?.search) {
+        query = query.ilike('name', `%${filters.search}%`);
+      }
+
+      const { data, error } = await query.order('name', { ascending: true });
+
+      if (error) {
+        logger.error(`Error getting all ${this.entityName}s:`, error);
+        throw error;
+      }
+
+      return data || [];
+    } catch (error) {
+      logger.error(`Error in getAll${this.entityName}s:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Custom method: Services customers can book
+   */
+  async getActiveServicesByBusiness(businessId: string): Promise<Service[]> {
+    return this.getAll({ business_id: businessId, is_active: true });
+  }
+
+  /**
+   * Custom method: Employees linked to a service
+   */
+  async getServiceEmployees(serviceId: string): Promise<Employee[]> {
+    try {
+      const { data, error } = await this.supabase
+        .from('employee_services')
+        .select('employee:employees(*)')
+        .eq('service_id', serviceId);
+
+      if (error) {
+        logger.error('Error getting service employees:', error);
+        throw error;
+      }
+
+      return (data || []).map((row: any) => row.employee).filter(Boolean);
+    } catch (error) {
+      logger.error('Error in getServiceEmployees:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Custom method: Services an employee performs
+   */
+  async getEmployeeServices(employeeId: string): Promise<Service[]> {
+    try {
+      const { data, error } = await this.supabase
+        .from('employee_services')
+        .select('service:services(*)')
+        .eq('employee_id', employeeId);
+
+      if (error) {
+        logger.error('Error getting employee services:', error);
+        throw error;
+      }
+
+      return (data || []).map((row: any) => row.service).filter(Boolean);
+    } catch (error) {
+      logger.error('Error in getEmployeeServices:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Custom method: Replace the employees who perform a service
+   */
+  async setServiceEmployees(serviceId: string, employeeIds: string[]): Promise<Employee[]> {
+    await this.replaceLinks(
+      'service_id',
+      serviceId,
+      employeeIds.map(employeeId => ({ employee_id: employeeId, service_id: serviceId }))
+    );
+    return this.getServiceEmployees(serviceId);
+  }
+
+  /**
+   * Custom method: Replace the services an employee performs
+   */
+  async setEmployeeServices(employeeId: string, serviceIds: string[]): Promise<Service[]> {
+    await this.replaceLinks(
+      'employee_id',
+      employeeId,
+      serviceIds.map(serviceId => ({ employee_id: employeeId, service_id: serviceId }))
+    );
+    return this.getEmployeeServices(employeeId);
+  }
+
+  /**
+   * Custom method: Narrow employees down to those who perform the service
+   * A service nobody has been linked to yet can be done by any employee
+   */
+  async filterEmployeesForService(serviceId: string, employees: Employee[]): Promise<Employee[]> {
+    const linkedIds = new Set(
+      (await this.getServiceEmployees(serviceId)).map(employee => employee.id)
+    );
+
+    if (linkedIds.size === 0) {
+      return employees;
+    }
+
+    return employees.filter(employee => linkedIds.has(employee.id));
+  }
+
+  private async replaceLinks(
+    column: 'employee_id' | 'service_id',
+    id: string,
+    rows: { employee_id: string; service_id: string }[]
+  ): Promise<void> {
+    try {
+      const { error: deleteError } = await this.supabase
+        .from('employee_services')
+        .delete()
+        .eq(column, id);
+
+      if (deleteError) {
+        throw deleteError;
+      }
+
+      if (rows.length === 0) {
+        return;
+      }
+
+      const { error: insertError } = await this.supabase
+        .from('employee_services')
+        .insert(rows);
+
+      if (insertError) {
+        throw insertError;
+      }
+    } catch (error) {
+      logger.error('Error updating employee services:', error);
+      throw error;
+    }
+  }
+}
+
+// Export class and singleton instance
+export { ServiceCatalogService };
+export const serviceCatalogService = new ServiceCatalogService();
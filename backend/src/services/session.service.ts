@@ -1,158 +1,138 @@
 import { WhatsAppSession, ConversationState, SessionData } from '../models';
 import { logger } from '../config/logger';
+import { requestContext } from '../core/request-context';
+import { SessionStore, createSessionStore } from './session';
 
-class SessionStore {
-  private sessions: Map<string, WhatsAppSession> = new Map();
-  private readonly SESSION_TIMEOUT = 30 * 60 * 1000; // 30 minutes
+/**
+ * States with no flow in progress
+ */
+const IDLE_STATES: ConversationState[] = [
+  'initial',
+  'intent_detected',
+  'viewing',
+  'answering_reminder',
+  'rating_appointment',
+  'offering_rebooking',
+];
 
-  get(phone: string): WhatsAppSession | null {
-    const session = this.sessions.get(phone);
+/**
+ * SessionService - Manages WhatsApp conversation sessions
+ * Storage and expiry are delegated to the configured SessionStore
+ * Sessions are keyed by (business, phone) using the business from the request context
+ */
+export class SessionService {
+  private store: SessionStore;
 
-    if (!session) {
-      return null;
-    }
+  constructor(store: SessionStore = createSessionStore()) {
+    this.store = store;
+  }
 
-    const now = new Date();
-    const timeDiff = now.getTime() - session.lastActivity.getTime();
+  async getOrCreateSession(phone: string): Promise<WhatsAppSession> {
+    const session = await this.store.get(this.getKey(phone));
 
-    if (timeDiff > this.SESSION_TIMEOUT) {
-      logger.info(`Session expired for ${phone}`);
-      this.sessions.delete(phone);
-      return null;
+    if (session) {
+      return session;
     }
 
-    return session;
-  }
-
-  set(phone: string, session: Partial<WhatsAppSession>): WhatsAppSession {
-    const existing = this.sessions.get(phone);
-
-    const newSession: WhatsAppSession = {
+    const newSession = await this.save({
       phone,
-      state: session.state || existing?.state || 'initial',
-      data: { ...(existing?.data || {}), ...(session.data || {}) },
+      state: 'initial',
+      data: {},
       lastActivity: new Date(),
-      business_id: session.business_id || existing?.business_id,
-      customer_id: session.customer_id || existing?.customer_id,
-    };
-
-    this.sessions.set(phone, newSession);
-    logger.info(`Session updated for ${phone}`, { state: newSession.state });
+      business_id: requestContext.getBusinessIdOrUndefined(),
+    });
+    logger.info(`New session created for ${phone}`);
 
     return newSession;
   }
 
-  updateState(phone: string, state: ConversationState): WhatsAppSession | null {
-    const session = this.get(phone);
+  async updateState(phone: string, state: ConversationState): Promise<WhatsAppSession | null> {
+    const session = await this.store.get(this.getKey(phone));
 
     if (!session) {
       logger.warn(`Cannot update state: session not found for ${phone}`);
       return null;
     }
 
-    return this.set(phone, { ...session, state });
+    return this.save({ ...session, state });
   }
 
-  updateData(phone: string, data: Partial<SessionData>): WhatsAppSession | null {
-    const session = this.get(phone);
+  async updateData(phone: string, data: Partial<SessionData>): Promise<WhatsAppSession | null> {
+    const session = await this.store.get(this.getKey(phone));
 
     if (!session) {
       logger.warn(`Cannot update data: session not found for ${phone}`);
       return null;
     }
 
-    return this.set(phone, {
+    return this.save({
       ...session,
-      data: { ...session.data, ...data }
+      data: { ...session.data, ...data },
     });
   }
 
-  delete(phone: string): boolean {
-    const deleted = this.sessions.delete(phone);
+  async endSession(phone: string): Promise<boolean> {
+    const deleted = await this.store.delete(this.getKey(phone));
     if (deleted) {
       logger.info(`Session deleted for ${phone}`);
     }
     return deleted;
   }
 
-  clear(): void {
-    this.sessions.clear();
-    logger.info('All sessions cleared');
-  }
-
-  getAllSessions(): WhatsAppSession[] {
-    return Array.from(this.sessions.values());
-  }
-
-  getSessionCount(): number {
-    return this.sessions.size;
-  }
-}
-
-const sessionStore = new SessionStore();
-
-/**
- * SessionService - Manages WhatsApp conversation sessions
- */
-export class SessionService {
-  private store: SessionStore;
-
-  constructor() {
-    this.store = sessionStore;
-  }
-
-  getOrCreateSession(phone: string): WhatsAppSession {
-    let session = this.store.get(phone);
-
-    if (!session) {
-      session = this.store.set(phone, {
-        phone,
-        state: 'initial',
-        data: {},
-      });
-      logger.info(`New session created for ${phone}`);
-    }
-
-    return session;
-  }
+  async resetSession(phone: string): Promise<WhatsAppSession> {
+    const existing = await this.store.get(this.getKey(phone));
 
-  updateState(phone: string, state: ConversationState): WhatsAppSession | null {
-    return this.store.updateState(phone, state);
-  }
-
-  updateData(phone: string, data: Partial<SessionData>): WhatsAppSession | null {
-    return this.store.updateData(phone, data);
-  }
-
-  endSession(phone: string): boolean {
-    return this.store.delete(phone);
-  }
-
-  resetSession(phone: string): WhatsAppSession {
-    return this.store.set(phone, {
+    return this.save({
       phone,
       state: 'initial',
       data: {},
+      lastActivity: new Date(),
+      business_id: existing?.business_id ?? requestContext.getBusinessIdOrUndefined(),
+      customer_id: existing?.customer_id,
     });
   }
 
-  getStats() {
-    const sessions = this.store.getAllSessions();
+  /**
+   * Whether the customer is free to answer a message the bot starts (reminders, follow-ups)
+   * A prompt nobody answered yet counts as free: the newer one replaces it
+   */
+  isIdle(session: WhatsAppSession): boolean {
+    return IDLE_STATES.includes(session.state);
+  }
+
+  async getStats() {
+    const sessions = await this.store.getAll();
     const stateCount = sessions.reduce((acc, session) => {
       acc[session.state] = (acc[session.state] || 0) + 1;
       return acc;
     }, {} as Record<string, number>);
 
     return {
-      totalSessions: this.store.getSessionCount(),
+      totalSessions: sessions.length,
       stateDistribution: stateCount,
       sessions: sessions.map(s => ({
         phone: s.phone,
+        business_id: s.business_id,
         state: s.state,
         lastActivity: s.lastActivity,
       })),
     };
   }
+
+  /**
+   * Store key for a phone; the same customer gets one session per business
+   */
+  private getKey(phone: string): string {
+    const businessId = requestContext.getBusinessIdOrUndefined();
+    return businessId ? `${businessId}:${phone}` : phone;
+  }
+
+  private async save(session: WhatsAppSession): Promise<WhatsAppSession> {
+    const updated: WhatsAppSession = { ...session, lastActivity: new Date() };
+    await this.store.set(this.getKey(session.phone), updated);
+    logger.info(`Session updated for ${session.phone}`, { state: updated.state });
+    return updated;
+  }
 }
 
 // Export class and singleton instance
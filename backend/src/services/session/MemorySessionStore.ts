@@ -0,0 +1,51 @@
+import { WhatsAppSession } from '../../models';
+import { logger } from '../../config/logger';
+import { SessionStore } from './SessionStore';
+
+/**
+ * MemorySessionStore - Process-local session store
+ * Sessions are lost on restart; use for development and tests
+ */
+export class MemorySessionStore implements SessionStore {
+  private sessions: Map<string, WhatsAppSession> = new Map();
+
+  constructor(private ttlMs: number) {}
+
+  async get(key: string): Promise<WhatsAppSession | null> {
+    const session = this.sessions.get(key);
+
+    if (!session) {
+      return null;
+    }
+
+    if (this.isExpired(session)) {
+      logger.info(`Session expired for ${key}`);
+      this.sessions.delete(key);
+      return null;
+    }
+
+    return session;
+  }
+
+  async set(key: string, session: WhatsAppSession): Promise<void> {
+    this.sessions.set(key, session);
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.sessions.delete(key);
+  }
+
+  async getAll(): Promise<WhatsAppSession[]> {
+    for (const [key, session] of this.sessions) {
+      if (this.isExpired(session)) {
+        this.sessions.delete(key);
+      }
+    }
+
+    return Array.from(this.sessions.values());
+  }
+
+  private isExpired(session: WhatsAppSession): boolean {
+    return Date.now() - session.lastActivity.getTime() > this.ttlMs;
+  }
+}
@@ -0,0 +1,133 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { WhatsAppSession } from '../../models';
+import { logger } from '../../config/logger';
+import { SessionStore, reviveSessionDates } from './SessionStore';
+
+/**
+ * PostgresSessionStore - Persists sessions in the whatsapp_sessions table
+ * Expired rows are ignored on read and removed lazily
+ */
+export class PostgresSessionStore implements SessionStore {
+  private readonly tableName = 'whatsapp_sessions';
+
+  constructor(
+    private supabase: SupabaseClient,
+    private ttlMs: number
+  ) {}
+
+  async get(key: string): Promise<WhatsAppSession | null> {
+    try {
+      const { data, error } = await this.supabase
+        .from(this.tableName)
+        .select('*')
+        .eq('session_key', key)
+        .single();
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          return null;
+        }
+        throw error;
+      }
+
+      const session = this.fromRow(data);
+
+      if (Date.now() - session.lastActivity.getTime() > this.ttlMs) {
+        logger.info(`Session expired for ${key}`);
+        await this.delete(key);
+        return null;
+      }
+
+      return session;
+    } catch (error) {
+      logger.error('Error in PostgresSessionStore.get:', error);
+      throw error;
+    }
+  }
+
+  async set(key: string, session: WhatsAppSession): Promise<void> {
+    try {
+      const { error } = await this.supabase
+        .from(this.tableName)
+        .upsert(
+          {
+            session_key: key,
+            phone: session.phone,
+            state: session.state,
+            data: session.data,
+            business_id: session.business_id ?? null,
+            customer_id: session.customer_id ?? null,
+            last_activity: session.lastActivity.toISOString(),
+          },
+          { onConflict: 'session_key' }
+        );
+
+      if (error) {
+        throw error;
+      }
+    } catch (error) {
+      logger.error('Error in PostgresSessionStore.set:', error);
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<boolean> {
+    try {
+      const { data, error } = await this.supabase
+        .from(this.tableName)
+        .delete()
+        .eq('session_key', key)
+        .select('id');
+
+      if (error) {
+        throw error;
+      }
+
+      return (data?.length || 0) > 0;
+    } catch (error) {
+      logger.error('Error in PostgresSessionStore.delete:', error);
+      throw error;
+    }
+  }
+
+  async getAll(): Promise<WhatsAppSession[]> {
+    try {
+      const cutoff = new Date(Date.now() - this.ttlMs).toISOString();
+
+      // Purge expired sessions before listing the active ones
+      const { error: purgeError } = await this.supabase
+        .from(this.tableName)
+        .delete()
+        .lt('last_activity', cutoff);
+
+      if (purgeError) {
+        throw purgeError;
+      }
+
+      const { data, error } = await this.supabase
+        .from(this.tableName)
+        .select('*')
+        .order('last_activity', { ascending: false });
+
+      if (error) {
+        throw error;
+      }
+
+      return (data || []).map((row: any) => this.fromRow(row));
+    } catch (error) {
+      logger.error('Error in PostgresSessionStore.getAll:', error);
+      throw error;
+    }
+  }
+
+  private fromRow(row: any): WhatsAppSession {
+    return reviveSessionDates({
+      phone: row.phone,
+      state: row.state,
+      data: row.data || {},
+      lastActivity: row.last_activity,
+      business_id: row.business_id ?? undefined,
+      customer_id: row.customer_id ?? undefined,
+    });
+  }
+}
@@ -0,0 +1,76 @@
+import Redis from 'ioredis';
+import { WhatsAppSession } from '../../models';
+import { logger } from '../../config/logger';
+import { SessionStore, reviveSessionDates } from './SessionStore';
+
+/**
+ * RedisSessionStore - Stores sessions as JSON with a Redis-managed TTL
+ * Safe to share between several backend instances
+ */
+export class RedisSessionStore implements SessionStore {
+  private readonly prefix = 'whatsapp:session:';
+
+  constructor(
+    private redis: Redis,
+    private ttlMs: number
+  ) {}
+
+  async get(key: string): Promise<WhatsAppSession | null> {
+    try {
+      const raw = await this.redis.get(this.prefix + key);
+      return raw ? this.deserialize(raw) : null;
+    } catch (error) {
+      logger.error('Error in RedisSessionStore.get:', error);
+      throw error;
+    }
+  }
+
+  async set(key: string, session: WhatsAppSession): Promise<void> {
+    try {
+      await this.redis.set(this.prefix + key, JSON.stringify(session), 'PX', this.ttlMs);
+    } catch (error) {
+      logger.error('Error in RedisSessionStore.set:', error);
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<boolean> {
+    try {
+      const deleted = await this.redis.del(this.prefix + key);
+      return deleted > 0;
+    } catch (error) {
+      logger.error('Error in RedisSessionStore.delete:', error);
+      throw error;
+    }
+  }
+
+  async getAll(): Promise<WhatsAppSession[]> {
+    try {
+      const sessions: WhatsAppSession[] = [];
+      let cursor = '0';
+
+      do {
+        const [next, keys] = await this.redis.scan(cursor, 'MATCH', `${this.prefix}*`, 'COUNT', 100);
+        cursor = next;
+
+        if (keys.length > 0) {
+          const values = await this.redis.mget(...keys);
+          values.forEach(raw => {
+            if (raw) {
+              sessions.push(this.deserialize(raw));
+            }
+          });
+        }
+      } while (cursor !== '0');
+
+      return sessions;
+    } catch (error) {
+      logger.error('Error in RedisSessionStore.getAll:', error);
+      throw error;
+    }
+  }
+
+  private deserialize(raw: string): WhatsAppSession {
+    return reviveSessionDates(JSON.parse(raw));
+  }
+}
@@ -0,0 +1,51 @@
+import { WhatsAppSession } from '../../models';
+
+/**
+ * SessionStore - Storage backend for WhatsApp conversation sessions
+ * Implementations are responsible for expiring sessions after the configured TTL
+ */
+export interface SessionStore {
+  /**
+   * Get a session by key, or null if it does not exist or has expired
+   */
+  get(key: string): Promise<WhatsAppSession | null>;
+
+  /**
+   * Create or replace a session and refresh its TTL
+   */
+  set(key: string, session: WhatsAppSession): Promise<void>;
+
+  /**
+   * Delete a session, returning whether it existed
+   */
+  delete(key: string): Promise<boolean>;
+
+  /**
+   * Get all non-expired sessions (used for stats/monitoring)
+   */
+  getAll(): Promise<WhatsAppSession[]>;
+}
+
+/**
+ * Turn the dates of a session read back from JSON (Postgres jsonb, Redis) into Date objects again
+ * Besides lastActivity, the booking flow keeps the chosen day and day range as Dates in collected_data
+ */
+export function reviveSessionDates(session: WhatsAppSession): WhatsAppSession {
+  const collected = session.data?.collected_data;
+  const toDate = (value: unknown) => (typeof value === 'string' ? new Date(value) : value);
+
+  if (collected) {
+    if (collected.date) {
+      collected.date = toDate(collected.date);
+    }
+
+    if (collected.dateRange) {
+      collected.dateRange = {
+        start: toDate(collected.dateRange.start),
+        end: toDate(collected.dateRange.end),
+      };
+    }
+  }
+
+  return { ...session, lastActivity: new Date(session.lastActivity) };
+}
@@ -0,0 +1,52 @@
+import Redis from 'ioredis';
+import { supabase } from '../../config/supabase';
+import { logger } from '../../config/logger';
+import { SessionStore } from './SessionStore';
+import { MemorySessionStore } from './MemorySessionStore';
+import { PostgresSessionStore } from './PostgresSessionStore';
+import { RedisSessionStore } from './RedisSessionStore';
+
+export { SessionStore, reviveSessionDates } from './SessionStore';
+export { MemorySessionStore } from './MemorySessionStore';
+export { PostgresSessionStore } from './PostgresSessionStore';
+export { RedisSessionStore } from './RedisSessionStore';
+
+export type SessionStoreType = 'memory' | 'postgres' | 'redis';
+
+/**
+ * Redis client configured from REDIS_HOST, REDIS_PORT and REDIS_PASSWORD
+ */
+export function createRedisClient(): Redis {
+  return new Redis({
+    host: process.env.REDIS_HOST || 'localhost',
+    port: parseInt(process.env.REDIS_PORT || '6379'),
+    password: process.env.REDIS_PASSWORD,
+  });
+}
+
+/**
+ * Create the session store selected by SESSION_STORE (memory | postgres | redis)
+ * Sessions expire after SESSION_TTL_MINUTES of inactivity (default 30)
+ */
+export function createSessionStore(
+  type: string = process.env.SESSION_STORE || 'memory'
+): SessionStore {
+  const ttlMs = parseInt(process.env.SESSION_TTL_MINUTES || '30') * 60 * 1000;
+
+  switch (type as SessionStoreType) {
+    case 'postgres':
+      logger.info('Using Postgres session store');
+      return new PostgresSessionStore(supabase, ttlMs);
+
+    case 'redis':
+      logger.info('Using Redis session store');
+      return new RedisSessionStore(createRedisClient(), ttlMs);
+
+    case 'memory':
+      return new MemorySessionStore(ttlMs);
+
+    default:
+      logger.warn(`Unknown SESSION_STORE "${type}", falling back to memory`);
+      return new MemorySessionStore(ttlMs);
+  }
+}
@@ -0,0 +1,454 @@
+import { supabase } from '../config/supabase';
+import { logger } from '../config/logger';
+import {
+  Appointment,
+  CreateWaitlistEntryInput,
+  Employee,
+  QueryWaitlistInput,
+  WaitlistEntry,
+} from '../models';
+import { BaseService } from '../core/base.service';
+import { ConflictError } from '../core/errors';
+import { requestContext } from '../core/request-context';
+import { isTimeInWindow } from '../utils/date-parser';
+import { formatZonedDate, formatZonedTime } from '../utils/timezone';
+import { appointmentService } from './appointment.service';
+import { consentService } from './consent.service';
+import { employeeService } from './employee.service';
+import { serviceCatalogService } from './service-catalog.service';
+import { sessionService } from './session.service';
+import { messagingService } from './messaging';
+import { MessageFormatter } from './whatsapp/MessageFormatter';
+
+/**
+ * How many waitlisted customers are offered each freed slot; the first to accept gets it
+ */
+const OFFER_BATCH_SIZE = 3;
+
+const DEFAULT_DURATION = 60;
+
+const WAITLIST_SELECT = `
+  *,
+  customer:customers(id, name, phone),
+  employee:employees!waitlist_entries_employee_id_fkey(id, name),
+  service:services(id, name)
+`;
+
+export type WaitlistClaimResult =
+  | { status: 'booked'; entry: WaitlistEntry; appointment: Appointment }
+  | { status: 'expired' | 'taken'; entry: WaitlistEntry | null };
+
+/**
+ * WaitlistService - Customers waiting for a slot on a fully booked day
+ * When an appointment is cancelled, the matching entries are offered the freed slot
+ * through WhatsApp and have WAITLIST_CLAIM_MINUTES to claim it
+ */
+class WaitlistService extends BaseService<WaitlistEntry> {
+  protected tableName = 'waitlist_entries';
+  protected entityName = 'WaitlistEntry';
+
+  constructor() {
+    super(supabase);
+  }
+
+  /**
+   * Minutes a customer has to claim an offered slot
+   */
+  get claimMinutes(): number {
+    return parseInt(process.env.WAITLIST_CLAIM_MINUTES || '15');
+  }
+
+  /**
+   * Override getAll to support filtering and customer/employee/service names
+   * Oldest entries first: that's the order in which slots are offered
+   */
+  async getAll(filters?: QueryWaitlistInput): Promise<WaitlistEntry[]> {
+    try {
+      let query = this.supabase
+        .from(this.tableName)
+        .select(WAITLIST_SELECT);
+
+      const businessId = filters?.business_id || this.getBusinessId();
+      if (businessId) {
+        query = query.eq('business_id', businessId);
+      }
+
+      if (filters?.status) {
+        query = query.eq('status', filters.status);
+      }
+
+      if (filters?.date) {
+        query = query.eq('date', filters.date);
+      }
+
+      if (filters?.customer_id) {
+        query = query.eq('customer_id', filters.customer_id);
+      }
+
+      const { data, error } = await query.order('created_at', { ascending: true });
+
+      if (error) {
+        logger.error(`Error getting all ${this.entityName}s:`, error);
+        throw error;
+      }
+
+      return (data || []).map((entry: any) => ({
+        ...entry,
+        customer_name: entry.customer?.name || null,
+        customer_phone: entry.customer?.phone || null,
+        employee_name: entry.employee?.name || null,
+        service_name: entry.service?.name || null,
+      }));
+    } catch (error) {
+      logger.error(`Error in getAll${this.entityName}s:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Custom method: Add a customer to the waitlist
+   * Joining twice for the same day and professional returns the existing entry
+   */
+  async join(data: CreateWaitlistEntryInput): Promise<WaitlistEntry> {
+    try {
+      const existing = (await this.getAll({
+        business_id: data.business_id,
+        customer_id: data.customer_id,
+        date: data.date,
+      })).find(entry =>
+        (entry.status === 'waiting' || entry.status === 'offered') &&
+        (entry.employee_id || null) === (data.employee_id || null)
+      );
+
+      if (existing) {
+        return existing;
+      }
+
+      return await this.create({
+        ...data,
+        duration_minutes: data.duration_minutes || DEFAULT_DURATION,
+        status: 'waiting',
+      });
+    } catch (error) {
+      logger.error('Error in joinWaitlist:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Custom method: Remove an entry from the waitlist
+   */
+  async cancelEntry(id: string): Promise<WaitlistEntry> {
+    return this.update(id, { status: 'cancelled' });
+  }
+
+  /**
+   * Custom method: Lazy status upkeep
+   * - Offers whose claim time ran out go back to waiting (offer_expires_at is kept, so a late
+   *   reply is answered as expired)
+   * - Entries for days already gone are expired
+   */
+  async refreshStatuses(businessId: string): Promise<void> {
+    try {
+      const now = new Date();
+
+      const { error: offersError } = await this.supabase
+        .from(this.tableName)
+        .update({ status: 'waiting' })
+        .eq('business_id', businessId)
+        .eq('status', 'offered')
+        .lte('offer_expires_at', now.toISOString());
+
+      if (offersError) {
+        throw offersError;
+      }
+
+      const { error: pastError } = await this.supabase
+        .from(this.tableName)
+        .update({ status: 'expired' })
+        .eq('business_id', businessId)
+        .in('status', ['waiting', 'offered'])
+        .lt('date', formatZonedDate(now, requestContext.getTimeZone()));
+
+      if (pastError) {
+        throw pastError;
+      }
+    } catch (error) {
+      logger.error('Error in refreshWaitlistStatuses:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Custom method: Offer a freed slot (from a cancelled appointment) to the first matching entries
+   * Customers who opted out of messages or are in the middle of a conversation are skipped
+   * Returns the entries that were offered the slot
+   */
+  async handleFreedSlot(appointment: Appointment): Promise<WaitlistEntry[]> {
+    try {
+      const startTime = new Date(appointment.start_time);
+      const endTime = new Date(appointment.end_time);
+
+      // Too close to be booked under the business minimum notice
+      const { min_notice_minutes: minNotice } = requestContext.getBookingPolicy();
+      if (startTime.getTime() < Date.now() + minNotice * 60000) {
+        return [];
+      }
+
+      const timeZone = requestContext.getTimeZone();
+      await this.refreshStatuses(appointment.business_id);
+
+      const entries = await this.getAll({
+        business_id: appointment.business_id,
+        status: 'waiting',
+        date: formatZonedDate(startTime, timeZone),
+      });
+
+      const time = formatZonedTime(startTime, timeZone);
+      const freedMinutes = (endTime.getTime() - startTime.getTime()) / 60000;
+      const matches: WaitlistEntry[] = [];
+
+      for (const entry of entries) {
+        if (matches.length >= OFFER_BATCH_SIZE) {
+          break;
+        }
+        if (entry.customer_id === appointment.customer_id) {
+          continue;
+        }
+        if (
+          (await this.matchesSlot(entry, appointment.employee_id, time, freedMinutes)) &&
+          (await consentService.canMessage(entry.customer_id, appointment.business_id)) &&
+          (await this.isFreeToAnswer(entry))
+        ) {
+          matches.push(entry);
+        }
+      }
+
+      if (matches.length === 0) {
+        return [];
+      }
+
+      const employee = await employeeService.getById(appointment.employee_id).catch(() => null);
+      const expiresAt = new Date(Date.now() + this.claimMinutes * 60000);
+      const offered: WaitlistEntry[] = [];
+
+      for (const entry of matches) {
+        try {
+          offered.push(await this.offerSlot(entry, {
+            startTime,
+            time,
+            employeeId: appointment.employee_id,
+            employeeName: employee?.name || 'Por asignar',
+            expiresAt,
+          }));
+        } catch (offerError) {
+          // One unreachable customer shouldn't keep the slot from the others
+          logger.error(`Error offering freed slot to waitlist entry ${entry.id}:`, offerError);
+        }
+      }
+
+      logger.info(`Freed slot of appointment ${appointment.id} offered to ${offered.length} waitlisted customers`);
+      return offered;
+    } catch (error) {
+      logger.error('Error in handleFreedSlot:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Custom method: The customer accepted the offered slot
+   * Books it unless the offer expired or someone else claimed it first
+   */
+  async claimOffer(id: string): Promise<WaitlistClaimResult> {
+    try {
+      const entry = await this.getById(id);
+
+      if (!entry || entry.status !== 'offered') {
+        const expired = !!entry?.offer_expires_at && new Date(entry.offer_expires_at) <= new Date();
+        return { status: expired ? 'expired' : 'taken', entry };
+      }
+
+      if (!entry.offer_expires_at || new Date(entry.offer_expires_at) <= new Date()) {
+        return { status: 'expired', entry: await this.update(id, { status: 'waiting' }) };
+      }
+
+      let appointment: Appointment;
+      try {
+        appointment = await appointmentService.createAppointment({
+          business_id: entry.business_id,
+          customer_id: entry.customer_id,
+          employee_id: entry.offered_employee_id!,
+          ...(entry.service_id && { service_id: entry.service_id }),
+          start_time: entry.offered_start_time!,
+          end_time: entry.offered_end_time!,
+        });
+      } catch (error) {
+        if (error instanceof ConflictError) {
+          return { status: 'taken', entry: await this.withdrawOffer(id) };
+        }
+        throw error;
+      }
+
+      const booked = await this.update(id, { status: 'booked', appointment_id: appointment.id });
+      await this.withdrawOtherOffers(booked);
+
+      logger.info(`Waitlist entry ${id} booked appointment ${appointment.id}`);
+      return { status: 'booked', entry: booked, appointment };
+    } catch (error) {
+      logger.error('Error in claimOffer:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Custom method: The customer turned the offered slot down; they stay on the waitlist
+   */
+  async declineOffer(id: string): Promise<WaitlistEntry> {
+    return this.withdrawOffer(id);
+  }
+
+  /**
+   * Whether an entry wants the freed slot: same professional (or any who performs the service),
+   * start inside its time window and long enough for its service
+   */
+  private async matchesSlot(
+    entry: WaitlistEntry,
+    employeeId: string,
+    time: string,
+    freedMinutes: number
+  ): Promise<boolean> {
+    if (entry.employee_id && entry.employee_id !== employeeId) {
+      return false;
+    }
+
+    if (entry.duration_minutes > freedMinutes) {
+      return false;
+    }
+
+    if (entry.time_window_start && entry.time_window_end) {
+      const window = {
+        start: entry.time_window_start.slice(0, 5),
+        end: entry.time_window_end.slice(0, 5),
+        label: '',
+      };
+      if (!isTimeInWindow(time, window)) {
+        return false;
+      }
+    }
+
+    if (!entry.employee_id && entry.service_id) {
+      const employees = await serviceCatalogService.filterEmployeesForService(
+        entry.service_id,
+        [{ id: employeeId } as Employee]
+      );
+      return employees.length > 0;
+    }
+
+    return true;
+  }
+
+  /**
+   * Whether the customer's session can wait for the answer to an offer
+   * Taking over a busy session would drop the conversation the customer is having
+   */
+  private async isFreeToAnswer(entry: WaitlistEntry): Promise<boolean> {
+    if (!entry.customer_phone) {
+      return true;
+    }
+
+    const session = await sessionService.getOrCreateSession(entry.customer_phone);
+    if (!sessionService.isIdle(session)) {
+      logger.info(`Session of ${entry.customer_phone} is busy (${session.state}), not offering it waitlist entry ${entry.id}`);
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Reserve the slot for the entry, message the customer and wait for their answer
+   */
+  private async offerSlot(
+    entry: WaitlistEntry,
+    slot: { startTime: Date; time: string; employeeId: string; employeeName: string; expiresAt: Date }
+  ): Promise<WaitlistEntry> {
+    const endTime = new Date(slot.startTime.getTime() + entry.duration_minutes * 60000);
+
+    const offered = await this.update(entry.id!, {
+      status: 'offered',
+      offered_start_time: slot.startTime.toISOString(),
+      offered_end_time: endTime.toISOString(),
+      offered_employee_id: slot.employeeId,
+      offer_expires_at: slot.expiresAt.toISOString(),
+    });
+
+    const phone = entry.customer_phone;
+    if (!phone) {
+      throw new Error(`Customer ${entry.customer_id} has no phone`);
+    }
+
+    await messagingService.send(
+      phone,
+      MessageFormatter.withYesNoButtons(
+        MessageFormatter.formatWaitlistOffer({
+          date: slot.startTime,
+          time: slot.time,
+          employeeName: slot.employeeName,
+          serviceName: entry.service_name || undefined,
+          minutesToClaim: this.claimMinutes,
+        }),
+        '✅ Lo quiero',
+        '❌ No, gracias'
+      )
+    );
+
+    // The customer's answer is read by the WhatsApp claim flow
+    await sessionService.getOrCreateSession(phone);
+    await sessionService.updateData(phone, { pending_waitlist_entry_id: entry.id });
+    await sessionService.updateState(phone, 'claiming_waitlist');
+
+    return offered;
+  }
+
+  /**
+   * Back to waiting without an offer (a late reply is then answered as "taken")
+   */
+  private async withdrawOffer(id: string): Promise<WaitlistEntry> {
+    return this.update(id, {
+      status: 'waiting',
+      offered_start_time: null,
+      offered_end_time: null,
+      offered_employee_id: null,
+      offer_expires_at: null,
+    });
+  }
+
+  /**
+   * The slot was booked: the other customers it was offered to go back to waiting
+   */
+  private async withdrawOtherOffers(booked: WaitlistEntry): Promise<void> {
+    const { error } = await this.supabase
+      .from(this.tableName)
+      .update({
+        status: 'waiting',
+        offered_start_time: null,
+        offered_end_time: null,
+        offered_employee_id: null,
+        offer_expires_at: null,
+      })
+      .eq('business_id', booked.business_id)
+      .eq('status', 'offered')
+      .eq('offered_employee_id', booked.offered_employee_id)
+      .eq('offered_start_time', booked.offered_start_time)
+      .neq('id', booked.id);
+
+    if (error) {
+      logger.error('Error withdrawing other waitlist offers:', error);
+      throw error;
+    }
+  }
+}
+
+// Export class and singleton instance
+export { WaitlistService };
+export const waitlistService = new WaitlistService();
@@ -2,12 +2,27 @@ import { SessionService } from '../session.service';
 import { CustomerService } from '../customer.service';
 import { EmployeeService } from '../employee.service';
 import { AppointmentService } from '../appointment.service';
-import { AvailabilityService } from '../availability.service';
+import { AvailabilityService, ClassSeats } from '../availability.service';
+import { ServiceCatalogService } from '../service-catalog.service';
+import { EmployeeAssignmentService } from '../employee-assignment.service';
+import { WaitlistService } from '../waitlist.service';
 import { DataExtractor } from './DataExtractor';
 import { ValidationService } from './ValidationService';
 import { MessageFormatter } from './MessageFormatter';
 import { logger } from '../../config/logger';
 import { BookingData, DataCollectionStep } from './types';
+import { OutboundMessage } from '../messaging';
+import { Employee, Service, TeamTimeSlot, TimeSlot } from '../../models';
+import { isTimeInWindow } from '../../utils/date-parser';
+import { addZonedDays, formatZonedDate, formatZonedTime, setZonedTime } from '../../utils/timezone';
+import { requestContext } from '../../core/request-context';
+
+/**
+ * Appointment length when the business has no service catalog
+ */
+const DEFAULT_DURATION = 60;
+
+const ANY_EMPLOYEE_LABEL = 'Primer profesional disponible';
 
 /**
  * BookingHandler - Handles the appointment booking flow
@@ -15,13 +30,16 @@ import { BookingData, DataCollectionStep } from './types';
 export class BookingHandler {
   constructor(
     private sessionService: SessionService,
-    private _customerService: CustomerService,
+    _customerService: CustomerService,
     private employeeService: EmployeeService,
     private appointmentService: AppointmentService,
     private availabilityService: AvailabilityService,
+    private serviceCatalogService: ServiceCatalogService,
+    private employeeAssignmentService: EmployeeAssignmentService,
+    private waitlistService: WaitlistService,
     private dataExtractor: DataExtractor,
     private validationService: ValidationService,
-    private sendMessage: (phone: string, message: string) => Promise<void>
+    private sendMessage: (phone: string, message: OutboundMessage) => Promise<void>
   ) {}
 
   /**
@@ -32,28 +50,48 @@ export class BookingHandler {
     try {
       logger.info('Starting booking process', { phone, message });
 
+      const limit = await this.getReachedBookingLimit(phone);
+      if (limit !== null) {
+        await this.sendMessage(phone, MessageFormatter.formatBookingLimitReached(limit));
+        await this.sessionService.resetSession(phone);
+        return;
+      }
+
       // Extract any booking data from the message
       const extractedData = this.dataExtractor.extractBookingData(message);
       logger.debug('Extracted booking data', { extractedData });
 
       // Get available employees
-      const employees = await this.employeeService.getActiveEmployeesByBusiness(businessId);
+      let employees = await this.employeeService.getActiveEmployeesByBusiness(businessId);
 
       if (employees.length === 0) {
         await this.sendMessage(
           phone,
           'Lo siento, no hay profesionales disponibles en este momento. Por favor intenta más tarde.'
         );
-        this.sessionService.resetSession(phone);
+        await this.sessionService.resetSession(phone);
         return;
       }
 
-      // Store in session
-      this.sessionService.updateData(phone, {
-        business_id: businessId,
-        employees,
-        collected_data: extractedData
-      });
+      // Businesses without a catalog book fixed-length appointments with no service step
+      const services = await this.serviceCatalogService.getActiveServicesByBusiness(businessId);
+      const service = services.length === 1
+        ? services[0]
+        : this.dataExtractor.findServiceInMessage(services, message);
+
+      if (service) {
+        this.applyService(extractedData, service);
+        employees = await this.serviceCatalogService.filterEmployeesForService(service.id!, employees);
+
+        if (employees.length === 0) {
+          await this.sendMessage(
+            phone,
+            `Lo siento, no hay profesionales disponibles para ${service.name} en este momento.`
+          );
+          await this.sessionService.resetSession(phone);
+          return;
+        }
+      }
 
       // Check if employee name was extracted
       if (extractedData.employeeName) {
@@ -67,17 +105,34 @@ export class BookingHandler {
         }
       }
 
+      // Only one professional: no need to ask
+      if (!extractedData.employeeId && employees.length === 1) {
+        extractedData.employeeId = employees[0].id;
+        extractedData.employeeName = employees[0].name;
+        await this.sendMessage(phone, MessageFormatter.formatEmployeeList(employees));
+      }
+
+      // Store in session
+      await this.sessionService.updateData(phone, {
+        business_id: businessId,
+        employees,
+        services,
+        collected_data: extractedData
+      });
+
+      await this.resolveDateRange(phone, extractedData);
+
       // Determine what data we still need
-      const missingData = this.determineMissingData(extractedData);
+      const missingData = this.determineMissingData(extractedData, services.length > 0);
 
       if (missingData.length === 0) {
         // We have all data! Validate and confirm
         await this.validateAndConfirm(phone, extractedData);
       } else {
         // Ask for missing data
-        this.sessionService.updateData(phone, { missing_data: missingData });
-        this.sessionService.updateState(phone, 'collecting_data');
-        await this.askForNextMissingData(phone);
+        await this.sessionService.updateData(phone, { missing_data: missingData });
+        await this.sessionService.updateState(phone, 'collecting_data');
+        await this.askForNextMissingData(phone, missingData, extractedData, employees, services);
       }
     } catch (error) {
       logger.error('Error starting booking:', error);
@@ -85,7 +140,7 @@ export class BookingHandler {
         phone,
         'Ocurrió un error al iniciar el proceso. Por favor intenta de nuevo.'
       );
-      this.sessionService.resetSession(phone);
+      await this.sessionService.resetSession(phone);
     }
   }
 
@@ -94,7 +149,7 @@ export class BookingHandler {
    */
   async handleDataCollection(phone: string, message: string): Promise<void> {
     try {
-      const session = this.sessionService.getOrCreateSession(phone);
+      const session = await this.sessionService.getOrCreateSession(phone);
       const missingData = session.data.missing_data || [];
       const collectedData = session.data.collected_data || {};
 
@@ -110,16 +165,27 @@ export class BookingHandler {
       const success = await this.processDataStep(phone, message, currentStep, collectedData);
 
       if (success) {
-        // Remove this step from missing data
-        const remainingData = missingData.slice(1);
-        this.sessionService.updateData(phone, { missing_data: remainingData });
+        // Once the professional is known, a date range can be narrowed to a day
+        await this.resolveDateRange(phone, collectedData);
+
+        // Picking a service can also settle the professional, so recompute what's missing
+        const updatedSession = await this.sessionService.getOrCreateSession(phone);
+        const services = updatedSession.data.services || [];
+        const remainingData = this.determineMissingData(collectedData, services.length > 0);
+        await this.sessionService.updateData(phone, { missing_data: remainingData });
 
         if (remainingData.length === 0) {
           // All data collected!
           await this.validateAndConfirm(phone, collectedData);
         } else {
           // Ask for next missing data
-          await this.askForNextMissingData(phone);
+          await this.askForNextMissingData(
+            phone,
+            remainingData,
+            collectedData,
+            updatedSession.data.employees || [],
+            services
+          );
         }
       }
       // If not successful, error message already sent, wait for user to try again
@@ -141,20 +207,65 @@ export class BookingHandler {
     step: DataCollectionStep,
     collectedData: Partial<BookingData>
   ): Promise<boolean> {
-    const session = this.sessionService.getOrCreateSession(phone);
+    const session = await this.sessionService.getOrCreateSession(phone);
 
     switch (step) {
+      case 'service': {
+        const services = session.data.services || [];
+        const selection = this.dataExtractor.extractSelection(message, services.length);
+        const service = selection
+          ? services[selection - 1]
+          : this.dataExtractor.findServiceByName(services, message);
+
+        if (!service) {
+          await this.sendMessage(
+            phone,
+            `Por favor selecciona un número del 1 al ${services.length} o el nombre del servicio.`
+          );
+          return false;
+        }
+
+        const employees = await this.serviceCatalogService.filterEmployeesForService(
+          service.id,
+          session.data.employees || []
+        );
+
+        if (employees.length === 0) {
+          await this.sendMessage(
+            phone,
+            `Lo siento, no hay profesionales disponibles para ${service.name}. Por favor elige otro servicio.`
+          );
+          return false;
+        }
+
+        this.applyService(collectedData, service);
+
+        // A professional picked earlier who doesn't do this service has to be chosen again
+        if (collectedData.employeeId && !employees.some(emp => emp.id === collectedData.employeeId)) {
+          collectedData.employeeId = undefined;
+          collectedData.employeeName = undefined;
+        }
+
+        if (!collectedData.employeeId && employees.length === 1) {
+          collectedData.employeeId = employees[0].id;
+          collectedData.employeeName = employees[0].name;
+          delete collectedData.anyEmployee;
+          await this.sendMessage(phone, MessageFormatter.formatEmployeeList(employees));
+        }
+
+        await this.sessionService.updateData(phone, { employees, collected_data: collectedData });
+        return true;
+      }
+
       case 'employee': {
         const employees = session.data.employees || [];
 
         // Check if message is "cualquiera" or similar
         if (message.toLowerCase().includes('cualquiera') ||
             message.toLowerCase().includes('el que sea')) {
-          // Pick first available
-          const employee = employees[0];
-          collectedData.employeeId = employee.id;
-          collectedData.employeeName = employee.name;
-          this.sessionService.updateData(phone, { collected_data: collectedData });
+          // Assigned once the slot is confirmed, among whoever is free then
+          collectedData.anyEmployee = true;
+          await this.sessionService.updateData(phone, { collected_data: collectedData });
           return true;
         }
 
@@ -164,15 +275,14 @@ export class BookingHandler {
         if (selection) {
           if (selection === employees.length + 1) {
             // "Cualquiera disponible" option
-            const employee = employees[0];
-            collectedData.employeeId = employee.id;
-            collectedData.employeeName = employee.name;
+            collectedData.anyEmployee = true;
           } else {
             const employee = employees[selection - 1];
             collectedData.employeeId = employee.id;
             collectedData.employeeName = employee.name;
+            delete collectedData.anyEmployee;
           }
-          this.sessionService.updateData(phone, { collected_data: collectedData });
+          await this.sessionService.updateData(phone, { collected_data: collectedData });
           return true;
         }
 
@@ -181,7 +291,8 @@ export class BookingHandler {
         if (employee) {
           collectedData.employeeId = employee.id;
           collectedData.employeeName = employee.name;
-          this.sessionService.updateData(phone, { collected_data: collectedData });
+          delete collectedData.anyEmployee;
+          await this.sessionService.updateData(phone, { collected_data: collectedData });
           return true;
         }
 
@@ -194,18 +305,30 @@ export class BookingHandler {
       }
 
       case 'date': {
-        const date = this.dataExtractor.extractBookingData(message).date;
+        const { date, dateRange, timeWindow } = this.dataExtractor.extractBookingData(message);
 
-        if (!date) {
+        if (!date && !dateRange) {
           await this.sendMessage(
             phone,
             MessageFormatter.formatError(
-              'No pude entender la fecha. Intenta con: "mañana", "viernes", "20 de noviembre", etc.'
+              'No pude entender la fecha. Intenta con: "mañana", "viernes", "el finde", "20 de noviembre", etc.'
             )
           );
           return false;
         }
 
+        // "mañana a la tarde"
+        if (timeWindow) {
+          collectedData.timeWindow = timeWindow;
+        }
+
+        // Narrowed down to a day with free slots by resolveDateRange
+        if (!date) {
+          collectedData.dateRange = dateRange;
+          await this.sessionService.updateData(phone, { collected_data: collectedData });
+          return true;
+        }
+
         const validation = this.validationService.validateDate(date);
         if (!validation.valid) {
           await this.sendMessage(phone, MessageFormatter.formatError(validation.error!));
@@ -213,19 +336,22 @@ export class BookingHandler {
         }
 
         collectedData.date = date;
-        this.sessionService.updateData(phone, { collected_data: collectedData });
+        await this.sessionService.updateData(phone, { collected_data: collectedData });
         return true;
       }
 
       case 'time': {
         // First check if we have available slots to show
-        if (collectedData.date && collectedData.employeeId) {
+        if (collectedData.date && (collectedData.employeeId || collectedData.anyEmployee)) {
           // Try to extract time from message
-          const time = this.dataExtractor.extractBookingData(message).time;
+          const { time, timeWindow } = this.dataExtractor.extractBookingData(message);
 
           if (time) {
             // Validate the time
-            const timeValidation = this.validationService.validateTime(time);
+            const timeValidation = this.validationService.validateTime(
+              time,
+              await this.getBusinessHours(phone, collectedData)
+            );
             if (!timeValidation.valid) {
               await this.sendMessage(phone, MessageFormatter.formatError(timeValidation.error!));
               return false;
@@ -241,11 +367,7 @@ export class BookingHandler {
             }
 
             // Check if slot is available
-            const isAvailable = await this.checkSlotAvailability(
-              collectedData.employeeId,
-              collectedData.date,
-              time
-            );
+            const isAvailable = await this.checkSlotAvailability(phone, collectedData, time);
 
             if (!isAvailable) {
               await this.sendMessage(
@@ -253,22 +375,30 @@ export class BookingHandler {
                 'Ese horario no está disponible. Por favor elige otro.'
               );
               // Show available slots
-              await this.showAvailableSlots(phone, collectedData.employeeId, collectedData.date);
+              await this.showAvailableSlots(phone, collectedData);
               return false;
             }
 
             collectedData.time = time;
-            this.sessionService.updateData(phone, { collected_data: collectedData });
+            await this.sessionService.updateData(phone, { collected_data: collectedData });
             return true;
           }
 
+          // "a la tarde": narrow the offered slots and keep asking
+          if (timeWindow) {
+            collectedData.timeWindow = timeWindow;
+            await this.sessionService.updateData(phone, { collected_data: collectedData });
+            await this.showAvailableSlots(phone, collectedData);
+            return false;
+          }
+
           // Try to extract selection number
-          const slots = await this.getAvailableSlots(collectedData.employeeId, collectedData.date);
+          const slots = await this.getOfferedSlots(phone, collectedData);
           const selection = this.dataExtractor.extractSelection(message, slots.length);
 
           if (selection && selection >= 1 && selection <= slots.length) {
             collectedData.time = slots[selection - 1];
-            this.sessionService.updateData(phone, { collected_data: collectedData });
+            await this.sessionService.updateData(phone, { collected_data: collectedData });
             return true;
           }
 
@@ -291,12 +421,13 @@ export class BookingHandler {
   /**
    * Ask for the next missing piece of data
    */
-  private async askForNextMissingData(phone: string): Promise<void> {
-    const session = this.sessionService.getOrCreateSession(phone);
-    const missingData = session.data.missing_data || [];
-    const collectedData = session.data.collected_data || {};
-    const employees = session.data.employees || [];
-
+  private async askForNextMissingData(
+    phone: string,
+    missingData: DataCollectionStep[],
+    collectedData: Partial<BookingData>,
+    employees: any[],
+    services: any[] = []
+  ): Promise<void> {
     if (missingData.length === 0) {
       return;
     }
@@ -304,8 +435,12 @@ export class BookingHandler {
     const nextStep = missingData[0];
 
     switch (nextStep) {
+      case 'service':
+        await this.sendMessage(phone, MessageFormatter.formatServicePicker(services));
+        break;
+
       case 'employee':
-        await this.sendMessage(phone, MessageFormatter.formatEmployeeList(employees));
+        await this.sendMessage(phone, MessageFormatter.formatEmployeePicker(employees));
         break;
 
       case 'date':
@@ -313,8 +448,8 @@ export class BookingHandler {
         break;
 
       case 'time':
-        if (collectedData.date && collectedData.employeeId) {
-          await this.showAvailableSlots(phone, collectedData.employeeId, collectedData.date);
+        if (collectedData.date && (collectedData.employeeId || collectedData.anyEmployee)) {
+          await this.showAvailableSlots(phone, collectedData);
         } else {
           await this.sendMessage(phone, MessageFormatter.formatAskForTime());
         }
@@ -323,16 +458,37 @@ export class BookingHandler {
   }
 
   /**
-   * Show available time slots for a given employee and date
+   * Show available time slots for the chosen employee (or the whole team), date and service
    */
   private async showAvailableSlots(
     phone: string,
-    employeeId: string,
-    date: Date
+    data: Partial<BookingData>
   ): Promise<void> {
     try {
-      const slots = await this.getAvailableSlots(employeeId, date);
-      const message = MessageFormatter.formatTimeSlots(date, slots);
+      let slots = await this.getOfferedSlots(phone, data);
+
+      // Nothing left in the requested window: offer the rest of the day instead
+      if (slots.length === 0 && data.timeWindow) {
+        const allSlots = await this.getAvailableSlots(phone, data);
+
+        if (allSlots.length > 0) {
+          await this.sendMessage(
+            phone,
+            `No quedan horarios ${data.timeWindow.label} ese día. Estos son los disponibles:`
+          );
+          delete data.timeWindow;
+          await this.sessionService.updateData(phone, { collected_data: data });
+          slots = allSlots;
+        }
+      }
+
+      if (slots.length === 0) {
+        await this.offerWaitlist(phone, data);
+        return;
+      }
+
+      const seats = await this.getSeatsLeft(phone, data);
+      const message = MessageFormatter.formatTimeSlotPicker(data.date!, slots, seats);
       await this.sendMessage(phone, message);
     } catch (error) {
       logger.error('Error showing available slots:', error);
@@ -341,35 +497,260 @@ export class BookingHandler {
   }
 
   /**
-   * Get available time slots
+   * Fully booked day: offer to join the waitlist instead of just asking for another date
    */
-  private async getAvailableSlots(employeeId: string, date: Date): Promise<string[]> {
+  private async offerWaitlist(phone: string, data: Partial<BookingData>): Promise<void> {
+    await this.sendMessage(
+      phone,
+      MessageFormatter.withYesNoButtons(
+        MessageFormatter.formatWaitlistJoinOffer(data.date!, data.timeWindow),
+        '🔔 Avisarme',
+        '📅 Otro día'
+      )
+    );
+    await this.sessionService.updateState(phone, 'confirming_waitlist');
+  }
+
+  /**
+   * Handle the answer to the waitlist offer
+   * Anything other than yes/no is read as another date
+   */
+  async handleWaitlistReply(phone: string, message: string): Promise<void> {
     try {
-      const slots = await this.availabilityService.getAvailableSlots(
-        employeeId,
-        date,
-        60 // duration in minutes
-      );
-      return slots.map(slot => {
-        const d = new Date(slot.start_time);
-        return ;
-      });
+      const session = await this.sessionService.getOrCreateSession(phone);
+      const data: Partial<BookingData> = session.data.collected_data || {};
+
+      if (this.dataExtractor.isAffirmative(message)) {
+        await this.joinWaitlist(phone, data);
+        return;
+      }
+
+      // Ask for (or take) another date, keeping service and professional
+      delete data.date;
+      delete data.time;
+      delete data.timeWindow;
+      const services = session.data.services || [];
+      const missingData = this.determineMissingData(data, services.length > 0);
+      await this.sessionService.updateData(phone, { collected_data: data, missing_data: missingData });
+      await this.sessionService.updateState(phone, 'collecting_data');
+
+      if (this.dataExtractor.isNegative(message)) {
+        await this.sendMessage(phone, MessageFormatter.formatAskForDate());
+        return;
+      }
+
+      await this.handleDataCollection(phone, message);
+    } catch (error) {
+      logger.error('Error handling waitlist reply:', error);
+      await this.sendMessage(phone, 'Ocurrió un error. Por favor intenta de nuevo.');
+    }
+  }
+
+  /**
+   * Add the customer to the waitlist for the chosen day, professional and time window
+   */
+  private async joinWaitlist(phone: string, data: Partial<BookingData>): Promise<void> {
+    const session = await this.sessionService.getOrCreateSession(phone);
+    const customerId = session.data.customer_id;
+    const businessId = session.data.business_id;
+
+    if (!customerId || !businessId || !data.date) {
+      throw new Error('Missing required data to join the waitlist');
+    }
+
+    await this.waitlistService.join({
+      business_id: businessId,
+      customer_id: customerId,
+      employee_id: data.employeeId || null,
+      service_id: data.serviceId || null,
+      date: formatZonedDate(new Date(data.date), requestContext.getTimeZone()),
+      time_window_start: data.timeWindow?.start || null,
+      time_window_end: data.timeWindow?.end || null,
+      duration_minutes: data.duration || DEFAULT_DURATION,
+    });
+
+    logger.info('Customer joined the waitlist', { phone, date: data.date });
+
+    await this.sendMessage(phone, MessageFormatter.formatWaitlistJoined(new Date(data.date)));
+    await this.sessionService.resetSession(phone);
+  }
+
+  /**
+   * The business limit on upcoming appointments per customer, when this customer already reached it
+   */
+  private async getReachedBookingLimit(phone: string): Promise<number | null> {
+    const limit = requestContext.getBookingPolicy().max_active_bookings;
+    if (limit === null) {
+      return null;
+    }
+
+    const session = await this.sessionService.getOrCreateSession(phone);
+    const customerId = session.data.customer_id;
+    if (!customerId) {
+      return null;
+    }
+
+    const active = await this.appointmentService.countActiveBookings(customerId);
+    return active >= limit ? limit : null;
+  }
+
+  /**
+   * Available slots sized by the chosen service
+   * With "cualquiera", a time is offered if at least one professional is free
+   */
+  private async getSlots(phone: string, data: Partial<BookingData>): Promise<Array<TimeSlot | TeamTimeSlot>> {
+    return data.employeeId
+      ? this.availabilityService.getAvailableSlots(
+        data.employeeId,
+        data.date!,
+        data.duration || DEFAULT_DURATION,
+        data.buffer || 0,
+        this.getClassSeats(data)
+      )
+      : this.getTeamSlots(phone, data);
+  }
+
+  /**
+   * Get available time slots as "HH:mm" strings
+   */
+  private async getAvailableSlots(phone: string, data: Partial<BookingData>): Promise<string[]> {
+    try {
+      const slots = await this.getSlots(phone, data);
+      const timeZone = requestContext.getTimeZone();
+      return slots.map(slot => formatZonedTime(new Date(slot.start_time), timeZone));
     } catch (error) {
       logger.error('Error getting available slots:', error);
       return [];
     }
   }
 
+  /**
+   * Seats left per "HH:mm" when the chosen service is a group class
+   */
+  private async getSeatsLeft(
+    phone: string,
+    data: Partial<BookingData>
+  ): Promise<Record<string, number> | undefined> {
+    if (!this.getClassSeats(data)) {
+      return undefined;
+    }
+
+    try {
+      const slots = await this.getSlots(phone, data);
+      const timeZone = requestContext.getTimeZone();
+      return Object.fromEntries(
+        slots
+          .filter(slot => slot.seats_left !== undefined)
+          .map(slot => [formatZonedTime(new Date(slot.start_time), timeZone), slot.seats_left!])
+      );
+    } catch (error) {
+      logger.error('Error getting seats left:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Group class services keep a slot open until all its seats are booked
+   */
+  private getClassSeats(data: Partial<BookingData>): ClassSeats | undefined {
+    return data.serviceId && data.capacity && data.capacity > 1
+      ? { serviceId: data.serviceId, capacity: data.capacity }
+      : undefined;
+  }
+
+  /**
+   * Slots offered to the customer: the available ones inside the requested time window
+   */
+  private async getOfferedSlots(phone: string, data: Partial<BookingData>): Promise<string[]> {
+    const slots = await this.getAvailableSlots(phone, data);
+    const window = data.timeWindow;
+    return window ? slots.filter(time => isTimeInWindow(time, window)) : slots;
+  }
+
+  /**
+   * Narrow a date range ("el finde") to its first day with offered slots
+   * Needs the professional (or "cualquiera"); when nothing is free the range is dropped
+   * so the date is asked again
+   */
+  private async resolveDateRange(phone: string, data: Partial<BookingData>): Promise<void> {
+    if (data.date || !data.dateRange || !(data.employeeId || data.anyEmployee)) {
+      return;
+    }
+
+    const timeZone = requestContext.getTimeZone();
+    const start = new Date(data.dateRange.start);
+    const end = new Date(data.dateRange.end);
+
+    for (let day = start; day <= end; day = addZonedDays(day, 1, timeZone)) {
+      if (!this.validationService.validateDate(day).valid) {
+        continue;
+      }
+
+      const slots = await this.getOfferedSlots(phone, { ...data, date: day });
+      if (slots.length > 0) {
+        data.date = day;
+        break;
+      }
+    }
+
+    if (!data.date) {
+      await this.sendMessage(phone, MessageFormatter.formatNoSlotsInRange(start, end, data.timeWindow));
+    }
+
+    delete data.dateRange;
+    await this.sessionService.updateData(phone, { collected_data: data });
+  }
+
+  /**
+   * Opening hours of the chosen day for the chosen professional, or the team with "cualquiera"
+   * Undefined when unknown, so the time is then only checked against the slots
+   */
+  private async getBusinessHours(
+    phone: string,
+    data: Partial<BookingData>
+  ): Promise<{ start: string; end: string } | undefined> {
+    try {
+      const employeeIds = data.employeeId
+        ? [data.employeeId]
+        : ((await this.sessionService.getOrCreateSession(phone)).data.employees || []).map((emp: Employee) => emp.id!);
+
+      if (!data.date || employeeIds.length === 0) {
+        return undefined;
+      }
+
+      return (await this.availabilityService.getWorkingHours(employeeIds, data.date)) || undefined;
+    } catch (error) {
+      logger.error('Error getting business hours:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Slots merged across the professionals offered in this conversation
+   */
+  private async getTeamSlots(phone: string, data: Partial<BookingData>) {
+    const session = await this.sessionService.getOrCreateSession(phone);
+    const employees: Employee[] = session.data.employees || [];
+
+    return this.availabilityService.getTeamAvailableSlots(
+      employees.map(emp => emp.id!),
+      data.date!,
+      data.duration || DEFAULT_DURATION,
+      data.buffer || 0,
+      this.getClassSeats(data)
+    );
+  }
+
   /**
    * Check if a specific slot is available
    */
   private async checkSlotAvailability(
-    employeeId: string,
-    date: Date,
+    phone: string,
+    data: Partial<BookingData>,
     time: string
   ): Promise<boolean> {
     try {
-      const slots = await this.getAvailableSlots(employeeId, date);
+      const slots = await this.getAvailableSlots(phone, data);
       return slots.includes(time);
     } catch (error) {
       logger.error('Error checking slot availability:', error);
@@ -377,16 +758,57 @@ export class BookingHandler {
     }
   }
 
+  /**
+   * Assign a "cualquiera" booking among the professionals still free at startTime
+   * Returns null when nobody is free anymore
+   */
+  private async assignEmployee(
+    phone: string,
+    businessId: string,
+    data: Partial<BookingData>,
+    startTime: Date
+  ): Promise<Employee | null> {
+    const session = await this.sessionService.getOrCreateSession(phone);
+    const team: Employee[] = session.data.employees || [];
+    const slots = await this.getTeamSlots(phone, data);
+    const slot = slots.find(s => new Date(s.start_time).getTime() === startTime.getTime());
+
+    if (!slot) {
+      return null;
+    }
+
+    return this.employeeAssignmentService.pickEmployee(businessId, team, slot.employee_ids, startTime);
+  }
+
+  /**
+   * Store the chosen service; its duration and buffer size the slots, its capacity
+   * makes it a group class
+   */
+  private applyService(data: Partial<BookingData>, service: Service): void {
+    data.serviceId = service.id;
+    data.serviceName = service.name;
+    data.duration = service.duration_minutes;
+    data.buffer = service.buffer_minutes;
+    data.capacity = service.capacity;
+    data.price = service.price ?? null;
+  }
+
   /**
    * Determine what data is missing
    */
-  private determineMissingData(data: Partial<BookingData>): DataCollectionStep[] {
+  private determineMissingData(
+    data: Partial<BookingData>,
+    requiresService: boolean
+  ): DataCollectionStep[] {
     const missing: DataCollectionStep[] = [];
 
-    if (!data.employeeId) {
+    if (requiresService && !data.serviceId) {
+      missing.push('service');
+    }
+    if (!data.employeeId && !data.anyEmployee) {
       missing.push('employee');
     }
-    if (!data.date) {
+    if (!data.date && !data.dateRange) {
       missing.push('date');
     }
     if (!data.time) {
@@ -404,7 +826,7 @@ export class BookingHandler {
     data: Partial<BookingData>
   ): Promise<void> {
     try {
-      if (!data.date || !data.time || !data.employeeId || !data.employeeName) {
+      if (!data.date || !data.time || (!data.anyEmployee && (!data.employeeId || !data.employeeName))) {
         throw new Error('Missing required booking data');
       }
 
@@ -412,49 +834,54 @@ export class BookingHandler {
       const dateValidation = this.validationService.validateDate(data.date);
       if (!dateValidation.valid) {
         await this.sendMessage(phone, MessageFormatter.formatError(dateValidation.error!));
-        this.sessionService.resetSession(phone);
+        await this.sessionService.resetSession(phone);
         return;
       }
 
-      const timeValidation = this.validationService.validateTime(data.time);
+      const timeValidation = this.validationService.validateTime(
+        data.time,
+        await this.getBusinessHours(phone, data)
+      );
       if (!timeValidation.valid) {
         await this.sendMessage(phone, MessageFormatter.formatError(timeValidation.error!));
-        this.sessionService.resetSession(phone);
+        await this.sessionService.resetSession(phone);
         return;
       }
 
       const dateTimeValidation = this.validationService.validateDateTime(data.date, data.time);
       if (!dateTimeValidation.valid) {
         await this.sendMessage(phone, MessageFormatter.formatError(dateTimeValidation.error!));
-        this.sessionService.resetSession(phone);
+        await this.sessionService.resetSession(phone);
         return;
       }
 
       // Check availability one more time
-      const isAvailable = await this.checkSlotAvailability(
-        data.employeeId,
-        data.date,
-        data.time
-      );
+      const isAvailable = await this.checkSlotAvailability(phone, data, data.time);
 
       if (!isAvailable) {
         await this.sendMessage(
           phone,
           'Lo siento, ese horario ya no está disponible. Vamos a empezar de nuevo.'
         );
-        this.sessionService.resetSession(phone);
+        await this.sessionService.resetSession(phone);
         return;
       }
 
       // Store final data and ask for confirmation
-      this.sessionService.updateData(phone, { collected_data: data });
-      this.sessionService.updateState(phone, 'confirming');
-
-      const confirmationMessage = MessageFormatter.formatConfirmation({
-        date: data.date,
-        time: data.time,
-        employeeName: data.employeeName
-      });
+      await this.sessionService.updateData(phone, { collected_data: data });
+      await this.sessionService.updateState(phone, 'confirming');
+
+      const confirmationMessage = MessageFormatter.withYesNoButtons(
+        MessageFormatter.formatConfirmation({
+          date: data.date,
+          time: data.time,
+          employeeName: data.employeeId ? data.employeeName! : ANY_EMPLOYEE_LABEL,
+          serviceName: data.serviceName,
+          price: data.price
+        }),
+        '✅ Sí, confirmar',
+        '❌ No'
+      );
 
       await this.sendMessage(phone, confirmationMessage);
     } catch (error) {
@@ -463,7 +890,7 @@ export class BookingHandler {
         phone,
         'Ocurrió un error al validar los datos. Por favor intenta de nuevo escribiendo "inicio".'
       );
-      this.sessionService.resetSession(phone);
+      await this.sessionService.resetSession(phone);
     }
   }
 
@@ -472,12 +899,12 @@ export class BookingHandler {
    */
   async handleConfirmation(phone: string, message: string): Promise<void> {
     try {
-      const session = this.sessionService.getOrCreateSession(phone);
+      const session = await this.sessionService.getOrCreateSession(phone);
       const data = session.data.collected_data;
 
-      if (!data || !data.date || !data.time || !data.employeeId) {
+      if (!data || !data.date || !data.time || (!data.employeeId && !data.anyEmployee)) {
         await this.sendMessage(phone, 'Error: datos de reserva incompletos.');
-        this.sessionService.resetSession(phone);
+        await this.sessionService.resetSession(phone);
         return;
       }
 
@@ -489,7 +916,7 @@ export class BookingHandler {
           phone,
           'Reserva cancelada. Si quieres intentar de nuevo, escribe "agendar" o "inicio".'
         );
-        this.sessionService.resetSession(phone);
+        await this.sessionService.resetSession(phone);
       } else {
         await this.sendMessage(
           phone,
@@ -507,27 +934,41 @@ export class BookingHandler {
    */
   private async createAppointment(phone: string, data: Partial<BookingData>): Promise<void> {
     try {
-      const session = this.sessionService.getOrCreateSession(phone);
+      const session = await this.sessionService.getOrCreateSession(phone);
       const customerId = session.data.customer_id;
       const businessId = session.data.business_id;
 
-      if (!customerId || !businessId || !data.date || !data.time || !data.employeeId) {
+      if (!customerId || !businessId || !data.date || !data.time || (!data.employeeId && !data.anyEmployee)) {
         throw new Error('Missing required data for appointment creation');
       }
 
-      // Combine date and time
-      const [hours, minutes] = data.time.split(':').map(Number);
-      const startTime = new Date(data.date);
-      startTime.setHours(hours, minutes, 0, 0);
+      // Combine date and time as wall-clock time in the business timezone
+      const startTime = setZonedTime(new Date(data.date), data.time, requestContext.getTimeZone());
+
+      if (!data.employeeId) {
+        const employee = await this.assignEmployee(phone, businessId, data, startTime);
+
+        if (!employee) {
+          await this.sendMessage(
+            phone,
+            'Lo siento, ese horario ya no está disponible. Vamos a empezar de nuevo.'
+          );
+          await this.sessionService.resetSession(phone);
+          return;
+        }
+
+        data.employeeId = employee.id;
+        data.employeeName = employee.name;
+      }
 
-      const endTime = new Date(startTime);
-      endTime.setHours(hours + 1, minutes, 0, 0); // Default 1 hour duration
+      const endTime = new Date(startTime.getTime() + (data.duration || DEFAULT_DURATION) * 60000);
 
       // Create appointment
       const appointment = await this.appointmentService.createAppointment({
         business_id: businessId,
         customer_id: customerId,
-        employee_id: data.employeeId,
+        employee_id: data.employeeId!,
+        ...(data.serviceId && { service_id: data.serviceId }),
         start_time: startTime.toISOString(),
         end_time: endTime.toISOString(),
       });
@@ -539,20 +980,21 @@ export class BookingHandler {
         id: appointment.id!,
         date: data.date,
         time: data.time,
-        employeeName: data.employeeName!
+        employeeName: data.employeeName!,
+        serviceName: data.serviceName
       });
 
       await this.sendMessage(phone, confirmationMessage);
 
       // Reset session
-      this.sessionService.resetSession(phone);
+      await this.sessionService.resetSession(phone);
     } catch (error) {
       logger.error('Error creating appointment:', error);
       await this.sendMessage(
         phone,
         'Ocurrió un error al crear la reserva. Por favor intenta de nuevo más tarde.'
       );
-      this.sessionService.resetSession(phone);
+      await this.sessionService.resetSession(phone);
     }
   }
 }
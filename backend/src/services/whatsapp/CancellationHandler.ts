@@ -1,8 +1,12 @@
 import { SessionService } from '../session.service';
 import { AppointmentService } from '../appointment.service';
 import { DataExtractor } from './DataExtractor';
+import { ValidationService } from './ValidationService';
 import { MessageFormatter } from './MessageFormatter';
 import { logger } from '../../config/logger';
+import { requestContext } from '../../core/request-context';
+import { formatZonedTime } from '../../utils/timezone';
+import { OutboundMessage } from '../messaging';
 
 /**
  * CancellationHandler - Handles appointment cancellation flow
@@ -12,7 +16,8 @@ export class CancellationHandler {
     private sessionService: SessionService,
     private appointmentService: AppointmentService,
     private dataExtractor: DataExtractor,
-    private sendMessage: (phone: string, message: string) => Promise<void>
+    private validationService: ValidationService,
+    private sendMessage: (phone: string, message: OutboundMessage) => Promise<void>
   ) {}
 
   /**
@@ -39,7 +44,7 @@ export class CancellationHandler {
           'No tienes turnos próximos para cancelar.\n\n' +
           '¿Quieres agendar un turno nuevo? Escribe "agendar".'
         );
-        this.sessionService.resetSession(phone);
+        await this.sessionService.resetSession(phone);
         return;
       }
 
@@ -68,15 +73,15 @@ export class CancellationHandler {
       await this.sendMessage(phone, message);
 
       // Store appointments in session
-      this.sessionService.updateData(phone, { appointments: upcomingAppointments });
-      this.sessionService.updateState(phone, 'cancelling');
+      await this.sessionService.updateData(phone, { appointments: upcomingAppointments });
+      await this.sessionService.updateState(phone, 'cancelling');
     } catch (error) {
       logger.error('Error starting cancellation:', error);
       await this.sendMessage(
         phone,
         'Ocurrió un error al obtener tus turnos. Por favor intenta de nuevo.'
       );
-      this.sessionService.resetSession(phone);
+      await this.sessionService.resetSession(phone);
     }
   }
 
@@ -85,12 +90,12 @@ export class CancellationHandler {
    */
   async handleAppointmentSelection(phone: string, message: string): Promise<void> {
     try {
-      const session = this.sessionService.getOrCreateSession(phone);
+      const session = await this.sessionService.getOrCreateSession(phone);
       const appointments = session.data.appointments || [];
 
       if (appointments.length === 0) {
         await this.sendMessage(phone, 'Error: no hay turnos disponibles.');
-        this.sessionService.resetSession(phone);
+        await this.sessionService.resetSession(phone);
         return;
       }
 
@@ -105,46 +110,64 @@ export class CancellationHandler {
         return;
       }
 
-      const selectedAppointment = appointments[selection - 1];
-
-      // Ask for confirmation
-      const startTime = new Date(selectedAppointment.start_time);
-      const [hours, minutes] = [
-        startTime.getHours(),
-        startTime.getMinutes()
-      ];
-      const time = `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
-
-      const confirmationMessage = MessageFormatter.formatCancellationConfirmation({
-        date: startTime,
-        time,
-        employeeName: selectedAppointment.employee_name || 'Por asignar'
-      });
-
-      await this.sendMessage(phone, confirmationMessage);
-
-      // Store selected appointment ID
-      this.sessionService.updateData(phone, {
-        pending_cancellation_id: selectedAppointment.id
-      });
-      this.sessionService.updateState(phone, 'confirming_cancellation');
+      await this.askForConfirmation(phone, appointments[selection - 1]);
     } catch (error) {
       logger.error('Error handling appointment selection:', error);
       await this.sendMessage(phone, 'Ocurrió un error. Por favor intenta de nuevo.');
     }
   }
 
+  /**
+   * Ask to confirm the cancellation of a specific appointment
+   * Also the entry point when the customer answers a reminder saying they can't make it
+   */
+  async askForConfirmation(
+    phone: string,
+    appointment: { id?: string; start_time: string; employee_name?: string | null }
+  ): Promise<void> {
+    const startTime = new Date(appointment.start_time);
+
+    // Too close to the start for the business cancellation cutoff
+    const cutoffValidation = this.validationService.validateCancellation(startTime);
+    if (!cutoffValidation.valid) {
+      await this.sendMessage(phone, MessageFormatter.formatError(cutoffValidation.error!));
+      await this.sessionService.resetSession(phone);
+      return;
+    }
+
+    // Ask for confirmation
+    const time = formatZonedTime(startTime, requestContext.getTimeZone());
+
+    const confirmationMessage = MessageFormatter.withYesNoButtons(
+      MessageFormatter.formatCancellationConfirmation({
+        date: startTime,
+        time,
+        employeeName: appointment.employee_name || 'Por asignar'
+      }),
+      'Sí, cancelar',
+      'No, mantener'
+    );
+
+    await this.sendMessage(phone, confirmationMessage);
+
+    // Store selected appointment ID
+    await this.sessionService.updateData(phone, {
+      pending_cancellation_id: appointment.id
+    });
+    await this.sessionService.updateState(phone, 'confirming_cancellation');
+  }
+
   /**
    * Handle cancellation confirmation
    */
   async handleCancellationConfirmation(phone: string, message: string): Promise<void> {
     try {
-      const session = this.sessionService.getOrCreateSession(phone);
+      const session = await this.sessionService.getOrCreateSession(phone);
       const appointmentId = session.data.pending_cancellation_id;
 
       if (!appointmentId) {
         await this.sendMessage(phone, 'Error: no hay turno seleccionado.');
-        this.sessionService.resetSession(phone);
+        await this.sessionService.resetSession(phone);
         return;
       }
 
@@ -157,7 +180,7 @@ export class CancellationHandler {
           '✅ Tu turno se mantiene.\n\n' +
           'Si necesitas algo más, escribe "ayuda".'
         );
-        this.sessionService.resetSession(phone);
+        await this.sessionService.resetSession(phone);
       } else {
         await this.sendMessage(
           phone,
@@ -184,14 +207,14 @@ export class CancellationHandler {
       await this.sendMessage(phone, MessageFormatter.formatCancellationSuccess());
 
       // Reset session
-      this.sessionService.resetSession(phone);
+      await this.sessionService.resetSession(phone);
     } catch (error) {
       logger.error('Error cancelling appointment:', error);
       await this.sendMessage(
         phone,
         'Ocurrió un error al cancelar el turno. Por favor intenta de nuevo o contacta con nosotros.'
       );
-      this.sessionService.resetSession(phone);
+      await this.sessionService.resetSession(phone);
     }
   }
 }
@@ -0,0 +1,137 @@
+import Redis from 'ioredis';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '../../config/supabase';
+import { logger } from '../../config/logger';
+import { SessionStoreType, createRedisClient } from '../session';
+
+/**
+ * ConversationLock - Lock on a conversation shared by every backend instance
+ * Locks expire on their own, so an instance that crashes mid-message doesn't block the conversation
+ */
+export interface ConversationLock {
+  /**
+   * Take the lock for ttlMs unless another holder has it
+   */
+  tryAcquire(key: string, token: string, ttlMs: number): Promise<boolean>;
+
+  /**
+   * Give the lock up if it is still held with the token
+   */
+  release(key: string, token: string): Promise<void>;
+}
+
+/**
+ * PostgresConversationLock - One row per locked conversation in whatsapp_conversation_locks
+ */
+export class PostgresConversationLock implements ConversationLock {
+  private readonly tableName = 'whatsapp_conversation_locks';
+
+  constructor(private supabase: SupabaseClient) {}
+
+  async tryAcquire(key: string, token: string, ttlMs: number): Promise<boolean> {
+    try {
+      const lockedUntil = new Date(Date.now() + ttlMs).toISOString();
+
+      const { error } = await this.supabase
+        .from(this.tableName)
+        .insert({ lock_key: key, token, locked_until: lockedUntil });
+
+      if (!error) {
+        return true;
+      }
+
+      // Unique violation: someone holds the lock, take it only if it expired
+      if (error.code !== '23505') {
+        throw error;
+      }
+
+      const { data, error: takeOverError } = await this.supabase
+        .from(this.tableName)
+        .update({ token, locked_until: lockedUntil })
+        .eq('lock_key', key)
+        .lt('locked_until', new Date().toISOString())
+        .select('lock_key');
+
+      if (takeOverError) {
+        throw takeOverError;
+      }
+
+      return (data?.length || 0) > 0;
+    } catch (error) {
+      logger.error('Error in PostgresConversationLock.tryAcquire:', error);
+      throw error;
+    }
+  }
+
+  async release(key: string, token: string): Promise<void> {
+    try {
+      const { error } = await this.supabase
+        .from(this.tableName)
+        .delete()
+        .eq('lock_key', key)
+        .eq('token', token);
+
+      if (error) {
+        throw error;
+      }
+    } catch (error) {
+      logger.error('Error in PostgresConversationLock.release:', error);
+      throw error;
+    }
+  }
+}
+
+// Deletes the lock only when it still holds the caller's token
+const RELEASE_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('del', KEYS[1])
+end
+return 0
+`;
+
+/**
+ * RedisConversationLock - SET NX with an expiry per locked conversation
+ */
+export class RedisConversationLock implements ConversationLock {
+  private readonly prefix = 'whatsapp:lock:';
+
+  constructor(private redis: Redis) {}
+
+  async tryAcquire(key: string, token: string, ttlMs: number): Promise<boolean> {
+    try {
+      const result = await this.redis.set(this.prefix + key, token, 'PX', ttlMs, 'NX');
+      return result === 'OK';
+    } catch (error) {
+      logger.error('Error in RedisConversationLock.tryAcquire:', error);
+      throw error;
+    }
+  }
+
+  async release(key: string, token: string): Promise<void> {
+    try {
+      await this.redis.eval(RELEASE_SCRIPT, 1, this.prefix + key, token);
+    } catch (error) {
+      logger.error('Error in RedisConversationLock.release:', error);
+      throw error;
+    }
+  }
+}
+
+/**
+ * Create the lock matching the session store selected by SESSION_STORE
+ * The memory store keeps sessions in one process, so it needs no shared lock (returns null)
+ */
+export function createConversationLock(
+  type: string = process.env.SESSION_STORE || 'memory'
+): ConversationLock | null {
+  switch (type as SessionStoreType) {
+    case 'postgres':
+      return new PostgresConversationLock(supabase);
+
+    case 'redis':
+      return new RedisConversationLock(createRedisClient());
+
+    default:
+      return null;
+  }
+}
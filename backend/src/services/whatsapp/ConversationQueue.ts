@@ -0,0 +1,82 @@
+import { randomUUID } from 'crypto';
+import { logger } from '../../config/logger';
+import { ConversationLock } from './ConversationLock';
+
+// A held lock expires after this long, in case its instance died mid-message
+const LOCK_TTL_MS = 60 * 1000;
+
+// How long a message waits for another instance to finish with the conversation
+const LOCK_WAIT_MS = 10 * 1000;
+
+const LOCK_RETRY_MS = 100;
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * ConversationQueue - Serializes work per conversation
+ * Messages from the same conversation are processed one at a time, in arrival order,
+ * while different conversations keep running concurrently
+ * With a shared lock (Postgres or Redis sessions), each task also holds the conversation
+ * against the other backend instances
+ */
+export class ConversationQueue {
+  private tails: Map<string, Promise<void>> = new Map();
+
+  constructor(
+    private lock: ConversationLock | null = null,
+    private lockWaitMs: number = LOCK_WAIT_MS
+  ) {}
+
+  /**
+   * Run a task after every previously queued task for the same key has finished
+   */
+  async run<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.tails.get(key) || Promise.resolve();
+    const result = previous.then(() => (this.lock ? this.runLocked(key, task) : task()));
+
+    // A failed task must not block the rest of the conversation
+    const tail = result.then(() => undefined, () => undefined);
+    this.tails.set(key, tail);
+
+    tail.then(() => {
+      if (this.tails.get(key) === tail) {
+        this.tails.delete(key);
+      }
+    });
+
+    return result;
+  }
+
+  /**
+   * Number of conversations with pending work
+   */
+  get size(): number {
+    return this.tails.size;
+  }
+
+  /**
+   * Run the task holding the shared lock of the conversation
+   * Throws when another instance keeps it longer than lockWaitMs, so the message is retried later
+   */
+  private async runLocked<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const lock = this.lock!;
+    const token = randomUUID();
+    const waitUntil = Date.now() + this.lockWaitMs;
+
+    while (!(await lock.tryAcquire(key, token, LOCK_TTL_MS))) {
+      if (Date.now() >= waitUntil) {
+        throw new Error(`Conversation ${key} is busy in another instance`);
+      }
+      await delay(LOCK_RETRY_MS);
+    }
+
+    try {
+      return await task();
+    } finally {
+      // An unreleased lock expires on its own
+      await lock.release(key, token).catch(error => {
+        logger.warn(`Could not release the lock of conversation ${key}`, { error });
+      });
+    }
+  }
+}
@@ -0,0 +1,142 @@
+import { randomUUID } from 'crypto';
+import { Business, IncomingWhatsAppMessage } from '../../models';
+import { FakeProvider } from '../messaging';
+import { SimulatedClock } from '../../utils/clock';
+import { fromZonedTime, DEFAULT_TIMEZONE } from '../../utils/timezone';
+
+/**
+ * One customer message in a scripted conversation and what the bot must answer
+ * expect / expectNot are case-insensitive substrings of the joined replies
+ */
+export interface ConversationStep {
+  send: string;
+  now?: string;
+  expect?: string | string[];
+  expectNot?: string | string[];
+}
+
+/**
+ * A replayable conversation (JSON), e.g. for `npm run bot:chat -- --script flow.json`
+ * business, phone and now are defaults the command line can override
+ */
+export interface ConversationScript {
+  name?: string;
+  business?: string;
+  phone?: string;
+  now?: string;
+  steps: ConversationStep[];
+}
+
+export interface StepResult {
+  step: ConversationStep;
+  replies: string[];
+  failures: string[];
+}
+
+export interface ScriptResult {
+  name?: string;
+  passed: boolean;
+  steps: StepResult[];
+}
+
+/**
+ * ConversationSimulator - Drives the bot as if messages arrived from WhatsApp
+ * Replies are read from a FakeProvider; an optional simulated clock moves "now"
+ */
+export class ConversationSimulator {
+  constructor(
+    private whatsappService: { handleIncomingMessage(message: IncomingWhatsAppMessage, business?: Business): Promise<void> },
+    private provider: FakeProvider,
+    private business: Business,
+    private phone: string,
+    private clock?: SimulatedClock
+  ) {}
+
+  /**
+   * Send one customer message and return the bot's replies, oldest first
+   */
+  async send(text: string): Promise<string[]> {
+    const before = this.provider.messagesTo(this.phone).length;
+
+    await this.whatsappService.handleIncomingMessage(
+      {
+        From: this.phone,
+        To: this.business.whatsapp_phone_number || 'whatsapp:+10000000000',
+        Body: text,
+        MessageSid: `SIM${randomUUID().replace(/-/g, '')}`,
+      },
+      this.business
+    );
+
+    return this.provider.messagesTo(this.phone).slice(before).map(message => message.body);
+  }
+
+  /**
+   * Move the simulated clock
+   * Times without an offset ("2026-10-20T10:00") are wall-clock times of the business
+   */
+  setNow(value: string): Date {
+    if (!this.clock) {
+      throw new Error('This simulator has no clock to move');
+    }
+
+    const now = /([zZ]|[+-]\d{2}:\d{2})$/.test(value)
+      ? new Date(value)
+      : fromZonedTime(new Date(value), this.business.timezone || DEFAULT_TIMEZONE);
+
+    this.clock.set(now);
+    return now;
+  }
+
+  /**
+   * Replay a scripted conversation, checking every step (it does not stop at the first failure)
+   */
+  async runScript(script: ConversationScript): Promise<ScriptResult> {
+    if (script.now) {
+      this.setNow(script.now);
+    }
+
+    const steps: StepResult[] = [];
+
+    for (const step of script.steps) {
+      if (step.now) {
+        this.setNow(step.now);
+      }
+
+      const replies = await this.send(step.send);
+      steps.push({ step, replies, failures: this.check(step, replies) });
+    }
+
+    return {
+      name: script.name,
+      passed: steps.every(result => result.failures.length === 0),
+      steps,
+    };
+  }
+
+  private check(step: ConversationStep, replies: string[]): string[] {
+    const text = replies.join('\n').toLowerCase();
+    const failures: string[] = [];
+
+    for (const expected of this.toList(step.expect)) {
+      if (!text.includes(expected.toLowerCase())) {
+        failures.push(`expected a reply containing "${expected}"`);
+      }
+    }
+
+    for (const unexpected of this.toList(step.expectNot)) {
+      if (text.includes(unexpected.toLowerCase())) {
+        failures.push(`expected no reply containing "${unexpected}"`);
+      }
+    }
+
+    return failures;
+  }
+
+  private toList(value?: string | string[]): string[] {
+    if (value === undefined) {
+      return [];
+    }
+    return Array.isArray(value) ? value : [value];
+  }
+}
@@ -1,5 +1,5 @@
 import { BookingData } from './types';
-import { parseNaturalDate } from '../../utils/date-parser';
+import { DateRange, parseDateRange, parseTimeWindow } from '../../utils/date-parser';
 import { logger } from '../../config/logger';
 
 /**
@@ -12,16 +12,23 @@ export class DataExtractor {
   extractBookingData(message: string): Partial<BookingData> {
     const data: Partial<BookingData> = {};
 
-    // Extract date
-    const date = this.extractDate(message);
-    if (date) {
-      data.date = date;
+    // Extract date; a range of several days is resolved later against free slots
+    const range = this.extractDateRange(message);
+    if (range && range.start.getTime() === range.end.getTime()) {
+      data.date = range.start;
+    } else if (range) {
+      data.dateRange = range;
     }
 
-    // Extract time
-    const time = this.extractTime(message);
-    if (time) {
-      data.time = time;
+    // A time window ("a la tarde", "después de las 5") takes precedence over an exact time
+    const timeWindow = parseTimeWindow(message);
+    if (timeWindow) {
+      data.timeWindow = timeWindow;
+    } else {
+      const time = this.extractTime(message);
+      if (time) {
+        data.time = time;
+      }
     }
 
     // Extract employee name
@@ -34,13 +41,13 @@ export class DataExtractor {
   }
 
   /**
-   * Extract date from message using natural language parser
+   * Extract a date or date range from message using natural language parser
    */
-  private extractDate(message: string): Date | undefined {
+  private extractDateRange(message: string): DateRange | undefined {
     try {
-      const date = parseNaturalDate(message);
-      logger.debug('Extracted date from message:', { message, date });
-      return date ?? undefined;
+      const range = parseDateRange(message);
+      logger.debug('Extracted date range from message:', { message, range });
+      return range ?? undefined;
     } catch (error) {
       logger.debug('No valid date found in message:', message);
       return undefined;
@@ -159,6 +166,37 @@ export class DataExtractor {
     return employee;
   }
 
+  /**
+   * Find a service by name (case-insensitive, partial match)
+   */
+  findServiceByName(services: any[], name: string): any | undefined {
+    const normalizedName = name.toLowerCase().trim();
+
+    if (normalizedName.length < 3) {
+      return undefined;
+    }
+
+    return (
+      services.find(s => s.name.toLowerCase() === normalizedName) ||
+      services.find(s =>
+        s.name.toLowerCase().includes(normalizedName) ||
+        normalizedName.includes(s.name.toLowerCase())
+      )
+    );
+  }
+
+  /**
+   * Find a service mentioned anywhere in a free-text message
+   * ("quiero turno para corte y barba mañana"); longer names win
+   */
+  findServiceInMessage(services: any[], message: string): any | undefined {
+    const lower = message.toLowerCase();
+
+    return [...services]
+      .sort((a, b) => b.name.length - a.name.length)
+      .find(s => lower.includes(s.name.toLowerCase()));
+  }
+
   /**
    * Check if message is an affirmative response
    */
@@ -186,6 +224,32 @@ export class DataExtractor {
     return negatives.some(word => lower === word || lower.includes(word));
   }
 
+  /**
+   * Parse a 1-5 rating: a number, stars ("⭐⭐⭐⭐") or a word ("excelente", "muy mala")
+   */
+  extractRating(message: string): number | undefined {
+    const stars = [...message].filter(char => char === '⭐').length;
+    if (stars >= 1 && stars <= 5) {
+      return stars;
+    }
+
+    const match = message.match(/\b([1-5])\b/);
+    if (match) {
+      return parseInt(match[1]);
+    }
+
+    const lower = message.toLowerCase();
+    const words: [RegExp, number][] = [
+      [/muy (mal[ao])|p[ée]sim[ao]/, 1],
+      [/excelente|genial|perfect[ao]|muy buen[ao]/, 5],
+      [/regular|m[áa]s o menos/, 3],
+      [/mal[ao]/, 2],
+      [/buen[ao]|bien/, 4],
+    ];
+
+    return words.find(([pattern]) => pattern.test(lower))?.[1];
+  }
+
   /**
    * Parse number selection from message (1, 2, 3, etc.)
    */
@@ -0,0 +1,106 @@
+import { SessionService } from '../session.service';
+import { CustomerService } from '../customer.service';
+import { CustomerDataService } from '../customer-data.service';
+import { DataExtractor } from './DataExtractor';
+import { MessageFormatter } from './MessageFormatter';
+import { logger } from '../../config/logger';
+import { OutboundMessage } from '../messaging';
+
+// Word the customer has to type as the second confirmation
+const CONFIRMATION_WORD = 'ELIMINAR';
+
+/**
+ * ErasureHandler - Lets the customer erase their personal data from WhatsApp
+ * Asks twice: a Sí/No question and then typing ELIMINAR; anything else backs out
+ */
+export class ErasureHandler {
+  constructor(
+    private sessionService: SessionService,
+    private customerService: CustomerService,
+    private customerDataService: CustomerDataService,
+    private dataExtractor: DataExtractor,
+    private sendMessage: (phone: string, message: OutboundMessage) => Promise<void>
+  ) {}
+
+  /**
+   * The customer wrote "borrar mis datos"
+   */
+  async startErasure(phone: string): Promise<void> {
+    const customer = await this.customerService.getCustomerByPhone(phone);
+
+    if (!customer) {
+      await this.sendMessage(phone, 'No tenemos datos tuyos guardados.');
+      await this.sessionService.resetSession(phone);
+      return;
+    }
+
+    await this.sendMessage(
+      phone,
+      MessageFormatter.withYesNoButtons(MessageFormatter.formatErasureWarning(), '🗑️ Sí, borrar', '❌ No')
+    );
+    await this.sessionService.resetSession(phone);
+    await this.sessionService.updateData(phone, { customer_id: customer.id });
+    await this.sessionService.updateState(phone, 'confirming_erasure');
+  }
+
+  /**
+   * Handle the Sí/No to the first confirmation
+   */
+  async handleConfirmation(phone: string, message: string): Promise<void> {
+    try {
+      if (this.dataExtractor.isAffirmative(message)) {
+        await this.sendMessage(phone, MessageFormatter.formatErasureFinalConfirmation(CONFIRMATION_WORD));
+        await this.sessionService.updateState(phone, 'confirming_erasure_final');
+      } else if (this.dataExtractor.isNegative(message)) {
+        await this.sendMessage(phone, MessageFormatter.formatErasureCancelled());
+        await this.sessionService.resetSession(phone);
+      } else {
+        await this.sendMessage(
+          phone,
+          'Por favor responde *Sí* para borrar tus datos o *No* para conservarlos.'
+        );
+      }
+    } catch (error) {
+      logger.error('Error handling erasure confirmation:', error);
+      await this.sendMessage(phone, 'Ocurrió un error. Por favor intenta de nuevo.');
+    }
+  }
+
+  /**
+   * Handle the typed confirmation word; the session ends with the erasure
+   * The goodbye only goes out once the erasure succeeded, so a failure is never reported as done
+   */
+  async handleFinalConfirmation(phone: string, message: string): Promise<void> {
+    try {
+      if (message.trim().toUpperCase() !== CONFIRMATION_WORD) {
+        await this.sendMessage(phone, MessageFormatter.formatErasureCancelled());
+        await this.sessionService.resetSession(phone);
+        return;
+      }
+
+      const session = await this.sessionService.getOrCreateSession(phone);
+      const customerId = session.data.customer_id;
+
+      if (!customerId) {
+        await this.sendMessage(phone, 'Error: no encontramos tus datos.');
+        await this.sessionService.resetSession(phone);
+        return;
+      }
+
+      const erased = await this.customerDataService.eraseCustomer(customerId, 'whatsapp');
+
+      if (!erased) {
+        // Nothing of the customer in this business: just close the conversation
+        await this.sendMessage(phone, MessageFormatter.formatErasureCompleted());
+        await this.sessionService.resetSession(phone);
+        return;
+      }
+
+      await this.sendMessage(phone, MessageFormatter.formatErasureCompleted());
+      logger.info('Customer erased their data from WhatsApp', { customerId });
+    } catch (error) {
+      logger.error('Error erasing customer data:', error);
+      await this.sendMessage(phone, 'Ocurrió un error. Por favor intenta de nuevo.');
+    }
+  }
+}
@@ -0,0 +1,116 @@
+import { SessionService } from '../session.service';
+import { AppointmentService } from '../appointment.service';
+import { FeedbackService } from '../feedback.service';
+import { BookingHandler } from './BookingHandler';
+import { DataExtractor } from './DataExtractor';
+import { MessageFormatter } from './MessageFormatter';
+import { logger } from '../../config/logger';
+import { requestContext } from '../../core/request-context';
+import { OutboundMessage } from '../messaging';
+
+// Answers that mean "no comment"
+const NO_COMMENT = ['no', 'nada', 'no gracias', 'no, gracias', 'ninguno', 'ninguna', '-'];
+
+/**
+ * FeedbackHandler - Handles the answers to the messages sent after an appointment
+ * The rating survey (and its optional comment) and the rebooking offer after a no-show
+ */
+export class FeedbackHandler {
+  constructor(
+    private sessionService: SessionService,
+    private appointmentService: AppointmentService,
+    private feedbackService: FeedbackService,
+    private bookingHandler: BookingHandler,
+    private dataExtractor: DataExtractor,
+    private sendMessage: (phone: string, message: OutboundMessage) => Promise<void>
+  ) {}
+
+  /**
+   * Handle the 1-5 rating
+   */
+  async handleRating(phone: string, message: string): Promise<void> {
+    try {
+      const session = await this.sessionService.getOrCreateSession(phone);
+      const appointmentId = session.data.feedback_appointment_id;
+
+      if (!appointmentId) {
+        await this.sendMessage(phone, 'Error: no hay un turno para calificar.');
+        await this.sessionService.resetSession(phone);
+        return;
+      }
+
+      const rating = this.dataExtractor.extractRating(message);
+
+      if (!rating) {
+        await this.sendMessage(phone, 'Por favor responde con un número del *1* (muy mala) al *5* (excelente).');
+        return;
+      }
+
+      const appointment = await this.appointmentService.getAppointmentById(appointmentId);
+      if (!appointment) {
+        await this.sessionService.resetSession(phone);
+        return;
+      }
+
+      await this.feedbackService.recordRating(appointment, rating);
+
+      await this.sendMessage(phone, MessageFormatter.formatFeedbackCommentPrompt());
+      await this.sessionService.updateState(phone, 'commenting_feedback');
+    } catch (error) {
+      logger.error('Error handling feedback rating:', error);
+      await this.sendMessage(phone, 'Ocurrió un error. Por favor intenta de nuevo.');
+    }
+  }
+
+  /**
+   * Handle the optional comment after the rating
+   */
+  async handleComment(phone: string, message: string): Promise<void> {
+    try {
+      const session = await this.sessionService.getOrCreateSession(phone);
+      const appointmentId = session.data.feedback_appointment_id;
+      const comment = message.trim();
+
+      if (appointmentId && !NO_COMMENT.includes(comment.toLowerCase())) {
+        await this.feedbackService.addComment(appointmentId, comment);
+      }
+
+      await this.sendMessage(phone, MessageFormatter.formatFeedbackThanks());
+      await this.sessionService.resetSession(phone);
+    } catch (error) {
+      logger.error('Error handling feedback comment:', error);
+      await this.sendMessage(phone, 'Ocurrió un error. Por favor intenta de nuevo.');
+    }
+  }
+
+  /**
+   * Handle the answer to "¿Quieres reprogramar?" after a no-show
+   * "Sí" goes straight into booking, with the missed service already chosen
+   */
+  async handleRebookingReply(phone: string, message: string): Promise<void> {
+    try {
+      if (this.dataExtractor.isAffirmative(message)) {
+        const session = await this.sessionService.getOrCreateSession(phone);
+        await this.bookingHandler.startBooking(
+          phone,
+          session.data.service_name || '',
+          requestContext.getBusinessId()
+        );
+      } else if (this.dataExtractor.isNegative(message)) {
+        await this.sendMessage(
+          phone,
+          '👌 Entendido. Cuando quieras un turno nuevo, escribe "agendar".'
+        );
+        await this.sessionService.resetSession(phone);
+      } else {
+        await this.sendMessage(
+          phone,
+          'Por favor responde *Sí* para reservar un turno nuevo o *No* si por ahora no.'
+        );
+      }
+    } catch (error) {
+      logger.error('Error handling rebooking reply:', error);
+      await this.sendMessage(phone, 'Ocurrió un error. Por favor intenta de nuevo.');
+    }
+  }
+}
@@ -36,12 +36,49 @@ export class IntentDetector {
     'qué puedes hacer', 'opciones', 'commands'
   ];
 
+  private humanKeywords = [
+    'hablar con una persona', 'hablar con alguien', 'persona real',
+    'humano', 'asesor', 'operador', 'recepcionista', 'atención al cliente',
+    'talk to a person', 'human', 'agent'
+  ];
+
+  // Whole messages that ask for a person, also prefixed with a request ("quiero ...")
+  private handoffPhrases = [
+    'hablar con una persona', 'hablar con alguien', 'hablar con un humano', 'hablar con un asesor',
+    'persona real', 'una persona', 'humano', 'asesor', 'operador', 'recepcionista',
+    'atención al cliente', 'talk to a person', 'human', 'agent'
+  ];
+  private handoffPrefixes = ['', 'quiero ', 'necesito ', 'puedo ', 'me gustaría ', 'i want to ', 'i need to '];
+
+  private erasureKeywords = [
+    'borrar mis datos', 'eliminar mis datos', 'borrar datos', 'eliminar datos',
+    'delete my data', 'erase my data'
+  ];
+
+  // Numbered options shown in the welcome menu
+  private menuOptions: Record<string, IntentType> = {
+    '1': 'book',
+    '2': 'cancel',
+    '3': 'view',
+    '4': 'human',
+  };
+
   /**
    * Detect user intent from message
    */
   detectIntent(message: string): Intent {
     const lower = message.toLowerCase().trim();
 
+    // Check for a welcome menu selection
+    if (this.menuOptions[lower]) {
+      return { type: this.menuOptions[lower], confidence: 1.0 };
+    }
+
+    // Check for a request to talk to staff (before any bot flow)
+    if (this.isHumanRequest(lower) || this.matchesWords(lower, this.humanKeywords)) {
+      return { type: 'human', confidence: 0.95 };
+    }
+
     // Check for help
     if (this.matchesKeywords(lower, this.helpKeywords)) {
       return { type: 'help', confidence: 0.95 };
@@ -76,6 +113,27 @@ export class IntentDetector {
     return { type: 'unknown', confidence: 0.0 };
   }
 
+  /**
+   * Whether the whole message asks to talk to a person ("humano", "quiero hablar con alguien")
+   * Checked at any point of the conversation, so a stuck customer can always reach staff;
+   * messages that only mention staff ("la recepcionista fue muy amable") don't count
+   */
+  isHumanRequest(message: string): boolean {
+    const normalized = message.toLowerCase().replace(/[¿?¡!.,]/g, '').replace(/\s+/g, ' ').trim();
+
+    return this.handoffPhrases.some(phrase =>
+      this.handoffPrefixes.some(prefix => normalized === `${prefix}${phrase}`)
+    );
+  }
+
+  /**
+   * Whether the customer asks to erase their personal data
+   * Checked before intent detection, since "borrar"/"eliminar" alone mean cancelling
+   */
+  isErasureRequest(message: string): boolean {
+    return this.matchesKeywords(message.toLowerCase().trim(), this.erasureKeywords);
+  }
+
   /**
    * Check if message contains any of the keywords
    */
@@ -87,6 +145,13 @@ export class IntentDetector {
     });
   }
 
+  /**
+   * Check if message contains any of the keywords as whole words ("agent" doesn't match "agendar")
+   */
+  private matchesWords(message: string, keywords: string[]): boolean {
+    return keywords.some(keyword => new RegExp(`(^|[^\\p{L}])${keyword}($|[^\\p{L}])`, 'iu').test(message));
+  }
+
   /**
    * Determine if the intent is clear enough to proceed
    */
@@ -105,6 +170,7 @@ export class IntentDetector {
       reschedule: 'reprogramar un turno',
       greeting: 'saludar',
       help: 'obtener ayuda',
+      human: 'hablar con una persona',
       unknown: 'algo que no entendí'
     };
 
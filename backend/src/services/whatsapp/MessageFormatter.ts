@@ -1,5 +1,15 @@
 import { format } from 'date-fns';
 import { es } from 'date-fns/locale';
+import { InteractiveMessage, ListRow, OutboundMessage } from '../messaging';
+import { requestContext } from '../../core/request-context';
+import { formatZonedTime, toZonedTime } from '../../utils/timezone';
+
+/**
+ * date-fns format of an instant as seen in the business timezone
+ */
+function formatInZone(date: Date, pattern: string): string {
+  return format(toZonedTime(new Date(date), requestContext.getTimeZone()), pattern, { locale: es });
+}
 
 /**
  * MessageFormatter - Creates well-formatted, friendly WhatsApp messages
@@ -38,12 +48,76 @@ export class MessageFormatter {
       `Ejemplo: "Quiero turno para mañana a las 3pm"\n\n` +
       `❌ *Cancelar turno*\n` +
       `Escribe "cancelar" para ver tus turnos y elegir cuál cancelar.\n\n` +
+      `🔄 *Reprogramar turno*\n` +
+      `Escribe "cambiar turno" para moverlo a otro día u horario.\n\n` +
       `📋 *Ver turnos*\n` +
       `Escribe "mis turnos" para ver tus próximas citas.\n\n` +
+      `🙋 *Hablar con una persona*\n` +
+      `Escribe "hablar con una persona" y alguien del equipo te responderá.\n\n` +
+      `🔕 *Dejar de recibir recordatorios*\n` +
+      `Escribe "baja". Para volver a recibirlos, escribe "alta".\n\n` +
+      `🗑️ *Borrar mis datos*\n` +
+      `Escribe "borrar mis datos" y te pediremos que lo confirmes.\n\n` +
       `🔄 Para empezar de nuevo, escribe "inicio"\n`
     );
   }
 
+  /**
+   * Format service list with duration and price
+   */
+  static formatServiceList(services: any[]): string {
+    if (services.length === 0) {
+      return 'Lo siento, no hay servicios disponibles en este momento.';
+    }
+
+    const list = services
+      .map((service, index) => `${index + 1}. ${service.name} - ${this.formatServiceDetails(service)}`)
+      .join('\n');
+
+    return (
+      `¿Qué servicio necesitas?\n\n` +
+      `${list}\n\n` +
+      `Responde con el número o el nombre.`
+    );
+  }
+
+  /**
+   * Service picker as a list message, with the numbered text list as fallback
+   */
+  static formatServicePicker(services: any[]): OutboundMessage {
+    const fallback = this.formatServiceList(services);
+
+    if (services.length <= 1) {
+      return fallback;
+    }
+
+    const rows: ListRow[] = services.map((service, index) => ({
+      id: `${index + 1}`,
+      title: service.name,
+      description: this.formatServiceDetails(service),
+    }));
+
+    return {
+      type: 'list',
+      body: '¿Qué servicio necesitas?',
+      buttonText: 'Ver servicios',
+      sections: [{ title: 'Servicios', rows }],
+      fallback,
+    };
+  }
+
+  /**
+   * Duration and price of a service, e.g. "45 min · $3.500"
+   */
+  private static formatServiceDetails(service: { duration_minutes: number; price?: number | null }): string {
+    const duration = `${service.duration_minutes} min`;
+    return service.price != null ? `${duration} · ${this.formatPrice(service.price)}` : duration;
+  }
+
+  private static formatPrice(price: number): string {
+    return `$${Number(price).toLocaleString('es-AR')}`;
+  }
+
   /**
    * Format employee list
    */
@@ -72,11 +146,99 @@ export class MessageFormatter {
     );
   }
 
+  /**
+   * Employee picker as a list message, with the numbered text list as fallback
+   * Row ids are the menu numbers, so a picked row is handled like a typed number
+   */
+  static formatEmployeePicker(employees: any[]): OutboundMessage {
+    const fallback = this.formatEmployeeList(employees);
+
+    if (employees.length <= 1) {
+      return fallback;
+    }
+
+    const rows: ListRow[] = employees.map((emp, index) => ({
+      id: `${index + 1}`,
+      title: emp.name,
+      ...(emp.role && { description: emp.role }),
+    }));
+    rows.push({ id: `${employees.length + 1}`, title: '⚡ Cualquiera disponible' });
+
+    return {
+      type: 'list',
+      body: '¿Con qué profesional te gustaría agendar?',
+      buttonText: 'Ver profesionales',
+      sections: [{ title: 'Profesionales', rows }],
+      fallback,
+    };
+  }
+
+  /**
+   * Time slot picker as a list message grouped by morning/afternoon
+   * Row ids are the same numbers as in formatTimeSlots
+   * For group classes, pass the seats left per "HH:mm" to show them under each time
+   */
+  static formatTimeSlotPicker(
+    date: Date,
+    slots: string[],
+    seats?: Record<string, number>
+  ): OutboundMessage {
+    const fallback = this.formatTimeSlots(date, slots, seats);
+
+    if (slots.length === 0) {
+      return fallback;
+    }
+
+    const rows = slots.map((slot, index) => ({
+      id: `${index + 1}`,
+      title: this.formatTime(slot),
+      ...(seats?.[slot] !== undefined && { description: this.formatSeatsLeft(seats[slot]) }),
+      hour: Number(slot.split(':')[0]),
+    }));
+    const toRow = ({ id, title, description }: ListRow): ListRow =>
+      description ? { id, title, description } : { id, title };
+    const morning = rows.filter(row => row.hour < 12).map(toRow);
+    const afternoon = rows.filter(row => row.hour >= 12).map(toRow);
+
+    const sections = [
+      { title: '🌅 Mañana', rows: morning },
+      { title: '🌆 Tarde', rows: afternoon },
+    ].filter(section => section.rows.length > 0);
+
+    return {
+      type: 'list',
+      body: `Horarios disponibles para ${formatInZone(date, "EEEE d 'de' MMMM")}`,
+      buttonText: 'Ver horarios',
+      sections,
+      fallback,
+    };
+  }
+
+  /**
+   * Add Sí/No quick-reply buttons to a confirmation question
+   * Button ids are "si"/"no", so taps go through the same affirmative/negative checks
+   */
+  static withYesNoButtons(
+    text: string,
+    yesTitle: string = '✅ Sí',
+    noTitle: string = '❌ No'
+  ): InteractiveMessage {
+    return {
+      type: 'buttons',
+      body: text,
+      buttons: [
+        { id: 'si', title: yesTitle },
+        { id: 'no', title: noTitle },
+      ],
+      fallback: text,
+    };
+  }
+
   /**
    * Format available time slots
    */
-  static formatTimeSlots(date: Date, slots: string[]): string {
-    const dateStr = format(date, "EEEE d 'de' MMMM", { locale: es });
+  static formatTimeSlots(date: Date, slots: string[], seats?: Record<string, number>): string {
+    const dateStr = formatInZone(date, "EEEE d 'de' MMMM");
 
     if (slots.length === 0) {
       return `No hay horarios disponibles para ${dateStr}. ¿Quieres elegir otro día?`;
@@ -100,7 +262,7 @@ export class MessageFormatter {
     if (morning.length > 0) {
       message += `🌅 *Mañana:*\n`;
       morning.forEach((slot, i) => {
-        message += `${i + 1}. ${this.formatTime(slot)}\n`;
+        message += `${i + 1}. ${this.formatTime(slot)}${this.formatSeatsSuffix(slot, seats)}\n`;
       });
       message += '\n';
     }
@@ -110,7 +272,7 @@ export class MessageFormatter {
       afternoon.forEach((slot, i) => {
         const index = morning.length + i + 1;
         const isLast = index === slots.length;
-        message += `${index}. ${this.formatTime(slot)}${isLast ? ' ⭐ (último)' : ''}\n`;
+        message += `${index}. ${this.formatTime(slot)}${this.formatSeatsSuffix(slot, seats)}${isLast ? ' ⭐ (último)' : ''}\n`;
       });
     }
 
@@ -118,6 +280,17 @@ export class MessageFormatter {
     return message;
   }
 
+  /**
+   * "3 lugares disponibles" for a group class slot
+   */
+  private static formatSeatsLeft(seats: number): string {
+    return seats === 1 ? '1 lugar disponible' : `${seats} lugares disponibles`;
+  }
+
+  private static formatSeatsSuffix(slot: string, seats?: Record<string, number>): string {
+    return seats?.[slot] !== undefined ? ` (${this.formatSeatsLeft(seats[slot])})` : '';
+  }
+
   /**
    * Format time in 12-hour format with AM/PM
    */
@@ -135,19 +308,30 @@ export class MessageFormatter {
     date: Date;
     time: string;
     employeeName: string;
+    serviceName?: string;
+    price?: number | null;
     businessName?: string;
     businessAddress?: string;
   }): string {
-    const dateStr = format(appointment.date, "EEEE d 'de' MMMM", { locale: es });
+    const dateStr = formatInZone(appointment.date, "EEEE d 'de' MMMM");
     const timeStr = this.formatTime(appointment.time);
 
-    let message = (
-      `✅ *¿Confirmar tu turno?*\n\n` +
+    let message = `✅ *¿Confirmar tu turno?*\n\n`;
+
+    if (appointment.serviceName) {
+      message += `💇 ${appointment.serviceName}\n`;
+    }
+
+    message += (
       `📅 ${dateStr}\n` +
       `🕐 ${timeStr}\n` +
       `👤 ${appointment.employeeName}\n`
     );
 
+    if (appointment.price != null) {
+      message += `💵 ${this.formatPrice(appointment.price)}\n`;
+    }
+
     if (appointment.businessName) {
       message += `🏢 ${appointment.businessName}\n`;
     }
@@ -169,14 +353,20 @@ export class MessageFormatter {
     date: Date;
     time: string;
     employeeName: string;
+    serviceName?: string;
     businessName?: string;
     businessAddress?: string;
   }): string {
-    const dateStr = format(appointment.date, "EEEE d 'de' MMMM", { locale: es });
+    const dateStr = formatInZone(appointment.date, "EEEE d 'de' MMMM");
     const timeStr = this.formatTime(appointment.time);
 
-    let message = (
-      `✅ *¡Turno confirmado!*\n\n` +
+    let message = `✅ *¡Turno confirmado!*\n\n`;
+
+    if (appointment.serviceName) {
+      message += `💇 ${appointment.serviceName}\n`;
+    }
+
+    message += (
       `📅 ${dateStr}\n` +
       `🕐 ${timeStr}\n` +
       `👤 ${appointment.employeeName}\n`
@@ -213,12 +403,13 @@ export class MessageFormatter {
 
     appointments.forEach((apt, index) => {
       const date = new Date(apt.start_time);
-      const dateStr = format(date, "EEE d/MM", { locale: es });
-      const timeStr = format(date, "HH:mm");
+      const dateStr = formatInZone(date, "EEE d/MM");
+      const timeStr = formatInZone(date, "HH:mm");
       const status = this.getStatusEmoji(apt.status);
 
       message += (
         `${index + 1}. ${status} ${dateStr} - ${timeStr}\n` +
+        (apt.service_name ? `   💇 ${apt.service_name}\n` : '') +
         `   👤 ${apt.employee_name || 'Por asignar'}\n\n`
       );
     });
@@ -249,7 +440,7 @@ export class MessageFormatter {
     time: string;
     employeeName: string;
   }): string {
-    const dateStr = format(appointment.date, "EEEE d 'de' MMMM", { locale: es });
+    const dateStr = formatInZone(appointment.date, "EEEE d 'de' MMMM");
     const timeStr = this.formatTime(appointment.time);
 
     return (
@@ -271,6 +462,90 @@ export class MessageFormatter {
     );
   }
 
+  /**
+   * Format list of appointments the customer can reschedule
+   */
+  static formatRescheduleList(appointments: any[]): string {
+    let message = `🔄 *Reprogramar turno*\n\nTus próximos turnos:\n\n`;
+
+    appointments.forEach((apt, index) => {
+      const date = new Date(apt.start_time);
+      const dateStr = formatInZone(date, "EEE d/MM");
+      const timeStr = formatInZone(date, "HH:mm");
+
+      message += (
+        `${index + 1}. ${dateStr} - ${timeStr}\n` +
+        `   👤 ${apt.employee_name || 'Por asignar'}\n\n`
+      );
+    });
+
+    message += '¿Cuál quieres cambiar? Responde con el número.';
+
+    return message;
+  }
+
+  /**
+   * Format reschedule confirmation
+   */
+  static formatRescheduleConfirmation(appointment: {
+    previousStart?: Date;
+    date: Date;
+    time: string;
+    employeeName: string;
+  }): string {
+    const dateStr = formatInZone(appointment.date, "EEEE d 'de' MMMM");
+    const timeStr = this.formatTime(appointment.time);
+
+    let message = `🔄 *¿Confirmar el cambio de turno?*\n\n`;
+
+    if (appointment.previousStart) {
+      message += (
+        `Antes: ${this.formatDatePublic(appointment.previousStart)} - ` +
+        `${this.formatTimePublic(appointment.previousStart)}\n\n`
+      );
+    }
+
+    message += (
+      `📅 ${dateStr}\n` +
+      `🕐 ${timeStr}\n` +
+      `👤 ${appointment.employeeName}\n\n` +
+      `Responde *Sí* para confirmar el cambio o *No* para mantener el turno.`
+    );
+
+    return message;
+  }
+
+  /**
+   * Format reschedule success
+   */
+  static formatRescheduleSuccess(appointment: {
+    date: Date;
+    time: string;
+    employeeName: string;
+  }): string {
+    const dateStr = formatInZone(appointment.date, "EEEE d 'de' MMMM");
+    const timeStr = this.formatTime(appointment.time);
+
+    return (
+      `✅ *¡Turno reprogramado!*\n\n` +
+      `📅 ${dateStr}\n` +
+      `🕐 ${timeStr}\n` +
+      `👤 ${appointment.employeeName}\n\n` +
+      `Si necesitas algo más, escribe "ayuda".`
+    );
+  }
+
+  /**
+   * Format the answer when the customer already holds the maximum upcoming appointments
+   */
+  static formatBookingLimitReached(limit: number): string {
+    const turnos = limit === 1 ? 'un turno reservado' : `${limit} turnos reservados`;
+    return (
+      `📋 Ya tienes ${turnos}, que es lo máximo que podemos agendar por cliente.\n\n` +
+      `Escribe "mis turnos" para verlos, o "cancelar" o "reprogramar" si necesitas cambiar alguno.`
+    );
+  }
+
   /**
    * Format error message
    */
@@ -288,7 +563,8 @@ export class MessageFormatter {
       `• "Mañana"\n` +
       `• "Viernes"\n` +
       `• "20 de noviembre"\n` +
-      `• "Próximo lunes"\n`
+      `• "Próximo lunes"\n` +
+      `• "El finde a la tarde"\n`
     );
   }
 
@@ -302,6 +578,253 @@ export class MessageFormatter {
     );
   }
 
+  /**
+   * Format message when no day in a requested range ("el finde") has free slots
+   */
+  static formatNoSlotsInRange(start: Date, end: Date, window?: { label: string }): string {
+    const startStr = formatInZone(start, "EEEE d");
+    const endStr = formatInZone(end, "EEEE d 'de' MMMM");
+    const range = start.getTime() === end.getTime() ? `el ${endStr}` : `del ${startStr} al ${endStr}`;
+
+    return `😕 No encontré horarios libres ${range}${window ? ` ${window.label}` : ''}.`;
+  }
+
+  /**
+   * Format the waitlist offer when a day has no free slots
+   */
+  static formatWaitlistJoinOffer(date: Date, window?: { label: string }): string {
+    const dateStr = formatInZone(date, "EEEE d 'de' MMMM");
+
+    return (
+      `😕 No hay horarios disponibles para ${dateStr}${window ? ` ${window.label}` : ''}.\n\n` +
+      `¿Quieres que te anote en la lista de espera? Si se libera un lugar te aviso por acá.\n\n` +
+      `Responde *Sí* para anotarte o *No* para elegir otro día.`
+    );
+  }
+
+  /**
+   * Format waitlist join confirmation
+   */
+  static formatWaitlistJoined(date: Date): string {
+    const dateStr = formatInZone(date, "EEEE d 'de' MMMM");
+
+    return (
+      `🔔 *¡Listo!* Te anoté en la lista de espera para el ${dateStr}.\n\n` +
+      `Si se libera un lugar te escribo y tendrás unos minutos para tomarlo.`
+    );
+  }
+
+  /**
+   * Format a freed slot offered to a waitlisted customer
+   */
+  static formatWaitlistOffer(offer: {
+    date: Date;
+    time: string;
+    employeeName: string;
+    serviceName?: string;
+    minutesToClaim: number;
+  }): string {
+    const dateStr = formatInZone(offer.date, "EEEE d 'de' MMMM");
+    const timeStr = this.formatTime(offer.time);
+
+    let message = `🎉 *¡Se liberó un lugar!*\n\n`;
+
+    if (offer.serviceName) {
+      message += `💇 ${offer.serviceName}\n`;
+    }
+
+    message += (
+      `📅 ${dateStr}\n` +
+      `🕐 ${timeStr}\n` +
+      `👤 ${offer.employeeName}\n\n` +
+      `¿Lo quieres? Tienes ${offer.minutesToClaim} minutos para confirmarlo; ` +
+      `se lo ofrecí a otras personas de la lista y es para quien responda primero.`
+    );
+
+    return message;
+  }
+
+  /**
+   * Format reply when the offered slot can no longer be claimed
+   */
+  static formatWaitlistOfferUnavailable(reason: 'expired' | 'taken'): string {
+    const intro = reason === 'expired'
+      ? '⏰ Se venció el tiempo para tomar ese lugar.'
+      : '😕 Otra persona tomó ese lugar antes.';
+
+    return `${intro}\n\nSigues en la lista de espera: te aviso si se libera otro.`;
+  }
+
+  /**
+   * Format the thanks after the customer confirms from a reminder
+   */
+  static formatReminderConfirmed(): string {
+    return (
+      `✅ ¡Gracias por confirmar! Te esperamos.\n\n` +
+      `Si necesitas algo más, escribe "ayuda".`
+    );
+  }
+
+  /**
+   * Format the options after the customer answers a reminder saying they can't make it
+   * Button ids are the option numbers, so typed and tapped answers are read the same way
+   */
+  static formatReminderDeclined(): InteractiveMessage {
+    const text =
+      `😕 Qué pena. ¿Qué prefieres hacer con tu turno?\n\n` +
+      `1. ❌ Cancelarlo\n` +
+      `2. 📅 Cambiarlo de día u horario\n\n` +
+      `Responde con el número.`;
+
+    return {
+      type: 'buttons',
+      body: text,
+      buttons: [
+        { id: '1', title: '❌ Cancelarlo' },
+        { id: '2', title: '📅 Cambiar horario' },
+      ],
+      fallback: text,
+    };
+  }
+
+  /**
+   * Format reply when the reminded appointment is no longer active
+   */
+  static formatReminderAppointmentUnavailable(): string {
+    return (
+      `ℹ️ Ese turno ya no está activo.\n\n` +
+      `Escribe "mis turnos" para ver tus próximos turnos.`
+    );
+  }
+
+  /**
+   * Format the rating request sent after a completed appointment
+   * List row ids are the ratings, so typed and picked answers are read the same way
+   */
+  static formatFeedbackRequest(customerName?: string): OutboundMessage {
+    const greeting = customerName ? `¡Hola ${customerName}!` : '¡Hola!';
+    const labels = ['Muy mala', 'Mala', 'Regular', 'Buena', 'Excelente'];
+    const question = `${greeting} ¿Cómo fue tu turno de hoy? Califícalo del 1 al 5.`;
+
+    const fallback =
+      `⭐ ${question}\n\n` +
+      labels.map((label, index) => `${index + 1}. ${label}`).reverse().join('\n') +
+      `\n\nResponde con el número.`;
+
+    const rows: ListRow[] = labels
+      .map((label, index) => ({ id: `${index + 1}`, title: `${'⭐'.repeat(index + 1)} ${label}` }))
+      .reverse();
+
+    return {
+      type: 'list',
+      body: `⭐ ${question}`,
+      buttonText: 'Calificar',
+      sections: [{ title: 'Calificación', rows }],
+      fallback,
+    };
+  }
+
+  /**
+   * Format the request for an optional comment after the rating
+   */
+  static formatFeedbackCommentPrompt(): string {
+    return (
+      `¡Gracias por tu calificación! 🙌\n\n` +
+      `¿Quieres contarnos algo más? Escríbelo en un mensaje, o responde *No*.`
+    );
+  }
+
+  /**
+   * Format the thanks once the feedback is complete
+   */
+  static formatFeedbackThanks(): string {
+    return `🙏 ¡Gracias por tu opinión! Nos ayuda a mejorar.`;
+  }
+
+  /**
+   * Format the outreach after a missed appointment, with Sí/No buttons
+   */
+  static formatNoShowFollowUp(customerName?: string, serviceName?: string): InteractiveMessage {
+    const greeting = customerName ? `👋 Hola ${customerName}` : '👋 Hola';
+    const service = serviceName ? ` para ${serviceName}` : '';
+
+    return this.withYesNoButtons(
+      `${greeting}, hoy te esperábamos${service} y no pudiste venir.\n\n` +
+      `¿Quieres reprogramar tu turno?`,
+      '📅 Sí, reprogramar',
+      'No, gracias'
+    );
+  }
+
+  /**
+   * Format message sent when the customer asks for a person
+   */
+  static formatTakeoverRequested(): string {
+    return (
+      `🙋 Te comunico con una persona del equipo.\n\n` +
+      `Te responderán por este mismo chat lo antes posible.`
+    );
+  }
+
+  /**
+   * Format the confirmation after the customer writes BAJA/STOP
+   */
+  static formatOptOutConfirmed(): string {
+    return (
+      `🔕 Listo, no te enviaremos más recordatorios ni mensajes.\n\n` +
+      `Puedes seguir escribiéndonos cuando quieras. Para volver a recibirlos, escribe "alta".`
+    );
+  }
+
+  /**
+   * Format the confirmation after the customer writes ALTA/START
+   */
+  static formatOptInConfirmed(): string {
+    return (
+      `🔔 ¡Listo! Vas a volver a recibir recordatorios y avisos de tus turnos.\n\n` +
+      `Si ya no quieres recibirlos, escribe "baja".`
+    );
+  }
+
+  /**
+   * Format the first confirmation after the customer asks to erase their data
+   */
+  static formatErasureWarning(): string {
+    return (
+      `⚠️ Vas a borrar tus datos personales: nombre, teléfono, mensajes y comentarios.\n\n` +
+      `Tus turnos futuros no se cancelan, pero dejaremos de enviarte recordatorios ` +
+      `y no podremos recuperar tus datos.\n\n` +
+      `¿Quieres continuar?`
+    );
+  }
+
+  /**
+   * Format the second, final confirmation of the erasure
+   */
+  static formatErasureFinalConfirmation(confirmationWord: string): string {
+    return (
+      `Para confirmar, escribe *${confirmationWord}*.\n\n` +
+      `Cualquier otra respuesta cancela el pedido.`
+    );
+  }
+
+  /**
+   * Format the goodbye after erasing the customer's data
+   */
+  static formatErasureCompleted(): string {
+    return (
+      `🗑️ Listo, borramos tus datos personales. Este es nuestro último mensaje.\n\n` +
+      `Si vuelves a escribirnos te trataremos como un cliente nuevo.`
+    );
+  }
+
+  /**
+   * Format the message when the customer backs out of the erasure
+   */
+  static formatErasureCancelled(): string {
+    return '👌 No borramos nada. Tus datos siguen guardados.';
+  }
+
   /**
    * Format "I don't understand" message
    */
@@ -311,6 +834,7 @@ export class MessageFormatter {
       `Puedo ayudarte a:\n` +
       `• Agendar un turno (escribe "agendar")\n` +
       `• Cancelar un turno (escribe "cancelar")\n` +
+      `• Reprogramar un turno (escribe "cambiar turno")\n` +
       `• Ver tus turnos (escribe "mis turnos")\n\n` +
       `¿Qué necesitas?`
     );
@@ -320,16 +844,13 @@ export class MessageFormatter {
    * Public method: Format date for messages
    */
   static formatDatePublic(date: Date): string {
-    return format(date, "EEEE d 'de' MMMM", { locale: es });
+    return formatInZone(date, "EEEE d 'de' MMMM");
   }
 
   /**
    * Public method: Format time for messages
    */
   static formatTimePublic(date: Date): string {
-    const hours = date.getHours();
-    const minutes = date.getMinutes();
-    const time = `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
-    return this.formatTime(time);
+    return this.formatTime(formatZonedTime(date, requestContext.getTimeZone()));
   }
 }
@@ -0,0 +1,113 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { logger } from '../../config/logger';
+
+/**
+ * Claims left in "processing" longer than this are considered abandoned (e.g. crash mid-message)
+ */
+const STALE_CLAIM_MS = 5 * 60 * 1000;
+
+/**
+ * ProcessedMessageLedger - Records handled inbound MessageSids in whatsapp_processed_messages
+ * Guarantees each provider message is processed once, even across instances and webhook retries
+ */
+export class ProcessedMessageLedger {
+  private readonly tableName = 'whatsapp_processed_messages';
+
+  constructor(private supabase: SupabaseClient) {}
+
+  /**
+   * Claim a message for processing
+   * Returns false if it was already processed or is being processed elsewhere
+   */
+  async claim(messageSid: string, businessId: string, phone: string): Promise<boolean> {
+    try {
+      const { error } = await this.supabase
+        .from(this.tableName)
+        .insert({
+          message_sid: messageSid,
+          business_id: businessId,
+          phone,
+          status: 'processing',
+        });
+
+      if (!error) {
+        return true;
+      }
+
+      // Unique violation: the message was seen before
+      if (error.code === '23505') {
+        return this.takeOverStaleClaim(messageSid);
+      }
+
+      throw error;
+    } catch (error) {
+      logger.error('Error in ProcessedMessageLedger.claim:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Mark a claimed message as processed
+   */
+  async markProcessed(messageSid: string): Promise<void> {
+    try {
+      const { error } = await this.supabase
+        .from(this.tableName)
+        .update({ status: 'processed', processed_at: new Date().toISOString() })
+        .eq('message_sid', messageSid);
+
+      if (error) {
+        throw error;
+      }
+    } catch (error) {
+      logger.error('Error in ProcessedMessageLedger.markProcessed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Release a claim so a provider retry can process the message again
+   */
+  async release(messageSid: string): Promise<void> {
+    try {
+      const { error } = await this.supabase
+        .from(this.tableName)
+        .delete()
+        .eq('message_sid', messageSid)
+        .eq('status', 'processing');
+
+      if (error) {
+        throw error;
+      }
+    } catch (error) {
+      logger.error('Error in ProcessedMessageLedger.release:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Take over a claim whose processing was abandoned
+   */
+  private async takeOverStaleClaim(messageSid: string): Promise<boolean> {
+    const staleBefore = new Date(Date.now() - STALE_CLAIM_MS).toISOString();
+
+    const { data, error } = await this.supabase
+      .from(this.tableName)
+      .update({ created_at: new Date().toISOString() })
+      .eq('message_sid', messageSid)
+      .eq('status', 'processing')
+      .lt('created_at', staleBefore)
+      .select('message_sid');
+
+    if (error) {
+      throw error;
+    }
+
+    const takenOver = (data?.length || 0) > 0;
+    if (takenOver) {
+      logger.warn(`Reprocessing abandoned message ${messageSid}`);
+    }
+
+    return takenOver;
+  }
+}
@@ -0,0 +1,116 @@
+import { SessionService } from '../session.service';
+import { AppointmentService } from '../appointment.service';
+import { DataExtractor } from './DataExtractor';
+import { MessageFormatter } from './MessageFormatter';
+import { CancellationHandler } from './CancellationHandler';
+import { RescheduleHandler } from './RescheduleHandler';
+import { logger } from '../../config/logger';
+import { Appointment } from '../../models';
+import { OutboundMessage } from '../messaging';
+
+/**
+ * ReminderHandler - Handles the answer to an appointment reminder
+ * "Sí" confirms the appointment; "No" offers to cancel or move that same appointment
+ */
+export class ReminderHandler {
+  constructor(
+    private sessionService: SessionService,
+    private appointmentService: AppointmentService,
+    private cancellationHandler: CancellationHandler,
+    private rescheduleHandler: RescheduleHandler,
+    private dataExtractor: DataExtractor,
+    private sendMessage: (phone: string, message: OutboundMessage) => Promise<void>
+  ) {}
+
+  /**
+   * Handle the reply to the reminder
+   */
+  async handleReminderReply(phone: string, message: string): Promise<void> {
+    try {
+      const appointment = await this.getRemindedAppointment(phone);
+      if (!appointment) {
+        return;
+      }
+
+      if (this.dataExtractor.isAffirmative(message)) {
+        await this.appointmentService.confirmAppointment(appointment.id!);
+        await this.appointmentService.recordReminderResponse(appointment.id!, 'confirmed');
+        logger.info('Appointment confirmed from reminder', { appointmentId: appointment.id });
+
+        await this.sendMessage(phone, MessageFormatter.formatReminderConfirmed());
+        await this.sessionService.resetSession(phone);
+      } else if (this.dataExtractor.isNegative(message)) {
+        await this.appointmentService.recordReminderResponse(appointment.id!, 'declined');
+        logger.info('Customer cannot make it to the reminded appointment', { appointmentId: appointment.id });
+
+        await this.sendMessage(phone, MessageFormatter.formatReminderDeclined());
+        await this.sessionService.updateState(phone, 'reminder_declined');
+      } else {
+        await this.sendMessage(
+          phone,
+          'Por favor responde *Sí* para confirmar tu turno o *No* si no puedes ir.'
+        );
+      }
+    } catch (error) {
+      logger.error('Error handling reminder reply:', error);
+      await this.sendMessage(phone, 'Ocurrió un error. Por favor intenta de nuevo.');
+    }
+  }
+
+  /**
+   * Handle the choice after "No": cancel the appointment or move it
+   */
+  async handleDeclinedChoice(phone: string, message: string): Promise<void> {
+    try {
+      const appointment = await this.getRemindedAppointment(phone);
+      if (!appointment) {
+        return;
+      }
+
+      const lower = message.toLowerCase();
+      const selection = this.dataExtractor.extractSelection(message, 2);
+
+      if (selection === 1 || lower.includes('cancel')) {
+        await this.cancellationHandler.askForConfirmation(phone, appointment);
+      } else if (selection === 2 || lower.includes('cambi') || lower.includes('reprogram')) {
+        // The reschedule confirmation looks the original appointment up in the session
+        await this.sessionService.updateData(phone, { appointments: [appointment] });
+        await this.rescheduleHandler.askForNewDate(phone, appointment);
+      } else {
+        await this.sendMessage(
+          phone,
+          'Por favor responde *1* para cancelar el turno o *2* para cambiarlo de horario.'
+        );
+      }
+    } catch (error) {
+      logger.error('Error handling reminder decline choice:', error);
+      await this.sendMessage(phone, 'Ocurrió un error. Por favor intenta de nuevo.');
+    }
+  }
+
+  /**
+   * The appointment the reminder was about, while it is still pending or confirmed
+   * Otherwise tells the customer and resets the session
+   */
+  private async getRemindedAppointment(phone: string): Promise<Appointment | null> {
+    const session = await this.sessionService.getOrCreateSession(phone);
+    const appointmentId = session.data.reminder_appointment_id;
+
+    if (!appointmentId) {
+      await this.sendMessage(phone, 'Error: no hay un turno para confirmar.');
+      await this.sessionService.resetSession(phone);
+      return null;
+    }
+
+    const appointment = await this.appointmentService.getAppointmentById(appointmentId);
+
+    if (!appointment || !['pending', 'confirmed'].includes(appointment.status)) {
+      await this.sendMessage(phone, MessageFormatter.formatReminderAppointmentUnavailable());
+      await this.sessionService.resetSession(phone);
+      return null;
+    }
+
+    // Name shown in the cancel/reschedule messages, kept from the reminder
+    return { ...appointment, employee_name: session.data.employee_name || null };
+  }
+}
@@ -0,0 +1,385 @@
+import { SessionService } from '../session.service';
+import { AppointmentService } from '../appointment.service';
+import { Appointment } from '../../models';
+import { AvailabilityService } from '../availability.service';
+import { DataExtractor } from './DataExtractor';
+import { ValidationService } from './ValidationService';
+import { MessageFormatter } from './MessageFormatter';
+import { ConflictError } from '../../core/errors';
+import { requestContext } from '../../core/request-context';
+import { formatZonedTime, setZonedTime } from '../../utils/timezone';
+import { logger } from '../../config/logger';
+import { OutboundMessage } from '../messaging';
+
+/**
+ * RescheduleHandler - Handles moving an existing appointment to a new date/time
+ */
+export class RescheduleHandler {
+  constructor(
+    private sessionService: SessionService,
+    private appointmentService: AppointmentService,
+    private availabilityService: AvailabilityService,
+    private dataExtractor: DataExtractor,
+    private validationService: ValidationService,
+    private sendMessage: (phone: string, message: OutboundMessage) => Promise<void>
+  ) {}
+
+  /**
+   * Start reschedule flow
+   * Shows user's upcoming appointments
+   */
+  async startReschedule(phone: string, customerId: string): Promise<void> {
+    try {
+      logger.info('Starting reschedule flow', { phone, customerId });
+
+      const appointments = await this.appointmentService.getAppointmentsByCustomer(customerId);
+
+      // Only upcoming, active appointments can be moved
+      const now = new Date();
+      const upcomingAppointments = appointments.filter(apt => {
+        const startTime = new Date(apt.start_time);
+        return startTime > now && (apt.status === 'confirmed' || apt.status === 'pending');
+      });
+
+      if (upcomingAppointments.length === 0) {
+        await this.sendMessage(
+          phone,
+          'No tienes turnos próximos para reprogramar.\n\n' +
+          '¿Quieres agendar un turno nuevo? Escribe "agendar".'
+        );
+        await this.sessionService.resetSession(phone);
+        return;
+      }
+
+      await this.sendMessage(phone, MessageFormatter.formatRescheduleList(upcomingAppointments));
+
+      await this.sessionService.updateData(phone, { appointments: upcomingAppointments });
+      await this.sessionService.updateState(phone, 'rescheduling');
+    } catch (error) {
+      logger.error('Error starting reschedule:', error);
+      await this.sendMessage(
+        phone,
+        'Ocurrió un error al obtener tus turnos. Por favor intenta de nuevo.'
+      );
+      await this.sessionService.resetSession(phone);
+    }
+  }
+
+  /**
+   * Handle appointment selection for rescheduling
+   */
+  async handleAppointmentSelection(phone: string, message: string): Promise<void> {
+    try {
+      const session = await this.sessionService.getOrCreateSession(phone);
+      const appointments = session.data.appointments || [];
+
+      if (appointments.length === 0) {
+        await this.sendMessage(phone, 'Error: no hay turnos disponibles.');
+        await this.sessionService.resetSession(phone);
+        return;
+      }
+
+      const selection = this.dataExtractor.extractSelection(message, appointments.length);
+
+      if (!selection || selection < 1 || selection > appointments.length) {
+        await this.sendMessage(
+          phone,
+          `Por favor selecciona un número del 1 al ${appointments.length}.`
+        );
+        return;
+      }
+
+      await this.askForNewDate(phone, appointments[selection - 1]);
+    } catch (error) {
+      logger.error('Error handling reschedule selection:', error);
+      await this.sendMessage(phone, 'Ocurrió un error. Por favor intenta de nuevo.');
+    }
+  }
+
+  /**
+   * Start moving a specific appointment: ask for the new date
+   * Also the entry point when the customer answers a reminder saying they can't make it
+   */
+  async askForNewDate(phone: string, appointment: Appointment): Promise<void> {
+    // Too close to the start for the business cancellation cutoff
+    const cutoffValidation = this.validationService.validateCancellation(
+      new Date(appointment.start_time)
+    );
+    if (!cutoffValidation.valid) {
+      await this.sendMessage(phone, MessageFormatter.formatError(cutoffValidation.error!));
+      await this.sessionService.resetSession(phone);
+      return;
+    }
+
+    // Keep the original duration so the new slot fits the same service
+    const duration = Math.round(
+      (new Date(appointment.end_time).getTime() -
+        new Date(appointment.start_time).getTime()) / 60000
+    );
+
+    await this.sessionService.updateData(phone, {
+      pending_reschedule_id: appointment.id,
+      employee_id: appointment.employee_id,
+      employee_name: appointment.employee_name || 'Por asignar',
+      duration,
+    });
+    await this.sessionService.updateState(phone, 'rescheduling_date');
+
+    await this.sendMessage(phone, MessageFormatter.formatAskForDate());
+  }
+
+  /**
+   * Handle the new date for the appointment
+   */
+  async handleDateSelection(phone: string, message: string): Promise<void> {
+    try {
+      const session = await this.sessionService.getOrCreateSession(phone);
+      const { employee_id: employeeId, duration } = session.data;
+
+      if (!employeeId) {
+        await this.sendMessage(phone, 'Error: no hay turno seleccionado.');
+        await this.sessionService.resetSession(phone);
+        return;
+      }
+
+      const extracted = this.dataExtractor.extractBookingData(message);
+      // "el finde" moves to the first day of the range
+      const date = extracted.date ?? extracted.dateRange?.start;
+
+      if (!date) {
+        await this.sendMessage(
+          phone,
+          MessageFormatter.formatError(
+            'No pude entender la fecha. Intenta con: "mañana", "viernes", "20 de noviembre", etc.'
+          )
+        );
+        return;
+      }
+
+      const validation = this.validationService.validateDate(date);
+      if (!validation.valid) {
+        await this.sendMessage(phone, MessageFormatter.formatError(validation.error!));
+        return;
+      }
+
+      const slots = await this.getAvailableSlots(employeeId, date, duration);
+
+      if (slots.length === 0) {
+        // Stay in this step so the customer can try another day
+        await this.sendMessage(phone, MessageFormatter.formatTimeSlotPicker(date, slots));
+        return;
+      }
+
+      await this.sessionService.updateData(phone, {
+        selected_date: date.toISOString(),
+        available_slots: slots,
+      });
+
+      // The customer may have sent the time along with the date ("el viernes a las 10")
+      if (extracted.time && slots.includes(extracted.time)) {
+        await this.askForConfirmation(phone, extracted.time);
+        return;
+      }
+
+      await this.sessionService.updateState(phone, 'rescheduling_time');
+      await this.sendMessage(phone, MessageFormatter.formatTimeSlotPicker(date, slots));
+    } catch (error) {
+      logger.error('Error handling reschedule date:', error);
+      await this.sendMessage(phone, 'Ocurrió un error. Por favor intenta de nuevo.');
+    }
+  }
+
+  /**
+   * Handle the new time for the appointment
+   */
+  async handleTimeSelection(phone: string, message: string): Promise<void> {
+    try {
+      const session = await this.sessionService.getOrCreateSession(phone);
+      const slots: string[] = session.data.available_slots || [];
+
+      if (slots.length === 0) {
+        await this.sessionService.updateState(phone, 'rescheduling_date');
+        await this.sendMessage(phone, MessageFormatter.formatAskForDate());
+        return;
+      }
+
+      // A different day restarts the time selection
+      const extracted = this.dataExtractor.extractBookingData(message);
+      if (extracted.date) {
+        await this.handleDateSelection(phone, message);
+        return;
+      }
+
+      let time: string | undefined;
+
+      if (extracted.time) {
+        if (!slots.includes(extracted.time)) {
+          await this.sendMessage(
+            phone,
+            'Ese horario no está disponible. Por favor elige uno del listado.'
+          );
+          return;
+        }
+        time = extracted.time;
+      } else {
+        const selection = this.dataExtractor.extractSelection(message, slots.length);
+        if (selection) {
+          time = slots[selection - 1];
+        }
+      }
+
+      if (!time) {
+        await this.sendMessage(
+          phone,
+          'Por favor elige un horario del listado o escribe una hora específica.'
+        );
+        return;
+      }
+
+      await this.askForConfirmation(phone, time);
+    } catch (error) {
+      logger.error('Error handling reschedule time:', error);
+      await this.sendMessage(phone, 'Ocurrió un error. Por favor intenta de nuevo.');
+    }
+  }
+
+  /**
+   * Handle reschedule confirmation
+   */
+  async handleRescheduleConfirmation(phone: string, message: string): Promise<void> {
+    try {
+      const session = await this.sessionService.getOrCreateSession(phone);
+      const {
+        pending_reschedule_id: appointmentId,
+        selected_date: selectedDate,
+        selected_time: selectedTime,
+      } = session.data;
+
+      if (!appointmentId || !selectedDate || !selectedTime) {
+        await this.sendMessage(phone, 'Error: datos de reprogramación incompletos.');
+        await this.sessionService.resetSession(phone);
+        return;
+      }
+
+      if (this.dataExtractor.isAffirmative(message)) {
+        await this.rescheduleAppointment(phone, appointmentId, new Date(selectedDate), selectedTime);
+      } else if (this.dataExtractor.isNegative(message)) {
+        await this.sendMessage(
+          phone,
+          '✅ Tu turno se mantiene en el horario original.\n\n' +
+          'Si necesitas algo más, escribe "ayuda".'
+        );
+        await this.sessionService.resetSession(phone);
+      } else {
+        await this.sendMessage(
+          phone,
+          'Por favor responde *Sí* para confirmar el cambio o *No* para mantener el turno.'
+        );
+      }
+    } catch (error) {
+      logger.error('Error handling reschedule confirmation:', error);
+      await this.sendMessage(phone, 'Ocurrió un error. Por favor intenta de nuevo.');
+    }
+  }
+
+  /**
+   * Store the chosen time and ask the customer to confirm the change
+   */
+  private async askForConfirmation(phone: string, time: string): Promise<void> {
+    const session = await this.sessionService.getOrCreateSession(phone);
+    const appointments = session.data.appointments || [];
+    const original = appointments.find(
+      (apt: any) => apt.id === session.data.pending_reschedule_id
+    );
+
+    await this.sessionService.updateData(phone, { selected_time: time });
+    await this.sessionService.updateState(phone, 'confirming_reschedule');
+
+    await this.sendMessage(
+      phone,
+      MessageFormatter.withYesNoButtons(
+        MessageFormatter.formatRescheduleConfirmation({
+          previousStart: original ? new Date(original.start_time) : undefined,
+          date: new Date(session.data.selected_date!),
+          time,
+          employeeName: session.data.employee_name || 'Por asignar',
+        }),
+        'Sí, cambiar',
+        'No, mantener'
+      )
+    );
+  }
+
+  /**
+   * Move the appointment to the new slot
+   */
+  private async rescheduleAppointment(
+    phone: string,
+    appointmentId: string,
+    date: Date,
+    time: string
+  ): Promise<void> {
+    const session = await this.sessionService.getOrCreateSession(phone);
+    const duration = session.data.duration || 60;
+
+    const startTime = setZonedTime(new Date(date), time, requestContext.getTimeZone());
+    const endTime = new Date(startTime.getTime() + duration * 60000);
+
+    try {
+      await this.appointmentService.update(appointmentId, {
+        start_time: startTime.toISOString(),
+        end_time: endTime.toISOString(),
+      });
+
+      logger.info('Appointment rescheduled successfully', { appointmentId });
+
+      await this.sendMessage(
+        phone,
+        MessageFormatter.formatRescheduleSuccess({
+          date: startTime,
+          time,
+          employeeName: session.data.employee_name || 'Por asignar',
+        })
+      );
+      await this.sessionService.resetSession(phone);
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        // Someone else took the slot while the customer was deciding
+        const slots = await this.getAvailableSlots(session.data.employee_id!, date, duration);
+        await this.sessionService.updateData(phone, { available_slots: slots });
+        await this.sessionService.updateState(phone, 'rescheduling_time');
+        await this.sendMessage(
+          phone,
+          'Lo siento, ese horario acaba de ser reservado. ' +
+          MessageFormatter.formatTimeSlots(date, slots)
+        );
+        return;
+      }
+
+      logger.error('Error rescheduling appointment:', error);
+      await this.sendMessage(
+        phone,
+        'Ocurrió un error al reprogramar el turno. Por favor intenta de nuevo o contacta con nosotros.'
+      );
+      await this.sessionService.resetSession(phone);
+    }
+  }
+
+  /**
+   * Get available time slots as "HH:mm" strings
+   */
+  private async getAvailableSlots(
+    employeeId: string,
+    date: Date,
+    duration: number = 60
+  ): Promise<string[]> {
+    try {
+      const slots = await this.availabilityService.getAvailableSlots(employeeId, date, duration);
+      const timeZone = requestContext.getTimeZone();
+      return slots.map(slot => formatZonedTime(new Date(slot.start_time), timeZone));
+    } catch (error) {
+      logger.error('Error getting available slots:', error);
+      return [];
+    }
+  }
+}
@@ -1,9 +1,12 @@
 import { ValidationResult } from './types';
 import { logger } from '../../config/logger';
 import { isValidAppointmentDate } from '../../utils/date-parser';
+import { addZonedDays, setZonedTime, startOfZonedDay } from '../../utils/timezone';
+import { requestContext } from '../../core/request-context';
 
 /**
  * ValidationService - Validates dates, times, and other booking data
+ * Notice, booking window and cancellation cutoff come from the business booking policy
  */
 export class ValidationService {
   /**
@@ -19,11 +22,10 @@ export class ValidationService {
         };
       }
 
-      // Check if date is not in the past
-      const now = new Date();
-      now.setHours(0, 0, 0, 0);
-      const targetDate = new Date(date);
-      targetDate.setHours(0, 0, 0, 0);
+      // Check if date is not in the past (days start at midnight in the business timezone)
+      const timeZone = requestContext.getTimeZone();
+      const now = startOfZonedDay(new Date(), timeZone);
+      const targetDate = startOfZonedDay(date, timeZone);
 
       if (targetDate < now) {
         return {
@@ -32,22 +34,22 @@ export class ValidationService {
         };
       }
 
-      // Check if date is too far in the future (e.g., more than 3 months)
-      const threeMonthsFromNow = new Date();
-      threeMonthsFromNow.setMonth(threeMonthsFromNow.getMonth() + 3);
+      // Check if date is beyond the booking window
+      const { max_advance_days: maxAdvanceDays } = requestContext.getBookingPolicy();
+      const lastDay = addZonedDays(now, maxAdvanceDays, timeZone);
 
-      if (targetDate > threeMonthsFromNow) {
+      if (targetDate > lastDay) {
         return {
           valid: false,
-          error: 'Solo puedo agendar hasta 3 meses adelante. ¿Quieres elegir otra fecha?'
+          error: `Solo puedo agendar hasta ${maxAdvanceDays} días adelante. ¿Quieres elegir otra fecha?`
         };
       }
 
-      // Use existing validation
-      if (!isValidAppointmentDate(date)) {
+      const appointmentDate = isValidAppointmentDate(date, timeZone, maxAdvanceDays);
+      if (!appointmentDate.valid) {
         return {
           valid: false,
-          error: 'Esa fecha no está disponible. Por favor elige otra fecha.'
+          error: appointmentDate.error
         };
       }
 
@@ -86,12 +88,11 @@ export class ValidationService {
         };
       }
 
-      // Check business hours if provided
+      // Check business hours if provided (the appointment has to start before closing)
       if (businessHours) {
-        const [startHour] = businessHours.start.split(':').map(Number);
-        const [endHour] = businessHours.end.split(':').map(Number);
+        const minute = hours * 60 + minutes;
 
-        if (hours < startHour || hours >= endHour) {
+        if (minute < this.toMinutes(businessHours.start) || minute >= this.toMinutes(businessHours.end)) {
           return {
             valid: false,
             error: `Nuestro horario de atención es de ${businessHours.start} a ${businessHours.end}. ¿Qué hora te viene bien?`
@@ -117,9 +118,7 @@ export class ValidationService {
    */
   validateDateTime(date: Date, time: string): ValidationResult {
     try {
-      const [hours, minutes] = time.split(':').map(Number);
-      const appointmentDateTime = new Date(date);
-      appointmentDateTime.setHours(hours, minutes, 0, 0);
+      const appointmentDateTime = setZonedTime(new Date(date), time, requestContext.getTimeZone());
 
       const now = new Date();
 
@@ -130,12 +129,13 @@ export class ValidationService {
         };
       }
 
-      // Check if it's too soon (e.g., less than 1 hour from now)
-      const oneHourFromNow = new Date(now.getTime() + 60 * 60 * 1000);
-      if (appointmentDateTime < oneHourFromNow) {
+      // Check if it's too soon for the business minimum notice
+      const { min_notice_minutes: minNotice } = requestContext.getBookingPolicy();
+      const earliest = new Date(now.getTime() + minNotice * 60 * 1000);
+      if (appointmentDateTime < earliest) {
         return {
           valid: false,
-          error: 'Necesito al menos 1 hora de anticipación. ¿Puedes elegir otro horario?'
+          error: `Necesito al menos ${this.formatMinutes(minNotice)} de anticipación. ¿Puedes elegir otro horario?`
         };
       }
 
@@ -152,6 +152,26 @@ export class ValidationService {
     }
   }
 
+  /**
+   * Validate that an appointment can still be cancelled or rescheduled by the customer
+   */
+  validateCancellation(startTime: Date): ValidationResult {
+    const { cancellation_cutoff_hours: cutoffHours } = requestContext.getBookingPolicy();
+    const cutoff = new Date(startTime.getTime() - cutoffHours * 60 * 60 * 1000);
+
+    if (cutoffHours > 0 && new Date() > cutoff) {
+      return {
+        valid: false,
+        error: `Los turnos se pueden cambiar o cancelar hasta ${this.formatMinutes(cutoffHours * 60)} antes del horario. Para este turno ya no es posible.`
+      };
+    }
+
+    return {
+      valid: true,
+      normalized: startTime
+    };
+  }
+
   /**
    * Validate employee selection
    */
@@ -212,4 +232,23 @@ export class ValidationService {
       };
     }
   }
+
+  /**
+   * Helper: "HH:mm" as minutes since midnight
+   */
+  private toMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + (minutes || 0);
+  }
+
+  /**
+   * Helper: "30 minutos", "1 hora", "24 horas"
+   */
+  private formatMinutes(minutes: number): string {
+    if (minutes % 60 !== 0) {
+      return `${Math.round(minutes)} minutos`;
+    }
+    const hours = minutes / 60;
+    return hours === 1 ? '1 hora' : `${hours} horas`;
+  }
 }
@@ -2,6 +2,7 @@ import { SessionService } from '../session.service';
 import { AppointmentService } from '../appointment.service';
 import { MessageFormatter } from './MessageFormatter';
 import { logger } from '../../config/logger';
+import { OutboundMessage } from '../messaging';
 
 /**
  * ViewHandler - Handles viewing user's appointments
@@ -10,7 +11,7 @@ export class ViewHandler {
   constructor(
     private sessionService: SessionService,
     private appointmentService: AppointmentService,
-    private sendMessage: (phone: string, message: string) => Promise<void>
+    private sendMessage: (phone: string, message: OutboundMessage) => Promise<void>
   ) {}
 
   /**
@@ -42,14 +43,14 @@ export class ViewHandler {
       await this.sendMessage(phone, message);
 
       // Reset session
-      this.sessionService.resetSession(phone);
+      await this.sessionService.resetSession(phone);
     } catch (error) {
       logger.error('Error showing appointments:', error);
       await this.sendMessage(
         phone,
         'Ocurrió un error al obtener tus turnos. Por favor intenta de nuevo.'
       );
-      this.sessionService.resetSession(phone);
+      await this.sessionService.resetSession(phone);
     }
   }
 }
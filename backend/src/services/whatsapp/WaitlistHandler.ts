@@ -0,0 +1,86 @@
+import { SessionService } from '../session.service';
+import { EmployeeService } from '../employee.service';
+import { WaitlistService } from '../waitlist.service';
+import { DataExtractor } from './DataExtractor';
+import { MessageFormatter } from './MessageFormatter';
+import { logger } from '../../config/logger';
+import { requestContext } from '../../core/request-context';
+import { formatZonedTime } from '../../utils/timezone';
+import { OutboundMessage } from '../messaging';
+
+/**
+ * WaitlistHandler - Handles the answer to a freed slot offered from the waitlist
+ */
+export class WaitlistHandler {
+  constructor(
+    private sessionService: SessionService,
+    private employeeService: EmployeeService,
+    private waitlistService: WaitlistService,
+    private dataExtractor: DataExtractor,
+    private sendMessage: (phone: string, message: OutboundMessage) => Promise<void>
+  ) {}
+
+  /**
+   * Handle claim response
+   */
+  async handleClaimResponse(phone: string, message: string): Promise<void> {
+    try {
+      const session = await this.sessionService.getOrCreateSession(phone);
+      const entryId = session.data.pending_waitlist_entry_id;
+
+      if (!entryId) {
+        await this.sendMessage(phone, 'Error: no hay un lugar ofrecido.');
+        await this.sessionService.resetSession(phone);
+        return;
+      }
+
+      if (this.dataExtractor.isAffirmative(message)) {
+        await this.claim(phone, entryId);
+      } else if (this.dataExtractor.isNegative(message)) {
+        await this.waitlistService.declineOffer(entryId);
+        await this.sendMessage(
+          phone,
+          '👌 Entendido, sigues en la lista de espera.\n\n' +
+          'Si necesitas algo más, escribe "ayuda".'
+        );
+        await this.sessionService.resetSession(phone);
+      } else {
+        await this.sendMessage(
+          phone,
+          'Por favor responde *Sí* para tomar el lugar o *No* para dejarlo pasar.'
+        );
+      }
+    } catch (error) {
+      logger.error('Error handling waitlist claim:', error);
+      await this.sendMessage(phone, 'Ocurrió un error. Por favor intenta de nuevo.');
+    }
+  }
+
+  /**
+   * Book the offered slot, unless it expired or someone else took it
+   */
+  private async claim(phone: string, entryId: string): Promise<void> {
+    const result = await this.waitlistService.claimOffer(entryId);
+
+    if (result.status !== 'booked') {
+      await this.sendMessage(phone, MessageFormatter.formatWaitlistOfferUnavailable(result.status));
+      await this.sessionService.resetSession(phone);
+      return;
+    }
+
+    const { appointment } = result;
+    const startTime = new Date(appointment.start_time);
+    const employee = await this.employeeService.getById(appointment.employee_id).catch(() => null);
+
+    await this.sendMessage(
+      phone,
+      MessageFormatter.formatAppointmentConfirmed({
+        id: appointment.id!,
+        date: startTime,
+        time: formatZonedTime(startTime, requestContext.getTimeZone()),
+        employeeName: employee?.name || 'Por asignar',
+      })
+    );
+    await this.sessionService.resetSession(phone);
+  }
+}
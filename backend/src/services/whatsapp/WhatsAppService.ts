@@ -1,21 +1,43 @@
-import { sendWhatsAppMessage } from '../../config/twilio';
+import { supabase } from '../../config/supabase';
 import { logger } from '../../config/logger';
 import { sessionService } from '../session.service';
 import { customerService } from '../customer.service';
 import { employeeService } from '../employee.service';
 import { appointmentService } from '../appointment.service';
 import { availabilityService } from '../availability.service';
-import { IncomingWhatsAppMessage } from '../../models';
+import { serviceCatalogService } from '../service-catalog.service';
+import { employeeAssignmentService } from '../employee-assignment.service';
+import { waitlistService } from '../waitlist.service';
+import { feedbackService } from '../feedback.service';
+import { businessService } from '../business.service';
+import { messageService } from '../message.service';
+import { conversationService } from '../conversation.service';
+import { consentService } from '../consent.service';
+import { customerDataService } from '../customer-data.service';
+import { messagingService, OutboundMessage } from '../messaging';
+import { requestContext } from '../../core/request-context';
+import { Business, ConsentStatus, ConversationState, IncomingWhatsAppMessage } from '../../models';
 import { IntentDetector } from './IntentDetector';
 import { DataExtractor } from './DataExtractor';
 import { ValidationService } from './ValidationService';
 import { MessageFormatter } from './MessageFormatter';
 import { BookingHandler } from './BookingHandler';
 import { CancellationHandler } from './CancellationHandler';
+import { RescheduleHandler } from './RescheduleHandler';
 import { ViewHandler } from './ViewHandler';
+import { WaitlistHandler } from './WaitlistHandler';
+import { ReminderHandler } from './ReminderHandler';
+import { FeedbackHandler } from './FeedbackHandler';
+import { ErasureHandler } from './ErasureHandler';
+import { ConversationQueue } from './ConversationQueue';
+import { createConversationLock } from './ConversationLock';
+import { ProcessedMessageLedger } from './ProcessedMessageLedger';
 
-// TODO: Remove this once multi-tenancy is implemented
-const DEFAULT_BUSINESS_ID = process.env.DEFAULT_BUSINESS_ID || '966d6a45-9111-4a42-b618-2f744ebce14a';
+// Keywords that withdraw consent at any point of the conversation
+const OPT_OUT_KEYWORDS = ['baja', 'stop'];
+
+// States that expect free text, where mentioning staff is part of the answer rather than a request
+const FREE_TEXT_STATES: ConversationState[] = ['asking_name', 'commenting_feedback'];
 
 /**
  * WhatsAppService - Main orchestrator for WhatsApp conversation flow
@@ -27,12 +49,24 @@ export class WhatsAppService {
   private validationService: ValidationService;
   private bookingHandler: BookingHandler;
   private cancellationHandler: CancellationHandler;
+  private rescheduleHandler: RescheduleHandler;
   private viewHandler: ViewHandler;
+  private waitlistHandler: WaitlistHandler;
+  private reminderHandler: ReminderHandler;
+  private feedbackHandler: FeedbackHandler;
+  private erasureHandler: ErasureHandler;
+  private conversationQueue: ConversationQueue;
+  private messageLedger: ProcessedMessageLedger;
 
   constructor() {
+    // Late-bound so handlers always use the current sendMessage implementation
+    const sendMessage = (to: string, message: OutboundMessage) => this.sendMessage(to, message);
+
     this.intentDetector = new IntentDetector();
     this.dataExtractor = new DataExtractor();
     this.validationService = new ValidationService();
+    this.conversationQueue = new ConversationQueue(createConversationLock());
+    this.messageLedger = new ProcessedMessageLedger(supabase);
 
     // Initialize handlers
     this.bookingHandler = new BookingHandler(
@@ -41,55 +75,183 @@ export class WhatsAppService {
       employeeService,
       appointmentService,
       availabilityService,
+      serviceCatalogService,
+      employeeAssignmentService,
+      waitlistService,
       this.dataExtractor,
       this.validationService,
-      this.sendMessage.bind(this)
+      sendMessage
     );
 
     this.cancellationHandler = new CancellationHandler(
       sessionService,
       appointmentService,
       this.dataExtractor,
-      this.sendMessage.bind(this)
+      this.validationService,
+      sendMessage
+    );
+
+    this.rescheduleHandler = new RescheduleHandler(
+      sessionService,
+      appointmentService,
+      availabilityService,
+      this.dataExtractor,
+      this.validationService,
+      sendMessage
     );
 
     this.viewHandler = new ViewHandler(
       sessionService,
       appointmentService,
-      this.sendMessage.bind(this)
+      sendMessage
+    );
+
+    this.waitlistHandler = new WaitlistHandler(
+      sessionService,
+      employeeService,
+      waitlistService,
+      this.dataExtractor,
+      sendMessage
+    );
+
+    this.reminderHandler = new ReminderHandler(
+      sessionService,
+      appointmentService,
+      this.cancellationHandler,
+      this.rescheduleHandler,
+      this.dataExtractor,
+      sendMessage
+    );
+
+    this.feedbackHandler = new FeedbackHandler(
+      sessionService,
+      appointmentService,
+      feedbackService,
+      this.bookingHandler,
+      this.dataExtractor,
+      sendMessage
+    );
+
+    this.erasureHandler = new ErasureHandler(
+      sessionService,
+      customerService,
+      customerDataService,
+      this.dataExtractor,
+      sendMessage
     );
   }
 
   /**
-   * Send WhatsApp message
+   * Send WhatsApp message through the business's messaging provider
+   * Interactive messages fall back to text where the provider can't render them
    */
-  async sendMessage(to: string, message: string): Promise<void> {
+  async sendMessage(to: string, message: OutboundMessage): Promise<void> {
     try {
-      await sendWhatsAppMessage(to, message);
-      logger.info(`Message sent to ${to}`);
+      await messagingService.send(to, message);
     } catch (error) {
       logger.error(`Failed to send message to ${to}:`, error);
       throw error;
     }
   }
 
+  /**
+   * Resolve the business that owns the destination WhatsApp number
+   * Returns null if the number is unknown or WhatsApp is disabled for the business
+   */
+  async resolveBusiness(message: IncomingWhatsAppMessage): Promise<Business | null> {
+    const business = message.PhoneNumberId
+      ? await businessService.getBusinessByWhatsAppPhoneNumberId(message.PhoneNumberId)
+      : await businessService.getBusinessByWhatsAppPhone(message.To);
+
+    if (!business || !business.whatsapp_enabled) {
+      return null;
+    }
+
+    return business;
+  }
+
   /**
    * Handle incoming WhatsApp message
+   * The business is resolved from the destination number unless provided
    */
-  async handleIncomingMessage(message: IncomingWhatsAppMessage): Promise<void> {
+  async handleIncomingMessage(message: IncomingWhatsAppMessage, business?: Business): Promise<void> {
     const phone = message.From;
-    const body = message.Body.trim();
 
-    logger.info(`Incoming message from ${phone}: ${body}`);
+    const targetBusiness = business || await this.resolveBusiness(message);
 
-    try {
-      // Check for global commands first
-      if (await this.handleGlobalCommands(phone, body)) {
+    if (!targetBusiness) {
+      logger.warn(`Ignoring message from ${phone}: no WhatsApp-enabled business for ${message.To}`);
+      return;
+    }
+
+    const businessId = targetBusiness.id!;
+
+    // One message at a time per conversation, in arrival order
+    await this.conversationQueue.run(`${businessId}:${phone}`, async () => {
+      const messageSid = message.MessageSid;
+
+      if (messageSid && !(await this.messageLedger.claim(messageSid, businessId, phone))) {
+        logger.info(`Skipping already processed message ${messageSid}`);
         return;
       }
 
+      try {
+        // Scope sessions, queries and date handling to the business for the rest of the conversation turn
+        const context = {
+          businessId,
+          requestId: messageSid,
+          timeZone: targetBusiness.timezone,
+          bookingPolicy: businessService.parseBookingPolicy(targetBusiness.settings),
+        };
+        await requestContext.run(context, async () => {
+          await messageService.logInbound(
+            message,
+            messagingService.getProviderForBusiness(targetBusiness).name
+          );
+
+          // Staff took over: the message is only stored for the dashboard inbox,
+          // but BAJA/STOP and ALTA still update the customer's consent
+          if (await conversationService.isBotPaused(phone)) {
+            if (!(await this.handleConsentCommands(phone, this.readBody(message)))) {
+              logger.info(`Bot paused for ${phone}, leaving message to staff`);
+            }
+            return;
+          }
+
+          await this.processMessage(message);
+        });
+      } catch (error) {
+        if (messageSid) {
+          await this.messageLedger.release(messageSid);
+        }
+        throw error;
+      }
+
+      if (messageSid) {
+        await this.messageLedger.markProcessed(messageSid);
+      }
+    });
+  }
+
+  /**
+   * Process an incoming message within the business context
+   */
+  private async processMessage(message: IncomingWhatsAppMessage): Promise<void> {
+    const phone = message.From;
+    const body = this.readBody(message);
+
+    logger.info(`Incoming message from ${phone}: ${body}`, {
+      businessId: requestContext.getBusinessId(),
+    });
+
+    try {
       // Get or create session
-      const session = sessionService.getOrCreateSession(phone);
+      const session = await sessionService.getOrCreateSession(phone);
+
+      // Check for global commands first
+      if (await this.handleGlobalCommands(phone, body, session.state)) {
+        return;
+      }
 
       // Handle based on current state
       switch (session.state) {
@@ -98,6 +260,10 @@ export class WhatsAppService {
           await this.handleInitialState(phone, body);
           break;
 
+        case 'asking_name':
+          await this.handleInitialState(phone, body);
+          break;
+
         case 'collecting_data':
           await this.bookingHandler.handleDataCollection(phone, body);
           break;
@@ -114,9 +280,61 @@ export class WhatsAppService {
           await this.cancellationHandler.handleCancellationConfirmation(phone, body);
           break;
 
+        case 'rescheduling':
+          await this.rescheduleHandler.handleAppointmentSelection(phone, body);
+          break;
+
+        case 'rescheduling_date':
+          await this.rescheduleHandler.handleDateSelection(phone, body);
+          break;
+
+        case 'rescheduling_time':
+          await this.rescheduleHandler.handleTimeSelection(phone, body);
+          break;
+
+        case 'confirming_reschedule':
+          await this.rescheduleHandler.handleRescheduleConfirmation(phone, body);
+          break;
+
+        case 'confirming_waitlist':
+          await this.bookingHandler.handleWaitlistReply(phone, body);
+          break;
+
+        case 'claiming_waitlist':
+          await this.waitlistHandler.handleClaimResponse(phone, body);
+          break;
+
+        case 'answering_reminder':
+          await this.reminderHandler.handleReminderReply(phone, body);
+          break;
+
+        case 'reminder_declined':
+          await this.reminderHandler.handleDeclinedChoice(phone, body);
+          break;
+
+        case 'rating_appointment':
+          await this.feedbackHandler.handleRating(phone, body);
+          break;
+
+        case 'commenting_feedback':
+          await this.feedbackHandler.handleComment(phone, body);
+          break;
+
+        case 'offering_rebooking':
+          await this.feedbackHandler.handleRebookingReply(phone, body);
+          break;
+
+        case 'confirming_erasure':
+          await this.erasureHandler.handleConfirmation(phone, body);
+          break;
+
+        case 'confirming_erasure_final':
+          await this.erasureHandler.handleFinalConfirmation(phone, body);
+          break;
+
         case 'viewing':
           // After viewing, reset to initial
-          sessionService.resetSession(phone);
+          await sessionService.resetSession(phone);
           await this.handleInitialState(phone, body);
           break;
 
@@ -125,7 +343,7 @@ export class WhatsAppService {
             phone,
             'Lo siento, hubo un error. Por favor escribe "inicio" para comenzar de nuevo.'
           );
-          sessionService.resetSession(phone);
+          await sessionService.resetSession(phone);
       }
     } catch (error) {
       logger.error(`Error handling message from ${phone}:`, error);
@@ -133,24 +351,48 @@ export class WhatsAppService {
         phone,
         'Ocurrió un error inesperado. Por favor intenta de nuevo más tarde.'
       );
-      sessionService.resetSession(phone);
+      await sessionService.resetSession(phone);
     }
   }
 
+  /**
+   * Text of the message to parse
+   * Button and list ids are the option numbers / "si" / "no", so replies reuse the text parsing
+   */
+  private readBody(message: IncomingWhatsAppMessage): string {
+    return (message.ButtonPayload || message.ListId || message.Body).trim();
+  }
+
   /**
    * Handle global commands
    * Returns true if command was handled
    */
-  private async handleGlobalCommands(phone: string, body: string): Promise<boolean> {
+  private async handleGlobalCommands(phone: string, body: string, state: ConversationState): Promise<boolean> {
     const lower = body.toLowerCase().trim();
 
+    if (await this.handleConsentCommands(phone, lower)) {
+      return true;
+    }
+
     // Restart command
     if (lower === 'inicio' || lower === 'start' || lower === 'reiniciar') {
-      sessionService.resetSession(phone);
+      await sessionService.resetSession(phone);
       await this.handleInitialState(phone, body);
       return true;
     }
 
+    // Talk to a person, even in the middle of a flow
+    if (!FREE_TEXT_STATES.includes(state) && this.intentDetector.isHumanRequest(lower)) {
+      await this.requestTakeover(phone);
+      return true;
+    }
+
+    // Erase the customer's personal data, after two confirmations
+    if (this.intentDetector.isErasureRequest(lower)) {
+      await this.erasureHandler.startErasure(phone);
+      return true;
+    }
+
     // Help command
     if (lower === 'ayuda' || lower === 'help' || lower === '?') {
       await this.sendMessage(phone, MessageFormatter.formatHelp());
@@ -160,6 +402,32 @@ export class WhatsAppService {
     return false;
   }
 
+  /**
+   * Handle BAJA/STOP and ALTA/START, which apply even while staff handles the conversation
+   * Returns true if command was handled
+   */
+  private async handleConsentCommands(phone: string, body: string): Promise<boolean> {
+    const lower = body.toLowerCase().trim();
+
+    // Stop messages the business starts (reminders, follow-ups, waitlist offers)
+    if (OPT_OUT_KEYWORDS.includes(lower)) {
+      await this.updateConsent(phone, 'opted_out');
+      await this.sendMessage(phone, MessageFormatter.formatOptOutConfirmed());
+      await sessionService.resetSession(phone);
+      return true;
+    }
+
+    // "start" only opts back in after an opt-out; otherwise it restarts like "inicio"
+    if (lower === 'alta' || (lower === 'start' && (await this.isOptedOut(phone)))) {
+      await this.updateConsent(phone, 'opted_in');
+      await this.sendMessage(phone, MessageFormatter.formatOptInConfirmed());
+      await sessionService.resetSession(phone);
+      return true;
+    }
+
+    return false;
+  }
+
   /**
    * Handle initial state - detect intent and route accordingly
    */
@@ -175,10 +443,10 @@ export class WhatsAppService {
       }
 
       // Existing customer - store customer data
-      sessionService.updateData(phone, {
+      await sessionService.updateData(phone, {
         customer_id: existingCustomer.id,
         customer_name: existingCustomer.name,
-        business_id: DEFAULT_BUSINESS_ID
+        business_id: requestContext.getBusinessId()
       });
 
       // Detect intent from message
@@ -198,6 +466,7 @@ export class WhatsAppService {
         phone,
         'Ocurrió un error. Por favor intenta de nuevo.'
       );
+      await sessionService.resetSession(phone);
     }
   }
 
@@ -205,13 +474,13 @@ export class WhatsAppService {
    * Handle new customer (ask for name)
    */
   private async handleNewCustomer(phone: string, body: string): Promise<void> {
-    const session = sessionService.getOrCreateSession(phone);
+    const session = await sessionService.getOrCreateSession(phone);
 
     // Check if we're asking for name
     if (session.state === 'initial' && !session.data.customer_name) {
       const welcomeMessage = MessageFormatter.formatWelcome();
       await this.sendMessage(phone, welcomeMessage);
-      sessionService.updateState(phone, 'asking_name');
+      await sessionService.updateState(phone, 'asking_name');
       return;
     }
 
@@ -228,16 +497,17 @@ export class WhatsAppService {
       const customer = await customerService.createCustomer({
         phone,
         name,
-        business_id: DEFAULT_BUSINESS_ID
       });
 
+      await consentService.setConsent(customer.id!, 'opted_in', 'whatsapp_signup');
+
       // Store customer data
-      sessionService.updateData(phone, {
+      await sessionService.updateData(phone, {
         customer_id: customer.id,
         customer_name: customer.name,
-        business_id: DEFAULT_BUSINESS_ID
+        business_id: requestContext.getBusinessId()
       });
-      sessionService.updateState(phone, 'initial');
+      await sessionService.updateState(phone, 'initial');
 
       // Show welcome menu
       await this.showWelcomeMenu(phone, customer.name);
@@ -250,7 +520,41 @@ export class WhatsAppService {
   private async showWelcomeMenu(phone: string, customerName?: string): Promise<void> {
     const message = MessageFormatter.formatWelcome(customerName);
     await this.sendMessage(phone, message);
-    sessionService.updateState(phone, 'intent_detected');
+    await sessionService.updateState(phone, 'intent_detected');
+  }
+
+  /**
+   * Hand the conversation to staff: the bot stops answering until it's resumed from the dashboard
+   */
+  private async requestTakeover(phone: string): Promise<void> {
+    await this.sendMessage(phone, MessageFormatter.formatTakeoverRequested());
+    await conversationService.requestTakeover(phone);
+    await sessionService.resetSession(phone);
+    logger.info(`Customer ${phone} asked to talk to a person`, {
+      businessId: requestContext.getBusinessId(),
+    });
+  }
+
+  /**
+   * Record the customer's answer to BAJA/STOP or ALTA/START for the business in context
+   * A phone without a customer has nothing to record: the business can't message it anyway
+   */
+  private async updateConsent(phone: string, status: ConsentStatus): Promise<void> {
+    const customer = await customerService.getCustomerByPhone(phone);
+
+    if (!customer?.id) {
+      return;
+    }
+
+    await consentService.setConsent(customer.id, status, 'whatsapp_keyword');
+  }
+
+  /**
+   * Whether the customer opted out of messages from the business in context
+   */
+  private async isOptedOut(phone: string): Promise<boolean> {
+    const customer = await customerService.getCustomerByPhone(phone);
+    return !!customer?.id && !(await consentService.canMessage(customer.id));
   }
 
   /**
@@ -264,29 +568,37 @@ export class WhatsAppService {
   ): Promise<void> {
     switch (intentType) {
       case 'book':
-        await this.bookingHandler.startBooking(phone, body, DEFAULT_BUSINESS_ID);
+        await this.bookingHandler.startBooking(phone, body, requestContext.getBusinessId());
         break;
 
       case 'cancel':
         await this.cancellationHandler.startCancellation(phone, customerId);
         break;
 
+      case 'reschedule':
+        await this.rescheduleHandler.startReschedule(phone, customerId);
+        break;
+
       case 'view':
         await this.viewHandler.showAppointments(phone, customerId);
         break;
 
       case 'help':
         await this.sendMessage(phone, MessageFormatter.formatHelp());
-        sessionService.resetSession(phone);
+        await sessionService.resetSession(phone);
+        break;
+
+      case 'human':
+        await this.requestTakeover(phone);
         break;
 
       case 'greeting':
-        await this.showWelcomeMenu(phone, sessionService.getOrCreateSession(phone).data.customer_name);
+        await this.showWelcomeMenu(phone, (await sessionService.getOrCreateSession(phone)).data.customer_name);
         break;
 
       default:
         await this.sendMessage(phone, MessageFormatter.formatNotUnderstood());
-        sessionService.resetSession(phone);
+        await sessionService.resetSession(phone);
     }
   }
 }
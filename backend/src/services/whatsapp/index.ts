@@ -10,5 +10,14 @@ export { ValidationService } from './ValidationService';
 export { MessageFormatter } from './MessageFormatter';
 export { BookingHandler } from './BookingHandler';
 export { CancellationHandler } from './CancellationHandler';
+export { RescheduleHandler } from './RescheduleHandler';
 export { ViewHandler } from './ViewHandler';
+export { WaitlistHandler } from './WaitlistHandler';
+export { ReminderHandler } from './ReminderHandler';
+export { FeedbackHandler } from './FeedbackHandler';
+export { ErasureHandler } from './ErasureHandler';
+export { ConversationQueue } from './ConversationQueue';
+export { ProcessedMessageLedger } from './ProcessedMessageLedger';
+export { ConversationSimulator } from './ConversationSimulator';
+export type { ConversationScript, ConversationStep, ScriptResult, StepResult } from './ConversationSimulator';
 export * from './types';
@@ -2,6 +2,8 @@
  * Types for WhatsApp conversation flow
  */
 
+import { DateRange, TimeWindow } from '../../utils/date-parser';
+
 export type ConversationState =
   | 'initial'           // Waiting for user intent
   | 'intent_detected'   // Detected what user wants to do
@@ -9,9 +11,22 @@ export type ConversationState =
   | 'confirming'        // Waiting for confirmation
   | 'cancelling'        // In cancellation process
   | 'viewing'           // Showing appointments
-  | 'rescheduling';     // Rescheduling appointment
+  | 'rescheduling'      // Selecting appointment to reschedule
+  | 'rescheduling_date' // Collecting new date
+  | 'rescheduling_time' // Collecting new time
+  | 'confirming_reschedule' // Waiting for reschedule confirmation
+  | 'confirming_waitlist'   // No slots: asked whether to join the waitlist
+  | 'claiming_waitlist'     // A freed slot was offered from the waitlist
+  | 'answering_reminder'    // A reminder asked whether the customer is coming
+  | 'reminder_declined'     // Can't make it: cancel or reschedule?
+  | 'rating_appointment'    // After a completed appointment: rate it 1 to 5
+  | 'commenting_feedback'   // Optional comment after the rating
+  | 'offering_rebooking'    // After a no-show: book again?
+  | 'confirming_erasure'    // Asked to erase their data: first confirmation
+  | 'confirming_erasure_final'; // Second confirmation: type ELIMINAR
 
 export type DataCollectionStep =
+  | 'service'
   | 'date'
   | 'employee'
   | 'time';
@@ -23,6 +38,7 @@ export type IntentType =
   | 'reschedule'        // User wants to reschedule
   | 'greeting'          // Just a greeting
   | 'help'              // Asking for help
+  | 'human'             // Wants to talk to a person
   | 'unknown';          // Unclear intent
 
 export interface Intent {
@@ -32,9 +48,18 @@ export interface Intent {
 
 export interface BookingData {
   date?: Date;
+  dateRange?: DateRange;  // "el finde": resolved to the first day with free slots
   time?: string;          // Format: "HH:mm"
+  timeWindow?: TimeWindow; // "a la tarde": only slots inside it are offered
   employeeId?: string;
   employeeName?: string;
+  anyEmployee?: boolean;  // "Cualquiera": assigned when the slot is confirmed
+  serviceId?: string;
+  serviceName?: string;
+  duration?: number;      // Minutes, from the service
+  buffer?: number;        // Minutes kept free after the appointment
+  capacity?: number;      // Seats per slot, from the service (more than 1: group class)
+  price?: number | null;
 }
 
 export interface WhatsAppSession {
@@ -47,10 +72,15 @@ export interface WhatsAppSession {
     employee_id?: string;
     employee_name?: string;
     employees?: any[];
+    services?: any[];
     date?: string;
     time?: string;
     appointment_id?: string;
     pending_cancellation_id?: string;
+    pending_reschedule_id?: string;
+    pending_waitlist_entry_id?: string;
+    reminder_appointment_id?: string;
+    feedback_appointment_id?: string;
     collected_data?: BookingData;
     missing_data?: DataCollectionStep[];
   };
@@ -0,0 +1,64 @@
+/**
+ * Reloj simulado para herramientas locales (npm run bot:chat)
+ *
+ * Reemplaza el Date global para que `new Date()` y `Date.now()` partan de otra fecha
+ * y sigan avanzando desde ahí. La app no sabe que el reloj es simulado: no usar en producción.
+ */
+export class SimulatedClock {
+  private readonly realDate: DateConstructor = Date;
+  private offsetMs = 0;
+  private installed = false;
+
+  /**
+   * Mueve el reloj a `now`; lo instala si todavía no estaba
+   */
+  set(now: Date): void {
+    if (isNaN(now.getTime())) {
+      throw new Error('Invalid clock date');
+    }
+
+    this.offsetMs = now.getTime() - this.realDate.now();
+    this.install();
+  }
+
+  /**
+   * Fecha actual del reloj simulado
+   */
+  now(): Date {
+    return new this.realDate(this.realDate.now() + this.offsetMs);
+  }
+
+  /**
+   * Vuelve al Date real
+   */
+  restore(): void {
+    if (this.installed) {
+      globalThis.Date = this.realDate;
+      this.installed = false;
+    }
+    this.offsetMs = 0;
+  }
+
+  private install(): void {
+    if (this.installed) {
+      return;
+    }
+
+    const RealDate = this.realDate;
+    const clock = this;
+
+    // Sin argumentos es "ahora" desplazado; con argumentos se comporta como Date
+    function ShiftedDate(this: unknown, ...args: unknown[]): Date | string {
+      if (!new.target) {
+        return clock.now().toString();
+      }
+      return Reflect.construct(RealDate, args.length > 0 ? args : [RealDate.now() + clock.offsetMs], new.target);
+    }
+    ShiftedDate.prototype = RealDate.prototype;
+    Object.setPrototypeOf(ShiftedDate, RealDate);
+    (ShiftedDate as unknown as DateConstructor).now = () => RealDate.now() + clock.offsetMs;
+
+    globalThis.Date = ShiftedDate as unknown as DateConstructor;
+    this.installed = true;
+  }
+}
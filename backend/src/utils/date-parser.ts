@@ -1,27 +1,92 @@
+import { requestContext } from '../core/request-context';
+import { addZonedDays, fromZonedTime, startOfZonedDay, toZonedTime } from './timezone';
+
+/**
+ * Rango de días (ambos inclusive, a las 00:00 en la zona del negocio)
+ */
+export interface DateRange {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Franja horaria "HH:mm" (inicio inclusive, fin exclusivo; "24:00" = fin del día)
+ */
+export interface TimeWindow {
+  start: string;
+  end: string;
+  label: string;
+}
+
+/**
+ * Días que se buscan en rangos abiertos como "después del 15"
+ */
+const OPEN_RANGE_DAYS = 7;
+
+const WEEKDAY_PATTERN = '(lunes|martes|miercoles|jueves|viernes|sabado|domingo)';
+const MONTH_PATTERN =
+  '(enero|febrero|marzo|abril|mayo|junio|julio|agosto|septiembre|octubre|noviembre|diciembre)';
+
 /**
  * Parsea una fecha en lenguaje natural a un objeto Date
+ * Acepta el mensaje completo ("¿hay algo para mañana a la tarde?");
+ * si el texto describe un rango ("el finde"), devuelve el primer día
+ */
+export function parseNaturalDate(
+  input: string,
+  timeZone: string = requestContext.getTimeZone()
+): Date | null {
+  return parseDateRange(input, timeZone)?.start ?? null;
+}
+
+/**
+ * Parsea una fecha o un rango de fechas en lenguaje natural
+ * Soporta, además de las fechas exactas:
+ * - "el finde", "el fin de semana"
+ * - "esta semana", "la semana que viene", "la próxima semana"
+ * - "en 3 días", "en una semana", "pasado mañana"
+ * - "después del 15", "a partir del 15", "desde el 15"
+ * - Fechas dentro de una frase: "quiero turno para el viernes"
+ */
+export function parseDateRange(
+  input: string,
+  timeZone: string = requestContext.getTimeZone()
+): DateRange | null {
+  // "Hoy" y las cuentas de calendario son los de la zona del negocio;
+  // el resultado es el instante de las 00:00 de ese día en esa zona
+  const today = startOfToday(timeZone);
+
+  const exact = parseExactDate(input, today);
+  const range = exact ? { start: exact, end: exact } : findDateRangeInText(input, today);
+  if (!range) {
+    return null;
+  }
+
+  return {
+    start: fromZonedTime(range.start, timeZone),
+    end: fromZonedTime(range.end, timeZone),
+  };
+}
+
+/**
+ * Parsea una fecha cuando el texto es solo la fecha
  * Soporta formatos como:
  * - "hoy"
  * - "mañana" / "manana"
  * - "lunes", "martes", "próximo lunes", "proximo martes", etc.
  * - DD/MM/YYYY
  */
-export function parseNaturalDate(input: string): Date | null {
+function parseExactDate(input: string, today: Date): Date | null {
   const normalizedInput = input.toLowerCase().trim();
 
   // Caso 1: "hoy"
   if (normalizedInput === 'hoy') {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    return today;
+    return new Date(today);
   }
 
   // Caso 2: "mañana" o "manana"
   if (normalizedInput === 'mañana' || normalizedInput === 'manana') {
-    const tomorrow = new Date();
-    tomorrow.setDate(tomorrow.getDate() + 1);
-    tomorrow.setHours(0, 0, 0, 0);
-    return tomorrow;
+    return addDays(today, 1);
   }
 
   // Caso 3: Días de la semana
@@ -31,7 +96,7 @@ export function parseNaturalDate(input: string): Date | null {
 
   if (weekdayMatch) {
     const weekday = normalizeWeekday(weekdayMatch[2]);
-    return getNextWeekday(weekday);
+    return getNextWeekday(weekday, today);
   }
 
   // Caso 4: Solo el nombre del día
@@ -41,7 +106,7 @@ export function parseNaturalDate(input: string): Date | null {
 
   if (singleDayMatch) {
     const weekday = normalizeWeekday(singleDayMatch[1]);
-    return getNextWeekday(weekday);
+    return getNextWeekday(weekday, today);
   }
 
   // Caso 5: Formato "X de mes" o "primero de mes"
@@ -67,7 +132,7 @@ export function parseNaturalDate(input: string): Date | null {
     }
 
     // Determinar año
-    const currentYear = new Date().getFullYear();
+    const currentYear = today.getFullYear();
     let year = currentYear;
     if (yearStr) {
       const parsedYear = parseInt(yearStr);
@@ -78,8 +143,6 @@ export function parseNaturalDate(input: string): Date | null {
     date.setHours(0, 0, 0, 0);
 
     // Si la fecha ya pasó este año, usar el próximo año
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
     if (date < today && !yearStr) {
       date.setFullYear(currentYear + 1);
     }
@@ -119,6 +182,224 @@ export function parseNaturalDate(input: string): Date | null {
   return null;
 }
 
+/**
+ * Busca una fecha o un rango dentro de un texto libre
+ */
+function findDateRangeInText(input: string, today: Date): DateRange | null {
+  // "a la mañana" es una franja horaria, no el día de mañana
+  const text = normalizeText(input).replace(/\b(a|por|de) la manana\b/g, ' ');
+
+  if (/\b(el )?(finde|fin de semana)\b/.test(text)) {
+    const day = today.getDay();
+    // Sábado y domingo: el finde en curso
+    const start = day === 6 || day === 0 ? today : addDays(today, 6 - day);
+    return { start, end: addDays(today, day === 0 ? 0 : 7 - day) };
+  }
+
+  if (/\b(semana que viene|proxima semana|semana proxima)\b/.test(text)) {
+    const start = getNextWeekday(1, today);
+    return { start, end: addDays(start, 6) };
+  }
+
+  if (/\besta semana\b/.test(text)) {
+    const day = today.getDay();
+    return { start: today, end: addDays(today, day === 0 ? 0 : 7 - day) };
+  }
+
+  const inDaysMatch = text.match(/\ben (\d{1,2}|un|una) (dias?|semanas?)\b/);
+  if (inDaysMatch) {
+    const amount = /^\d+$/.test(inDaysMatch[1]) ? parseInt(inDaysMatch[1]) : 1;
+    const days = inDaysMatch[2].startsWith('semana') ? amount * 7 : amount;
+    const date = addDays(today, days);
+    return { start: date, end: date };
+  }
+
+  const fromDayMatch = text.match(/\b(despues del|a partir del|desde el) (\d{1,2})\b(?! de)/);
+  if (fromDayMatch) {
+    const dayNumber = parseInt(fromDayMatch[2]);
+    if (dayNumber < 1 || dayNumber > 31) {
+      return null;
+    }
+
+    let anchor = new Date(today.getFullYear(), today.getMonth(), dayNumber);
+    if (anchor < today) {
+      anchor = new Date(today.getFullYear(), today.getMonth() + 1, dayNumber);
+    }
+    // "después del 15" excluye el 15
+    const start = fromDayMatch[1] === 'despues del' ? addDays(anchor, 1) : anchor;
+    return { start, end: addDays(start, OPEN_RANGE_DAYS - 1) };
+  }
+
+  const date = findSingleDateInText(text, today);
+  return date ? { start: date, end: date } : null;
+}
+
+/**
+ * Busca un día puntual dentro de un texto ya normalizado
+ */
+function findSingleDateInText(text: string, today: Date): Date | null {
+  if (/\bpasado manana\b/.test(text)) {
+    return addDays(today, 2);
+  }
+  if (/\bmanana\b/.test(text)) {
+    return addDays(today, 1);
+  }
+  if (/\bhoy\b/.test(text)) {
+    return today;
+  }
+
+  const weekdayMatch = text.match(new RegExp(`\\b${WEEKDAY_PATTERN}\\b`));
+  if (weekdayMatch) {
+    return getNextWeekday(normalizeWeekday(weekdayMatch[1]), today);
+  }
+
+  const monthNameMatch = text.match(
+    new RegExp(`\\b(primero|primer|\\d{1,2}) de ${MONTH_PATTERN}\\b`)
+  );
+  if (monthNameMatch) {
+    return parseExactDate(`${monthNameMatch[1]} de ${monthNameMatch[2]}`, today);
+  }
+
+  const slashMatch = text.match(/\b(\d{1,2})\/(\d{1,2})(\/(\d{2,4}))?\b/);
+  if (slashMatch) {
+    const [, day, month, , year] = slashMatch;
+    if (year) {
+      return parseExactDate(`${day}/${month}/${year}`, today);
+    }
+
+    const date = new Date(today.getFullYear(), parseInt(month) - 1, parseInt(day));
+    if (isNaN(date.getTime()) || date.getDate() !== parseInt(day)) {
+      return null;
+    }
+    // Sin año: la próxima vez que llegue esa fecha
+    if (date < today) {
+      date.setFullYear(today.getFullYear() + 1);
+    }
+    return date;
+  }
+
+  return null;
+}
+
+/**
+ * Extrae una franja horaria de un texto libre
+ * Soporta:
+ * - "a la mañana", "al mediodía", "a la tarde", "a la noche"
+ * - "después de las 5", "a partir de las 17", "desde las 16:30"
+ * - "antes de las 11"
+ * - "entre las 3 y las 6"
+ * Sin am/pm, las horas de 1 a 7 se toman como de la tarde ("después de las 5" = 17:00)
+ */
+export function parseTimeWindow(input: string): TimeWindow | null {
+  const text = normalizeText(input);
+  const hour = '(\\d{1,2})(?::(\\d{2}))?\\s?(am|pm|hs)?';
+
+  const betweenMatch = text.match(new RegExp(`\\bentre las? ${hour} y las? ${hour}`));
+  if (betweenMatch) {
+    const start = toClock(betweenMatch[1], betweenMatch[2], betweenMatch[3]);
+    const end = toClock(betweenMatch[4], betweenMatch[5], betweenMatch[6]);
+    if (start && end && start < end) {
+      return { start, end, label: `entre las ${start} y las ${end}` };
+    }
+  }
+
+  const afterMatch = text.match(new RegExp(`\\b(despues de|a partir de|desde) las? ${hour}`));
+  if (afterMatch) {
+    const start = toClock(afterMatch[2], afterMatch[3], afterMatch[4]);
+    if (start) {
+      return { start, end: '24:00', label: `después de las ${start}` };
+    }
+  }
+
+  const beforeMatch = text.match(new RegExp(`\\bantes de las? ${hour}`));
+  if (beforeMatch) {
+    const end = toClock(beforeMatch[1], beforeMatch[2], beforeMatch[3]);
+    if (end) {
+      return { start: '00:00', end, label: `antes de las ${end}` };
+    }
+  }
+
+  // "a las 10 de la mañana" es una hora exacta, no una franja
+  if (/\b\d{1,2}(:\d{2})? (de|por) la (manana|tarde|noche)\b/.test(text)) {
+    return null;
+  }
+
+  if (/\b(a|por|de) la manana\b|\btemprano\b/.test(text)) {
+    return { start: '00:00', end: '12:00', label: 'a la mañana' };
+  }
+  if (/\bmediodia\b/.test(text)) {
+    return { start: '12:00', end: '14:00', label: 'al mediodía' };
+  }
+  if (/\b(a|por|de) la tarde\b/.test(text)) {
+    return { start: '13:00', end: '20:00', label: 'a la tarde' };
+  }
+  if (/\b(a|por|de) la noche\b/.test(text)) {
+    return { start: '19:00', end: '24:00', label: 'a la noche' };
+  }
+
+  return null;
+}
+
+/**
+ * Indica si una hora "HH:mm" cae dentro de la franja
+ */
+export function isTimeInWindow(time: string, window: TimeWindow): boolean {
+  return time >= window.start && time < window.end;
+}
+
+/**
+ * Convierte hora, minutos y am/pm a "HH:mm"
+ */
+function toClock(hourStr: string, minuteStr?: string, period?: string): string | null {
+  let hour = parseInt(hourStr);
+  const minute = minuteStr ? parseInt(minuteStr) : 0;
+
+  if (period === 'pm' && hour < 12) {
+    hour += 12;
+  } else if (period === 'am' && hour === 12) {
+    hour = 0;
+  } else if (!period || period === 'hs') {
+    // Nadie pide turno a las 5 de la madrugada
+    if (hour >= 1 && hour <= 7) {
+      hour += 12;
+    }
+  }
+
+  if (hour > 23 || minute > 59) {
+    return null;
+  }
+
+  return `${hour.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')}`;
+}
+
+/**
+ * Minúsculas, sin acentos ni signos de puntuación
+ */
+function normalizeText(input: string): string {
+  return input
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[¿?¡!,;]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Hoy a las 00:00 como fecha "de pared" de la zona (ver toZonedTime)
+ */
+function startOfToday(timeZone: string): Date {
+  const today = toZonedTime(new Date(), timeZone);
+  today.setHours(0, 0, 0, 0);
+  return today;
+}
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
 /**
  * Normaliza el nombre del día de la semana
  */
@@ -141,14 +422,11 @@ function normalizeWeekday(day: string): number {
 /**
  * Obtiene la próxima ocurrencia de un día de la semana
  */
-function getNextWeekday(targetDay: number): Date {
+function getNextWeekday(targetDay: number, today: Date): Date {
   if (targetDay < 0 || targetDay > 6) {
     throw new Error('Invalid weekday');
   }
 
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-
   const currentDay = today.getDay();
   let daysToAdd = targetDay - currentDay;
 
@@ -165,27 +443,31 @@ function getNextWeekday(targetDay: number): Date {
 
 /**
  * Valida si una fecha es válida para agendar
+ * El máximo de días por adelantado sale de la política de reservas del negocio
  */
-export function isValidAppointmentDate(date: Date): { valid: boolean; error?: string } {
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
+export function isValidAppointmentDate(
+  date: Date,
+  timeZone: string = requestContext.getTimeZone(),
+  maxAdvanceDays: number = requestContext.getBookingPolicy().max_advance_days
+): { valid: boolean; error?: string } {
+  const today = startOfZonedDay(new Date(), timeZone);
+  const day = startOfZonedDay(date, timeZone);
 
   // No puede ser una fecha pasada
-  if (date < today) {
+  if (day < today) {
     return {
       valid: false,
       error: 'La fecha debe ser de hoy en adelante. Por favor selecciona otra fecha.',
     };
   }
 
-  // No puede ser muy lejos (máximo 90 días)
-  const maxDate = new Date(today);
-  maxDate.setDate(maxDate.getDate() + 90);
+  // No puede ser más lejos que lo que permite el negocio
+  const maxDate = addZonedDays(today, maxAdvanceDays, timeZone);
 
-  if (date > maxDate) {
+  if (day > maxDate) {
     return {
       valid: false,
-      error: 'Solo puedes agendar hasta 90 días en el futuro. Por favor selecciona otra fecha.',
+      error: `Solo puedes agendar hasta ${maxAdvanceDays} días en el futuro. Por favor selecciona otra fecha.`,
     };
   }
 
@@ -256,7 +538,8 @@ function convertMonthNameToNumber(monthName: string): number | null {
  * Ejemplos de formatos aceptados
  */
 export const SUPPORTED_DATE_FORMATS = `Puedes escribir:
-• Días relativos: "hoy", "mañana"
+• Días relativos: "hoy", "mañana", "pasado mañana", "en 3 días"
+• Rangos: "el finde", "la semana que viene", "después del 15"
 • Días de la semana: "lunes", "martes", "próximo viernes"
 • Fecha con mes: "1 de diciembre", "primero de enero"
 • Fecha específica: DD/MM/YYYY o DD/MM/YY (ejemplo: 25/12/2024 o 1/12/25)`;
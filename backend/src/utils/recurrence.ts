@@ -0,0 +1,58 @@
+import { RecurrenceFrequency } from '../models';
+import { getZonedParts, zonedTimeToUtc } from './timezone';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  until?: Date;   // Último instante permitido (inclusive)
+  count?: number; // Cantidad de repeticiones, contando la primera
+}
+
+/**
+ * Tope de repeticiones de una serie (un año de turnos semanales)
+ */
+export const MAX_OCCURRENCES = 52;
+
+const DAYS_BETWEEN: Record<Exclude<RecurrenceFrequency, 'monthly'>, number> = {
+  weekly: 7,
+  biweekly: 14,
+};
+
+/**
+ * Inicios de cada repetición de una serie, empezando por start
+ * Mantiene la hora de pared de la zona: el turno de las 18:00 sigue a las 18:00 aunque
+ * cambie el horario de verano. Mensual repite el mismo número de día; los meses que no
+ * lo tienen (31 de abril, 30 de febrero) se saltean.
+ * Corta en until, en count o en MAX_OCCURRENCES, lo que llegue primero.
+ */
+export function expandRecurrence(start: Date, rule: RecurrenceRule, timeZone: string): Date[] {
+  const first = getZonedParts(start, timeZone);
+  const limit = Math.min(rule.count ?? MAX_OCCURRENCES, MAX_OCCURRENCES);
+  const occurrences: Date[] = [];
+
+  // Los meses salteados no cuentan, pero no pueden ser más que los que sí
+  for (let i = 0; occurrences.length < limit && i < limit * 2; i++) {
+    const occurrence = rule.frequency === 'monthly'
+      ? zonedTimeToUtc(first.year, first.month + i, first.day, first.hour, first.minute, timeZone)
+      : zonedTimeToUtc(
+        first.year,
+        first.month,
+        first.day + i * DAYS_BETWEEN[rule.frequency],
+        first.hour,
+        first.minute,
+        timeZone
+      );
+
+    if (rule.until && occurrence > rule.until) {
+      break;
+    }
+
+    // Date.UTC desborda el 31 de abril al 1 de mayo: ese mes no tiene el día
+    if (rule.frequency === 'monthly' && getZonedParts(occurrence, timeZone).day !== first.day) {
+      continue;
+    }
+
+    occurrences.push(occurrence);
+  }
+
+  return occurrences;
+}
@@ -0,0 +1,186 @@
+/**
+ * Utilidades de zona horaria basadas en Intl (sin dependencias externas)
+ *
+ * Los turnos se guardan en UTC; los horarios de atención, los días y los textos
+ * que ve el cliente se calculan en la zona IANA del negocio (businesses.timezone).
+ */
+
+/**
+ * Zona a usar cuando no hay un negocio en contexto (scripts, tests):
+ * DEFAULT_TIMEZONE o, si no está definida, la zona del servidor
+ */
+export const DEFAULT_TIMEZONE =
+  process.env.DEFAULT_TIMEZONE || Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+/**
+ * Fecha y hora de pared en una zona (month 1-12, weekday 0 = domingo)
+ */
+export interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  weekday: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Indica si el texto es una zona IANA válida ("America/Argentina/Buenos_Aires")
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Descompone un instante en fecha y hora de pared de la zona
+ */
+export function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  const values: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') {
+      values[part.type] = parseInt(part.value, 10);
+    }
+  }
+
+  const { year, month, day, hour, minute, second } = values;
+  return {
+    year,
+    month,
+    day,
+    hour,
+    minute,
+    second,
+    weekday: new Date(Date.UTC(year, month - 1, day)).getUTCDay(),
+  };
+}
+
+/**
+ * Diferencia en minutos entre la hora de pared de la zona y UTC en ese instante
+ */
+function getOffsetMinutes(date: Date, timeZone: string): number {
+  const p = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+}
+
+/**
+ * Instante UTC de una hora de pared en la zona
+ * Acepta valores desbordados (día 32, minuto 600) como Date.UTC.
+ * Si la hora no existe por un cambio de horario, se corre hacia adelante.
+ */
+export function zonedTimeToUtc(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone: string
+): Date {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+
+  const firstGuess = wallClock - getOffsetMinutes(new Date(wallClock), timeZone) * 60000;
+  const firstOffset = getOffsetMinutes(new Date(firstGuess), timeZone);
+  const secondGuess = wallClock - firstOffset * 60000;
+  const secondOffset = getOffsetMinutes(new Date(secondGuess), timeZone);
+
+  // Solo difieren si la hora cae en el hueco de un cambio de horario
+  return new Date(secondOffset === firstOffset ? secondGuess : Math.max(firstGuess, secondGuess));
+}
+
+/**
+ * Instante de las 00:00 del día (en la zona) que contiene a date
+ */
+export function startOfZonedDay(date: Date, timeZone: string): Date {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return zonedTimeToUtc(year, month, day, 0, 0, timeZone);
+}
+
+/**
+ * Último milisegundo del día (en la zona) que contiene a date
+ */
+export function endOfZonedDay(date: Date, timeZone: string): Date {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return new Date(zonedTimeToUtc(year, month, day + 1, 0, 0, timeZone).getTime() - 1);
+}
+
+/**
+ * Suma días de calendario manteniendo la hora de pared
+ */
+export function addZonedDays(date: Date, days: number, timeZone: string): Date {
+  const p = getZonedParts(date, timeZone);
+  return zonedTimeToUtc(p.year, p.month, p.day + days, p.hour, p.minute, timeZone);
+}
+
+/**
+ * El día de date (en la zona) a la hora "HH:mm"
+ */
+export function setZonedTime(date: Date, time: string, timeZone: string): Date {
+  const [hours, minutes] = time.split(':').map(Number);
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return zonedTimeToUtc(year, month, day, hours, minutes, timeZone);
+}
+
+/**
+ * Hora de pared "HH:mm" de un instante en la zona
+ */
+export function formatZonedTime(date: Date, timeZone: string): string {
+  const { hour, minute } = getZonedParts(date, timeZone);
+  return `${hour.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')}`;
+}
+
+/**
+ * Día "YYYY-MM-DD" de un instante en la zona (columnas DATE)
+ */
+export function formatZonedDate(date: Date, timeZone: string): string {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return `${year}-${month.toString().padStart(2, '0')}-${day.toString().padStart(2, '0')}`;
+}
+
+/**
+ * Date "de pared": sus campos locales (getDate, getHours...) son los de la zona
+ * Sirve para formatear con date-fns o hacer cuentas de calendario; no es un instante real.
+ */
+export function toZonedTime(date: Date, timeZone: string): Date {
+  const p = getZonedParts(date, timeZone);
+  return new Date(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+}
+
+/**
+ * Inversa de toZonedTime: interpreta los campos locales como hora de pared de la zona
+ */
+export function fromZonedTime(wallClock: Date, timeZone: string): Date {
+  return zonedTimeToUtc(
+    wallClock.getFullYear(),
+    wallClock.getMonth() + 1,
+    wallClock.getDate(),
+    wallClock.getHours(),
+    wallClock.getMinutes(),
+    timeZone
+  );
+}
@@ -9,10 +9,13 @@ import Landing from "./pages/Landing";
 import Login from "./pages/Login";
 import Dashboard from "./pages/Dashboard";
 import Appointments from "./pages/dashboard/Appointments";
+import Classes from "./pages/dashboard/Classes";
 import Clients from "./pages/dashboard/Clients";
 import Employees from "./pages/dashboard/Employees";
 import Messages from "./pages/dashboard/Messages";
+import Services from "./pages/dashboard/Services";
 import Settings from "./pages/dashboard/Settings";
+import Waitlist from "./pages/dashboard/Waitlist";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient({
@@ -48,6 +51,9 @@ const App = () => {
               <Route index element={<Appointments />} />
               <Route path="clients" element={<Clients />} />
               <Route path="employees" element={<Employees />} />
+              <Route path="services" element={<Services />} />
+              <Route path="classes" element={<Classes />} />
+              <Route path="waitlist" element={<Waitlist />} />
               <Route path="messages" element={<Messages />} />
               <Route path="settings" element={<Settings />} />
             </Route>
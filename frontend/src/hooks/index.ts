@@ -1,5 +1,6 @@
 // Business hooks
 export { useBusinessId } from './useBusinessId';
+export { useBusiness, useUpdateBusiness } from './useBusiness';
 
 // Appointments hooks
 export {
@@ -11,8 +12,18 @@ export {
   useCancelAppointment,
   useConfirmAppointment,
   useCompleteAppointment,
+  useAvailableSlots,
+  useClassSessions,
+  useCheckIn,
 } from './useAppointments';
 
+// Appointment series hooks
+export {
+  useCreateAppointmentSeries,
+  useUpdateSeriesOccurrences,
+  useCancelSeriesOccurrences,
+} from './useAppointmentSeries';
+
 // Customers hooks
 export {
   useCustomers,
@@ -20,6 +31,7 @@ export {
   useCreateCustomer,
   useUpdateCustomer,
   useDeleteCustomer,
+  useEraseCustomer,
 } from './useCustomers';
 
 // Employees hooks
@@ -30,3 +42,32 @@ export {
   useUpdateEmployee,
   useDeleteEmployee,
 } from './useEmployees';
+
+// Services hooks
+export {
+  useServices,
+  useServiceEmployees,
+  useCreateService,
+  useUpdateService,
+  useDeleteService,
+  useSetServiceEmployees,
+} from './useServices';
+
+// Waitlist hooks
+export {
+  useWaitlist,
+  useAddToWaitlist,
+  useCancelWaitlistEntry,
+} from './useWaitlist';
+
+// Messages hooks
+export {
+  useMessageThreads,
+  useMessageThread,
+  useMessageStats,
+  useMarkThreadRead,
+  useReplyToThread,
+  useTakeOverThread,
+  useReleaseThread,
+  THREADS_PAGE_SIZE,
+} from './useMessages';
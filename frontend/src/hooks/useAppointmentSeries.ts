@@ -0,0 +1,54 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { appointmentSeriesApi } from '@/services/api';
+import type { CreateAppointmentSeriesInput, SeriesScope } from '@/types';
+
+export function useCreateAppointmentSeries() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CreateAppointmentSeriesInput) => appointmentSeriesApi.create(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['appointments'] });
+    },
+  });
+}
+
+export function useUpdateSeriesOccurrences() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      seriesId,
+      appointmentId,
+      data,
+    }: {
+      seriesId: string;
+      appointmentId: string;
+      data: { scope: SeriesScope; start_time?: string; end_time?: string; employee_id?: string };
+    }) => appointmentSeriesApi.updateOccurrences(seriesId, appointmentId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['appointments'] });
+    },
+  });
+}
+
+export function useCancelSeriesOccurrences() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      seriesId,
+      appointmentId,
+      scope,
+    }: {
+      seriesId: string;
+      appointmentId: string;
+      scope: SeriesScope;
+    }) => appointmentSeriesApi.cancelOccurrences(seriesId, appointmentId, scope),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['appointments'] });
+      // The freed slots may have been offered to the waitlist
+      queryClient.invalidateQueries({ queryKey: ['waitlist'] });
+    },
+  });
+}
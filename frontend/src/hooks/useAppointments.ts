@@ -1,5 +1,5 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { appointmentsApi } from '@/services/api';
+import { appointmentsApi, availabilityApi } from '@/services/api';
 import type { Appointment } from '@/types';
 
 export function useUpcomingAppointments(businessId: string | null, limit = 10) {
@@ -57,6 +57,8 @@ export function useCancelAppointment() {
     mutationFn: (id: string) => appointmentsApi.cancel(id),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['appointments'] });
+      // The freed slot may have been offered to the waitlist
+      queryClient.invalidateQueries({ queryKey: ['waitlist'] });
     },
   });
 }
@@ -82,3 +84,47 @@ export function useCompleteAppointment() {
     },
   });
 }
+
+/**
+ * Group classes of a day (yyyy-MM-dd, browser's local day) with their attendees
+ */
+export function useClassSessions(businessId: string | null, date: string) {
+  return useQuery({
+    queryKey: ['appointments', 'classes', businessId, date],
+    queryFn: () =>
+      appointmentsApi.getClasses(
+        businessId!,
+        new Date(`${date}T00:00:00`).toISOString(),
+        new Date(`${date}T23:59:59.999`).toISOString()
+      ),
+    enabled: !!businessId && !!date,
+  });
+}
+
+export function useCheckIn() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, checkedIn }: { id: string; checkedIn: boolean }) =>
+      appointmentsApi.checkIn(id, checkedIn),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['appointments'] });
+    },
+  });
+}
+
+/**
+ * Free slots of an employee on a date (yyyy-MM-dd), sized by the service when given
+ */
+export function useAvailableSlots(
+  businessId: string | null,
+  employeeId: string | null,
+  date: string | null,
+  serviceId?: string | null
+) {
+  return useQuery({
+    queryKey: ['availability', 'slots', businessId, employeeId, date, serviceId],
+    queryFn: () => availabilityApi.getSlots(businessId!, employeeId!, date!, serviceId || undefined),
+    enabled: !!businessId && !!employeeId && !!date,
+  });
+}
@@ -0,0 +1,25 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { businessesApi } from '@/services/api';
+import type { Business } from '@/types';
+
+export function useBusiness(businessId: string | null) {
+  return useQuery({
+    queryKey: ['business', businessId],
+    queryFn: () => businessesApi.getById(businessId!),
+    enabled: !!businessId,
+  });
+}
+
+export function useUpdateBusiness() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<Business> }) =>
+      businessesApi.update(id, data),
+    onSuccess: (_, { id }) => {
+      queryClient.invalidateQueries({ queryKey: ['business', id] });
+      // Slots depend on the booking policy
+      queryClient.invalidateQueries({ queryKey: ['availability'] });
+    },
+  });
+}
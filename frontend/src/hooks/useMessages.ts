@@ -0,0 +1,89 @@
+import { useInfiniteQuery, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { messagesApi } from '@/services/api';
+
+export const THREADS_PAGE_SIZE = 20;
+
+export function useMessageThreads(businessId: string | null, page = 0) {
+  return useQuery({
+    queryKey: ['messages', 'threads', businessId, page],
+    queryFn: () => messagesApi.getThreads(businessId!, THREADS_PAGE_SIZE, page * THREADS_PAGE_SIZE),
+    enabled: !!businessId,
+    refetchInterval: 15000, // New conversations show up without reloading
+  });
+}
+
+/**
+ * Messages of a conversation; each extra page loads older history
+ */
+export function useMessageThread(businessId: string | null, phone: string | null) {
+  return useInfiniteQuery({
+    queryKey: ['messages', 'thread', businessId, phone],
+    queryFn: ({ pageParam }) => messagesApi.getThread(businessId!, phone!, pageParam),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) =>
+      lastPage.hasMore && lastPage.data.length > 0 ? lastPage.data[0].created_at : undefined,
+    enabled: !!businessId && !!phone,
+    refetchInterval: 10000,
+  });
+}
+
+export function useMessageStats(businessId: string | null) {
+  return useQuery({
+    queryKey: ['messages', 'stats', businessId],
+    queryFn: () => messagesApi.getStats(businessId!),
+    enabled: !!businessId,
+    refetchInterval: 30000,
+  });
+}
+
+export function useMarkThreadRead(businessId: string | null) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (phone: string) => messagesApi.markThreadRead(businessId!, phone),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['messages', 'threads'] });
+      queryClient.invalidateQueries({ queryKey: ['messages', 'stats'] });
+    },
+  });
+}
+
+/**
+ * Staff reply from the dashboard; the backend pauses the bot for the conversation
+ */
+export function useReplyToThread(businessId: string | null) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ phone, body }: { phone: string; body: string }) =>
+      messagesApi.reply(businessId!, phone, body),
+    onSuccess: (_data, { phone }) => {
+      queryClient.invalidateQueries({ queryKey: ['messages', 'thread', businessId, phone] });
+      queryClient.invalidateQueries({ queryKey: ['messages', 'threads'] });
+    },
+  });
+}
+
+export function useTakeOverThread(businessId: string | null) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (phone: string) => messagesApi.takeOver(businessId!, phone),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['messages', 'threads'] });
+      queryClient.invalidateQueries({ queryKey: ['messages', 'stats'] });
+    },
+  });
+}
+
+export function useReleaseThread(businessId: string | null) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (phone: string) => messagesApi.release(businessId!, phone),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['messages', 'threads'] });
+      queryClient.invalidateQueries({ queryKey: ['messages', 'stats'] });
+    },
+  });
+}
@@ -0,0 +1,68 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { servicesApi } from '@/services/api';
+import type { Service } from '@/types';
+
+export function useServices(businessId: string | null) {
+  return useQuery({
+    queryKey: ['services', businessId],
+    queryFn: () => servicesApi.getAll(businessId!),
+    enabled: !!businessId,
+  });
+}
+
+/**
+ * Employees who perform a service (empty when nobody has been assigned yet)
+ */
+export function useServiceEmployees(serviceId: string | null) {
+  return useQuery({
+    queryKey: ['services', serviceId, 'employees'],
+    queryFn: () => servicesApi.getEmployees(serviceId!),
+    enabled: !!serviceId,
+  });
+}
+
+export function useCreateService() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: Partial<Service>) => servicesApi.create(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['services'] });
+    },
+  });
+}
+
+export function useUpdateService() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<Service> }) =>
+      servicesApi.update(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['services'] });
+    },
+  });
+}
+
+export function useDeleteService() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => servicesApi.delete(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['services'] });
+    },
+  });
+}
+
+export function useSetServiceEmployees() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, employeeIds }: { id: string; employeeIds: string[] }) =>
+      servicesApi.setEmployees(id, employeeIds),
+    onSuccess: (_data, { id }) => {
+      queryClient.invalidateQueries({ queryKey: ['services', id, 'employees'] });
+    },
+  });
+}
@@ -0,0 +1,35 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { waitlistApi } from '@/services/api';
+import type { WaitlistEntry, WaitlistStatus } from '@/types';
+
+export function useWaitlist(businessId: string | null, status?: WaitlistStatus) {
+  return useQuery({
+    queryKey: ['waitlist', businessId, status],
+    queryFn: () => waitlistApi.getAll(businessId!, status),
+    enabled: !!businessId,
+    // Offers expire within minutes
+    staleTime: 30 * 1000,
+  });
+}
+
+export function useAddToWaitlist() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: Partial<WaitlistEntry>) => waitlistApi.create(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['waitlist'] });
+    },
+  });
+}
+
+export function useCancelWaitlistEntry() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => waitlistApi.cancel(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['waitlist'] });
+    },
+  });
+}
@@ -1,4 +1,4 @@
-import { Bird, Calendar, Users, MessageSquare, Settings, LogOut } from "lucide-react";
+import { Bird, Calendar, Users, Scissors, Dumbbell, BellRing, MessageSquare, Settings, LogOut } from "lucide-react";
 import { Link, Outlet, useLocation, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
@@ -22,6 +22,9 @@ const Dashboard = () => {
     { path: "/dashboard", label: "Turnos", icon: Calendar },
     { path: "/dashboard/clients", label: "Clientes", icon: Users },
     { path: "/dashboard/employees", label: "Empleados", icon: Users },
+    { path: "/dashboard/services", label: "Servicios", icon: Scissors },
+    { path: "/dashboard/classes", label: "Clases", icon: Dumbbell },
+    { path: "/dashboard/waitlist", label: "Lista de espera", icon: BellRing },
     { path: "/dashboard/messages", label: "Mensajes", icon: MessageSquare },
     { path: "/dashboard/settings", label: "Configuración", icon: Settings },
   ];
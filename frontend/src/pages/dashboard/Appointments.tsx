@@ -1,14 +1,475 @@
+import { useEffect, useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Calendar, Plus, Clock, User } from "lucide-react";
+import { Calendar, Plus, Clock, Repeat, User } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
-import { useBusinessId, useAppointmentStats, useUpcomingAppointments } from "@/hooks";
-import type { AppointmentStatus } from "@/types";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  useBusinessId,
+  useAppointmentStats,
+  useAvailableSlots,
+  useCancelSeriesOccurrences,
+  useCreateAppointment,
+  useCreateAppointmentSeries,
+  useCustomers,
+  useEmployees,
+  useServiceEmployees,
+  useServices,
+  useUpcomingAppointments,
+  useUpdateSeriesOccurrences,
+} from "@/hooks";
+import { useToast } from "@/hooks/use-toast";
+import type {
+  Appointment,
+  AppointmentStatus,
+  RecurrenceFrequency,
+  SeriesScope,
+  SkippedOccurrence,
+  TimeSlot,
+} from "@/types";
+
+const formatSlot = (slot: TimeSlot) =>
+  new Date(slot.start_time).toLocaleTimeString("es-AR", { hour: "2-digit", minute: "2-digit" });
+
+const NO_REPEAT = "none";
+
+const repeatOptions: { value: RecurrenceFrequency | typeof NO_REPEAT; label: string }[] = [
+  { value: NO_REPEAT, label: "No se repite" },
+  { value: "weekly", label: "Cada semana" },
+  { value: "biweekly", label: "Cada 2 semanas" },
+  { value: "monthly", label: "Cada mes" },
+];
+
+const scopeOptions: { value: SeriesScope; label: string }[] = [
+  { value: "this", label: "Solo este turno" },
+  { value: "following", label: "Este y los siguientes" },
+  { value: "all", label: "Toda la serie" },
+];
+
+// "mar 27/10 18:00, mar 3/11 18:00"
+const formatSkipped = (skipped: SkippedOccurrence[]) =>
+  skipped
+    .map((occurrence) =>
+      new Date(occurrence.start_time).toLocaleString("es-AR", {
+        weekday: "short",
+        day: "numeric",
+        month: "numeric",
+        hour: "2-digit",
+        minute: "2-digit",
+      })
+    )
+    .join(", ");
+
+interface NewAppointmentDialogProps {
+  businessId: string | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const NewAppointmentDialog = ({ businessId, open, onOpenChange }: NewAppointmentDialogProps) => {
+  const { data: services } = useServices(businessId);
+  const { data: employees } = useEmployees(businessId);
+  const { data: customers } = useCustomers(businessId);
+  const createAppointment = useCreateAppointment();
+  const createSeries = useCreateAppointmentSeries();
+  const { toast } = useToast();
+
+  const [serviceId, setServiceId] = useState<string | null>(null);
+  const [employeeId, setEmployeeId] = useState<string | null>(null);
+  const [date, setDate] = useState("");
+  const [slot, setSlot] = useState<TimeSlot | null>(null);
+  const [customerId, setCustomerId] = useState<string | null>(null);
+  const [repeat, setRepeat] = useState<RecurrenceFrequency | typeof NO_REPEAT>(NO_REPEAT);
+  const [count, setCount] = useState("4");
+  const [until, setUntil] = useState("");
+
+  const { data: serviceEmployees } = useServiceEmployees(serviceId);
+  const { data: slots, isLoading: slotsLoading } = useAvailableSlots(
+    businessId,
+    employeeId,
+    date || null,
+    serviceId
+  );
+
+  const activeServices = (services || []).filter((service) => service.is_active);
+  const requiresService = activeServices.length > 0;
+  // A service nobody is linked to can be done by anyone
+  const availableEmployees =
+    serviceEmployees && serviceEmployees.length > 0 ? serviceEmployees : employees || [];
+
+  useEffect(() => {
+    if (!open) {
+      setServiceId(null);
+      setEmployeeId(null);
+      setDate("");
+      setSlot(null);
+      setCustomerId(null);
+      setRepeat(NO_REPEAT);
+      setCount("4");
+      setUntil("");
+    }
+  }, [open]);
+
+  useEffect(() => {
+    if (employeeId && !availableEmployees.some((employee) => employee.id === employeeId)) {
+      setEmployeeId(null);
+    }
+  }, [availableEmployees, employeeId]);
+
+  useEffect(() => {
+    setSlot(null);
+  }, [serviceId, employeeId, date]);
+
+  const handleCreate = () => {
+    if (!slot || !employeeId || !customerId) return;
+
+    if (repeat !== NO_REPEAT) {
+      createSeries.mutate(
+        {
+          business_id: businessId!,
+          ...(serviceId && { service_id: serviceId }),
+          employee_id: employeeId,
+          customer_id: customerId,
+          start_time: slot.start_time,
+          end_time: slot.end_time,
+          frequency: repeat,
+          ...(until ? { until } : { count: Number(count) }),
+        },
+        {
+          onSuccess: ({ created, skipped }) => {
+            toast({
+              title: `Se crearon ${created.length} turnos`,
+              description:
+                skipped.length > 0
+                  ? `Quedaron afuera por estar ocupados: ${formatSkipped(skipped)}`
+                  : undefined,
+            });
+            onOpenChange(false);
+          },
+          onError: (error) =>
+            toast({
+              title: "No se pudo crear la serie",
+              description: error.message,
+              variant: "destructive",
+            }),
+        }
+      );
+      return;
+    }
+
+    createAppointment.mutate(
+      {
+        business_id: businessId!,
+        service_id: serviceId,
+        employee_id: employeeId,
+        customer_id: customerId,
+        start_time: slot.start_time,
+        end_time: slot.end_time,
+        status: "confirmed",
+      },
+      {
+        onSuccess: () => onOpenChange(false),
+        onError: (error) =>
+          toast({
+            title: "No se pudo crear el turno",
+            description: error.message,
+            variant: "destructive",
+          }),
+      }
+    );
+  };
+
+  const freeSlots = (slots || []).filter((current) => current.available);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Nuevo Turno</DialogTitle>
+          <DialogDescription>Elegí el servicio, el profesional y un horario libre</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {requiresService && (
+            <div className="space-y-2">
+              <Label>Servicio</Label>
+              <Select value={serviceId || undefined} onValueChange={setServiceId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Seleccionar servicio" />
+                </SelectTrigger>
+                <SelectContent>
+                  {activeServices.map((service) => (
+                    <SelectItem key={service.id} value={service.id}>
+                      {service.name} ({service.duration_minutes} min)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Profesional</Label>
+            <Select
+              value={employeeId || undefined}
+              onValueChange={setEmployeeId}
+              disabled={requiresService && !serviceId}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Seleccionar profesional" />
+              </SelectTrigger>
+              <SelectContent>
+                {availableEmployees.map((employee) => (
+                  <SelectItem key={employee.id} value={employee.id}>
+                    {employee.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="appointment-date">Fecha</Label>
+            <Input
+              id="appointment-date"
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              disabled={!employeeId}
+            />
+          </div>
+
+          {employeeId && date && (
+            <div className="space-y-2">
+              <Label>Horario</Label>
+              {slotsLoading ? (
+                <p className="text-sm text-muted-foreground">Cargando...</p>
+              ) : freeSlots.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No hay horarios disponibles</p>
+              ) : (
+                <div className="grid grid-cols-4 gap-2">
+                  {freeSlots.map((current) => (
+                    <Button
+                      key={current.start_time}
+                      type="button"
+                      size="sm"
+                      variant={slot?.start_time === current.start_time ? "default" : "outline"}
+                      onClick={() => setSlot(current)}
+                      title={
+                        current.seats_left !== undefined
+                          ? `${current.seats_left} ${current.seats_left === 1 ? "lugar" : "lugares"}`
+                          : undefined
+                      }
+                    >
+                      {formatSlot(current)}
+                      {current.seats_left !== undefined && (
+                        <span className="ml-1 text-xs opacity-70">({current.seats_left})</span>
+                      )}
+                    </Button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Cliente</Label>
+            <Select value={customerId || undefined} onValueChange={setCustomerId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Seleccionar cliente" />
+              </SelectTrigger>
+              <SelectContent>
+                {(customers || []).map((customer) => (
+                  <SelectItem key={customer.id} value={customer.id}>
+                    {customer.name || customer.phone}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Repetir</Label>
+            <Select value={repeat} onValueChange={(value) => setRepeat(value as typeof repeat)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {repeatOptions.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {repeat !== NO_REPEAT && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="series-count">Cantidad de turnos</Label>
+                <Input
+                  id="series-count"
+                  type="number"
+                  min={2}
+                  max={52}
+                  value={count}
+                  onChange={(e) => setCount(e.target.value)}
+                  disabled={!!until}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="series-until">O hasta el día</Label>
+                <Input id="series-until" type="date" value={until} onChange={(e) => setUntil(e.target.value)} />
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button
+            onClick={handleCreate}
+            disabled={!slot || !customerId || createAppointment.isPending || createSeries.isPending}
+          >
+            {createAppointment.isPending || createSeries.isPending ? "Guardando..." : "Crear Turno"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+interface SeriesOccurrenceDialogProps {
+  appointment: Appointment | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const SeriesOccurrenceDialog = ({ appointment, onOpenChange }: SeriesOccurrenceDialogProps) => {
+  const updateOccurrences = useUpdateSeriesOccurrences();
+  const cancelOccurrences = useCancelSeriesOccurrences();
+  const { toast } = useToast();
+
+  const [scope, setScope] = useState<SeriesScope>("this");
+  const [date, setDate] = useState("");
+  const [time, setTime] = useState("");
+
+  useEffect(() => {
+    setScope("this");
+    setDate("");
+    setTime("");
+  }, [appointment]);
+
+  if (!appointment?.series_id) return null;
+
+  const ids = { seriesId: appointment.series_id, appointmentId: appointment.id };
+
+  const handleMove = () => {
+    const start = new Date(`${date}T${time}`);
+    const duration = new Date(appointment.end_time).getTime() - new Date(appointment.start_time).getTime();
+
+    updateOccurrences.mutate(
+      {
+        ...ids,
+        data: {
+          scope,
+          start_time: start.toISOString(),
+          end_time: new Date(start.getTime() + duration).toISOString(),
+        },
+      },
+      {
+        onSuccess: ({ updated, skipped }) => {
+          toast({
+            title: `Se movieron ${updated.length} turnos`,
+            description:
+              skipped.length > 0 ? `No se movieron por estar ocupados: ${formatSkipped(skipped)}` : undefined,
+          });
+          onOpenChange(false);
+        },
+        onError: (error) =>
+          toast({ title: "No se pudo mover", description: error.message, variant: "destructive" }),
+      }
+    );
+  };
+
+  const handleCancel = () => {
+    cancelOccurrences.mutate(
+      { ...ids, scope },
+      {
+        onSuccess: (cancelled) => {
+          toast({ title: `Se cancelaron ${cancelled.length} turnos` });
+          onOpenChange(false);
+        },
+        onError: (error) =>
+          toast({ title: "No se pudo cancelar", description: error.message, variant: "destructive" }),
+      }
+    );
+  };
+
+  const saving = updateOccurrences.isPending || cancelOccurrences.isPending;
+
+  return (
+    <Dialog open={!!appointment} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Turno que se repite</DialogTitle>
+          <DialogDescription>Elegí a qué turnos de la serie aplicar el cambio</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <RadioGroup value={scope} onValueChange={(value) => setScope(value as SeriesScope)}>
+            {scopeOptions.map((option) => (
+              <label key={option.value} className="flex items-center gap-2 text-sm">
+                <RadioGroupItem value={option.value} />
+                {option.label}
+              </label>
+            ))}
+          </RadioGroup>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="series-move-date">Nuevo día</Label>
+              <Input id="series-move-date" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="series-move-time">Nueva hora</Label>
+              <Input id="series-move-time" type="time" value={time} onChange={(e) => setTime(e.target.value)} />
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="destructive" onClick={handleCancel} disabled={saving}>
+            Cancelar turnos
+          </Button>
+          <Button onClick={handleMove} disabled={saving || !date || !time}>
+            {updateOccurrences.isPending ? "Guardando..." : "Mover"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
 
 const Appointments = () => {
   const businessId = useBusinessId();
   const { data: stats, isLoading: statsLoading } = useAppointmentStats(businessId);
   const { data: upcomingAppointments, isLoading: appointmentsLoading } = useUpcomingAppointments(businessId, 10);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [seriesAppointment, setSeriesAppointment] = useState<Appointment | null>(null);
 
   const getStatusBadge = (status: string) => {
     const variants: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
@@ -26,6 +487,17 @@ const Appointments = () => {
     return <Badge variant={variants[status] || "secondary"}>{labels[status] || status}</Badge>;
   };
 
+  // Answer to the WhatsApp reminder, so staff can follow up on customers who can't make it
+  const getReminderBadge = (appointment: Appointment) => {
+    if (!appointment.reminder_response) return null;
+
+    return appointment.reminder_response === "confirmed" ? (
+      <Badge variant="outline">Confirmó por WhatsApp</Badge>
+    ) : (
+      <Badge variant="destructive">Avisó que no puede ir</Badge>
+    );
+  };
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     const today = new Date();
@@ -52,7 +524,7 @@ const Appointments = () => {
           <h1 className="text-3xl font-bold text-foreground">Turnos</h1>
           <p className="text-muted-foreground">Gestiona tus citas y horarios</p>
         </div>
-        <Button>
+        <Button onClick={() => setDialogOpen(true)}>
           <Plus className="h-5 w-5 mr-2" />
           Nuevo Turno
         </Button>
@@ -113,11 +585,13 @@ const Appointments = () => {
                       <User className="h-5 w-5 text-primary" />
                     </div>
                     <div>
-                      <p className="font-semibold text-foreground">
+                      <p className="flex items-center gap-2 font-semibold text-foreground">
                         {appointment.customer?.name || appointment.customer?.phone || "Cliente sin nombre"}
+                        {appointment.series_id && <Repeat className="h-4 w-4 text-muted-foreground" />}
                       </p>
                       <p className="text-sm text-muted-foreground">
                         {appointment.employee?.name || "Sin asignar"}
+                        {appointment.service?.name && ` · ${appointment.service.name}`}
                       </p>
                     </div>
                   </div>
@@ -132,7 +606,18 @@ const Appointments = () => {
                         {formatTime(appointment.start_time)}
                       </div>
                     </div>
+                    {getReminderBadge(appointment)}
                     {getStatusBadge(appointment.status)}
+                    {appointment.series_id && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Mover o cancelar la serie"
+                        onClick={() => setSeriesAppointment(appointment)}
+                      >
+                        <Repeat className="h-4 w-4" />
+                      </Button>
+                    )}
                   </div>
                 </div>
               ))}
@@ -140,6 +625,12 @@ const Appointments = () => {
           )}
         </CardContent>
       </Card>
+
+      <NewAppointmentDialog businessId={businessId} open={dialogOpen} onOpenChange={setDialogOpen} />
+      <SeriesOccurrenceDialog
+        appointment={seriesAppointment}
+        onOpenChange={(open) => !open && setSeriesAppointment(null)}
+      />
     </div>
   );
 };
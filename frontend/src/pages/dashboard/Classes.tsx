@@ -0,0 +1,127 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dumbbell } from "lucide-react";
+import { useBusinessId, useCheckIn, useClassSessions } from "@/hooks";
+import { useToast } from "@/hooks/use-toast";
+import type { ClassAttendee, ClassSession } from "@/types";
+
+const today = () => {
+  const now = new Date();
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+};
+
+const formatTime = (value: string) =>
+  new Date(value).toLocaleTimeString("es-AR", { hour: "2-digit", minute: "2-digit" });
+
+const ClassCard = ({ session }: { session: ClassSession }) => {
+  const checkIn = useCheckIn();
+  const { toast } = useToast();
+  const booked = session.capacity - session.seats_left;
+  const present = session.attendees.filter((attendee) => attendee.checked_in_at).length;
+
+  const handleCheckIn = (attendee: ClassAttendee, checkedIn: boolean) => {
+    checkIn.mutate(
+      { id: attendee.appointment_id, checkedIn },
+      {
+        onError: (error) =>
+          toast({
+            title: "No se pudo registrar la asistencia",
+            description: error.message,
+            variant: "destructive",
+          }),
+      }
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between">
+          <div className="flex items-center gap-4">
+            <div className="bg-primary/10 p-3 rounded-full">
+              <Dumbbell className="h-6 w-6 text-primary" />
+            </div>
+            <div>
+              <CardTitle>{session.service_name || "Clase"}</CardTitle>
+              <CardDescription>
+                {formatTime(session.start_time)} a {formatTime(session.end_time)} ·{" "}
+                {session.employee_name || "Sin profesional"}
+              </CardDescription>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <Badge variant="outline">
+              {present}/{booked} presentes
+            </Badge>
+            <Badge variant={session.seats_left === 0 ? "secondary" : "default"}>
+              {session.seats_left === 0
+                ? "Completa"
+                : `${session.seats_left} ${session.seats_left === 1 ? "lugar libre" : "lugares libres"}`}
+            </Badge>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="divide-y divide-border">
+          {session.attendees.map((attendee) => (
+            <label
+              key={attendee.appointment_id}
+              className="flex items-center justify-between py-2 text-sm cursor-pointer"
+            >
+              <div>
+                <p className="font-medium text-foreground">{attendee.customer_name || "Cliente"}</p>
+                <p className="text-muted-foreground">{attendee.customer_phone}</p>
+              </div>
+              <div className="flex items-center gap-2">
+                {attendee.checked_in_at && (
+                  <span className="text-muted-foreground">Llegó {formatTime(attendee.checked_in_at)}</span>
+                )}
+                <Checkbox
+                  checked={!!attendee.checked_in_at}
+                  disabled={checkIn.isPending}
+                  onCheckedChange={(checked) => handleCheckIn(attendee, checked === true)}
+                />
+              </div>
+            </label>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+const Classes = () => {
+  const businessId = useBusinessId();
+  const [date, setDate] = useState(today());
+  const { data: sessions, isLoading } = useClassSessions(businessId, date);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Clases</h1>
+          <p className="text-muted-foreground">Inscriptos de cada clase grupal y su asistencia</p>
+        </div>
+        <Input type="date" className="w-auto" value={date} onChange={(e) => setDate(e.target.value)} />
+      </div>
+
+      {isLoading ? (
+        <div className="text-center py-8 text-muted-foreground">Cargando...</div>
+      ) : !sessions || sessions.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">No hay clases con inscriptos ese día</div>
+      ) : (
+        <div className="grid gap-4">
+          {sessions.map((session) => (
+            <ClassCard key={`${session.employee_id}-${session.service_id}-${session.start_time}`} session={session} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Classes;
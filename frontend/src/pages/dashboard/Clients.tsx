@@ -1,14 +1,71 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Plus, User, Phone, Mail } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Plus, User, Phone, Mail, Download, Trash2 } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { useState } from "react";
-import { useBusinessId, useCustomers } from "@/hooks";
+import { useBusinessId, useCustomers, useEraseCustomer } from "@/hooks";
+import { useToast } from "@/hooks/use-toast";
+import { customersApi } from "@/services/api";
+import type { Customer } from "@/types";
 
 const Clients = () => {
   const businessId = useBusinessId();
   const [searchQuery, setSearchQuery] = useState("");
   const { data: customers, isLoading } = useCustomers(businessId, searchQuery);
+  const eraseCustomer = useEraseCustomer();
+  const { toast } = useToast();
+
+  // Data-subject access request: download everything stored about the customer as JSON
+  const handleExport = async (client: Customer) => {
+    try {
+      const data = await customersApi.exportData(client.id);
+      const url = URL.createObjectURL(new Blob([JSON.stringify(data, null, 2)], { type: "application/json" }));
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `cliente-${client.id}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({
+        title: "No se pudieron exportar los datos",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleErase = (client: Customer) => {
+    if (!confirm(`¿Borrar los datos personales de ${client.name || client.phone}? Los turnos se conservan sin sus datos. No se puede deshacer.`)) {
+      return;
+    }
+
+    eraseCustomer.mutate(client.id, {
+      onError: (error) =>
+        toast({
+          title: "No se pudieron borrar los datos",
+          description: error.message,
+          variant: "destructive",
+        }),
+    });
+  };
+
+  // Customers who wrote BAJA/STOP get no reminders, follow-ups or waitlist offers
+  const getConsentBadge = (client: Customer) => {
+    if (client.erased_at) {
+      return <Badge variant="secondary">Datos borrados</Badge>;
+    }
+
+    if (client.consent?.status !== "opted_out") {
+      return <Badge variant="outline">Recibe mensajes</Badge>;
+    }
+
+    return (
+      <Badge variant="destructive">
+        Pidió la baja el {new Date(client.consent.changed_at).toLocaleDateString("es-AR")}
+      </Badge>
+    );
+  };
 
   return (
     <div className="space-y-6">
@@ -70,8 +127,25 @@ const Clients = () => {
                           {client.appointmentCount || 0}
                         </span> visitas
                       </div>
+                      <div className="mt-2">{getConsentBadge(client)}</div>
                     </div>
                   </div>
+                  <div className="flex gap-1">
+                    <Button variant="ghost" size="icon" title="Exportar datos" onClick={() => handleExport(client)}>
+                      <Download className="h-4 w-4" />
+                    </Button>
+                    {!client.erased_at && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Borrar datos personales"
+                        onClick={() => handleErase(client)}
+                        disabled={eraseCustomer.isPending}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
                 </div>
               </CardContent>
             </Card>
@@ -1,31 +1,196 @@
+import { FormEvent, useEffect, useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { MessageSquare, Send } from "lucide-react";
+import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Bot, Check, CheckCheck, Hand, MessageSquare, Send, X } from "lucide-react";
+import {
+  useBusinessId,
+  useMarkThreadRead,
+  useMessageStats,
+  useMessageThread,
+  useMessageThreads,
+  useReleaseThread,
+  useReplyToThread,
+  useTakeOverThread,
+  THREADS_PAGE_SIZE,
+} from "@/hooks";
+import { useToast } from "@/hooks/use-toast";
+import type { ConversationMessage, MessageThread } from "@/types";
+
+const formatPhone = (phone: string) => phone.replace("whatsapp:", "");
+
+const formatTime = (dateString: string) => {
+  const date = new Date(dateString);
+  const today = new Date();
+  const yesterday = new Date(today);
+  yesterday.setDate(yesterday.getDate() - 1);
+
+  if (date.toDateString() === today.toDateString()) {
+    return date.toLocaleTimeString("es-AR", { hour: "2-digit", minute: "2-digit" });
+  }
+  if (date.toDateString() === yesterday.toDateString()) return "Ayer";
+
+  return date.toLocaleDateString("es-AR", { day: "numeric", month: "short" });
+};
+
+const DeliveryStatus = ({ message }: { message: ConversationMessage }) => {
+  if (message.direction === "inbound") return null;
+  if (message.status === "failed") return <X className="h-3 w-3 text-destructive" />;
+  if (message.status === "delivered" || message.status === "read") {
+    return <CheckCheck className={`h-3 w-3 ${message.status === "read" ? "text-primary" : ""}`} />;
+  }
+  return <Check className="h-3 w-3" />;
+};
+
+const Thread = ({ businessId, thread }: { businessId: string | null; thread: MessageThread }) => {
+  const { data, isLoading, hasNextPage, fetchNextPage, isFetchingNextPage } = useMessageThread(
+    businessId,
+    thread.phone
+  );
+  const markRead = useMarkThreadRead(businessId);
+  const reply = useReplyToThread(businessId);
+  const takeOver = useTakeOverThread(businessId);
+  const release = useReleaseThread(businessId);
+  const { toast } = useToast();
+  const [draft, setDraft] = useState("");
+
+  useEffect(() => {
+    if (thread.unread_count > 0) {
+      markRead.mutate(thread.phone);
+    }
+    // Only when a conversation with unread messages is opened
+  }, [thread.phone, thread.unread_count]);
+
+  // Pages come newest first; each page is already chronological
+  const messages = data ? [...data.pages].reverse().flatMap((page) => page.data) : [];
+
+  const handleReply = (e: FormEvent) => {
+    e.preventDefault();
+    const body = draft.trim();
+    if (!body) return;
+
+    reply.mutate(
+      { phone: thread.phone, body },
+      {
+        onSuccess: () => setDraft(""),
+        onError: (error) =>
+          toast({
+            title: "No se pudo enviar el mensaje",
+            description: error.message,
+            variant: "destructive",
+          }),
+      }
+    );
+  };
+
+  return (
+    <Card className="md:col-span-2">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle>{thread.customer_name || formatPhone(thread.phone)}</CardTitle>
+            <CardDescription>{formatPhone(thread.phone)}</CardDescription>
+          </div>
+          {thread.bot_paused ? (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => release.mutate(thread.phone)}
+              disabled={release.isPending}
+            >
+              <Bot className="h-4 w-4 mr-2" />
+              Devolver al bot
+            </Button>
+          ) : (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => takeOver.mutate(thread.phone)}
+              disabled={takeOver.isPending}
+            >
+              <Hand className="h-4 w-4 mr-2" />
+              Tomar conversación
+            </Button>
+          )}
+        </div>
+        {thread.bot_paused && (
+          <p className="text-sm text-muted-foreground">
+            {thread.takeover_requested_at
+              ? "El cliente pidió hablar con una persona. El bot no responderá hasta que lo devuelvas."
+              : "Estás atendiendo esta conversación. El bot no responderá hasta que lo devuelvas."}
+          </p>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center py-8 text-muted-foreground">Cargando...</div>
+        ) : (
+          <div className="space-y-3 max-h-[32rem] overflow-y-auto">
+            {hasNextPage && (
+              <div className="text-center">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => fetchNextPage()}
+                  disabled={isFetchingNextPage}
+                >
+                  {isFetchingNextPage ? "Cargando..." : "Ver mensajes anteriores"}
+                </Button>
+              </div>
+            )}
+            {messages.map((msg) => (
+              <div
+                key={msg.id}
+                className={`flex ${msg.direction === "outbound" ? "justify-end" : "justify-start"}`}
+              >
+                <div
+                  className={`max-w-[75%] rounded-lg px-3 py-2 text-sm ${
+                    msg.direction === "outbound"
+                      ? "bg-primary text-primary-foreground"
+                      : "bg-muted text-foreground"
+                  }`}
+                >
+                  <p className="whitespace-pre-wrap break-words">{msg.body}</p>
+                  <div className="flex items-center justify-end gap-1 mt-1 text-xs opacity-70">
+                    <span>{formatTime(msg.created_at)}</span>
+                    <DeliveryStatus message={msg} />
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <form onSubmit={handleReply} className="flex items-end gap-2 mt-4">
+          <Textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder={
+              thread.bot_paused ? "Escribe una respuesta..." : "Responder pausa el bot en esta conversación"
+            }
+            rows={2}
+            className="resize-none"
+          />
+          <Button type="submit" size="icon" disabled={reply.isPending || !draft.trim()}>
+            <Send className="h-4 w-4" />
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
 
 const Messages = () => {
-  const messages = [
-    { 
-      id: 1, 
-      client: "Juan Pérez", 
-      message: "Hola, quisiera agendar un turno para mañana",
-      time: "10:30 AM",
-      status: "sin leer"
-    },
-    { 
-      id: 2, 
-      client: "María García", 
-      message: "Gracias por confirmar mi turno",
-      time: "9:15 AM",
-      status: "leído"
-    },
-    { 
-      id: 3, 
-      client: "Carlos López", 
-      message: "Puedo cambiar mi turno de las 3pm?",
-      time: "Ayer",
-      status: "respondido"
-    },
-  ];
+  const businessId = useBusinessId();
+  const [page, setPage] = useState(0);
+  const [selectedPhone, setSelectedPhone] = useState<string | null>(null);
+  const { data: stats, isLoading: statsLoading } = useMessageStats(businessId);
+  const { data: threadsResponse, isLoading: threadsLoading } = useMessageThreads(businessId, page);
+
+  const threads = threadsResponse?.data || [];
+  const total = threadsResponse?.total || 0;
+  const selectedThread = threads.find((thread) => thread.phone === selectedPhone);
 
   return (
     <div className="space-y-6">
@@ -34,13 +199,25 @@ const Messages = () => {
         <p className="text-muted-foreground">Conversaciones con tus clientes</p>
       </div>
 
-      <div className="grid gap-4 md:grid-cols-3">
+      <div className="grid gap-4 md:grid-cols-4">
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Piden Atención</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-foreground">
+              {statsLoading ? "..." : stats?.pendingTakeovers || 0}
+            </div>
+          </CardContent>
+        </Card>
         <Card>
           <CardHeader className="pb-3">
             <CardTitle className="text-sm font-medium text-muted-foreground">Sin Leer</CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold text-foreground">3</div>
+            <div className="text-2xl font-bold text-foreground">
+              {statsLoading ? "..." : stats?.unreadCount || 0}
+            </div>
           </CardContent>
         </Card>
         <Card>
@@ -48,7 +225,9 @@ const Messages = () => {
             <CardTitle className="text-sm font-medium text-muted-foreground">Hoy</CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold text-foreground">12</div>
+            <div className="text-2xl font-bold text-foreground">
+              {statsLoading ? "..." : stats?.todayCount || 0}
+            </div>
           </CardContent>
         </Card>
         <Card>
@@ -56,52 +235,105 @@ const Messages = () => {
             <CardTitle className="text-sm font-medium text-muted-foreground">Esta Semana</CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold text-foreground">87</div>
+            <div className="text-2xl font-bold text-foreground">
+              {statsLoading ? "..." : stats?.weekCount || 0}
+            </div>
           </CardContent>
         </Card>
       </div>
 
-      <Card>
-        <CardHeader>
-          <CardTitle>Mensajes Recientes</CardTitle>
-          <CardDescription>Últimas conversaciones con clientes</CardDescription>
-        </CardHeader>
-        <CardContent>
-          <div className="space-y-4">
-            {messages.map((msg) => (
-              <div
-                key={msg.id}
-                className="flex items-start gap-4 p-4 border border-border rounded-lg hover:bg-muted/50 transition-colors cursor-pointer"
-              >
-                <div className="bg-primary/10 p-3 rounded-full">
-                  <MessageSquare className="h-5 w-5 text-primary" />
-                </div>
-                <div className="flex-1 min-w-0">
-                  <div className="flex items-center justify-between mb-1">
-                    <p className="font-semibold text-foreground">{msg.client}</p>
-                    <span className="text-sm text-muted-foreground">{msg.time}</span>
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card className={selectedThread ? "" : "md:col-span-3"}>
+          <CardHeader>
+            <CardTitle>Conversaciones</CardTitle>
+            <CardDescription>Últimas conversaciones con clientes</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {threadsLoading ? (
+              <div className="text-center py-8 text-muted-foreground">Cargando...</div>
+            ) : threads.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">No hay conversaciones</div>
+            ) : (
+              <div className="space-y-4">
+                {threads.map((thread) => (
+                  <div
+                    key={thread.phone}
+                    onClick={() => setSelectedPhone(thread.phone)}
+                    className={`flex items-start gap-4 p-4 border border-border rounded-lg hover:bg-muted/50 transition-colors cursor-pointer ${
+                      thread.phone === selectedPhone ? "bg-muted/50" : ""
+                    }`}
+                  >
+                    <div className="bg-primary/10 p-3 rounded-full">
+                      <MessageSquare className="h-5 w-5 text-primary" />
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center justify-between mb-1">
+                        <p className="font-semibold text-foreground truncate">
+                          {thread.customer_name || formatPhone(thread.phone)}
+                        </p>
+                        <span className="text-sm text-muted-foreground">
+                          {formatTime(thread.last_message_at)}
+                        </span>
+                      </div>
+                      <p className="text-sm text-muted-foreground truncate">
+                        {thread.last_direction === "outbound" ? "Tú: " : ""}
+                        {thread.last_message}
+                      </p>
+                    </div>
+                    <div className="flex flex-col items-end gap-1">
+                      {thread.takeover_requested_at && thread.bot_paused ? (
+                        <Badge variant="destructive">Pide atención</Badge>
+                      ) : (
+                        thread.bot_paused && <Badge variant="secondary">Bot pausado</Badge>
+                      )}
+                      {thread.unread_count > 0 && <Badge>{thread.unread_count}</Badge>}
+                    </div>
                   </div>
-                  <p className="text-sm text-muted-foreground truncate">{msg.message}</p>
-                </div>
-                <Badge variant={msg.status === "sin leer" ? "default" : "secondary"}>
-                  {msg.status}
-                </Badge>
+                ))}
               </div>
-            ))}
-          </div>
-        </CardContent>
-      </Card>
-
-      <Card className="bg-muted/50">
-        <CardContent className="pt-6">
-          <div className="flex items-center gap-2 text-muted-foreground">
-            <Send className="h-5 w-5" />
-            <p className="text-sm">
-              Los mensajes de WhatsApp aparecerán aquí cuando conectes tu cuenta
-            </p>
-          </div>
-        </CardContent>
-      </Card>
+            )}
+
+            {total > THREADS_PAGE_SIZE && (
+              <div className="flex items-center justify-between mt-4">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage((p) => p - 1)}
+                  disabled={page === 0}
+                >
+                  Anterior
+                </Button>
+                <span className="text-sm text-muted-foreground">
+                  {page + 1} / {Math.ceil(total / THREADS_PAGE_SIZE)}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage((p) => p + 1)}
+                  disabled={(page + 1) * THREADS_PAGE_SIZE >= total}
+                >
+                  Siguiente
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {selectedThread && <Thread businessId={businessId} thread={selectedThread} />}
+      </div>
+
+      {!threadsLoading && threads.length === 0 && (
+        <Card className="bg-muted/50">
+          <CardContent className="pt-6">
+            <div className="flex items-center gap-2 text-muted-foreground">
+              <Send className="h-5 w-5" />
+              <p className="text-sm">
+                Los mensajes de WhatsApp aparecerán aquí cuando tus clientes te escriban
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 };
@@ -0,0 +1,320 @@
+import { FormEvent, useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Clock, DollarSign, Pencil, Plus, Scissors, Users } from "lucide-react";
+import {
+  useBusinessId,
+  useCreateService,
+  useEmployees,
+  useServiceEmployees,
+  useServices,
+  useSetServiceEmployees,
+  useUpdateService,
+} from "@/hooks";
+import { useToast } from "@/hooks/use-toast";
+import type { Employee, Service } from "@/types";
+
+const formatPrice = (price?: number | null) =>
+  price === null || price === undefined
+    ? "Sin precio"
+    : `$${Number(price).toLocaleString("es-AR")}`;
+
+const ServiceEmployees = ({ serviceId }: { serviceId: string }) => {
+  const { data: employees, isLoading } = useServiceEmployees(serviceId);
+
+  if (isLoading) return <span className="text-sm text-muted-foreground">Cargando...</span>;
+  if (!employees || employees.length === 0) {
+    return <span className="text-sm text-muted-foreground">Todos los profesionales</span>;
+  }
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {employees.map((employee) => (
+        <Badge key={employee.id} variant="outline">
+          {employee.name}
+        </Badge>
+      ))}
+    </div>
+  );
+};
+
+interface ServiceDialogProps {
+  businessId: string | null;
+  service: Service | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ServiceDialog = ({ businessId, service, open, onOpenChange }: ServiceDialogProps) => {
+  const { data: employees } = useEmployees(businessId);
+  const { data: assigned } = useServiceEmployees(service?.id || null);
+  const createService = useCreateService();
+  const updateService = useUpdateService();
+  const setEmployees = useSetServiceEmployees();
+  const { toast } = useToast();
+
+  const [name, setName] = useState("");
+  const [duration, setDuration] = useState("60");
+  const [price, setPrice] = useState("");
+  const [buffer, setBuffer] = useState("0");
+  const [capacity, setCapacity] = useState("1");
+  const [isActive, setIsActive] = useState(true);
+  const [employeeIds, setEmployeeIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(service?.name || "");
+    setDuration(String(service?.duration_minutes ?? 60));
+    setPrice(service?.price === null || service?.price === undefined ? "" : String(service.price));
+    setBuffer(String(service?.buffer_minutes ?? 0));
+    setCapacity(String(service?.capacity ?? 1));
+    setIsActive(service?.is_active ?? true);
+    setEmployeeIds((assigned || []).map((employee) => employee.id));
+  }, [open, service, assigned]);
+
+  const toggleEmployee = (id: string, checked: boolean) => {
+    setEmployeeIds((ids) => (checked ? [...ids, id] : ids.filter((current) => current !== id)));
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+
+    const data: Partial<Service> = {
+      name: name.trim(),
+      duration_minutes: Number(duration),
+      price: price === "" ? null : Number(price),
+      buffer_minutes: Number(buffer) || 0,
+      capacity: Math.max(Number(capacity) || 1, 1),
+      is_active: isActive,
+    };
+
+    try {
+      const saved = service
+        ? await updateService.mutateAsync({ id: service.id, data })
+        : await createService.mutateAsync({ ...data, business_id: businessId! });
+      await setEmployees.mutateAsync({ id: saved.id, employeeIds });
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "No se pudo guardar el servicio",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const saving = createService.isPending || updateService.isPending || setEmployees.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{service ? "Editar Servicio" : "Nuevo Servicio"}</DialogTitle>
+            <DialogDescription>La duración define los horarios que se ofrecen al reservar</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="service-name">Nombre</Label>
+            <Input id="service-name" value={name} onChange={(e) => setName(e.target.value)} required />
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="service-duration">Duración (min)</Label>
+              <Input
+                id="service-duration"
+                type="number"
+                min={5}
+                value={duration}
+                onChange={(e) => setDuration(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="service-price">Precio</Label>
+              <Input
+                id="service-price"
+                type="number"
+                min={0}
+                step="0.01"
+                value={price}
+                onChange={(e) => setPrice(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="service-buffer">Descanso (min)</Label>
+              <Input
+                id="service-buffer"
+                type="number"
+                min={0}
+                value={buffer}
+                onChange={(e) => setBuffer(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="service-capacity">Lugares por turno</Label>
+            <Input
+              id="service-capacity"
+              type="number"
+              min={1}
+              value={capacity}
+              onChange={(e) => setCapacity(e.target.value)}
+            />
+            <p className="text-sm text-muted-foreground">
+              Con más de 1 lugar es una clase grupal: el horario se sigue ofreciendo hasta completarse
+            </p>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="service-active">Disponible para reservar</Label>
+            <Switch id="service-active" checked={isActive} onCheckedChange={setIsActive} />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Profesionales</Label>
+            <p className="text-sm text-muted-foreground">
+              Si no elegís ninguno, cualquier profesional puede realizarlo
+            </p>
+            <div className="grid grid-cols-2 gap-2">
+              {(employees || []).map((employee: Employee) => (
+                <label key={employee.id} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={employeeIds.includes(employee.id)}
+                    onCheckedChange={(checked) => toggleEmployee(employee.id, checked === true)}
+                  />
+                  {employee.name}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancelar
+            </Button>
+            <Button type="submit" disabled={saving || !name.trim()}>
+              {saving ? "Guardando..." : "Guardar"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+const Services = () => {
+  const businessId = useBusinessId();
+  const { data: services, isLoading } = useServices(businessId);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<Service | null>(null);
+
+  const openDialog = (service: Service | null) => {
+    setEditing(service);
+    setDialogOpen(true);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Servicios</h1>
+          <p className="text-muted-foreground">Define qué ofrecés, cuánto dura y cuánto cuesta</p>
+        </div>
+        <Button onClick={() => openDialog(null)}>
+          <Plus className="h-5 w-5 mr-2" />
+          Nuevo Servicio
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="text-center py-8 text-muted-foreground">Cargando...</div>
+      ) : !services || services.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">No hay servicios registrados</div>
+      ) : (
+        <div className="grid gap-6">
+          {services.map((service) => (
+            <Card key={service.id}>
+              <CardHeader>
+                <div className="flex items-start justify-between">
+                  <div className="flex items-center gap-4">
+                    <div className="bg-primary/10 p-3 rounded-full">
+                      <Scissors className="h-6 w-6 text-primary" />
+                    </div>
+                    <div>
+                      <CardTitle>{service.name}</CardTitle>
+                      <CardDescription>{service.description || "Sin descripción"}</CardDescription>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {service.capacity > 1 && (
+                      <Badge variant="outline">Clase grupal · {service.capacity} lugares</Badge>
+                    )}
+                    <Badge variant={service.is_active ? "default" : "secondary"}>
+                      {service.is_active ? "Activo" : "Inactivo"}
+                    </Badge>
+                    <Button variant="ghost" size="icon" onClick={() => openDialog(service)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <div className="grid md:grid-cols-3 gap-4">
+                  <div>
+                    <div className="flex items-center gap-2 text-sm text-muted-foreground mb-2">
+                      <Clock className="h-4 w-4" />
+                      <span className="font-medium">Duración:</span>
+                    </div>
+                    <p className="text-sm text-foreground">
+                      {service.duration_minutes} min
+                      {service.buffer_minutes > 0 && ` + ${service.buffer_minutes} min de descanso`}
+                    </p>
+                  </div>
+                  <div>
+                    <div className="flex items-center gap-2 text-sm text-muted-foreground mb-2">
+                      <DollarSign className="h-4 w-4" />
+                      <span className="font-medium">Precio:</span>
+                    </div>
+                    <p className="text-sm text-foreground">{formatPrice(service.price)}</p>
+                  </div>
+                  <div>
+                    <div className="flex items-center gap-2 text-sm text-muted-foreground mb-2">
+                      <Users className="h-4 w-4" />
+                      <span className="font-medium">Profesionales:</span>
+                    </div>
+                    <ServiceEmployees serviceId={service.id} />
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <ServiceDialog
+        businessId={businessId}
+        service={editing}
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+      />
+    </div>
+  );
+};
+
+export default Services;
@@ -1,8 +1,159 @@
+import { useEffect, useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Bird, Building, Phone, Mail } from "lucide-react";
+import { useBusiness, useBusinessId, useUpdateBusiness } from "@/hooks";
+import { useToast } from "@/hooks/use-toast";
+import type { BookingPolicy } from "@/types";
+
+// Same defaults the backend applies to missing fields
+const DEFAULT_BOOKING_POLICY: BookingPolicy = {
+  min_notice_minutes: 60,
+  max_advance_days: 90,
+  buffer_before_minutes: 0,
+  buffer_after_minutes: 0,
+  slot_step_minutes: null,
+  max_active_bookings: null,
+  cancellation_cutoff_hours: 0,
+  reminder_offsets_minutes: [24 * 60, 2 * 60],
+  feedback_delay_minutes: 60,
+  no_show_follow_up_delay_minutes: 30,
+};
+
+const policyFields: { key: Exclude<keyof BookingPolicy, "reminder_offsets_minutes">; label: string; hint: string; optional?: boolean }[] = [
+  { key: "min_notice_minutes", label: "Anticipación mínima", hint: "Minutos antes del turno" },
+  { key: "max_advance_days", label: "Reservas hasta", hint: "Días hacia adelante" },
+  { key: "buffer_before_minutes", label: "Margen antes del turno", hint: "Minutos libres" },
+  { key: "buffer_after_minutes", label: "Margen después del turno", hint: "Minutos libres" },
+  {
+    key: "slot_step_minutes",
+    label: "Intervalo entre horarios",
+    hint: "Minutos; vacío = uno detrás del otro",
+    optional: true,
+  },
+  {
+    key: "max_active_bookings",
+    label: "Turnos activos por cliente",
+    hint: "Vacío = sin límite",
+    optional: true,
+  },
+  {
+    key: "cancellation_cutoff_hours",
+    label: "Cancelar o reprogramar hasta",
+    hint: "Horas antes, por WhatsApp",
+  },
+  {
+    key: "feedback_delay_minutes",
+    label: "Encuesta de satisfacción",
+    hint: "Minutos después del turno; vacío = no enviar",
+    optional: true,
+  },
+  {
+    key: "no_show_follow_up_delay_minutes",
+    label: "Ofrecer nuevo turno si no vino",
+    hint: "Minutos después; vacío = no enviar",
+    optional: true,
+  },
+];
+
+type PolicyForm = Record<keyof BookingPolicy, string>;
+
+const toForm = (policy: BookingPolicy): PolicyForm =>
+  Object.fromEntries(
+    Object.entries(policy).map(([key, value]) => [
+      key,
+      // Reminders are edited as hours: "24, 2"
+      Array.isArray(value) ? value.map((minutes) => minutes / 60).join(", ") : value === null ? "" : String(value),
+    ])
+  ) as PolicyForm;
+
+const parseReminderHours = (value: string): number[] =>
+  value
+    .split(",")
+    .map((hours) => hours.trim())
+    .filter(Boolean)
+    .map((hours) => Math.round(Number(hours) * 60));
+
+const BookingPolicyCard = () => {
+  const businessId = useBusinessId();
+  const { data: business } = useBusiness(businessId);
+  const updateBusiness = useUpdateBusiness();
+  const { toast } = useToast();
+
+  const [form, setForm] = useState<PolicyForm>(toForm(DEFAULT_BOOKING_POLICY));
+
+  useEffect(() => {
+    if (business) {
+      setForm(toForm({ ...DEFAULT_BOOKING_POLICY, ...business.settings?.booking_policy }));
+    }
+  }, [business]);
+
+  const handleSave = () => {
+    if (!business) return;
+
+    const bookingPolicy = {
+      ...Object.fromEntries(
+        policyFields.map(({ key, optional }) => [
+          key,
+          optional && form[key].trim() === "" ? null : Number(form[key]),
+        ])
+      ),
+      reminder_offsets_minutes: parseReminderHours(form.reminder_offsets_minutes),
+    } as unknown as BookingPolicy;
+
+    updateBusiness.mutate(
+      { id: business.id, data: { settings: { ...business.settings, booking_policy: bookingPolicy } } },
+      {
+        onSuccess: () => toast({ title: "Reglas de reserva guardadas" }),
+        onError: (error) =>
+          toast({ title: "No se pudieron guardar", description: error.message, variant: "destructive" }),
+      }
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Reglas de Reserva</CardTitle>
+        <CardDescription>
+          Se aplican a los turnos de WhatsApp y del panel, y a los horarios que se ofrecen
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid gap-4 sm:grid-cols-2">
+          {policyFields.map(({ key, label, hint }) => (
+            <div key={key} className="space-y-2">
+              <Label htmlFor={key}>{label}</Label>
+              <Input
+                id={key}
+                type="number"
+                min={0}
+                value={form[key]}
+                onChange={(e) => setForm({ ...form, [key]: e.target.value })}
+              />
+              <p className="text-xs text-muted-foreground">{hint}</p>
+            </div>
+          ))}
+          <div className="space-y-2">
+            <Label htmlFor="reminder_offsets_minutes">Recordatorios por WhatsApp</Label>
+            <Input
+              id="reminder_offsets_minutes"
+              placeholder="24, 2"
+              value={form.reminder_offsets_minutes}
+              onChange={(e) => setForm({ ...form, reminder_offsets_minutes: e.target.value })}
+            />
+            <p className="text-xs text-muted-foreground">Horas antes del turno, separadas por coma; vacío = sin recordatorios</p>
+          </div>
+        </div>
+        <Button className="mt-4" onClick={handleSave} disabled={!business || updateBusiness.isPending}>
+          {updateBusiness.isPending ? "Guardando..." : "Guardar Reglas"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
 
 const Settings = () => {
   return (
@@ -90,6 +241,8 @@ const Settings = () => {
           <Button className="mt-4">Guardar Horarios</Button>
         </CardContent>
       </Card>
+
+      <BookingPolicyCard />
     </div>
   );
 };
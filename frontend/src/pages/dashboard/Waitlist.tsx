@@ -0,0 +1,335 @@
+import { FormEvent, useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BellRing, Calendar, Clock, Plus, User, X } from "lucide-react";
+import {
+  useAddToWaitlist,
+  useBusinessId,
+  useCancelWaitlistEntry,
+  useCustomers,
+  useEmployees,
+  useServices,
+  useWaitlist,
+} from "@/hooks";
+import { useToast } from "@/hooks/use-toast";
+import type { WaitlistEntry, WaitlistStatus } from "@/types";
+
+const ANY_EMPLOYEE = "any";
+
+const statusLabels: Record<WaitlistStatus, string> = {
+  waiting: "Esperando",
+  offered: "Lugar ofrecido",
+  booked: "Reservó",
+  expired: "Vencida",
+  cancelled: "Cancelada",
+};
+
+const statusVariants: Record<WaitlistStatus, "default" | "secondary" | "outline" | "destructive"> = {
+  waiting: "outline",
+  offered: "default",
+  booked: "secondary",
+  expired: "secondary",
+  cancelled: "destructive",
+};
+
+const filters: { value: WaitlistStatus | "all"; label: string }[] = [
+  { value: "waiting", label: "Esperando" },
+  { value: "offered", label: "Con lugar ofrecido" },
+  { value: "booked", label: "Reservaron" },
+  { value: "all", label: "Todas" },
+];
+
+// "2026-10-20" is a business-local day: format it without shifting through UTC
+const formatDay = (date: string) =>
+  new Date(`${date}T12:00:00`).toLocaleDateString("es-AR", {
+    weekday: "long",
+    day: "numeric",
+    month: "long",
+  });
+
+const formatWindow = (entry: WaitlistEntry) =>
+  entry.time_window_start && entry.time_window_end
+    ? `${entry.time_window_start.slice(0, 5)} a ${entry.time_window_end.slice(0, 5)}`
+    : "Cualquier horario";
+
+const formatTime = (value: string) =>
+  new Date(value).toLocaleTimeString("es-AR", { hour: "2-digit", minute: "2-digit" });
+
+interface AddToWaitlistDialogProps {
+  businessId: string | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const AddToWaitlistDialog = ({ businessId, open, onOpenChange }: AddToWaitlistDialogProps) => {
+  const { data: customers } = useCustomers(businessId);
+  const { data: employees } = useEmployees(businessId);
+  const { data: services } = useServices(businessId);
+  const addToWaitlist = useAddToWaitlist();
+  const { toast } = useToast();
+
+  const [customerId, setCustomerId] = useState<string | null>(null);
+  const [employeeId, setEmployeeId] = useState(ANY_EMPLOYEE);
+  const [serviceId, setServiceId] = useState<string | null>(null);
+  const [date, setDate] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+
+  useEffect(() => {
+    if (!open) {
+      setCustomerId(null);
+      setEmployeeId(ANY_EMPLOYEE);
+      setServiceId(null);
+      setDate("");
+      setFrom("");
+      setTo("");
+    }
+  }, [open]);
+
+  const activeServices = (services || []).filter((service) => service.is_active);
+  const service = activeServices.find((current) => current.id === serviceId);
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (!customerId || !date) return;
+
+    addToWaitlist.mutate(
+      {
+        business_id: businessId!,
+        customer_id: customerId,
+        employee_id: employeeId === ANY_EMPLOYEE ? null : employeeId,
+        service_id: serviceId,
+        date,
+        time_window_start: from && to ? from : null,
+        time_window_end: from && to ? to : null,
+        ...(service && { duration_minutes: service.duration_minutes }),
+      },
+      {
+        onSuccess: () => onOpenChange(false),
+        onError: (error) =>
+          toast({
+            title: "No se pudo agregar a la lista de espera",
+            description: error.message,
+            variant: "destructive",
+          }),
+      }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Agregar a la lista de espera</DialogTitle>
+            <DialogDescription>Si se cancela un turno que le sirve, le avisamos por WhatsApp</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label>Cliente</Label>
+            <Select value={customerId || undefined} onValueChange={setCustomerId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Seleccionar cliente" />
+              </SelectTrigger>
+              <SelectContent>
+                {(customers || []).map((customer) => (
+                  <SelectItem key={customer.id} value={customer.id}>
+                    {customer.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {activeServices.length > 0 && (
+            <div className="space-y-2">
+              <Label>Servicio</Label>
+              <Select value={serviceId || undefined} onValueChange={setServiceId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Seleccionar servicio" />
+                </SelectTrigger>
+                <SelectContent>
+                  {activeServices.map((current) => (
+                    <SelectItem key={current.id} value={current.id}>
+                      {current.name} ({current.duration_minutes} min)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Profesional</Label>
+            <Select value={employeeId} onValueChange={setEmployeeId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY_EMPLOYEE}>Cualquiera</SelectItem>
+                {(employees || []).map((employee) => (
+                  <SelectItem key={employee.id} value={employee.id}>
+                    {employee.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="waitlist-date">Día</Label>
+            <Input id="waitlist-date" type="date" value={date} onChange={(e) => setDate(e.target.value)} required />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="waitlist-from">Desde (opcional)</Label>
+              <Input id="waitlist-from" type="time" value={from} onChange={(e) => setFrom(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="waitlist-to">Hasta</Label>
+              <Input id="waitlist-to" type="time" value={to} onChange={(e) => setTo(e.target.value)} />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancelar
+            </Button>
+            <Button type="submit" disabled={addToWaitlist.isPending || !customerId || !date}>
+              {addToWaitlist.isPending ? "Guardando..." : "Agregar"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+const Waitlist = () => {
+  const businessId = useBusinessId();
+  const [filter, setFilter] = useState<WaitlistStatus | "all">("waiting");
+  const { data: entries, isLoading } = useWaitlist(businessId, filter === "all" ? undefined : filter);
+  const cancelEntry = useCancelWaitlistEntry();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const { toast } = useToast();
+
+  const handleCancel = (entry: WaitlistEntry) => {
+    cancelEntry.mutate(entry.id, {
+      onError: (error) =>
+        toast({
+          title: "No se pudo quitar de la lista",
+          description: error.message,
+          variant: "destructive",
+        }),
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Lista de espera</h1>
+          <p className="text-muted-foreground">Clientes a los que avisamos cuando se libera un turno</p>
+        </div>
+        <Button onClick={() => setDialogOpen(true)}>
+          <Plus className="h-5 w-5 mr-2" />
+          Agregar
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {filters.map((current) => (
+          <Button
+            key={current.value}
+            size="sm"
+            variant={filter === current.value ? "default" : "outline"}
+            onClick={() => setFilter(current.value)}
+          >
+            {current.label}
+          </Button>
+        ))}
+      </div>
+
+      {isLoading ? (
+        <div className="text-center py-8 text-muted-foreground">Cargando...</div>
+      ) : !entries || entries.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">No hay nadie en la lista de espera</div>
+      ) : (
+        <div className="grid gap-4">
+          {entries.map((entry) => (
+            <Card key={entry.id}>
+              <CardHeader>
+                <div className="flex items-start justify-between">
+                  <div className="flex items-center gap-4">
+                    <div className="bg-primary/10 p-3 rounded-full">
+                      <BellRing className="h-6 w-6 text-primary" />
+                    </div>
+                    <div>
+                      <CardTitle>{entry.customer_name || "Cliente"}</CardTitle>
+                      <CardDescription>{entry.customer_phone}</CardDescription>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge variant={statusVariants[entry.status]}>{statusLabels[entry.status]}</Badge>
+                    {(entry.status === "waiting" || entry.status === "offered") && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleCancel(entry)}
+                        disabled={cancelEntry.isPending}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <div className="grid md:grid-cols-3 gap-4 text-sm">
+                  <div className="flex items-center gap-2">
+                    <Calendar className="h-4 w-4 text-muted-foreground" />
+                    <span className="capitalize">{formatDay(entry.date)}</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Clock className="h-4 w-4 text-muted-foreground" />
+                    <span>
+                      {formatWindow(entry)}
+                      {entry.service_name && ` · ${entry.service_name}`}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <User className="h-4 w-4 text-muted-foreground" />
+                    <span>{entry.employee_name || "Cualquier profesional"}</span>
+                  </div>
+                </div>
+                {entry.status === "offered" && entry.offered_start_time && entry.offer_expires_at && (
+                  <p className="mt-4 text-sm text-muted-foreground">
+                    Se le ofreció el turno de las {formatTime(entry.offered_start_time)}; puede tomarlo hasta
+                    las {formatTime(entry.offer_expires_at)}
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <AddToWaitlistDialog businessId={businessId} open={dialogOpen} onOpenChange={setDialogOpen} />
+    </div>
+  );
+};
+
+export default Waitlist;
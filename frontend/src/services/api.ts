@@ -2,9 +2,25 @@ import type {
   ApiResponse,
   Appointment,
   AppointmentStats,
+  Business,
+  ClassSession,
+  CreateAppointmentSeriesInput,
+  SeriesCreationResult,
+  SeriesScope,
+  SeriesUpdateResult,
+  Conversation,
+  ConversationMessage,
   Customer,
+  CustomerDataExport,
   Employee,
+  MessageStats,
+  MessageThread,
+  Service,
+  TimeSlot,
+  WaitlistEntry,
+  WaitlistStatus,
 } from '@/types';
+import { supabase } from './supabase';
 
 class ApiError extends Error {
   constructor(
@@ -18,11 +34,39 @@ class ApiError extends Error {
 }
 
 async function fetchApi<T>(url: string, options?: RequestInit): Promise<T> {
+  const result = await fetchApiResponse<T>(url, options);
+  return result.data;
+}
+
+/**
+ * Session token and current business of the logged-in user, sent with every request
+ */
+async function getAuthHeaders(): Promise<Record<string, string>> {
+  const headers: Record<string, string> = {};
+  const { data: { session } } = await supabase.auth.getSession();
+
+  if (session?.access_token) {
+    headers.Authorization = `Bearer ${session.access_token}`;
+  }
+
+  const businessId = localStorage.getItem('businessId');
+  if (businessId) {
+    headers['X-Business-Id'] = businessId;
+  }
+
+  return headers;
+}
+
+/**
+ * Like fetchApi but keeps pagination fields (total, hasMore) of the response
+ */
+async function fetchApiResponse<T>(url: string, options?: RequestInit): Promise<ApiResponse<T>> {
   try {
     const response = await fetch(url, {
       ...options,
       headers: {
         'Content-Type': 'application/json',
+        ...(await getAuthHeaders()),
         ...options?.headers,
       },
     });
@@ -36,8 +80,7 @@ async function fetchApi<T>(url: string, options?: RequestInit): Promise<T> {
       );
     }
 
-    const result: ApiResponse<T> = await response.json();
-    return result.data;
+    return (await response.json()) as ApiResponse<T>;
   } catch (error) {
     if (error instanceof ApiError) {
       throw error;
@@ -46,6 +89,17 @@ async function fetchApi<T>(url: string, options?: RequestInit): Promise<T> {
   }
 }
 
+// Businesses API
+export const businessesApi = {
+  getById: (id: string) => fetchApi<Business>(`/api/businesses/${id}`),
+
+  update: (id: string, data: Partial<Business>) =>
+    fetchApi<Business>(`/api/businesses/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    }),
+};
+
 // Appointments API
 export const appointmentsApi = {
   getUpcoming: (businessId: string, limit = 10) =>
@@ -84,6 +138,46 @@ export const appointmentsApi = {
     fetchApi<Appointment>(`/api/appointments/${id}/complete`, {
       method: 'POST',
     }),
+
+  getClasses: (businessId: string, startDate: string, endDate: string) =>
+    fetchApi<ClassSession[]>(
+      `/api/appointments/classes?business_id=${businessId}&start_date=${encodeURIComponent(
+        startDate
+      )}&end_date=${encodeURIComponent(endDate)}`
+    ),
+
+  checkIn: (id: string, checkedIn: boolean) =>
+    fetchApi<Appointment>(`/api/appointments/${id}/check-in`, {
+      method: checkedIn ? 'POST' : 'DELETE',
+    }),
+};
+
+// Appointment series API
+export const appointmentSeriesApi = {
+  create: (data: CreateAppointmentSeriesInput) =>
+    fetchApi<SeriesCreationResult>('/api/appointment-series', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }),
+
+  getOccurrences: (seriesId: string) =>
+    fetchApi<Appointment[]>(`/api/appointment-series/${seriesId}/occurrences`),
+
+  updateOccurrences: (
+    seriesId: string,
+    appointmentId: string,
+    data: { scope: SeriesScope; start_time?: string; end_time?: string; employee_id?: string }
+  ) =>
+    fetchApi<SeriesUpdateResult>(`/api/appointment-series/${seriesId}/occurrences/${appointmentId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    }),
+
+  cancelOccurrences: (seriesId: string, appointmentId: string, scope: SeriesScope) =>
+    fetchApi<Appointment[]>(`/api/appointment-series/${seriesId}/occurrences/${appointmentId}/cancel`, {
+      method: 'POST',
+      body: JSON.stringify({ scope }),
+    }),
 };
 
 // Customers API
@@ -116,6 +210,13 @@ export const customersApi = {
     fetchApi<void>(`/api/customers/${id}`, {
       method: 'DELETE',
     }),
+
+  exportData: (id: string) => fetchApi<CustomerDataExport>(`/api/customers/${id}/export`),
+
+  erase: (id: string) =>
+    fetchApi<Customer>(`/api/customers/${id}/erase`, {
+      method: 'POST',
+    }),
 };
 
 // Employees API
@@ -143,4 +244,112 @@ export const employeesApi = {
     }),
 };
 
+// Services API
+export const servicesApi = {
+  getAll: (businessId: string) =>
+    fetchApi<Service[]>(`/api/services?business_id=${businessId}`),
+
+  create: (data: Partial<Service>) =>
+    fetchApi<Service>('/api/services', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }),
+
+  update: (id: string, data: Partial<Service>) =>
+    fetchApi<Service>(`/api/services/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    }),
+
+  delete: (id: string) =>
+    fetchApi<void>(`/api/services/${id}`, {
+      method: 'DELETE',
+    }),
+
+  getEmployees: (id: string) => fetchApi<Employee[]>(`/api/services/${id}/employees`),
+
+  setEmployees: (id: string, employeeIds: string[]) =>
+    fetchApi<Employee[]>(`/api/services/${id}/employees`, {
+      method: 'PUT',
+      body: JSON.stringify({ employee_ids: employeeIds }),
+    }),
+};
+
+// Waitlist API
+export const waitlistApi = {
+  getAll: (businessId: string, status?: WaitlistStatus) =>
+    fetchApi<WaitlistEntry[]>(
+      `/api/waitlist?business_id=${businessId}${status ? `&status=${status}` : ''}`
+    ),
+
+  create: (data: Partial<WaitlistEntry>) =>
+    fetchApi<WaitlistEntry>('/api/waitlist', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }),
+
+  cancel: (id: string) =>
+    fetchApi<WaitlistEntry>(`/api/waitlist/${id}/cancel`, {
+      method: 'POST',
+    }),
+};
+
+// Availability API
+export const availabilityApi = {
+  getSlots: (businessId: string, employeeId: string, date: string, serviceId?: string) =>
+    fetchApi<TimeSlot[]>(
+      `/api/availability/employee/${employeeId}/slots?business_id=${businessId}&date=${date}${
+        serviceId ? `&service_id=${serviceId}` : ''
+      }`
+    ),
+};
+
+// Messages API (business is sent as X-Business-Id for the request context)
+const businessHeaders = (businessId: string) => ({ 'X-Business-Id': businessId });
+
+export const messagesApi = {
+  getThreads: (businessId: string, limit = 20, offset = 0) =>
+    fetchApiResponse<MessageThread[]>(`/api/messages/threads?limit=${limit}&offset=${offset}`, {
+      headers: businessHeaders(businessId),
+    }),
+
+  getThread: (businessId: string, phone: string, before?: string, limit = 50) =>
+    fetchApiResponse<ConversationMessage[]>(
+      `/api/messages/threads/${encodeURIComponent(phone)}?limit=${limit}${
+        before ? `&before=${encodeURIComponent(before)}` : ''
+      }`,
+      { headers: businessHeaders(businessId) }
+    ),
+
+  markThreadRead: (businessId: string, phone: string) =>
+    fetchApi<{ updated: number }>(`/api/messages/threads/${encodeURIComponent(phone)}/read`, {
+      method: 'POST',
+      headers: businessHeaders(businessId),
+    }),
+
+  reply: (businessId: string, phone: string, body: string) =>
+    fetchApi<{ messageId: string }>(`/api/messages/threads/${encodeURIComponent(phone)}/reply`, {
+      method: 'POST',
+      headers: businessHeaders(businessId),
+      body: JSON.stringify({ body }),
+    }),
+
+  takeOver: (businessId: string, phone: string) =>
+    fetchApi<Conversation>(`/api/messages/threads/${encodeURIComponent(phone)}/takeover`, {
+      method: 'POST',
+      headers: businessHeaders(businessId),
+    }),
+
+  release: (businessId: string, phone: string) =>
+    fetchApi<Conversation>(`/api/messages/threads/${encodeURIComponent(phone)}/release`, {
+      method: 'POST',
+      headers: businessHeaders(businessId),
+    }),
+
+  getStats: (businessId: string) =>
+    fetchApi<MessageStats>('/api/messages/stats', {
+      headers: businessHeaders(businessId),
+    }),
+};
+
 export { ApiError };
@@ -1,12 +1,32 @@
 // Business types
+export interface BookingPolicy {
+  min_notice_minutes: number;
+  max_advance_days: number;
+  buffer_before_minutes: number;
+  buffer_after_minutes: number;
+  slot_step_minutes: number | null; // null = one slot right after the other
+  max_active_bookings: number | null; // null = no limit
+  cancellation_cutoff_hours: number;
+  reminder_offsets_minutes: number[]; // WhatsApp reminders, minutes before the appointment
+  feedback_delay_minutes: number | null; // rating survey after completion; null = off
+  no_show_follow_up_delay_minutes: number | null; // rebooking offer after a no-show; null = off
+}
+
+export interface BusinessSettings {
+  assignment_strategy?: 'least_booked' | 'round_robin' | 'priority';
+  booking_policy?: Partial<BookingPolicy>;
+  [key: string]: any;
+}
+
 export interface Business {
   id: string;
   name: string;
   phone: string;
   email?: string;
   industry?: string;
-  settings?: Record<string, any>;
+  settings?: BusinessSettings;
   plan: string;
+  timezone?: string;
   created_at: string;
   updated_at: string;
 }
@@ -20,11 +40,45 @@ export interface Employee {
   email?: string;
   role?: string;
   is_active: boolean;
+  priority?: number;
+  created_at: string;
+  updated_at: string;
+}
+
+// Service catalog types
+export interface Service {
+  id: string;
+  business_id: string;
+  name: string;
+  description?: string | null;
+  duration_minutes: number;
+  price?: number | null;
+  buffer_minutes: number;
+  capacity: number; // Seats per slot; more than 1 is a group class
+  is_active: boolean;
   created_at: string;
   updated_at: string;
 }
 
+export interface TimeSlot {
+  employee_id: string;
+  start_time: string;
+  end_time: string;
+  available: boolean;
+  seats_left?: number; // Group classes only
+}
+
 // Customer types
+// Whether the customer accepts reminders and other messages the business starts
+export type ConsentStatus = 'opted_in' | 'opted_out';
+export type ConsentSource = 'whatsapp_signup' | 'whatsapp_keyword' | 'erasure';
+
+export interface CustomerConsent {
+  status: ConsentStatus;
+  source: ConsentSource;
+  changed_at: string;
+}
+
 export interface Customer {
   id: string;
   phone: string;
@@ -34,24 +88,142 @@ export interface Customer {
   created_at: string;
   updated_at: string;
   appointmentCount?: number;
+  // Set when the customer's personal data was erased (name, email and phone are anonymized)
+  erased_at?: string | null;
+  // For the business in context; null if the customer never gave or withdrew it
+  consent?: CustomerConsent | null;
+}
+
+// Everything stored about a customer (data-subject access request)
+export interface CustomerDataExport {
+  exported_at: string;
+  customer: Customer;
+  appointments: Appointment[];
+  messages: ConversationMessage[];
+  consents: CustomerConsent[];
 }
 
 // Appointment types
 export type AppointmentStatus = 'pending' | 'confirmed' | 'cancelled' | 'completed' | 'no_show';
 
+// What the customer answered to the WhatsApp reminder
+export type ReminderResponse = 'confirmed' | 'declined';
+
 export interface Appointment {
   id: string;
   business_id: string;
   employee_id: string;
   customer_id: string;
+  service_id?: string | null;
   start_time: string;
   end_time: string;
   status: AppointmentStatus;
   notes?: string;
+  checked_in_at?: string | null;
+  series_id?: string | null;
+  reminder_response?: ReminderResponse | null;
+  reminder_responded_at?: string | null;
   created_at: string;
   updated_at: string;
   customer?: Customer;
   employee?: Employee;
+  service?: Pick<Service, 'id' | 'name' | 'duration_minutes'> | null;
+}
+
+// Recurring appointment types
+export type RecurrenceFrequency = 'weekly' | 'biweekly' | 'monthly';
+export type SeriesScope = 'this' | 'following' | 'all';
+
+export interface AppointmentSeries {
+  id: string;
+  business_id: string;
+  customer_id: string;
+  employee_id: string;
+  service_id?: string | null;
+  frequency: RecurrenceFrequency;
+  start_time: string;
+  end_time: string;
+  until_date?: string | null;
+  occurrence_count?: number | null;
+  notes?: string | null;
+}
+
+export interface CreateAppointmentSeriesInput {
+  business_id: string;
+  employee_id: string;
+  customer_id: string;
+  service_id?: string;
+  start_time: string;
+  end_time: string;
+  frequency: RecurrenceFrequency;
+  until?: string; // yyyy-MM-dd, inclusive
+  count?: number;
+}
+
+// Occurrence left out because its slot was taken
+export interface SkippedOccurrence {
+  appointment_id?: string;
+  start_time: string;
+  end_time: string;
+  reason: string;
+}
+
+export interface SeriesCreationResult {
+  series: AppointmentSeries;
+  created: Appointment[];
+  skipped: SkippedOccurrence[];
+}
+
+export interface SeriesUpdateResult {
+  updated: Appointment[];
+  skipped: SkippedOccurrence[];
+}
+
+// Group class types: the appointments of one professional and service at the same time
+export interface ClassAttendee {
+  appointment_id: string;
+  customer_id: string;
+  customer_name: string | null;
+  customer_phone: string | null;
+  status: AppointmentStatus;
+  checked_in_at: string | null;
+}
+
+export interface ClassSession {
+  service_id: string;
+  service_name: string | null;
+  employee_id: string;
+  employee_name: string | null;
+  start_time: string;
+  end_time: string;
+  capacity: number;
+  seats_left: number;
+  attendees: ClassAttendee[];
+}
+
+// Waitlist types
+export type WaitlistStatus = 'waiting' | 'offered' | 'booked' | 'expired' | 'cancelled';
+
+export interface WaitlistEntry {
+  id: string;
+  business_id: string;
+  customer_id: string;
+  employee_id?: string | null;
+  service_id?: string | null;
+  date: string;
+  time_window_start?: string | null;
+  time_window_end?: string | null;
+  duration_minutes: number;
+  status: WaitlistStatus;
+  offered_start_time?: string | null;
+  offer_expires_at?: string | null;
+  appointment_id?: string | null;
+  customer_name?: string | null;
+  customer_phone?: string | null;
+  employee_name?: string | null;
+  service_name?: string | null;
+  created_at: string;
+  updated_at: string;
 }
 
 // Stats types
@@ -61,11 +233,61 @@ export interface AppointmentStats {
   pendingCount: number;
 }
 
+// WhatsApp message types
+export type MessageDirection = 'inbound' | 'outbound';
+export type MessageStatus = 'received' | 'queued' | 'sent' | 'delivered' | 'read' | 'failed';
+
+export interface ConversationMessage {
+  id: string;
+  business_id: string;
+  customer_id?: string | null;
+  phone: string;
+  direction: MessageDirection;
+  body: string;
+  provider: string;
+  provider_message_id?: string | null;
+  status: MessageStatus;
+  read_at?: string | null;
+  created_at: string;
+}
+
+export interface MessageThread {
+  business_id: string;
+  phone: string;
+  customer_id: string | null;
+  customer_name: string | null;
+  last_message: string;
+  last_direction: MessageDirection;
+  last_message_at: string;
+  unread_count: number;
+  bot_paused: boolean;
+  takeover_requested_at: string | null;
+}
+
+export interface Conversation {
+  id: string;
+  business_id: string;
+  phone: string;
+  bot_paused: boolean;
+  paused_at: string | null;
+  paused_by: string | null;
+  takeover_requested_at: string | null;
+}
+
+export interface MessageStats {
+  unreadCount: number;
+  todayCount: number;
+  weekCount: number;
+  pendingTakeovers: number;
+}
+
 // API Response types
 export interface ApiResponse<T> {
   success: boolean;
   data: T;
   count?: number;
+  total?: number;
+  hasMore?: boolean;
   error?: string;
   message?: string;
 }